@@ -10,7 +10,10 @@ const InitErrorContext = React.createContext<string | null>(null);
 const Dashboard = React.lazy(() => import('./pages/Dashboard').then(m => ({ default: m.Dashboard })));
 const Transactions = React.lazy(() => import('./pages/Transactions').then(m => ({ default: m.Transactions })));
 const Rebalance = React.lazy(() => import('./pages/Rebalance').then(m => ({ default: m.Rebalance })));
+const Pnl = React.lazy(() => import('./pages/Pnl').then(m => ({ default: m.Pnl })));
+const TaxStatement = React.lazy(() => import('./pages/TaxStatement').then(m => ({ default: m.TaxStatement })));
 const Backtest = React.lazy(() => import('./pages/Backtest').then(m => ({ default: m.Backtest })));
+const Planning = React.lazy(() => import('./pages/Planning').then(m => ({ default: m.Planning })));
 const Macro = React.lazy(() => import('./pages/Macro').then(m => ({ default: m.Macro })));
 const Settings = React.lazy(() => import('./pages/Settings').then(m => ({ default: m.Settings })));
 const Data = React.lazy(() => import('./pages/Data').then(m => ({ default: m.Data })));
@@ -102,7 +105,10 @@ const router = createHashRouter(
         { path: '/', element: withSuspense(<Dashboard />) },
         { path: '/transactions', element: withSuspense(<Transactions />) },
         { path: '/rebalance', element: withSuspense(<Rebalance />) },
+        { path: '/pnl', element: withSuspense(<Pnl />) },
+        { path: '/tax-statement', element: withSuspense(<TaxStatement />) },
         { path: '/backtest', element: withSuspense(<Backtest />) },
+        { path: '/planning', element: withSuspense(<Planning />) },
         { path: '/macro', element: withSuspense(<Macro />) },
         { path: '/settings', element: withSuspense(<Settings />) },
         { path: '/data', element: withSuspense(<Data />) },
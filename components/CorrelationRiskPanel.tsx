@@ -0,0 +1,103 @@
+import React from 'react';
+import clsx from 'clsx';
+import { CorrelationRiskResult } from '../services/correlationRisk';
+
+// Orange for positive, blue for negative correlation, opacity by strength
+const cellColor = (value: number) => {
+  const alpha = Math.min(1, Math.abs(value)) * 0.85;
+  return value >= 0 ? `rgba(249, 115, 22, ${alpha})` : `rgba(0, 82, 163, ${alpha})`;
+};
+
+const formatPct = (value: number, decimals = 1) => `${value.toFixed(decimals)}%`;
+
+export const CorrelationRiskPanel: React.FC<{
+  result: CorrelationRiskResult;
+  capitalLabel?: string;
+  // Name rows and columns by label instead of key (keys that are internal ids)
+  byLabel?: boolean;
+}> = ({ result, capitalLabel = '% capitale', byLabel = false }) => {
+  const showValues = result.labels.length <= 12;
+  const names = byLabel ? result.labels : result.keys;
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <div className="overflow-x-auto">
+        <table className="text-[11px] border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th></th>
+              {result.keys.map((key, j) => (
+                <th key={key} className="px-1 py-1 font-semibold text-slate-600 whitespace-nowrap [writing-mode:vertical-rl] rotate-180">
+                  {names[j]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {result.keys.map((rowKey, i) => (
+              <tr key={rowKey}>
+                <th className="pr-2 text-right font-semibold text-slate-600 whitespace-nowrap" title={result.labels[i]}>{names[i]}</th>
+                {result.correlation[i].map((value, j) => (
+                  <td
+                    key={result.keys[j]}
+                    className={clsx('w-9 h-9 text-center font-mono rounded', Math.abs(value) > 0.6 ? 'text-white' : 'text-slate-800')}
+                    style={{ backgroundColor: cellColor(value) }}
+                    title={`${names[i]} / ${names[j]}: ${value.toFixed(2)}`}
+                  >
+                    {showValues ? value.toFixed(2) : ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+            <tr>
+              <th className="px-2 py-2 text-left">Posizione</th>
+              <th className="px-2 py-2 text-right">{capitalLabel}</th>
+              <th className="px-2 py-2 text-right">% rischio</th>
+              <th className="px-2 py-2 text-right">Vol. ann.</th>
+              <th className="px-2 py-2 text-right">Marginale</th>
+              <th className="px-2 py-2 text-right">Contributo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.contributions.map(row => (
+              <tr key={row.key} className="border-t border-slate-200">
+                <td className="px-2 py-1.5">
+                  <div className="font-semibold text-slate-700">{byLabel ? row.label : row.key}</div>
+                  {!byLabel && row.label !== row.key && <div className="text-[10px] text-slate-500 truncate max-w-[200px]">{row.label}</div>}
+                </td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatPct(row.capitalPct)}</td>
+                <td className={clsx('px-2 py-1.5 text-right font-mono font-bold', row.riskPct > row.capitalPct * 1.25 ? 'text-rose-600' : 'text-slate-900')}>
+                  {formatPct(row.riskPct)}
+                </td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatPct(row.volatilityPct)}</td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatPct(row.marginalPct)}</td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatPct(row.contributionPct, 2)}</td>
+              </tr>
+            ))}
+          </tbody>
+          {result.portfolioVolatilityPct !== undefined && (
+            <tfoot>
+              <tr className="border-t-2 border-slate-300 font-bold">
+                <td className="px-2 py-1.5">Portafoglio</td>
+                <td className="px-2 py-1.5 text-right font-mono">100.0%</td>
+                <td className="px-2 py-1.5 text-right font-mono">100.0%</td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatPct(result.portfolioVolatilityPct)}</td>
+                <td></td>
+                <td className="px-2 py-1.5 text-right font-mono">{formatPct(result.portfolioVolatilityPct, 2)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+        {result.excluded.length > 0 && (
+          <div className="text-[11px] text-amber-700 mt-2">Esclusi per storico o FX mancante: {result.excluded.map(item => (byLabel ? item.label : item.key)).join(', ')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
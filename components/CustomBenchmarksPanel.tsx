@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { BacktestImport, BenchmarkRebalanceRule, CustomBenchmark, CustomBenchmarkComponent, Instrument } from '../types';
+import { BENCHMARK_REBALANCE_LABELS, describeCustomBenchmark } from '../services/blendedBenchmark';
+import { deleteCustomBenchmark, listCustomBenchmarks, saveCustomBenchmark } from '../services/customBenchmarkRepository';
+import { getCanonicalTicker } from '../services/financeUtils';
+
+type ComponentForm = { sourceKey: string; weightPct: string };
+
+type BenchmarkForm = {
+  id: number | null;
+  name: string;
+  rebalance: BenchmarkRebalanceRule;
+  components: ComponentForm[];
+};
+
+const emptyForm = (): BenchmarkForm => ({
+  id: null,
+  name: '',
+  rebalance: 'quarterly',
+  components: [{ sourceKey: '', weightPct: '60' }, { sourceKey: '', weightPct: '40' }]
+});
+
+// Select value of a component: app:<ticker> or csv:<importId>
+const toSourceKey = (component: CustomBenchmarkComponent) => (
+  component.source === 'CSV_IMPORT' ? `csv:${component.importId}` : `app:${component.ticker}`
+);
+
+export const CustomBenchmarksPanel: React.FC<{
+  portfolioId: string;
+  instruments: Instrument[];
+  imports: BacktestImport[];
+  onClose: () => void;
+}> = ({ portfolioId, instruments, imports, onClose }) => {
+  const benchmarks = useLiveQuery(() => listCustomBenchmarks(portfolioId), [portfolioId], []);
+  const [form, setForm] = useState<BenchmarkForm | null>(null);
+  const [error, setError] = useState('');
+
+  const appOptions = Array.from(new Map(instruments
+    .map(inst => [getCanonicalTicker(inst), inst] as const)
+    .filter(([ticker]) => Boolean(ticker))).entries())
+    .sort((a, b) => a[0].localeCompare(b[0]));
+
+  const toComponent = (row: ComponentForm): CustomBenchmarkComponent | null => {
+    const weightPct = parseFloat(row.weightPct);
+    if (row.sourceKey.startsWith('csv:')) {
+      const imp = imports.find(item => String(item.id) === row.sourceKey.slice(4));
+      if (!imp) return null;
+      return { source: 'CSV_IMPORT', ticker: imp.ticker, name: imp.name, importId: imp.id, currency: imp.currency, weightPct };
+    }
+    if (row.sourceKey.startsWith('app:')) {
+      const ticker = row.sourceKey.slice(4);
+      const inst = instruments.find(item => getCanonicalTicker(item) === ticker);
+      return { source: 'APP_DB', ticker, name: inst?.name, currency: inst?.currency, weightPct };
+    }
+    return null;
+  };
+
+  const openForm = (benchmark?: CustomBenchmark) => {
+    setError('');
+    if (!benchmark) {
+      setForm(emptyForm());
+      return;
+    }
+    setForm({
+      id: benchmark.id ?? null,
+      name: benchmark.name,
+      rebalance: benchmark.rebalance,
+      components: benchmark.components.map(c => ({ sourceKey: toSourceKey(c), weightPct: String(c.weightPct) }))
+    });
+  };
+
+  const updateComponent = (index: number, patch: Partial<ComponentForm>) => {
+    setForm(prev => prev && ({
+      ...prev,
+      components: prev.components.map((row, i) => (i === index ? { ...row, ...patch } : row))
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setError('');
+    const components = form.components.map(toComponent);
+    if (components.some(c => !c)) {
+      setError('Seleziona la serie di ogni componente');
+      return;
+    }
+    try {
+      await saveCustomBenchmark({
+        id: form.id,
+        portfolioId,
+        benchmark: { name: form.name, rebalance: form.rebalance, components: components as CustomBenchmarkComponent[] }
+      });
+      setForm(null);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    }
+  };
+
+  const handleDelete = async (benchmark: CustomBenchmark) => {
+    if (!benchmark.id || !confirm(`Eliminare il benchmark "${benchmark.name}"?`)) return;
+    await deleteCustomBenchmark(benchmark.id);
+  };
+
+  const weightTotal = form ? form.components.reduce((sum, row) => sum + (parseFloat(row.weightPct) || 0), 0) : 0;
+
+  return (
+    <div className="ui-panel-subtle p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-slate-700">Benchmark personalizzati</div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => openForm()} className="ui-btn-ghost px-2 py-1 text-xs">Nuovo benchmark</button>
+          <button type="button" onClick={onClose} className="ui-btn-ghost px-2 py-1 text-xs">Chiudi</button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="ui-panel-subtle border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">{error}</div>
+      )}
+
+      {form && (
+        <div className="ui-panel-subtle p-3 space-y-3 text-xs">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2">
+              <label className="font-semibold text-slate-600">Nome</label>
+              <input className="ui-input mt-1" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="60/40 azioni globali / obbligazioni CHF" />
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Ribilanciamento</label>
+              <select className="ui-input mt-1" value={form.rebalance} onChange={e => setForm({ ...form, rebalance: e.target.value as BenchmarkRebalanceRule })}>
+                {(Object.keys(BENCHMARK_REBALANCE_LABELS) as BenchmarkRebalanceRule[]).map(key => (
+                  <option key={key} value={key}>{BENCHMARK_REBALANCE_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {form.components.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select className="ui-input flex-1" value={row.sourceKey} onChange={e => updateComponent(index, { sourceKey: e.target.value })}>
+                  <option value="">Seleziona serie...</option>
+                  <optgroup label="Strumenti">
+                    {appOptions.map(([ticker, inst]) => (
+                      <option key={ticker} value={`app:${ticker}`}>{ticker} - {inst.name}</option>
+                    ))}
+                  </optgroup>
+                  {imports.length > 0 && (
+                    <optgroup label="Serie CSV importate">
+                      {imports.map(imp => (
+                        <option key={imp.id} value={`csv:${imp.id}`}>{imp.ticker} - {imp.name} ({imp.currency})</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  className="ui-input w-24 text-right"
+                  value={row.weightPct}
+                  onChange={e => updateComponent(index, { weightPct: e.target.value })}
+                />
+                <span className="text-slate-500">%</span>
+                <button
+                  type="button"
+                  className="text-[11px] text-rose-500 hover:text-rose-700 disabled:opacity-40"
+                  disabled={form.components.length <= 1}
+                  onClick={() => setForm({ ...form, components: form.components.filter((_, i) => i !== index) })}
+                >
+                  Rimuovi
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                className="ui-btn-ghost px-2 py-1 text-xs"
+                onClick={() => setForm({ ...form, components: [...form.components, { sourceKey: '', weightPct: '' }] })}
+              >
+                Aggiungi componente
+              </button>
+              <span className={Math.abs(weightTotal - 100) > 0.01 ? 'text-amber-700 font-semibold' : 'text-slate-500'}>
+                Totale {weightTotal.toFixed(1)}%{Math.abs(weightTotal - 100) > 0.01 ? ' (i pesi vengono normalizzati)' : ''}
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button type="button" className="ui-btn-primary" onClick={handleSave}>Salva benchmark</button>
+            <button type="button" className="ui-btn-ghost px-3 py-1.5" onClick={() => setForm(null)}>Annulla</button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+            <tr>
+              <th className="px-2 py-1 text-left">Nome</th>
+              <th className="px-2 py-1 text-left">Composizione</th>
+              <th className="px-2 py-1 text-left">Ribilanciamento</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {(benchmarks || []).map(benchmark => (
+              <tr key={benchmark.id} className="border-t border-slate-200">
+                <td className="px-2 py-1 font-semibold">{benchmark.name}</td>
+                <td className="px-2 py-1">{describeCustomBenchmark(benchmark)}</td>
+                <td className="px-2 py-1">{BENCHMARK_REBALANCE_LABELS[benchmark.rebalance]}</td>
+                <td className="px-2 py-1 text-right whitespace-nowrap">
+                  <button type="button" className="text-[11px] text-slate-500 hover:text-primary mr-2" onClick={() => openForm(benchmark)}>Modifica</button>
+                  <button type="button" className="text-[11px] text-rose-500 hover:text-rose-700" onClick={() => handleDelete(benchmark)}>Elimina</button>
+                </td>
+              </tr>
+            ))}
+            {(benchmarks || []).length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-2 py-2 text-center text-slate-400">Nessun benchmark personalizzato</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { Currency } from '../types';
+import { createReturnSampler, MonteCarloReturnModel, ReturnAssumptions } from '../services/monteCarlo';
+import { DecumulationSummary, runDecumulation, WITHDRAWAL_STRATEGY_LABELS, WithdrawalStrategy } from '../services/decumulation';
+import { buildDecumulationCsv, downloadCsv } from '../services/csvExport';
+
+const formatAmount = (value: number | undefined, currency: Currency | string) => {
+  if (value === undefined || !Number.isFinite(value)) return '—';
+  return `${currency} ${value.toLocaleString('it-CH', { maximumFractionDigits: 0 })}`;
+};
+
+const parseNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+type SourceKind = DecumulationSummary['kind'];
+
+export const DecumulationPanel: React.FC<{
+  baseCurrency: Currency;
+  currentNav: number;
+  assumptions: ReturnAssumptions | null;
+  expectedReturnPct: number;
+  volatilityPct: number;
+  inflationPct: number;
+  model: MonteCarloReturnModel;
+  paths: number;
+}> = ({ baseCurrency, currentNav, assumptions, expectedReturnPct, volatilityPct, inflationPct, model, paths }) => {
+  const [startValue, setStartValue] = useState('');
+  const [years, setYears] = useState('30');
+  const [strategy, setStrategy] = useState<WithdrawalStrategy>('inflationIndexed');
+  const [withdrawalRate, setWithdrawalRate] = useState('4');
+  const [guardrailBand, setGuardrailBand] = useState('20');
+  const [guardrailAdjustment, setGuardrailAdjustment] = useState('10');
+  const [sourceKind, setSourceKind] = useState<SourceKind>('montecarlo');
+  const [summary, setSummary] = useState<DecumulationSummary | null>(null);
+
+  useEffect(() => {
+    if (startValue === '' && currentNav > 0) setStartValue(String(Math.round(currentNav)));
+  }, [currentNav, startValue]);
+
+  const handleRun = () => {
+    const params = {
+      startValue: parseNumber(startValue),
+      years: Math.max(1, parseNumber(years)),
+      strategy,
+      withdrawalRatePct: parseNumber(withdrawalRate),
+      inflationPct,
+      guardrailBandPct: parseNumber(guardrailBand),
+      guardrailAdjustmentPct: parseNumber(guardrailAdjustment)
+    };
+    setSummary(sourceKind === 'historical'
+      ? runDecumulation(params, {
+        kind: 'historical',
+        monthlyReturns: assumptions?.monthlyReturns || [],
+        returnDates: assumptions?.returnDates || []
+      })
+      : runDecumulation(params, {
+        kind: 'montecarlo',
+        sampler: createReturnSampler({ model, expectedReturnPct, volatilityPct, historicalMonthlyReturns: assumptions?.monthlyReturns }),
+        paths
+      }));
+  };
+
+  const handleExport = () => {
+    if (!summary) return;
+    downloadCsv(`decumulo_${strategy}_${years}y.csv`, buildDecumulationCsv(summary, baseCurrency));
+  };
+
+  const worst = summary?.worst;
+
+  return (
+    <div className="ui-panel p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+          <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Decumulo
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!summary?.annual.length}
+            className="ui-btn-secondary px-3 py-1.5 rounded-xl text-xs font-bold flex items-center gap-1"
+          >
+            <span className="material-symbols-outlined text-[16px]">download</span>
+            Esporta CSV
+          </button>
+          <button type="button" onClick={handleRun} className="ui-btn-primary px-3 py-1.5 rounded-xl text-xs font-bold flex items-center gap-1">
+            <span className="material-symbols-outlined text-[16px]">play_arrow</span>
+            Simula prelievi
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div className="col-span-2">
+          <label className="text-[11px] font-semibold text-slate-600">Capitale iniziale ({baseCurrency})</label>
+          <input type="number" step="any" className="ui-input mt-1 text-right" value={startValue} onChange={e => setStartValue(e.target.value)} />
+        </div>
+        <div>
+          <label className="text-[11px] font-semibold text-slate-600">Orizzonte (anni)</label>
+          <input type="number" step="1" className="ui-input mt-1 text-right" value={years} onChange={e => setYears(e.target.value)} />
+        </div>
+        <div>
+          <label className="text-[11px] font-semibold text-slate-600">
+            {strategy === 'percentage' ? 'Prelievo annuo (% del valore)' : 'Prelievo iniziale (% del capitale)'}
+          </label>
+          <input type="number" step="any" className="ui-input mt-1 text-right" value={withdrawalRate} onChange={e => setWithdrawalRate(e.target.value)} />
+        </div>
+        <div className="col-span-2">
+          <label className="text-[11px] font-semibold text-slate-600">Strategia</label>
+          <select className="ui-input mt-1" value={strategy} onChange={e => setStrategy(e.target.value as WithdrawalStrategy)}>
+            {(Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategy[]).map(key => (
+              <option key={key} value={key}>{WITHDRAWAL_STRATEGY_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        {strategy === 'guardrails' && (
+          <>
+            <div>
+              <label className="text-[11px] font-semibold text-slate-600">Banda guardrail (%)</label>
+              <input type="number" step="any" className="ui-input mt-1 text-right" value={guardrailBand} onChange={e => setGuardrailBand(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-[11px] font-semibold text-slate-600">Correzione (%)</label>
+              <input type="number" step="any" className="ui-input mt-1 text-right" value={guardrailAdjustment} onChange={e => setGuardrailAdjustment(e.target.value)} />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-semibold text-slate-600">Rendimenti</span>
+        {([
+          { key: 'montecarlo', label: 'Percorsi Monte Carlo' },
+          { key: 'historical', label: 'Finestre storiche' }
+        ] as const).map(option => (
+          <button
+            key={option.key}
+            type="button"
+            onClick={() => setSourceKind(option.key)}
+            className={clsx('px-2 py-1 rounded-md border', sourceKind === option.key ? 'border-[#0052a3] text-[#0052a3] font-bold' : 'border-slate-200 text-slate-500')}
+          >
+            {option.label}
+          </button>
+        ))}
+        <span className="text-[11px] text-slate-500">
+          {sourceKind === 'historical'
+            ? `Serie mensile della fonte scelta nelle ipotesi (${assumptions?.monthlyReturns.length ?? 0} mesi), una finestra per ogni mese di partenza`
+            : `${paths.toLocaleString('it-CH')} percorsi con le ipotesi di mercato · inflazione ${inflationPct.toFixed(2)}%`}
+        </span>
+      </div>
+
+      {summary?.warnings.map(warning => (
+        <div key={warning} className="text-[11px] text-amber-700">{warning}</div>
+      ))}
+
+      {summary && summary.pathCount > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Tasso di successo', value: `${summary.successRatePct.toFixed(1)}%`, hint: `${summary.pathCount.toLocaleString('it-CH')} ${summary.kind === 'historical' ? 'finestre' : 'percorsi'}` },
+              {
+                label: 'Caso peggiore',
+                value: worst?.depletedYear ? `Esaurito all'anno ${worst.depletedYear}` : formatAmount(worst?.terminalReal, baseCurrency),
+                hint: worst ? `${worst.label} · prelevati ${formatAmount(worst.totalWithdrawn, baseCurrency)}` : ''
+              },
+              { label: 'Patrimonio finale mediano', value: formatAmount(summary.terminal.p50, baseCurrency), hint: `Reale ${formatAmount(summary.terminalReal.p50, baseCurrency)}` },
+              { label: 'Patrimonio finale P10', value: formatAmount(summary.terminal.p10, baseCurrency), hint: `Reale ${formatAmount(summary.terminalReal.p10, baseCurrency)}` }
+            ].map(card => (
+              <div key={card.label} className="ui-panel-subtle p-3">
+                <div className="text-[11px] uppercase font-bold text-slate-500">{card.label}</div>
+                <div className="text-base font-bold mt-1 text-slate-900">{card.value}</div>
+                <div className="text-[11px] text-slate-500 mt-0.5">{card.hint}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs min-w-[980px]">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Anno</th>
+                  <th className="px-3 py-2 text-right">Prelievo mediano</th>
+                  <th className="px-3 py-2 text-right">Reale mediano</th>
+                  <th className="px-3 py-2 text-right">Reale P10</th>
+                  <th className="px-3 py-2 text-right">Patrimonio P10</th>
+                  <th className="px-3 py-2 text-right">Mediana</th>
+                  <th className="px-3 py-2 text-right">P90</th>
+                  <th className="px-3 py-2 text-right">Solvibili</th>
+                  <th className="px-3 py-2 text-right border-l border-slate-200">Peggiore: prelievo</th>
+                  <th className="px-3 py-2 text-right">Rendimento</th>
+                  <th className="px-3 py-2 text-right">Patrimonio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.annual.map((row, idx) => {
+                  const worstRow = worst?.rows[idx];
+                  return (
+                    <tr key={row.year} className="border-t border-borderSoft">
+                      <td className="px-3 py-1.5 text-slate-700">{row.year}</td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.withdrawalP50, baseCurrency)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.withdrawalRealP50, baseCurrency)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.withdrawalRealP10, baseCurrency)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.value.p10, baseCurrency)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.value.p50, baseCurrency)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.value.p90, baseCurrency)}</td>
+                      <td className={clsx('px-3 py-1.5 text-right font-semibold', row.solventPct < 90 ? 'text-rose-600' : 'text-slate-700')}>
+                        {row.solventPct.toFixed(1)}%
+                      </td>
+                      <td className="px-3 py-1.5 text-right border-l border-slate-200">{formatAmount(worstRow?.withdrawal, baseCurrency)}</td>
+                      <td className={clsx('px-3 py-1.5 text-right', (worstRow?.returnPct ?? 0) < 0 ? 'text-rose-600' : 'text-emerald-600')}>
+                        {worstRow ? `${worstRow.returnPct.toFixed(1)}%` : '—'}
+                      </td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(worstRow?.endValue, baseCurrency)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { db } from '../db';
+import { Currency, Instrument } from '../types';
+import { computeAlternativeTer, FEE_DRAG_HORIZONS, projectFeeDrag } from '../services/feeDrag';
+
+const formatAmount = (value: number, currency: Currency) => (
+  Number.isFinite(value) ? `${currency} ${value.toLocaleString('it-CH', { maximumFractionDigits: 0 })}` : '—'
+);
+
+const parseNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const FeeDragPanel: React.FC<{
+  positions: Array<{ ticker: string; name?: string; valueBase: number }>;
+  instruments: Instrument[];
+  tradeFeePct: number | null;
+  currency: Currency;
+  onClose: () => void;
+}> = ({ positions, instruments, tradeFeePct, currency, onClose }) => {
+  const [grossReturn, setGrossReturn] = useState('5');
+  const [annualContribution, setAnnualContribution] = useState('0');
+  const [tradeFee, setTradeFee] = useState('');
+  const [replacements, setReplacements] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (tradeFee === '' && tradeFeePct !== null) setTradeFee(tradeFeePct.toFixed(2));
+  }, [tradeFee, tradeFeePct]);
+
+  const rows = useMemo(() => positions
+    .map(position => {
+      const instrument = instruments.find(item => item.ticker === position.ticker);
+      return { ...position, instrument, terPct: instrument?.terPct };
+    })
+    .filter(row => row.valueBase > 0 && typeof row.terPct === 'number')
+    .sort((a, b) => b.valueBase - a.valueBase), [positions, instruments]);
+
+  // Unsaved edits first, then the alternative stored on the instrument
+  const replacementInputs = useMemo(() => Object.fromEntries(rows.map(row => [
+    row.ticker,
+    replacements[row.ticker] ?? (row.instrument?.switchTerPct !== undefined ? String(row.instrument.switchTerPct) : '')
+  ])), [rows, replacements]);
+
+  const ter = useMemo(() => computeAlternativeTer(
+    rows.map(row => ({ ticker: row.ticker, valueBase: row.valueBase, terPct: row.terPct })),
+    Object.fromEntries(Object.entries(replacementInputs).map(([ticker, value]) => [
+      ticker,
+      value.trim() === '' ? undefined : parseNumber(value)
+    ]))
+  ), [rows, replacementInputs]);
+
+  const feePct = parseNumber(tradeFee);
+  const projection = useMemo(() => projectFeeDrag({
+    startValue: ter.coveredValueBase,
+    years: Math.max(...FEE_DRAG_HORIZONS),
+    grossReturnPct: parseNumber(grossReturn),
+    annualContribution: parseNumber(annualContribution),
+    currentTerPct: ter.currentTerPct,
+    alternativeTerPct: ter.alternativeTerPct,
+    tradeFeePct: feePct,
+    switchCost: ter.switchedValueBase * 2 * feePct / 100
+  }), [ter, grossReturn, annualContribution, feePct]);
+
+  const chartData = projection.points.map(point => ({
+    year: point.year,
+    advantage: point.difference,
+    drag: point.noCost - point.current
+  }));
+
+  const handleSaveReplacement = async (instrument: Instrument | undefined, value: string) => {
+    if (!instrument?.id) return;
+    const trimmed = value.trim();
+    const parsed = Number(trimmed);
+    await db.instruments.update(instrument.id, {
+      switchTerPct: trimmed && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+    });
+  };
+
+  return (
+    <div className="ui-panel p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+          <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Proiezione costi a lungo termine
+        </h3>
+        <button type="button" onClick={onClose} className="ui-btn-ghost px-2 py-1 text-xs">Chiudi</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+        <div>
+          <label className="font-semibold text-slate-600">Rendimento lordo atteso (% annuo)</label>
+          <input type="number" step="any" className="ui-input mt-1 text-right" value={grossReturn} onChange={e => setGrossReturn(e.target.value)} />
+        </div>
+        <div>
+          <label className="font-semibold text-slate-600">Versamento annuo ({currency})</label>
+          <input type="number" step="any" className="ui-input mt-1 text-right" value={annualContribution} onChange={e => setAnnualContribution(e.target.value)} />
+        </div>
+        <div>
+          <label className="font-semibold text-slate-600">Commissione tipica per operazione (%)</label>
+          <input type="number" step="any" className="ui-input mt-1 text-right" value={tradeFee} onChange={e => setTradeFee(e.target.value)} />
+          <div className="text-[11px] text-slate-500 mt-1">
+            {tradeFeePct !== null ? `Media storica ${tradeFeePct.toFixed(2)}% per operazione` : 'Nessuna operazione con commissioni registrate'}
+          </div>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-xs text-slate-500">Nessuna posizione con TER: impostalo negli strumenti per proiettare i costi.</div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Strumento</th>
+                  <th className="px-3 py-2 text-right">Valore</th>
+                  <th className="px-3 py-2 text-right">TER</th>
+                  <th className="px-3 py-2 text-right">TER alternativa</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const value = replacementInputs[row.ticker];
+                  return (
+                    <tr key={row.ticker} className="border-t border-borderSoft">
+                      <td className="px-3 py-1.5">
+                        <div className="font-semibold text-slate-700">{row.ticker}</div>
+                        <div className="text-[11px] text-slate-500">{row.name}</div>
+                      </td>
+                      <td className="px-3 py-1.5 text-right">{formatAmount(row.valueBase, currency)}</td>
+                      <td className="px-3 py-1.5 text-right">{(row.terPct as number).toFixed(2)}%</td>
+                      <td className="px-3 py-1.5 text-right">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="invariato"
+                          className="ui-input-sm w-24 text-right font-mono"
+                          value={value}
+                          onChange={e => setReplacements(prev => ({ ...prev, [row.ticker]: e.target.value }))}
+                          onBlur={e => handleSaveReplacement(row.instrument, e.target.value)}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="ui-panel-subtle p-3">
+              <div className="text-[11px] uppercase font-bold text-slate-500">TER medio</div>
+              <div className="text-base font-bold mt-1 text-slate-900">
+                {ter.currentTerPct.toFixed(2)}% → {ter.alternativeTerPct.toFixed(2)}%
+              </div>
+              <div className="text-[11px] text-slate-500 mt-0.5">
+                {projection.breakEvenYear === null
+                  ? 'Lo switch non si ripaga nel periodo'
+                  : projection.breakEvenYear === 0 ? 'Nessun costo di switch' : `Costo switch recuperato in ${projection.breakEvenYear} anni`}
+              </div>
+            </div>
+            {FEE_DRAG_HORIZONS.map(horizon => {
+              const point = projection.points[horizon];
+              return (
+                <div key={horizon} className="ui-panel-subtle p-3">
+                  <div className="text-[11px] uppercase font-bold text-slate-500">A {horizon} anni</div>
+                  <div className={point.difference >= 0 ? 'text-base font-bold mt-1 text-emerald-600' : 'text-base font-bold mt-1 text-rose-600'}>
+                    {point.difference >= 0 ? '+' : ''}{formatAmount(point.difference, currency)}
+                  </div>
+                  <div className="text-[11px] text-slate-500 mt-0.5">
+                    Costi attuali vs zero costi: {formatAmount(point.noCost - point.current, currency)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.3} />
+                <XAxis dataKey="year" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} unit=" a" />
+                <YAxis
+                  tick={{ fontSize: 11, fill: '#64748b' }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={70}
+                  tickFormatter={value => Number(value).toLocaleString('it-CH', { notation: 'compact', maximumFractionDigits: 1 })}
+                />
+                <Tooltip formatter={(value: number) => formatAmount(value, currency)} labelFormatter={label => `Anno ${label}`} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Area type="monotone" dataKey="advantage" name="Vantaggio alternativa" stroke="#0052a3" fill="#0052a3" fillOpacity={0.2} isAnimationActive={false} />
+                <Line type="monotone" dataKey="drag" name="Costi attuali vs zero costi" stroke="#f97316" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-[11px] text-slate-500">
+            Solo posizioni con TER noto. Lo switch paga la commissione due volte (vendita e acquisto); le imposte sulle plusvalenze sono considerate nella pagina Ribilanciamento.
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -97,14 +97,14 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       <div className="app-overlay" />
       <div className="app-content">
         <div
-          className="app-shell flex text-textPrimary font-sans overflow-hidden"
+          className="app-shell flex text-textPrimary font-sans overflow-hidden print:overflow-visible"
           style={{ background: 'transparent', ['--app-header-h' as any]: '80px' }}
         >
 
       {/* Sidebar - Desktop & Mobile Drawer */}
       <aside
         className={clsx(
-          "fixed inset-y-0 left-0 z-20 bg-slate-900/55 backdrop-blur-xl border-r border-white/10 transition-all duration-300 ease-in-out flex flex-col shadow-2xl",
+          "fixed inset-y-0 left-0 z-20 bg-slate-900/55 backdrop-blur-xl border-r border-white/10 transition-all duration-300 ease-in-out flex flex-col shadow-2xl print:hidden",
           isSidebarOpen ? "w-64 translate-x-0" : "w-20 -translate-x-full md:translate-x-0 md:w-20"
         )}
       >
@@ -121,7 +121,10 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
           <NavItem to="/" icon="dashboard" label="Dashboard" collapsed={!isSidebarOpen} />
           <NavItem to="/transactions" icon="receipt_long" label="Transazioni" collapsed={!isSidebarOpen} />
           <NavItem to="/rebalance" icon="balance" label="Ribilanciamento" collapsed={!isSidebarOpen} />
+          <NavItem to="/pnl" icon="account_balance_wallet" label="Profitti e perdite" collapsed={!isSidebarOpen} />
+          <NavItem to="/tax-statement" icon="receipt" label="Dichiarazione fiscale" collapsed={!isSidebarOpen} />
           <NavItem to="/backtest" icon="query_stats" label="Backtest" collapsed={!isSidebarOpen} />
+          <NavItem to="/planning" icon="insights" label="Pianificazione" collapsed={!isSidebarOpen} />
           <NavItem to="/macro" icon="speed" label="Macro Indicator" collapsed={!isSidebarOpen} />
           <div className="my-4 border-t border-borderSoft mx-6"></div>
           <NavItem to="/settings" icon="settings" label="Impostazioni" collapsed={!isSidebarOpen} />
@@ -137,7 +140,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 
       {/* Main Content Wrapper */}
       <div className={clsx(
-        "flex-1 flex flex-col transition-all duration-300 h-full relative",
+        "flex-1 flex flex-col transition-all duration-300 h-full relative print:ml-0",
         isSidebarOpen ? "md:ml-64" : "md:ml-20"
       )}>
 
@@ -146,7 +149,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         <div className="absolute bottom-[-20%] left-[-10%] w-[400px] h-[400px] bg-secondary/10 rounded-full blur-[100px] pointer-events-none" />
 
         {/* Top App Bar */}
-        <header className="h-20 bg-slate-900/70 backdrop-blur-xl border-b border-white/10 flex items-center justify-between px-6 sticky top-0 z-10 shadow-md">
+        <header className="h-20 bg-slate-900/70 backdrop-blur-xl border-b border-white/10 flex items-center justify-between px-6 sticky top-0 z-10 shadow-md print:hidden">
           <button
             onClick={() => setSidebarOpen(!isSidebarOpen)}
             className="p-2 -ml-2 rounded-full hover:bg-white/10 text-textMuted focus:outline-none transition-colors"
@@ -190,7 +193,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         </header>
 
         {/* Page Content */}
-        <main ref={mainRef} className="app-main flex-1 overflow-y-auto p-4 md:p-8 relative z-0 hide-scrollbar">
+        <main ref={mainRef} className="app-main flex-1 overflow-y-auto p-4 md:p-8 relative z-0 hide-scrollbar print:overflow-visible print:p-0">
           <div className="max-w-7xl mx-auto w-full animate-fade-in">
             {children}
           </div>
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { Currency, EtfBreakdown, Instrument, LookThroughDimension } from '../types';
+import {
+  computeLookThroughExposure,
+  ETF_BREAKDOWN_STALE_DAYS,
+  LOOK_THROUGH_DIMENSION_LABELS,
+  LOOK_THROUGH_UNCOVERED
+} from '../services/etfLookThrough';
+
+const MAX_ROWS = 12;
+
+export const LookThroughPanel: React.FC<{
+  positions: Array<{ ticker: string; valueBase: number }>;
+  instruments: Instrument[];
+  breakdowns: EtfBreakdown[];
+  referenceDate: string;
+  currency: Currency;
+}> = ({ positions, instruments, breakdowns, referenceDate, currency }) => {
+  const [dimension, setDimension] = useState<LookThroughDimension>('country');
+
+  const exposure = useMemo(() => computeLookThroughExposure({
+    positions,
+    instruments,
+    breakdowns,
+    dimension,
+    referenceDate
+  }), [positions, instruments, breakdowns, dimension, referenceDate]);
+
+  // Long tails (hundreds of countries or currencies) collapse into one row
+  const rows = useMemo(() => {
+    const covered = exposure.rows.filter(row => row.key !== LOOK_THROUGH_UNCOVERED);
+    const uncovered = exposure.rows.find(row => row.key === LOOK_THROUGH_UNCOVERED);
+    const visible = covered.slice(0, MAX_ROWS);
+    const rest = covered.slice(MAX_ROWS);
+    if (rest.length) {
+      visible.push({
+        key: 'REST',
+        label: `Altri (${rest.length})`,
+        value: rest.reduce((sum, row) => sum + row.value, 0),
+        pct: rest.reduce((sum, row) => sum + row.pct, 0)
+      });
+    }
+    return uncovered ? [...visible, uncovered] : visible;
+  }, [exposure]);
+
+  if (!breakdowns.length || exposure.totalValue <= 0) return null;
+
+  const maxPct = Math.max(...rows.map(row => row.pct), 1);
+  const coveragePct = exposure.totalValue > 0 ? (exposure.lookThroughValue / exposure.totalValue) * 100 : 0;
+
+  return (
+    <div className="ui-panel p-6 flex flex-col gap-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+            <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Esposizione look-through
+          </h3>
+          <p className="text-xs text-slate-600 mt-1">
+            Valori in {currency} ripartiti sui titoli sottostanti degli ETF · {coveragePct.toFixed(1)}% del portafoglio coperto da composizioni importate
+          </p>
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          {(Object.keys(LOOK_THROUGH_DIMENSION_LABELS) as LookThroughDimension[]).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setDimension(key)}
+              className={clsx('px-2 py-1 rounded-md border', dimension === key ? 'border-[#0052a3] text-[#0052a3] font-bold' : 'border-slate-200 text-slate-500')}
+            >
+              {LOOK_THROUGH_DIMENSION_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {exposure.stale.length > 0 && (
+        <div className="text-xs bg-amber-50 border border-amber-100 rounded-lg px-3 py-2 text-amber-800">
+          Composizioni più vecchie di {ETF_BREAKDOWN_STALE_DAYS} giorni:{' '}
+          {exposure.stale.map(item => `${item.ticker} (al ${item.asOfDate})`).join(', ')}. Importa un file aggiornato in Settings.
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {rows.map(row => (
+          <div key={row.key} className="grid grid-cols-[minmax(0,10rem)_1fr_auto] items-center gap-3 text-sm">
+            <span className={clsx('truncate', row.key === LOOK_THROUGH_UNCOVERED ? 'text-amber-800 font-semibold' : 'text-slate-700 font-medium')}>{row.label}</span>
+            <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+              <div
+                className={clsx('h-full rounded-full', row.key === LOOK_THROUGH_UNCOVERED ? 'bg-amber-300' : 'bg-[#0052a3]')}
+                style={{ width: `${(row.pct / maxPct) * 100}%` }}
+              />
+            </div>
+            <div className="text-right leading-tight min-w-[6.5rem]">
+              <span className="font-bold text-slate-900">{row.pct.toFixed(1)}%</span>
+              <span className="text-[11px] text-slate-600 ml-2">{currency} {Math.round(row.value).toLocaleString()}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {exposure.missingFunds.length > 0 && (
+        <div className="text-[11px] text-slate-600">
+          ETF senza composizione per {LOOK_THROUGH_DIMENSION_LABELS[dimension].toLowerCase()} (in "Non coperto"): {exposure.missingFunds.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import clsx from 'clsx';
+import { MonthlyReturnYear, TrailingReturn } from '../services/periodReturns';
+
+export const MONTH_LABELS = ['Gen', 'Feb', 'Mar', 'Apr', 'Mag', 'Giu', 'Lug', 'Ago', 'Set', 'Ott', 'Nov', 'Dic'];
+
+// Blue for gains, orange for losses; full strength at +/-6% in a month
+export const returnCellColor = (value: number | null, fullScalePct = 6) => {
+  if (value === null || !Number.isFinite(value)) return 'transparent';
+  const alpha = Math.min(1, Math.abs(value) / fullScalePct) * 0.75;
+  return value >= 0 ? `rgba(0, 82, 163, ${alpha})` : `rgba(249, 115, 22, ${alpha})`;
+};
+
+export const formatReturnCell = (value: number | null, decimals = 1) => (
+  value === null || !Number.isFinite(value) ? '' : `${value >= 0 ? '+' : ''}${value.toFixed(decimals)}`
+);
+
+export const MonthlyReturnsHeatmap: React.FC<{ rows: MonthlyReturnYear[] }> = ({ rows }) => {
+  if (!rows.length) return <div className="text-xs text-slate-500">Storico insufficiente per i rendimenti mensili.</div>;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-[11px] border-separate border-spacing-0.5">
+        <thead>
+          <tr className="text-slate-500 uppercase">
+            <th className="px-2 py-1 text-left">Anno</th>
+            {MONTH_LABELS.map(label => <th key={label} className="px-1 py-1 text-center">{label}</th>)}
+            <th className="px-2 py-1 text-center">Anno</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.year}>
+              <th className="px-2 py-1 text-left font-semibold text-slate-700">{row.year}</th>
+              {row.months.map((value, idx) => (
+                <td
+                  key={idx}
+                  className={clsx('px-1 py-1.5 text-center font-mono rounded', value !== null && Math.abs(value) > 4 ? 'text-white' : 'text-slate-800')}
+                  style={{ backgroundColor: returnCellColor(value) }}
+                >
+                  {formatReturnCell(value)}
+                </td>
+              ))}
+              <td
+                className={clsx('px-2 py-1.5 text-center font-mono font-bold rounded', row.totalPct !== null && Math.abs(row.totalPct) > 15 ? 'text-white' : 'text-slate-900')}
+                style={{ backgroundColor: returnCellColor(row.totalPct, 20) }}
+              >
+                {formatReturnCell(row.totalPct)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const TRAILING_MEASURES: { key: 'twrrPct' | 'mwrrPct' | 'realPct'; label: string }[] = [
+  { key: 'twrrPct', label: 'TWRR' },
+  { key: 'mwrrPct', label: 'MWRR' },
+  { key: 'realPct', label: 'Reale (TWRR)' }
+];
+
+export const TrailingReturnsTable: React.FC<{ rows: TrailingReturn[] }> = ({ rows }) => {
+  if (!rows.length) return <div className="text-xs text-slate-500">Storico insufficiente per i rendimenti per periodo.</div>;
+  const hasReal = rows.some(row => row.realPct !== null);
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+          <tr>
+            <th className="px-2 py-2 text-left"></th>
+            {rows.map(row => (
+              <th key={row.key} className="px-2 py-2 text-right whitespace-nowrap" title={row.startDate ? `Dal ${row.startDate}` : 'Storico insufficiente'}>
+                {row.label}{row.key === 'ITD' && row.annualized ? ' ann.' : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {TRAILING_MEASURES.filter(measure => measure.key !== 'realPct' || hasReal).map(measure => (
+            <tr key={measure.key} className="border-t border-slate-200">
+              <td className="px-2 py-1.5 font-semibold text-slate-700 whitespace-nowrap">{measure.label}</td>
+              {rows.map(row => {
+                const value = row[measure.key];
+                return (
+                  <td
+                    key={row.key}
+                    className={clsx('px-2 py-1.5 text-right font-mono', value === null ? 'text-slate-400' : value >= 0 ? 'text-green-600' : 'text-red-600')}
+                  >
+                    {value === null ? '—' : `${value.toFixed(2)}%`}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
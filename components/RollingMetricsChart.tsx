@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { COLORS } from '../constants';
+import { downsampleSeries } from '../services/chartUtils';
+import { ROLLING_WINDOWS, RollingRow } from '../services/rollingMetrics';
+
+type RollingMetricKey = 'return' | 'volatility' | 'sharpe';
+
+const METRIC_OPTIONS: { key: RollingMetricKey; label: string }[] = [
+  { key: 'return', label: 'Rendimento' },
+  { key: 'volatility', label: 'Volatilità' },
+  { key: 'sharpe', label: 'Sharpe' }
+];
+
+const formatValue = (metric: RollingMetricKey, value: number) => (
+  metric === 'sharpe' ? value.toFixed(2) : `${value.toFixed(2)}%`
+);
+
+export const RollingMetricsChart: React.FC<{
+  rows: RollingRow[];
+  maxPoints?: number;
+  className?: string;
+}> = ({ rows, maxPoints = 600, className = 'h-72' }) => {
+  const [metric, setMetric] = useState<RollingMetricKey>('return');
+  const data = useMemo(() => downsampleSeries(rows, maxPoints), [rows, maxPoints]);
+  const windows = useMemo(
+    () => ROLLING_WINDOWS.filter(windowYears => rows.some(row => row[`${metric}${windowYears}Y`] !== undefined)),
+    [rows, metric]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex ui-panel-subtle p-1 w-fit">
+        {METRIC_OPTIONS.map(option => (
+          <button
+            key={option.key}
+            type="button"
+            onClick={() => setMetric(option.key)}
+            className={clsx(
+              'px-3 py-1.5 rounded-lg text-xs font-bold transition-all',
+              metric === option.key ? 'text-white shadow-md bg-[#0052a3]' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {windows.length === 0 ? (
+        <div className="text-xs text-slate-500">Storico insufficiente: serve almeno un anno di dati.</div>
+      ) : (
+        <div className={clsx(className, 'w-full')}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.3} />
+              <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} minTickGap={40} />
+              <YAxis
+                tick={{ fontSize: 11, fill: '#64748b' }}
+                axisLine={false}
+                tickLine={false}
+                width={50}
+                tickFormatter={(v: number) => (metric === 'sharpe' ? v.toFixed(1) : `${v.toFixed(0)}%`)}
+              />
+              <ReferenceLine y={0} stroke="#94a3b8" />
+              <Tooltip formatter={(value: number, name: string) => [formatValue(metric, value), name]} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {windows.map((windowYears, idx) => (
+                <Line
+                  key={windowYears}
+                  type="monotone"
+                  dataKey={`${metric}${windowYears}Y`}
+                  name={`${windowYears}A`}
+                  stroke={COLORS[idx % COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
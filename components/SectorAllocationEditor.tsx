@@ -0,0 +1,64 @@
+import React from 'react';
+import { SectorKey } from '../types';
+import { getSectorLabel, SECTOR_KEYS } from '../services/sectors';
+
+export type SectorAllocationDraft = Partial<Record<SectorKey, string>>;
+
+export const toSectorAllocationDraft = (alloc?: Partial<Record<SectorKey, number>>): SectorAllocationDraft => (
+  Object.fromEntries(Object.entries(alloc || {}).map(([key, pct]) => [key, String(pct)]))
+);
+
+// Empty or zero entries are dropped; undefined clears the split on save
+export const parseSectorAllocationDraft = (draft: SectorAllocationDraft): Partial<Record<SectorKey, number>> | undefined => {
+  const result: Partial<Record<SectorKey, number>> = {};
+  (Object.entries(draft) as [SectorKey, string][]).forEach(([key, raw]) => {
+    const value = Number(raw.trim().replace(',', '.'));
+    if (raw.trim() && Number.isFinite(value) && value > 0) result[key] = Math.min(100, value);
+  });
+  return Object.keys(result).length ? result : undefined;
+};
+
+export const SectorAllocationEditor: React.FC<{
+  value: SectorAllocationDraft;
+  onChange: (next: SectorAllocationDraft) => void;
+  labelClassName?: string;
+}> = ({ value, onChange, labelClassName = 'block text-xs font-bold text-gray-400 uppercase mb-1.5' }) => {
+  const sum = Object.values(parseSectorAllocationDraft(value) || {}).reduce((s, pct) => s + (pct || 0), 0);
+
+  const normalize = () => {
+    if (sum <= 0) return;
+    const parsed = parseSectorAllocationDraft(value) || {};
+    onChange(Object.fromEntries(Object.entries(parsed).map(([key, pct]) => [key, String(parseFloat(((pct || 0) * 100 / sum).toFixed(2)))])));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className={labelClassName}>Settori % (opzionale)</label>
+        <div className="flex items-center gap-2 text-[11px] mb-1.5">
+          <span className={Math.abs(sum - 100) > 0.5 && sum > 0 ? 'text-amber-700 font-bold' : 'text-slate-500'}>Somma {sum.toFixed(1)}%</span>
+          {sum > 0 && Math.abs(sum - 100) > 0.01 && (
+            <button type="button" onClick={normalize} className="font-bold text-[#0052a3] hover:underline">Normalizza</button>
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {SECTOR_KEYS.map(key => (
+          <label key={key} className="flex items-center justify-between gap-2 text-[11px] text-slate-600">
+            <span className="truncate" title={getSectorLabel(key)}>{getSectorLabel(key)}</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              placeholder="0"
+              value={value[key] ?? ''}
+              onChange={e => onChange({ ...value, [key]: e.target.value })}
+              className="ui-input-sm w-16 text-right font-mono"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
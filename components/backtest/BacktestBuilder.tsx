@@ -7,6 +7,8 @@ import { AllocationStatus } from './AllocationStatus';
 import { BacktestCsvImportPanel } from './BacktestCsvImportPanel';
 import { BacktestImportList } from './BacktestImportList';
 import { deleteBacktestImport } from '../../services/backtestImportRepository';
+import { CorrelationRiskResult } from '../../services/correlationRisk';
+import { CorrelationRiskPanel } from '../CorrelationRiskPanel';
 
 const normalizeAllocations = (assets: BacktestScenarioInput['assets']) => {
   const total = assets.reduce((sum, a) => sum + (Number.isFinite(a.allocationPct) ? a.allocationPct : 0), 0);
@@ -34,6 +36,7 @@ export const BacktestBuilder: React.FC<{
   portfolioId: string;
   quality: BacktestDataQualitySummary | null;
   qualityLoading?: boolean;
+  correlation?: CorrelationRiskResult | null;
   currentScenarioId?: number | null;
   isDirty?: boolean;
   saveNotice?: string | null;
@@ -52,6 +55,7 @@ export const BacktestBuilder: React.FC<{
   portfolioId,
   quality,
   qualityLoading,
+  correlation,
   currentScenarioId,
   isDirty,
   saveNotice,
@@ -308,6 +312,18 @@ export const BacktestBuilder: React.FC<{
         canNormalize={scenario.assets.length > 0 && Math.abs(allocationSum - 100) > 0.01}
       />
 
+      {!qualityLoading && correlation && (
+        <div className="ui-panel-subtle p-4 space-y-3">
+          <div>
+            <div className="text-sm font-semibold text-slate-700">Correlazioni e contributo al rischio</div>
+            <div className="text-xs text-slate-500">
+              Rendimenti mensili in {correlation.baseCurrency} dal {correlation.startDate} al {correlation.endDate} ({correlation.periods} periodi), pesi di allocazione
+            </div>
+          </div>
+          <CorrelationRiskPanel result={correlation} capitalLabel="% allocazione" byLabel />
+        </div>
+      )}
+
       <div className="ui-panel-subtle p-4 space-y-2">
         <div className="flex items-center justify-between">
           <div className="text-sm font-semibold text-slate-700">Qualita dati scenario</div>
@@ -95,6 +95,30 @@ export const BacktestComparisonKpis: React.FC<{
         formatA: (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '-' : value.toFixed(2)),
         formatB: (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '-' : value.toFixed(2))
       },
+      {
+        label: 'Sortino',
+        rule: 'higher' as CompareRule,
+        a: resultA.summary.sortino,
+        b: resultB.summary.sortino,
+        formatA: (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '-' : value.toFixed(2)),
+        formatB: (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '-' : value.toFixed(2))
+      },
+      {
+        label: 'Calmar',
+        rule: 'higher' as CompareRule,
+        a: resultA.summary.calmar,
+        b: resultB.summary.calmar,
+        formatA: (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '-' : value.toFixed(2)),
+        formatB: (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '-' : value.toFixed(2))
+      },
+      {
+        label: 'CVaR 95% (1m)',
+        rule: 'lower' as CompareRule,
+        a: resultA.summary.cvarHistorical,
+        b: resultB.summary.cvarHistorical,
+        formatA: (value?: number) => formatPct(value),
+        formatB: (value?: number) => formatPct(value)
+      },
       {
         label: 'Best Year',
         rule: 'higher' as CompareRule,
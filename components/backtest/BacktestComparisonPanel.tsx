@@ -1,29 +1,15 @@
 ﻿import React, { useMemo, useState } from 'react';
 import clsx from 'clsx';
-import { BacktestScenarioRecord, Currency } from '../../types';
+import { BacktestScenarioRecord } from '../../types';
 import { BacktestScenarioInput, BacktestResult } from '../../services/backtestTypes';
 import { getBacktestScenarioById } from '../../services/backtestScenarioRepository';
 import { loadBacktestScenarioData } from '../../services/backtestDataSource';
 import { runBacktest } from '../../services/backtestEngine';
+import { getRiskFreeRate } from '../../services/riskMetrics';
 import { buildComparisonSeries, BacktestComparisonSeries } from '../../services/backtestComparison';
 import { BacktestComparisonKpis } from './BacktestComparisonKpis';
 import { BacktestComparisonChart } from './BacktestComparisonChart';
-import { formatScenarioContribution, resolveContributionFields } from './backtestUiUtils';
-
-const recordToScenario = (record: BacktestScenarioRecord): BacktestScenarioInput => {
-  const { amount, frequency } = resolveContributionFields(record);
-  return {
-    title: record.title,
-    startDate: record.startDate,
-    endDate: record.endDate,
-    initialCapital: record.initialCapital,
-    periodicContributionAmount: amount,
-    contributionFrequency: frequency,
-    rebalanceFrequency: record.rebalanceFrequency,
-    baseCurrency: (record.baseCurrency as Currency) || Currency.CHF,
-    assets: record.assets || []
-  };
-};
+import { formatScenarioContribution, recordToScenario } from './backtestUiUtils';
 
 const formatCurrency = (value: number, currency: string) => {
   if (!Number.isFinite(value)) return '-';
@@ -68,7 +54,8 @@ const ScenarioSummary: React.FC<{
 export const BacktestComparisonPanel: React.FC<{
   scenarios: BacktestScenarioRecord[];
   portfolioId: string;
-}> = ({ scenarios, portfolioId }) => {
+  riskFreeRates?: Record<string, number>;
+}> = ({ scenarios, portfolioId, riskFreeRates }) => {
   const [scenarioAId, setScenarioAId] = useState<number | ''>('');
   const [scenarioBId, setScenarioBId] = useState<number | ''>('');
   const [loading, setLoading] = useState(false);
@@ -95,7 +82,7 @@ export const BacktestComparisonPanel: React.FC<{
     if (!data.quality.canRun) {
       return { scenario, result: null, issue: data.quality.blockingReason || 'Scenario non eseguibile.' };
     }
-    const result = runBacktest(scenario, data);
+    const result = runBacktest(scenario, data, { riskFreeRate: getRiskFreeRate({ riskFreeRates }, scenario.baseCurrency) });
     if (result.errors && result.errors.length > 0) {
       return { scenario, result: null, issue: result.errors[0] };
     }
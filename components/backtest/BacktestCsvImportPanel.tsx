@@ -2,6 +2,7 @@ import React, { useMemo, useState } from 'react';
 import { parseBacktestCsv, BacktestCsvPreview, getBacktestAssetClassOptions } from '../../services/backtestCsvImport';
 import { saveBacktestImport } from '../../services/backtestImportRepository';
 import { BacktestAssetClass } from '../../types';
+import { isCurrencyCode } from '../../services/currencyUtils';
 
 export const BacktestCsvImportPanel: React.FC<{
   portfolioId: string;
@@ -18,7 +19,7 @@ export const BacktestCsvImportPanel: React.FC<{
   const [isSaving, setSaving] = useState(false);
 
   const hasErrors = Boolean(preview?.errors?.length);
-  const canSave = Boolean(preview && rows.length > 0 && name.trim() && ticker.trim() && currency.trim() && !hasErrors);
+  const canSave = Boolean(preview && rows.length > 0 && name.trim() && ticker.trim() && isCurrencyCode(currency.trim()) && !hasErrors);
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -1,8 +1,14 @@
 import React, { useMemo } from 'react';
-import { Area, AreaChart, Bar, BarChart, Cell, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, Legend, LabelList } from 'recharts';
+import { Area, AreaChart, Bar, BarChart, Cell, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, Legend, LabelList, Line, LineChart } from 'recharts';
 import { BacktestResult, BacktestScenarioInput } from '../../services/backtestTypes';
+import { CustomBenchmark } from '../../types';
+import type { BenchmarkSeriesResult } from '../../services/financeUtils';
+import { BENCHMARK_REBALANCE_LABELS, describeCustomBenchmark } from '../../services/blendedBenchmark';
+import { computeRiskMetrics, DEFAULT_RISK_FREE_RATE } from '../../services/riskMetrics';
 import { CHART_COLORS, COLORS } from '../../constants';
 import { contributionFrequencyLabel, resolveContributionFields } from './backtestUiUtils';
+import { buildRollingRows } from '../../services/rollingMetrics';
+import { RollingMetricsChart } from '../RollingMetricsChart';
 
 const formatCurrency = (value: number, currency: string) => {
   if (!Number.isFinite(value)) return '—';
@@ -18,6 +24,8 @@ const formatPct = (value?: number, decimals = 2) => {
   return `${value.toFixed(decimals)}%`;
 };
 
+const formatRatio = (value?: number) => (value === undefined || value === null || !Number.isFinite(value) ? '—' : value.toFixed(2));
+
 const KpiCard: React.FC<{
   label: string;
   value: string;
@@ -46,8 +54,12 @@ const KpiCard: React.FC<{
 export const BacktestResults: React.FC<{
   scenario: BacktestScenarioInput;
   result: BacktestResult;
+  benchmarks: CustomBenchmark[];
+  benchmarkId: number | null;
+  benchmarkSeries: BenchmarkSeriesResult | null;
+  onBenchmarkChange: (id: number | null) => void;
   onBack: () => void;
-}> = ({ scenario, result, onBack }) => {
+}> = ({ scenario, result, benchmarks, benchmarkId, benchmarkSeries, onBenchmarkChange, onBack }) => {
   const effectiveStart = result.effectiveStartDate || scenario.startDate;
   const effectiveEnd = result.effectiveEndDate || scenario.endDate;
   const { amount: contributionAmount, frequency: contributionFrequency } = resolveContributionFields(scenario);
@@ -68,6 +80,43 @@ export const BacktestResults: React.FC<{
 
   const drawdownSeries = useMemo(() => chartSeries.map(p => ({ date: p.date, drawdown: p.drawdown ?? 0 })), [chartSeries]);
 
+  const rollingRows = useMemo(() => buildRollingRows(
+    navSeries.map(p => ({ date: p.date, index: p.twrrIndex ?? p.nav })),
+    'monthly',
+    result.summary.riskFreeRatePct !== undefined ? result.summary.riskFreeRatePct / 100 : undefined
+  ), [navSeries, result.summary.riskFreeRatePct]);
+
+  const selectedBenchmark = benchmarks.find(benchmark => benchmark.id === benchmarkId);
+
+  // Portfolio TWRR rebased to 100 on the first benchmark date, so both lines start together
+  const benchmarkComparison = useMemo(() => {
+    if (!benchmarkSeries?.startDate) return null;
+    const base = navSeries.find(point => point.date === benchmarkSeries.startDate);
+    const baseIndex = base?.twrrIndex ?? base?.nav;
+    if (!baseIndex) return null;
+    const rows = navSeries
+      .filter(point => point.date >= (benchmarkSeries.startDate as string) && benchmarkSeries.byDate.has(point.date))
+      .map(point => ({
+        date: point.date,
+        portfolio: (100 * (point.twrrIndex ?? point.nav)) / baseIndex,
+        benchmark: benchmarkSeries.byDate.get(point.date)?.benchmarkIndex as number
+      }));
+    if (rows.length < 2) return null;
+    const metrics = computeRiskMetrics({
+      series: rows.map(row => ({ date: row.date, index: row.portfolio })),
+      granularity: 'monthly',
+      riskFreeRate: result.summary.riskFreeRatePct !== undefined ? result.summary.riskFreeRatePct / 100 : DEFAULT_RISK_FREE_RATE,
+      benchmark: rows.map(row => ({ date: row.date, index: row.benchmark }))
+    });
+    const last = rows[rows.length - 1];
+    return {
+      rows,
+      portfolioReturnPct: last.portfolio - 100,
+      benchmarkReturnPct: last.benchmark - 100,
+      benchmark: metrics?.benchmark
+    };
+  }, [benchmarkSeries, navSeries, result.summary.riskFreeRatePct]);
+
   const annualReturns = result.annualReturns || [];
   const annualChart = useMemo(() => {
     return annualReturns.map(item => ({
@@ -186,7 +235,11 @@ export const BacktestResults: React.FC<{
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               <KpiCard label="Volatilità ann." value={formatPct(result.summary.volatility)} tone="neutral" />
               <KpiCard label="Max Drawdown" value={formatPct(result.summary.maxDrawdown)} tone={maxDdTone} />
-              <KpiCard label="Sharpe" value={result.summary.sharpe !== undefined ? result.summary.sharpe.toFixed(2) : '—'} tone={result.summary.sharpe !== undefined && result.summary.sharpe >= 0 ? 'positive' : 'negative'} />
+              <KpiCard label="Sharpe" value={result.summary.sharpe !== undefined ? result.summary.sharpe.toFixed(2) : '—'} subtitle={result.summary.riskFreeRatePct !== undefined ? `Risk-free ${formatPct(result.summary.riskFreeRatePct)}` : undefined} tone={result.summary.sharpe !== undefined && result.summary.sharpe >= 0 ? 'positive' : 'negative'} />
+              <KpiCard label="Sortino" value={formatRatio(result.summary.sortino)} subtitle={`Downside dev. ${formatPct(result.summary.downsideDeviation)}`} tone={(result.summary.sortino ?? 0) >= 0 ? 'positive' : 'negative'} />
+              <KpiCard label="Calmar" value={formatRatio(result.summary.calmar)} subtitle="CAGR / Max Drawdown" tone={(result.summary.calmar ?? 0) >= 0 ? 'positive' : 'negative'} />
+              <KpiCard label="VaR / CVaR 95% (1m)" value={`${formatPct(result.summary.varHistorical)} / ${formatPct(result.summary.cvarHistorical)}`} subtitle={`Parametrico ${formatPct(result.summary.varParametric)} / ${formatPct(result.summary.cvarParametric)}`} tone="neutral" />
+              <KpiCard label="Skew / Kurtosi" value={`${formatRatio(result.summary.skewness)} / ${formatRatio(result.summary.excessKurtosis)}`} subtitle="Rendimenti mensili (kurtosi in eccesso)" tone="neutral" />
             </div>
           </div>
         </div>
@@ -232,6 +285,64 @@ export const BacktestResults: React.FC<{
         </div>
       </div>
 
+      <div className="ui-panel p-5 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-slate-700">Confronto con benchmark</div>
+            {selectedBenchmark && (
+              <div className="text-xs text-slate-500">
+                {describeCustomBenchmark(selectedBenchmark)} · ribilanciamento {BENCHMARK_REBALANCE_LABELS[selectedBenchmark.rebalance].toLowerCase()}
+              </div>
+            )}
+          </div>
+          <select
+            className="ui-input w-auto text-xs"
+            value={benchmarkId ?? ''}
+            onChange={e => onBenchmarkChange(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">Nessun benchmark</option>
+            {benchmarks.map(benchmark => (
+              <option key={benchmark.id} value={benchmark.id}>{benchmark.name}</option>
+            ))}
+          </select>
+        </div>
+        {benchmarks.length === 0 && (
+          <div className="text-xs text-slate-500">Crea un benchmark personalizzato dal builder per confrontarlo con lo scenario.</div>
+        )}
+        {benchmarkSeries?.warning && (
+          <div className="text-xs text-amber-700">{benchmarkSeries.warning}</div>
+        )}
+        {benchmarkComparison && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <KpiCard label="Scenario (TWRR)" value={formatPct(benchmarkComparison.portfolioReturnPct)} tone={benchmarkComparison.portfolioReturnPct >= 0 ? 'positive' : 'negative'} />
+              <KpiCard label="Benchmark" value={formatPct(benchmarkComparison.benchmarkReturnPct)} tone={benchmarkComparison.benchmarkReturnPct >= 0 ? 'positive' : 'negative'} />
+              <KpiCard label="Beta" value={formatRatio(benchmarkComparison.benchmark?.beta)} subtitle={`Correlazione ${formatRatio(benchmarkComparison.benchmark?.correlation)}`} />
+              <KpiCard label="Tracking error" value={formatPct(benchmarkComparison.benchmark?.trackingErrorPct)} subtitle={`${benchmarkComparison.benchmark?.periods ?? 0} mesi allineati`} />
+              <KpiCard label="Information ratio" value={formatRatio(benchmarkComparison.benchmark?.informationRatio)} subtitle={`Extra-rendimento annuo ${formatPct(benchmarkComparison.benchmark?.activeReturnPct)}`} />
+            </div>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={benchmarkComparison.rows}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} />
+                  <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="portfolio" name={scenario.title || 'Scenario'} stroke={CHART_COLORS.line} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="benchmark" name={selectedBenchmark?.name || 'Benchmark'} stroke={COLORS[1]} strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="ui-panel p-5">
+        <div className="text-sm font-semibold text-slate-700 mb-3">Rolling 1A / 3A / 5A (annualizzati)</div>
+        <RollingMetricsChart rows={rollingRows} className="h-[260px]" />
+      </div>
+
       <div className="ui-panel p-5">
         <div className="text-sm font-semibold text-slate-700 mb-3">Allocazione dettagliata</div>
         <div className="overflow-x-auto">
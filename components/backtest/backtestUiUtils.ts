@@ -1,5 +1,5 @@
 import { BacktestScenarioInput } from '../../services/backtestTypes';
-import { BacktestScenarioRecord } from '../../types';
+import { BacktestScenarioRecord, Currency } from '../../types';
 
 type ContributionFrequency = BacktestScenarioInput['contributionFrequency'];
 
@@ -32,6 +32,21 @@ export const resolveContributionFields = (
   return { amount, frequency };
 };
 
+export const recordToScenario = (record: BacktestScenarioRecord): BacktestScenarioInput => {
+  const { amount, frequency } = resolveContributionFields(record);
+  return {
+    title: record.title,
+    startDate: record.startDate,
+    endDate: record.endDate,
+    initialCapital: record.initialCapital,
+    periodicContributionAmount: amount,
+    contributionFrequency: frequency,
+    rebalanceFrequency: record.rebalanceFrequency,
+    baseCurrency: (record.baseCurrency as Currency) || Currency.CHF,
+    assets: record.assets || []
+  };
+};
+
 export const formatContributionLabel = (
   amount: number,
   frequency: ContributionFrequency,
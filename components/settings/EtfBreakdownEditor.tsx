@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../../db';
+import { Instrument, LookThroughDimension } from '../../types';
+import {
+  EtfBreakdownParseResult,
+  getLookThroughLabel,
+  isBreakdownStale,
+  LOOK_THROUGH_DIMENSION_LABELS,
+  parseEtfBreakdownCsv
+} from '../../services/etfLookThrough';
+import { deleteEtfBreakdown, saveEtfBreakdown } from '../../services/etfBreakdownRepository';
+
+const DIMENSIONS = Object.keys(LOOK_THROUGH_DIMENSION_LABELS) as LookThroughDimension[];
+
+const topEntries = (weights: Record<string, number>, dimension: LookThroughDimension, count = 4) => (
+  Object.entries(weights)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([key, weight]) => `${getLookThroughLabel(dimension, key)} ${weight.toFixed(1)}%`)
+    .join(' · ')
+);
+
+export const EtfBreakdownEditor: React.FC<{
+  instrument: Instrument;
+  portfolioId: string;
+}> = ({ instrument, portfolioId }) => {
+  const ticker = instrument.symbol || instrument.ticker;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<EtfBreakdownParseResult | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [asOfDate, setAsOfDate] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const current = useLiveQuery(
+    () => db.etfBreakdowns.where('[portfolioId+ticker]').equals([portfolioId, ticker]).first(),
+    [portfolioId, ticker]
+  );
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const result = parseEtfBreakdownCsv(await file.text());
+      setParsed(result);
+      setFileName(file.name);
+      setAsOfDate(result.asOfDate || '');
+      setMessage(null);
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    if (!parsed) return;
+    try {
+      await saveEtfBreakdown({ portfolioId, ticker, asOfDate, fileName, parsed });
+      setParsed(null);
+      setMessage(`Composizione di ${ticker} salvata (dati al ${asOfDate})`);
+    } catch (err: any) {
+      setMessage(err?.message || String(err));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!current?.id) return;
+    if (!confirm(`Eliminare la composizione importata per ${ticker}?`)) return;
+    await deleteEtfBreakdown(current.id);
+    setMessage('Composizione eliminata: la Dashboard torna alla distribuzione manuale');
+  };
+
+  const preview = parsed || current;
+
+  return (
+    <div className="ui-panel-dense p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-bold text-slate-900">Composizione ETF (look-through)</div>
+          <div className="text-[11px] text-slate-500">
+            CSV delle posizioni dell'emittente (peso, paese, settore, valuta) oppure righe tipo;voce;peso.
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {current?.id && !parsed && (
+            <button type="button" onClick={handleDelete} className="ui-btn-ghost px-3 py-2 rounded-lg text-xs font-bold">
+              Elimina
+            </button>
+          )}
+          <button type="button" onClick={() => fileRef.current?.click()} className="ui-btn-secondary px-3 py-2 rounded-lg text-xs font-bold">
+            Importa CSV
+          </button>
+          <input type="file" ref={fileRef} className="hidden" accept=".csv,text/csv,.txt" onChange={handleFile} />
+        </div>
+      </div>
+
+      {current && !parsed && (
+        <div className="text-xs text-slate-600 flex flex-wrap items-center gap-2">
+          <span>Dati al {current.asOfDate}{current.holdingsCount ? ` · ${current.holdingsCount} posizioni` : ''}{current.fileName ? ` · ${current.fileName}` : ''}</span>
+          {isBreakdownStale(current.asOfDate, today) && (
+            <span className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-amber-50 text-amber-800 border border-amber-200">
+              Non aggiornata
+            </span>
+          )}
+        </div>
+      )}
+
+      {parsed && (
+        <div className="space-y-2 text-xs">
+          {parsed.errors.map(error => (
+            <div key={error} className="text-rose-600">{error}</div>
+          ))}
+          {parsed.warnings.map(warning => (
+            <div key={warning} className="text-amber-700">{warning}</div>
+          ))}
+          {!parsed.errors.length && (
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-[11px] font-bold text-slate-500 uppercase">Dati al</label>
+                <input type="date" className="ui-input-sm mt-1" value={asOfDate} onChange={e => setAsOfDate(e.target.value)} />
+              </div>
+              <button type="button" onClick={handleSave} disabled={!asOfDate} className="ui-btn-primary px-3 py-2 rounded-lg text-xs font-bold">
+                Salva composizione
+              </button>
+              <button type="button" onClick={() => setParsed(null)} className="ui-btn-ghost px-3 py-2 rounded-lg text-xs font-bold">
+                Annulla
+              </button>
+              <span className="text-[11px] text-slate-500">
+                {parsed.format === 'holdings' ? `${parsed.holdingsCount} posizioni lette da ${fileName}` : `Ripartizione letta da ${fileName}`}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-[11px]">
+          {DIMENSIONS.map(dimension => (
+            <div key={dimension} className="ui-panel-subtle p-2">
+              <div className="font-bold text-slate-500 uppercase">{LOOK_THROUGH_DIMENSION_LABELS[dimension]}</div>
+              <div className="text-slate-700 mt-1">{topEntries(preview[dimension], dimension) || 'Non presente nel file'}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <div className="text-xs text-slate-600">{message}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Currency } from '../../types';
+import { CURRENCY_OPTIONS } from '../../services/currencyUtils';
+import { DEFAULT_RISK_FREE_RATE } from '../../services/riskMetrics';
+
+const toPct = (value: number) => Math.round(value * 100000) / 1000;
+
+export const RiskFreeRatesEditor: React.FC<{
+  value?: Record<string, number>;
+  baseCurrency: Currency;
+  onChange: (next: Record<string, number> | undefined) => void;
+}> = ({ value, baseCurrency, onChange }) => {
+  const [newCurrency, setNewCurrency] = useState('');
+  const currencies = Array.from(new Set([baseCurrency, ...Object.keys(value || {})])).sort();
+  const available = CURRENCY_OPTIONS.filter(code => !currencies.includes(code));
+
+  const updateRate = (currency: string, raw: string) => {
+    const num = parseFloat(raw);
+    const rate = Number.isFinite(num) ? Math.min(Math.max(num, -10), 100) / 100 : DEFAULT_RISK_FREE_RATE;
+    onChange({ ...(value || {}), [currency]: rate });
+  };
+
+  const resetRate = (currency: string) => {
+    const { [currency]: _removed, ...rest } = value || {};
+    onChange(Object.keys(rest).length ? rest : undefined);
+  };
+
+  const addCurrency = () => {
+    if (!newCurrency || currencies.includes(newCurrency)) return;
+    onChange({ ...(value || {}), [newCurrency]: DEFAULT_RISK_FREE_RATE });
+    setNewCurrency('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="border border-slate-200 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+            <tr>
+              <th className="px-3 py-2 text-left">Valuta</th>
+              <th className="px-3 py-2 text-right">Tasso annuo %</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {currencies.map(currency => {
+              const overridden = value?.[currency] !== undefined;
+              return (
+                <tr key={currency} className="border-t border-slate-200">
+                  <td className="px-3 py-1.5 font-semibold text-slate-700">
+                    {currency}
+                    {currency === baseCurrency && <span className="ml-2 text-[10px] font-normal text-slate-400">base</span>}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    <input
+                      type="number"
+                      step="0.01"
+                      className="ui-input w-24 text-xs font-mono text-right"
+                      value={toPct(value?.[currency] ?? DEFAULT_RISK_FREE_RATE)}
+                      onChange={e => updateRate(currency, e.target.value)}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {overridden && (
+                      <button type="button" className="text-[11px] text-slate-500 hover:text-primary" onClick={() => resetRate(currency)}>
+                        {currency === baseCurrency ? 'Ripristina' : 'Rimuovi'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-2">
+        <select className="ui-input w-28 text-xs" value={newCurrency} onChange={e => setNewCurrency(e.target.value)}>
+          <option value="">Valuta...</option>
+          {available.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+        <button type="button" className="ui-btn-ghost px-3 py-1.5 rounded-lg text-xs font-bold" onClick={addCurrency}>
+          Aggiungi valuta
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { WithholdingRule } from '../../types';
+import { DEFAULT_WITHHOLDING_RULES } from '../../services/dividendTax';
+
+const toPct = (value: number) => Math.round(value * 100000) / 1000;
+
+export const WithholdingRulesEditor: React.FC<{
+  value?: Record<string, WithholdingRule>;
+  onChange: (next: Record<string, WithholdingRule> | undefined) => void;
+}> = ({ value, onChange }) => {
+  const [newCountry, setNewCountry] = useState('');
+  const rules = { ...DEFAULT_WITHHOLDING_RULES, ...(value || {}) };
+  const countries = Object.keys(rules).sort();
+
+  const updateRule = (country: string, patch: Partial<WithholdingRule>) => {
+    const current = rules[country] || { rate: 0, reclaimableRate: 0 };
+    const next = { ...current, ...patch };
+    next.reclaimableRate = Math.min(next.reclaimableRate, next.rate);
+    onChange({ ...(value || {}), [country]: next });
+  };
+
+  const resetRule = (country: string) => {
+    const { [country]: _removed, ...rest } = value || {};
+    onChange(Object.keys(rest).length ? rest : undefined);
+  };
+
+  const addCountry = () => {
+    const code = newCountry.trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(code) || rules[code]) return;
+    updateRule(code, { rate: 0, reclaimableRate: 0 });
+    setNewCountry('');
+  };
+
+  const parsePct = (raw: string) => {
+    const num = parseFloat(raw);
+    return Number.isFinite(num) ? Math.min(Math.max(num, 0), 100) / 100 : 0;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-64 overflow-y-auto border border-slate-200 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left">Paese</th>
+              <th className="px-3 py-2 text-right">Ritenuta %</th>
+              <th className="px-3 py-2 text-right">Recuperabile %</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {countries.map(country => {
+              const rule = rules[country];
+              const overridden = Boolean(value?.[country]);
+              return (
+                <tr key={country} className="border-t border-slate-200">
+                  <td className="px-3 py-1.5 font-semibold text-slate-700">{country}</td>
+                  <td className="px-3 py-1.5 text-right">
+                    <input
+                      type="number"
+                      step="0.001"
+                      min={0}
+                      max={100}
+                      className="ui-input w-24 text-xs font-mono text-right"
+                      value={toPct(rule.rate)}
+                      onChange={e => updateRule(country, { rate: parsePct(e.target.value) })}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    <input
+                      type="number"
+                      step="0.001"
+                      min={0}
+                      max={100}
+                      className="ui-input w-24 text-xs font-mono text-right"
+                      value={toPct(rule.reclaimableRate)}
+                      onChange={e => updateRule(country, { reclaimableRate: parsePct(e.target.value) })}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {overridden && (
+                      <button type="button" className="text-[11px] text-slate-500 hover:text-primary" onClick={() => resetRule(country)}>
+                        {DEFAULT_WITHHOLDING_RULES[country] ? 'Ripristina' : 'Rimuovi'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          className="ui-input w-24 text-xs uppercase"
+          placeholder="es. JP"
+          maxLength={2}
+          value={newCountry}
+          onChange={e => setNewCountry(e.target.value)}
+        />
+        <button type="button" className="ui-btn-ghost px-3 py-1.5 rounded-lg text-xs font-bold" onClick={addCountry}>
+          Aggiungi paese
+        </button>
+      </div>
+    </div>
+  );
+};
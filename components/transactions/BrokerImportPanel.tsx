@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { AppSettings, Instrument, Transaction } from '../../types';
+import {
+  BROKER_FORMAT_LABELS,
+  BrokerImportPreview,
+  BrokerImportRow,
+  BrokerImportWriteResult,
+  markAlreadyImportedRows,
+  parseBrokerStatement,
+  resolveBrokerInstruments,
+  writeBrokerImport
+} from '../../services/brokerImport';
+
+const PREVIEW_ROWS_MAX = 200;
+
+export const BrokerImportPanel: React.FC<{
+  portfolioId: string;
+  instruments: Instrument[];
+  transactions: Transaction[];
+  settings?: AppSettings;
+  onClose: () => void;
+}> = ({ portfolioId, instruments, transactions, settings, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<BrokerImportPreview | null>(null);
+  const [rows, setRows] = useState<BrokerImportRow[]>([]);
+  const [newInstruments, setNewInstruments] = useState<Instrument[]>([]);
+  const [account, setAccount] = useState('');
+  const [isResolving, setResolving] = useState(false);
+  const [isSaving, setSaving] = useState(false);
+  const [result, setResult] = useState<BrokerImportWriteResult | null>(null);
+
+  const markedRows = useMemo(() => {
+    if (!account.trim()) return rows;
+    return markAlreadyImportedRows(rows, transactions, { portfolioId, account: account.trim() });
+  }, [rows, transactions, portfolioId, account]);
+
+  const importableCount = useMemo(
+    () => markedRows.filter(row => !row.issues.some(issue => issue.blocking || issue.code === 'already_imported')).length,
+    [markedRows]
+  );
+  const hasErrors = Boolean(preview?.errors?.length);
+  const canSave = Boolean(preview && !hasErrors && account.trim() && importableCount > 0 && !isResolving);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const parsed = parseBrokerStatement(text);
+    setFileName(file.name);
+    setPreview(parsed.preview);
+    setAccount(parsed.preview.account);
+    setResult(null);
+    setRows(parsed.rows);
+    setNewInstruments([]);
+    if (parsed.preview.errors.length) return;
+    setResolving(true);
+    try {
+      const resolution = await resolveBrokerInstruments({
+        rows: parsed.rows,
+        instruments,
+        apiKey: settings?.eodhdApiKey,
+        preferredExchangesOrder: settings?.preferredExchangesOrder,
+        baseCurrency: settings?.baseCurrency
+      });
+      setRows(resolution.rows);
+      setNewInstruments(resolution.newInstruments);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!preview || !canSave) return;
+    setSaving(true);
+    try {
+      const writeResult = await writeBrokerImport({
+        portfolioId,
+        account: account.trim(),
+        rows: markedRows.filter(row => !row.issues.some(issue => issue.code === 'already_imported')),
+        newInstruments
+      });
+      setResult(writeResult);
+      setPreview(null);
+      setRows([]);
+      setNewInstruments([]);
+      setFileName('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const issueCount = (row: BrokerImportRow) => row.issues.filter(issue => issue.blocking).length;
+
+  return (
+    <div className="ui-panel-subtle p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-slate-700">Importa estratto conto broker (IBKR Flex, Degiro, Swissquote)</div>
+        <button type="button" onClick={onClose} className="ui-btn-ghost px-2 py-1 text-xs">Chiudi</button>
+      </div>
+
+      <div>
+        <input type="file" accept=".csv,.txt" onChange={handleFileChange} className="text-sm" />
+      </div>
+
+      {result && (
+        <div className="ui-panel-subtle border-emerald-200 bg-emerald-50 p-3 text-xs text-emerald-700">
+          Import completato: {result.created} movimenti creati, {result.unchanged} già presenti, {result.instrumentsCreated} strumenti aggiunti.
+        </div>
+      )}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="ui-panel-dense p-3 text-xs text-slate-700 space-y-1">
+            <div className="font-semibold">Preview file</div>
+            <div>File: {fileName}</div>
+            <div>Formato: {preview.format ? BROKER_FORMAT_LABELS[preview.format] : 'non riconosciuto'}</div>
+            <div>Righe lette: {preview.rowCountRaw}</div>
+            <div>Movimenti validi: {preview.rowCountValid}</div>
+            <div>Righe con errori: {preview.rowCountInvalid}</div>
+            <div>Righe ignorate: {preview.rowCountSkipped}</div>
+            <div>Periodo: {preview.firstDate || '—'} → {preview.lastDate || '—'}</div>
+            {newInstruments.length > 0 && (
+              <div>Nuovi strumenti da ISIN: {newInstruments.map(inst => inst.ticker).join(', ')}</div>
+            )}
+            {isResolving && <div className="text-slate-500">Risoluzione ISIN in corso...</div>}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="ui-panel-subtle border-rose-200 bg-rose-50 p-3 text-xs text-rose-700 space-y-1">
+              <div className="font-semibold">Errori</div>
+              <ul className="list-disc pl-4">
+                {preview.errors.map((err, idx) => <li key={idx}>{err}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {preview.warnings.length > 0 && (
+            <div className="ui-panel-subtle border-amber-200 bg-amber-50 p-3 text-xs text-amber-700 space-y-1">
+              <div className="font-semibold">Avvisi</div>
+              <ul className="list-disc pl-4">
+                {preview.warnings.map((warn, idx) => <li key={idx}>{warn}</li>)}
+              </ul>
+              {preview.reasons.length > 0 && (
+                <ul className="pl-4">
+                  {preview.reasons.map(reason => (
+                    <li key={reason.code}>
+                      {reason.code}: {reason.count}
+                      {reason.examples.length > 0 && <span className="text-amber-600"> (es. {reason.examples.join(', ')})</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="ui-panel-subtle p-3 space-y-2 text-xs">
+            <div className="font-semibold text-slate-700">Movimenti</div>
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+                  <tr>
+                    <th className="px-2 py-1 text-left">Riga</th>
+                    <th className="px-2 py-1 text-left">Data</th>
+                    <th className="px-2 py-1 text-left">Tipo</th>
+                    <th className="px-2 py-1 text-left">Strumento</th>
+                    <th className="px-2 py-1 text-right">Quantità</th>
+                    <th className="px-2 py-1 text-right">Prezzo</th>
+                    <th className="px-2 py-1 text-right">Commissioni</th>
+                    <th className="px-2 py-1 text-left">Valuta</th>
+                    <th className="px-2 py-1 text-left">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {markedRows.slice(0, PREVIEW_ROWS_MAX).map(row => (
+                    <tr
+                      key={row.line}
+                      className={issueCount(row) > 0 ? 'border-t border-slate-200 bg-rose-50/60' : 'border-t border-slate-200'}
+                    >
+                      <td className="px-2 py-1 text-slate-400">{row.line}</td>
+                      <td className="px-2 py-1">{row.date || '—'}</td>
+                      <td className="px-2 py-1">{row.type}</td>
+                      <td className="px-2 py-1">{row.instrumentTicker || row.symbol || row.isin || '—'}</td>
+                      <td className="px-2 py-1 text-right">{Number.isFinite(row.quantity) ? row.quantity : '—'}</td>
+                      <td className="px-2 py-1 text-right">{Number.isFinite(row.price) ? row.price : '—'}</td>
+                      <td className="px-2 py-1 text-right">{row.fees}</td>
+                      <td className="px-2 py-1">{row.currency || '—'}</td>
+                      <td className="px-2 py-1">
+                        {row.issues.map(issue => (
+                          <div key={issue.code} className={issue.blocking ? 'text-rose-700' : 'text-slate-500'}>{issue.message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                  {markedRows.length === 0 && (
+                    <tr>
+                      <td colSpan={9} className="px-2 py-2 text-center text-slate-400">Nessun movimento riconosciuto</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {markedRows.length > PREVIEW_ROWS_MAX && (
+              <div className="text-slate-500">Mostrate le prime {PREVIEW_ROWS_MAX} righe su {markedRows.length}.</div>
+            )}
+          </div>
+
+          <div className="ui-panel-subtle p-3 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-semibold text-slate-600">Conto</label>
+                <input className="ui-input mt-1" value={account} onChange={e => setAccount(e.target.value)} placeholder="IBKR" />
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button type="button" className="ui-btn-primary" onClick={handleSave} disabled={!canSave || isSaving}>
+                {isSaving ? 'Salvataggio...' : `Importa ${importableCount} movimenti`}
+              </button>
+              {!canSave && !isResolving && (
+                <div className="text-xs text-slate-500">Nessun movimento importabile: verifica conto ed errori.</div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
@@ -0,0 +1,426 @@
+import React, { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { db } from '../../db';
+import { Currency, Instrument, SavingsPlan, SavingsPlanFrequency, Transaction } from '../../types';
+import {
+  applyDraftPrice,
+  compareSavingsPlan,
+  getDueSavingsPlanDrafts,
+  SAVINGS_PLAN_FREQUENCY_LABELS,
+  SavingsPlanDraft,
+  SavingsPlanExecutionStatus
+} from '../../services/savingsPlans';
+import {
+  confirmSavingsPlanExecution,
+  deleteSavingsPlan,
+  priceSavingsPlanDraft,
+  saveSavingsPlan,
+  skipSavingsPlanExecution
+} from '../../services/savingsPlanRepository';
+import { parseYmdLocal } from '../../services/dateUtils';
+
+type PlanForm = {
+  id: number | null;
+  instrumentTicker: string;
+  amount: string;
+  currency: Currency;
+  frequency: SavingsPlanFrequency;
+  account: string;
+  startDate: string;
+  endDate: string;
+  fees: string;
+};
+
+const STATUS_LABELS: Record<SavingsPlanExecutionStatus, string> = {
+  confirmed: 'Eseguito',
+  skipped: 'Saltato',
+  due: 'Da confermare'
+};
+
+const todayYmd = () => format(new Date(), 'yyyy-MM-dd');
+
+const emptyForm = (): PlanForm => ({
+  id: null,
+  instrumentTicker: '',
+  amount: '',
+  currency: Currency.CHF,
+  frequency: 'monthly',
+  account: '',
+  startDate: todayYmd(),
+  endDate: '',
+  fees: ''
+});
+
+const draftKey = (draft: SavingsPlanDraft) => `${draft.planId}|${draft.scheduledDate}`;
+
+const formatAmount = (value: number, currency: Currency) =>
+  value.toLocaleString('it-CH', { style: 'currency', currency, maximumFractionDigits: 2 });
+
+export const SavingsPlansPanel: React.FC<{
+  portfolioId: string;
+  instruments: Instrument[];
+  transactions: Transaction[];
+  onClose: () => void;
+}> = ({ portfolioId, instruments, transactions, onClose }) => {
+  const plans = useLiveQuery(
+    () => db.savingsPlans.where('portfolioId').equals(portfolioId).toArray(),
+    [portfolioId],
+    []
+  );
+  const [form, setForm] = useState<PlanForm | null>(null);
+  const [edits, setEdits] = useState<Record<string, SavingsPlanDraft>>({});
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [pricing, setPricing] = useState(false);
+  const [error, setError] = useState('');
+  const asOfDate = todayYmd();
+
+  const planById = useMemo(() => new Map((plans || []).map(plan => [plan.id as number, plan])), [plans]);
+
+  const drafts = useMemo(() => {
+    return (plans || [])
+      .flatMap(plan => getDueSavingsPlanDrafts(plan, transactions, asOfDate))
+      .map(draft => edits[draftKey(draft)] || draft)
+      .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
+  }, [plans, transactions, asOfDate, edits]);
+
+  const comparisons = useMemo(() => {
+    return new Map((plans || []).map(plan => [plan.id as number, compareSavingsPlan(plan, transactions, asOfDate)]));
+  }, [plans, transactions, asOfDate]);
+
+  const selectedPlan = selectedPlanId !== null ? planById.get(selectedPlanId) : undefined;
+  const selectedComparison = selectedPlanId !== null ? comparisons.get(selectedPlanId) : undefined;
+
+  const openForm = (plan?: SavingsPlan) => {
+    setError('');
+    if (!plan) {
+      setForm(emptyForm());
+      return;
+    }
+    setForm({
+      id: plan.id ?? null,
+      instrumentTicker: plan.instrumentTicker,
+      amount: String(plan.amount),
+      currency: plan.currency,
+      frequency: plan.frequency,
+      account: plan.account,
+      startDate: plan.startDate,
+      endDate: plan.endDate || '',
+      fees: plan.fees ? String(plan.fees) : ''
+    });
+  };
+
+  const handleInstrumentChange = (ticker: string) => {
+    const instrument = instruments.find(inst => inst.ticker === ticker);
+    setForm(prev => prev && ({ ...prev, instrumentTicker: ticker, currency: instrument?.currency || prev.currency }));
+  };
+
+  const handleSavePlan = async () => {
+    if (!form) return;
+    setError('');
+    try {
+      await saveSavingsPlan({
+        id: form.id,
+        portfolioId,
+        plan: {
+          instrumentTicker: form.instrumentTicker,
+          amount: parseFloat(form.amount),
+          currency: form.currency,
+          frequency: form.frequency,
+          account: form.account,
+          startDate: form.startDate,
+          endDate: form.endDate || undefined,
+          fees: parseFloat(form.fees) || 0
+        }
+      });
+      setForm(null);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    }
+  };
+
+  const handleDeletePlan = async (plan: SavingsPlan) => {
+    if (!plan.id || !confirm('Eliminare il piano? Le esecuzioni già registrate restano nel registro.')) return;
+    await deleteSavingsPlan(plan.id);
+    if (selectedPlanId === plan.id) setSelectedPlanId(null);
+  };
+
+  const updateDraft = (draft: SavingsPlanDraft, patch: Partial<Transaction>) => {
+    setEdits(prev => ({
+      ...prev,
+      [draftKey(draft)]: { ...draft, priceSource: 'manual', transaction: { ...draft.transaction, ...patch } }
+    }));
+  };
+
+  const updateDraftPrice = (draft: SavingsPlanDraft, price: number) => {
+    const plan = planById.get(draft.planId);
+    if (!plan) return;
+    const priced = applyDraftPrice(plan, draft, price);
+    updateDraft(draft, { price: priced.transaction.price, quantity: priced.transaction.quantity });
+  };
+
+  const clearDraftEdit = (draft: SavingsPlanDraft) => {
+    setEdits(prev => {
+      const { [draftKey(draft)]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleFetchPrices = async () => {
+    setPricing(true);
+    setError('');
+    try {
+      const next: Record<string, SavingsPlanDraft> = {};
+      for (const draft of drafts) {
+        const plan = planById.get(draft.planId);
+        if (!plan || draft.transaction.price > 0) continue;
+        const priced = await priceSavingsPlanDraft(plan, draft);
+        if (priced !== draft) next[draftKey(draft)] = priced;
+      }
+      setEdits(prev => ({ ...prev, ...next }));
+      if (!Object.keys(next).length) setError('Nessun prezzo di chiusura disponibile per le esecuzioni in attesa.');
+    } finally {
+      setPricing(false);
+    }
+  };
+
+  const handleConfirm = async (draft: SavingsPlanDraft) => {
+    setError('');
+    try {
+      await confirmSavingsPlanExecution(draft);
+      clearDraftEdit(draft);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    }
+  };
+
+  const handleSkip = async (draft: SavingsPlanDraft) => {
+    const plan = planById.get(draft.planId);
+    if (!plan) return;
+    await skipSavingsPlanExecution(plan, draft.scheduledDate);
+    clearDraftEdit(draft);
+  };
+
+  return (
+    <div className="ui-panel-subtle p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-slate-700">Piani di accumulo (PAC)</div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => openForm()} className="ui-btn-ghost px-2 py-1 text-xs">Nuovo piano</button>
+          <button type="button" onClick={onClose} className="ui-btn-ghost px-2 py-1 text-xs">Chiudi</button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="ui-panel-subtle border-rose-200 bg-rose-50 p-3 text-xs text-rose-700">{error}</div>
+      )}
+
+      {form && (
+        <div className="ui-panel-subtle p-3 space-y-3 text-xs">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+              <label className="font-semibold text-slate-600">Strumento</label>
+              <select className="ui-input mt-1" value={form.instrumentTicker} onChange={e => handleInstrumentChange(e.target.value)}>
+                <option value="">Seleziona...</option>
+                {instruments.map(inst => (
+                  <option key={inst.ticker} value={inst.ticker}>{inst.ticker} - {inst.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Importo ({form.currency})</label>
+              <input type="number" step="any" className="ui-input mt-1" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} />
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Commissioni previste</label>
+              <input type="number" step="any" className="ui-input mt-1" value={form.fees} onChange={e => setForm({ ...form, fees: e.target.value })} />
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Frequenza</label>
+              <select className="ui-input mt-1" value={form.frequency} onChange={e => setForm({ ...form, frequency: e.target.value as SavingsPlanFrequency })}>
+                {(Object.keys(SAVINGS_PLAN_FREQUENCY_LABELS) as SavingsPlanFrequency[]).map(key => (
+                  <option key={key} value={key}>{SAVINGS_PLAN_FREQUENCY_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Conto</label>
+              <input className="ui-input mt-1" value={form.account} onChange={e => setForm({ ...form, account: e.target.value })} placeholder="IBKR" />
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Inizio</label>
+              <input type="date" className="ui-input mt-1" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} />
+            </div>
+            <div>
+              <label className="font-semibold text-slate-600">Fine (opzionale)</label>
+              <input type="date" className="ui-input mt-1" value={form.endDate} onChange={e => setForm({ ...form, endDate: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button type="button" className="ui-btn-primary" onClick={handleSavePlan}>Salva piano</button>
+            <button type="button" className="ui-btn-ghost px-3 py-1.5" onClick={() => setForm(null)}>Annulla</button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+            <tr>
+              <th className="px-2 py-1 text-left">Strumento</th>
+              <th className="px-2 py-1 text-right">Importo</th>
+              <th className="px-2 py-1 text-left">Frequenza</th>
+              <th className="px-2 py-1 text-left">Conto</th>
+              <th className="px-2 py-1 text-left">Periodo</th>
+              <th className="px-2 py-1 text-right">Pianificato</th>
+              <th className="px-2 py-1 text-right">Eseguito</th>
+              <th className="px-2 py-1 text-right">In attesa</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {(plans || []).map(plan => {
+              const comparison = comparisons.get(plan.id as number);
+              return (
+                <tr key={plan.id} className={plan.id === selectedPlanId ? 'border-t border-slate-200 bg-blue-50/60' : 'border-t border-slate-200'}>
+                  <td className="px-2 py-1 font-semibold">{plan.instrumentTicker}</td>
+                  <td className="px-2 py-1 text-right">{formatAmount(plan.amount, plan.currency)}</td>
+                  <td className="px-2 py-1">{SAVINGS_PLAN_FREQUENCY_LABELS[plan.frequency]}</td>
+                  <td className="px-2 py-1">{plan.account || '—'}</td>
+                  <td className="px-2 py-1">{plan.startDate} → {plan.endDate || '…'}</td>
+                  <td className="px-2 py-1 text-right">{formatAmount(comparison?.plannedTotal || 0, plan.currency)}</td>
+                  <td className="px-2 py-1 text-right">{formatAmount(comparison?.actualTotal || 0, plan.currency)}</td>
+                  <td className="px-2 py-1 text-right">{comparison?.dueCount || 0}</td>
+                  <td className="px-2 py-1 text-right whitespace-nowrap">
+                    <button type="button" className="text-[11px] text-slate-500 hover:text-primary mr-2" onClick={() => setSelectedPlanId(plan.id === selectedPlanId ? null : plan.id as number)}>
+                      Confronto
+                    </button>
+                    <button type="button" className="text-[11px] text-slate-500 hover:text-primary mr-2" onClick={() => openForm(plan)}>Modifica</button>
+                    <button type="button" className="text-[11px] text-rose-500 hover:text-rose-700" onClick={() => handleDeletePlan(plan)}>Elimina</button>
+                  </td>
+                </tr>
+              );
+            })}
+            {(plans || []).length === 0 && (
+              <tr>
+                <td colSpan={9} className="px-2 py-2 text-center text-slate-400">Nessun piano di accumulo</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {drafts.length > 0 && (
+        <div className="ui-panel-subtle p-3 space-y-2 text-xs">
+          <div className="flex items-center justify-between">
+            <div className="font-semibold text-slate-700">Esecuzioni da confermare ({drafts.length})</div>
+            <button type="button" className="ui-btn-ghost px-2 py-1 text-xs" onClick={handleFetchPrices} disabled={pricing}>
+              {pricing ? 'Ricerca prezzi...' : 'Usa prezzi di chiusura'}
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-80 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+                <tr>
+                  <th className="px-2 py-1 text-left">Prevista</th>
+                  <th className="px-2 py-1 text-left">Data</th>
+                  <th className="px-2 py-1 text-left">Strumento</th>
+                  <th className="px-2 py-1 text-right">Prezzo</th>
+                  <th className="px-2 py-1 text-right">Quantità</th>
+                  <th className="px-2 py-1 text-right">Commissioni</th>
+                  <th className="px-2 py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {drafts.map(draft => (
+                  <tr key={draftKey(draft)} className="border-t border-slate-200">
+                    <td className="px-2 py-1 text-slate-500">{draft.scheduledDate}</td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="date"
+                        className="ui-input text-xs w-36"
+                        value={format(draft.transaction.date, 'yyyy-MM-dd')}
+                        onChange={e => e.target.value && updateDraft(draft, { date: parseYmdLocal(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-2 py-1 font-semibold">{draft.transaction.instrumentTicker}</td>
+                    <td className="px-2 py-1 text-right">
+                      <input
+                        type="number"
+                        step="any"
+                        className="ui-input text-xs w-24 text-right"
+                        value={draft.transaction.price || ''}
+                        onChange={e => updateDraftPrice(draft, parseFloat(e.target.value))}
+                      />
+                      {draft.priceSource === 'market' && <div className="text-[10px] text-slate-400">chiusura</div>}
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      <input
+                        type="number"
+                        step="any"
+                        className="ui-input text-xs w-24 text-right"
+                        value={draft.transaction.quantity || ''}
+                        onChange={e => updateDraft(draft, { quantity: parseFloat(e.target.value) || 0 })}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      <input
+                        type="number"
+                        step="any"
+                        className="ui-input text-xs w-20 text-right"
+                        value={draft.transaction.fees}
+                        onChange={e => updateDraft(draft, { fees: parseFloat(e.target.value) || 0 })}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right whitespace-nowrap">
+                      <button type="button" className="ui-btn-primary px-2 py-1 text-[11px] mr-2" onClick={() => handleConfirm(draft)}>Conferma</button>
+                      <button type="button" className="text-[11px] text-slate-500 hover:text-rose-600" onClick={() => handleSkip(draft)}>Salta</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {selectedPlan && selectedComparison && (
+        <div className="ui-panel-subtle p-3 space-y-2 text-xs">
+          <div className="font-semibold text-slate-700">
+            Pianificato vs eseguito - {selectedPlan.instrumentTicker}
+          </div>
+          <div className="text-slate-600">
+            Pianificato {formatAmount(selectedComparison.plannedTotal, selectedPlan.currency)} ·
+            Eseguito {formatAmount(selectedComparison.actualTotal, selectedPlan.currency)} ·
+            Scostamento {formatAmount(selectedComparison.actualTotal - selectedComparison.plannedTotal, selectedPlan.currency)}
+            {selectedComparison.skippedCount > 0 && ` · ${selectedComparison.skippedCount} saltate`}
+          </div>
+          <div className="overflow-x-auto max-h-80 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-[11px] uppercase text-slate-500 bg-slate-50">
+                <tr>
+                  <th className="px-2 py-1 text-left">Data prevista</th>
+                  <th className="px-2 py-1 text-right">Pianificato</th>
+                  <th className="px-2 py-1 text-right">Eseguito</th>
+                  <th className="px-2 py-1 text-right">Differenza</th>
+                  <th className="px-2 py-1 text-left">Stato</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedComparison.rows.slice().reverse().map(row => (
+                  <tr key={row.scheduledDate} className="border-t border-slate-200">
+                    <td className="px-2 py-1">{row.scheduledDate}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(row.plannedAmount, selectedPlan.currency)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(row.actualAmount, selectedPlan.currency)}</td>
+                    <td className="px-2 py-1 text-right">{formatAmount(row.actualAmount - row.plannedAmount, selectedPlan.currency)}</td>
+                    <td className="px-2 py-1">{STATUS_LABELS[row.status]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
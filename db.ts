@@ -1,5 +1,5 @@
 import Dexie, { Table, Transaction as DexieTransaction } from 'dexie';
-import { Instrument, Transaction, PricePoint, MacroIndicator, AppSettings, Currency, AssetType, TransactionType, AssetClass, RebalancePlan, BacktestImport, BacktestImportPrice, BacktestScenarioRecord, InflationPoint, InflationAnnualPoint } from './types';
+import { Instrument, Transaction, PricePoint, MacroIndicator, AppSettings, Currency, AssetType, TransactionType, AssetClass, RebalancePlan, BacktestImport, BacktestImportPrice, BacktestScenarioRecord, InflationPoint, InflationAnnualPoint, SavingsPlan, CustomBenchmark, EtfBreakdown } from './types';
 import { subDays, format } from 'date-fns';
 
 export class PortfolioDB extends Dexie {
@@ -17,6 +17,9 @@ export class PortfolioDB extends Dexie {
   backtestScenarios!: Table<BacktestScenarioRecord>;
   inflationRates!: Table<InflationPoint>;
   inflationAnnualRates!: Table<InflationAnnualPoint>;
+  savingsPlans!: Table<SavingsPlan>;
+  customBenchmarks!: Table<CustomBenchmark>;
+  etfBreakdowns!: Table<EtfBreakdown>;
 
   constructor() {
     super('EasyPortfolioDB');
@@ -206,6 +209,98 @@ export class PortfolioDB extends Dexie {
       inflationRates: '++id, [currency+date], currency, date, portfolioId',
       inflationAnnualRates: '++id, [currency+year], currency, year, portfolioId'
     });
+
+    (this as any).version(12).stores({
+      instruments: '++id, ticker, type, portfolioId, isin, assetClass, regionAllocation',
+      transactions: '++id, date, instrumentTicker, type, account, portfolioId',
+      prices: '++id, [ticker+date], [instrumentId+date], date, portfolioId',
+      macro: '++id, date, portfolioId',
+      settings: '++id, portfolioId',
+      portfolios: '++id, portfolioId',
+      instrumentListings: '++id, isin, exchangeCode, symbol, portfolioId',
+      fxRates: '++id, [baseCurrency+quoteCurrency+date]',
+      rebalancePlans: 'id, portfolioId, createdAt',
+      backtestImports: '++id, portfolioId, ticker, createdAt',
+      backtestImportPrices: '++id, importId, [importId+date], date',
+      backtestScenarios: '++id, portfolioId, updatedAt',
+      inflationRates: '++id, [currency+date], currency, date, portfolioId',
+      inflationAnnualRates: '++id, [currency+year], currency, year, portfolioId',
+      savingsPlans: '++id, portfolioId, instrumentTicker'
+    });
+
+    // Currencies became open-ended ISO codes: only normalize the stored casing, values are kept as-is.
+    (this as any).version(13).stores({
+      instruments: '++id, ticker, type, portfolioId, isin, assetClass, regionAllocation',
+      transactions: '++id, date, instrumentTicker, type, account, portfolioId',
+      prices: '++id, [ticker+date], [instrumentId+date], date, portfolioId',
+      macro: '++id, date, portfolioId',
+      settings: '++id, portfolioId',
+      portfolios: '++id, portfolioId',
+      instrumentListings: '++id, isin, exchangeCode, symbol, portfolioId',
+      fxRates: '++id, [baseCurrency+quoteCurrency+date]',
+      rebalancePlans: 'id, portfolioId, createdAt',
+      backtestImports: '++id, portfolioId, ticker, createdAt',
+      backtestImportPrices: '++id, importId, [importId+date], date',
+      backtestScenarios: '++id, portfolioId, updatedAt',
+      inflationRates: '++id, [currency+date], currency, date, portfolioId',
+      inflationAnnualRates: '++id, [currency+year], currency, year, portfolioId',
+      savingsPlans: '++id, portfolioId, instrumentTicker'
+    }).upgrade(async (tx: DexieTransaction) => {
+      const fix = (obj: any, key: string) => {
+        if (obj && typeof obj[key] === 'string') obj[key] = obj[key].trim().toUpperCase();
+      };
+      await tx.table('instruments').toCollection().modify((obj: any) => {
+        fix(obj, 'currency');
+        fix(obj.preferredListing, 'currency');
+        if (Array.isArray(obj.listings)) obj.listings.forEach((listing: any) => fix(listing, 'currency'));
+      });
+      await tx.table('transactions').toCollection().modify((obj: any) => {
+        fix(obj, 'currency');
+        fix(obj, 'toCurrency');
+      });
+      await tx.table('instrumentListings').toCollection().modify((obj: any) => fix(obj, 'currency'));
+      await tx.table('settings').toCollection().modify((obj: any) => fix(obj, 'baseCurrency'));
+      await tx.table('savingsPlans').toCollection().modify((obj: any) => fix(obj, 'currency'));
+    });
+
+    (this as any).version(14).stores({
+      instruments: '++id, ticker, type, portfolioId, isin, assetClass, regionAllocation',
+      transactions: '++id, date, instrumentTicker, type, account, portfolioId',
+      prices: '++id, [ticker+date], [instrumentId+date], date, portfolioId',
+      macro: '++id, date, portfolioId',
+      settings: '++id, portfolioId',
+      portfolios: '++id, portfolioId',
+      instrumentListings: '++id, isin, exchangeCode, symbol, portfolioId',
+      fxRates: '++id, [baseCurrency+quoteCurrency+date]',
+      rebalancePlans: 'id, portfolioId, createdAt',
+      backtestImports: '++id, portfolioId, ticker, createdAt',
+      backtestImportPrices: '++id, importId, [importId+date], date',
+      backtestScenarios: '++id, portfolioId, updatedAt',
+      inflationRates: '++id, [currency+date], currency, date, portfolioId',
+      inflationAnnualRates: '++id, [currency+year], currency, year, portfolioId',
+      savingsPlans: '++id, portfolioId, instrumentTicker',
+      customBenchmarks: '++id, portfolioId, name'
+    });
+
+    (this as any).version(15).stores({
+      instruments: '++id, ticker, type, portfolioId, isin, assetClass, regionAllocation',
+      transactions: '++id, date, instrumentTicker, type, account, portfolioId',
+      prices: '++id, [ticker+date], [instrumentId+date], date, portfolioId',
+      macro: '++id, date, portfolioId',
+      settings: '++id, portfolioId',
+      portfolios: '++id, portfolioId',
+      instrumentListings: '++id, isin, exchangeCode, symbol, portfolioId',
+      fxRates: '++id, [baseCurrency+quoteCurrency+date]',
+      rebalancePlans: 'id, portfolioId, createdAt',
+      backtestImports: '++id, portfolioId, ticker, createdAt',
+      backtestImportPrices: '++id, importId, [importId+date], date',
+      backtestScenarios: '++id, portfolioId, updatedAt',
+      inflationRates: '++id, [currency+date], currency, date, portfolioId',
+      inflationAnnualRates: '++id, [currency+year], currency, year, portfolioId',
+      savingsPlans: '++id, portfolioId, instrumentTicker',
+      customBenchmarks: '++id, portfolioId, name',
+      etfBreakdowns: '++id, portfolioId, [portfolioId+ticker]'
+    });
   }
 }
 
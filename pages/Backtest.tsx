@@ -8,7 +8,14 @@ import { BacktestBuilder } from '../components/backtest/BacktestBuilder';
 import { BacktestResults } from '../components/backtest/BacktestResults';
 import { buildBacktestScenarioDataKey, loadBacktestScenarioData } from '../services/backtestDataSource';
 import { runBacktest } from '../services/backtestEngine';
+import { getRiskFreeRate } from '../services/riskMetrics';
+import { computeCorrelationRisk } from '../services/correlationRisk';
 import { listBacktestImports } from '../services/backtestImportRepository';
+import { listCustomBenchmarks, loadCustomBenchmarkData } from '../services/customBenchmarkRepository';
+import { buildBlendedBenchmarkSeries } from '../services/blendedBenchmark';
+import type { BenchmarkSeriesResult } from '../services/financeUtils';
+import { getFxPivots } from '../services/fxResolver';
+import { CustomBenchmarksPanel } from '../components/CustomBenchmarksPanel';
 import { BacktestScenarioList } from '../components/backtest/BacktestScenarioList';
 import { BacktestComparisonPanel } from '../components/backtest/BacktestComparisonPanel';
 import { createBacktestScenario, deleteBacktestScenario, duplicateBacktestScenario, getBacktestScenarioById, listBacktestScenarios, saveBacktestScenario } from '../services/backtestScenarioRepository';
@@ -16,9 +23,11 @@ import { createBacktestScenario, deleteBacktestScenario, duplicateBacktestScenar
 export const Backtest: React.FC = () => {
   const portfolioId = getCurrentPortfolioId();
   const settings = useLiveQuery(() => db.settings.where('portfolioId').equals(portfolioId).first(), [portfolioId]);
+  const fxPivots = useMemo(() => getFxPivots(settings), [settings?.baseCurrency, settings?.fxPivotCurrency]);
   const instruments = useLiveQuery(() => db.instruments.where('portfolioId').equals(portfolioId).toArray(), [portfolioId], []);
   const imports = useLiveQuery(() => listBacktestImports(portfolioId), [portfolioId], []);
   const scenarios = useLiveQuery(() => listBacktestScenarios(portfolioId), [portfolioId], []);
+  const customBenchmarks = useLiveQuery(() => listCustomBenchmarks(portfolioId), [portfolioId], []);
 
   const [mode, setMode] = useState<'builder' | 'results'>('builder');
   const [result, setResult] = useState<BacktestResult | null>(null);
@@ -28,6 +37,9 @@ export const Backtest: React.FC = () => {
   const [currentScenarioId, setCurrentScenarioId] = useState<number | null>(null);
   const [savedSnapshot, setSavedSnapshot] = useState<string | null>(null);
   const [saveNotice, setSaveNotice] = useState<string | null>(null);
+  const [customBenchmarksOpen, setCustomBenchmarksOpen] = useState(false);
+  const [benchmarkId, setBenchmarkId] = useState<number | null>(null);
+  const [benchmarkSeries, setBenchmarkSeries] = useState<BenchmarkSeriesResult | null>(null);
 
   const defaultStart = useMemo(() => format(subDays(new Date(), 365), 'yyyy-MM-dd'), []);
   const defaultEnd = useMemo(() => format(new Date(), 'yyyy-MM-dd'), []);
@@ -165,13 +177,61 @@ export const Backtest: React.FC = () => {
     return () => { cancelled = true; };
   }, [scenarioDataKey, portfolioId]);
 
+  const correlation = useMemo(() => {
+    if (!scenarioData || scenarioData.key !== scenarioDataKey || scenario.assets.length < 2) return null;
+    return computeCorrelationRisk({
+      prices: scenarioData.series.map(point => ({ ticker: point.assetId, date: point.date, close: point.close, currency: point.currency })),
+      fxRates: scenarioData.fxRates,
+      baseCurrency: scenario.baseCurrency,
+      assets: scenario.assets.map(asset => ({ key: asset.id, label: asset.ticker, weight: asset.allocationPct })),
+      startDate: scenarioData.quality.effectiveStartDate || scenario.startDate,
+      endDate: scenarioData.quality.effectiveEndDate || scenario.endDate,
+      fxPivots
+    });
+  }, [scenarioData, scenarioDataKey, scenario.assets, scenario.baseCurrency, scenario.startDate, scenario.endDate, fxPivots]);
+
+  const selectedBenchmark = useMemo(
+    () => (customBenchmarks || []).find(benchmark => benchmark.id === benchmarkId),
+    [customBenchmarks, benchmarkId]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const dates = (result?.navSeries || []).map(point => point.date);
+      if (!selectedBenchmark || !dates.length) {
+        setBenchmarkSeries(null);
+        return;
+      }
+      const { components, fxRates } = await loadCustomBenchmarkData({
+        benchmark: selectedBenchmark,
+        portfolioId,
+        baseCurrency: scenario.baseCurrency,
+        startDate: dates[0],
+        endDate: dates[dates.length - 1],
+        fxPivots
+      });
+      if (cancelled) return;
+      setBenchmarkSeries(buildBlendedBenchmarkSeries({
+        dates,
+        components,
+        rebalance: selectedBenchmark.rebalance,
+        baseCurrency: scenario.baseCurrency,
+        fxRates,
+        fxPivots
+      }));
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [selectedBenchmark, result, portfolioId, scenario.baseCurrency, fxPivots]);
+
   const handleRun = async () => {
     setRunLoading(true);
     const data = scenarioData && scenarioData.key === scenarioDataKey
       ? scenarioData
       : await loadBacktestScenarioData(scenario, portfolioId);
     setScenarioData(data);
-    const backtestResult = runBacktest(scenario, data);
+    const backtestResult = runBacktest(scenario, data, { riskFreeRate: getRiskFreeRate(settings, scenario.baseCurrency) });
     setResult(backtestResult);
     setMode('results');
     setRunLoading(false);
@@ -195,7 +255,21 @@ export const Backtest: React.FC = () => {
           <BacktestComparisonPanel
             scenarios={scenarios || []}
             portfolioId={portfolioId}
+            riskFreeRates={settings?.riskFreeRates}
           />
+          <div className="flex justify-end">
+            <button type="button" className="ui-btn-secondary" onClick={() => setCustomBenchmarksOpen(prev => !prev)}>
+              Benchmark personalizzati
+            </button>
+          </div>
+          {customBenchmarksOpen && (
+            <CustomBenchmarksPanel
+              portfolioId={portfolioId}
+              instruments={instruments || []}
+              imports={imports || []}
+              onClose={() => setCustomBenchmarksOpen(false)}
+            />
+          )}
           <BacktestBuilder
             scenario={scenario}
             instruments={instruments || []}
@@ -203,6 +277,7 @@ export const Backtest: React.FC = () => {
             portfolioId={portfolioId}
             quality={scenarioData?.quality || null}
             qualityLoading={dataLoading}
+            correlation={correlation}
             currentScenarioId={currentScenarioId}
             isDirty={isDirty}
             saveNotice={saveNotice}
@@ -221,6 +296,10 @@ export const Backtest: React.FC = () => {
         <BacktestResults
           scenario={scenario}
           result={result}
+          benchmarks={customBenchmarks || []}
+          benchmarkId={benchmarkId}
+          benchmarkSeries={benchmarkSeries}
+          onBenchmarkChange={setBenchmarkId}
           onBack={handleBack}
         />
       )}
@@ -1,17 +1,37 @@
-﻿import React, { useEffect, useMemo, useState } from 'react';
+﻿import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { db, getCurrentPortfolioId } from '../db';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { calculateHoldings, calculatePortfolioState, calculateHistoricalPerformance, calculateAnalytics, Granularity, calculateAllocationByAssetClass, calculateRegionExposure, getPortfolioDateBounds, getRegionLabel, computeMwrrSeries, downsampleHistoryToMonthly, getCanonicalTicker, getValuationDateForHoldings, buildBenchmarkComparisonSeries } from '../services/financeUtils';
+import { calculateHoldings, calculatePortfolioState, calculateHistoricalPerformance, calculateAnalytics, Granularity, calculateAllocationByAssetClass, calculateRegionExposure, calculateSectorExposure, getAssetClassLabel, getPortfolioDateBounds, getRegionLabel, computeMwrrSeries, downsampleHistoryToMonthly, getCanonicalTicker, getValuationDateForHoldings, buildBenchmarkComparisonSeries } from '../services/financeUtils';
 import { DEFAULT_INDICATORS, computeMacroIndex, mapIndexToPhase, MacroIndicatorConfig } from '../services/macroService';
 import { queryFxForPairsRange, queryLatestFxForPairs, queryLatestPricesForTickers, queryPriceBoundsForTickers, queryPricesForTickersRange } from '../services/dbQueries';
 import { runGapFill, runLatestSync } from '../services/syncActionsService';
 import { downsampleSeries } from '../services/chartUtils';
+import { getFxLookupPairs, getFxPivots } from '../services/fxResolver';
 import { computeSyncStatus, getFxPairsForHoldings, getHoldingsTickers, getLastGapFillAt, getLastLatestSyncAt } from '../services/syncStatusService';
 import { computePortfolioCoverage } from '../services/dataCoverage';
 import { computeCurrentValuedPositions } from '../services/positionValuation';
-import { computePositionCostBasis } from '../services/positionCostBasis';
+import { computeCashBalances, groupCashByAccount, hasCashTracking, valueCashBalances } from '../services/cashLedger';
+import { computeTaxLotLedger, DEFAULT_COST_BASIS_METHOD, getOpenLotsForTicker, summarizeOpenLots } from '../services/taxLots';
 import { formatQuantity } from '../services/quantityFormat';
-import { computePortfolioCostMetrics } from '../services/portfolioCostService';
+import { computePortfolioCostMetrics, estimateTradeFeeRatePct } from '../services/portfolioCostService';
+import { FeeDragPanel } from '../components/FeeDragPanel';
+import { buildDividendCalendar, computeDividendIncome } from '../services/dividendIncome';
+import { computeReturnAttribution } from '../services/returnAttribution';
+import { buildContributionWaterfall, computePositionContributions } from '../services/positionContribution';
+import { BenchmarkSeries, computeBrinsonAttribution } from '../services/brinsonAttribution';
+import { computeRiskMetrics, getRiskFreeRate, toIndexSeries } from '../services/riskMetrics';
+import { buildRollingRows } from '../services/rollingMetrics';
+import { RollingMetricsChart } from '../components/RollingMetricsChart';
+import { buildMonthlyReturnGrid, computeTrailingReturns } from '../services/periodReturns';
+import { MonthlyReturnsHeatmap, TrailingReturnsTable } from '../components/PeriodReturnsTables';
+import { computeCorrelationRisk } from '../services/correlationRisk';
+import { CorrelationRiskPanel } from '../components/CorrelationRiskPanel';
+import { getBacktestImportPricesByImportIds, listBacktestImports } from '../services/backtestImportRepository';
+import { listCustomBenchmarks } from '../services/customBenchmarkRepository';
+import { listEtfBreakdowns } from '../services/etfBreakdownRepository';
+import { LookThroughPanel } from '../components/LookThroughPanel';
+import { buildBlendedBenchmarkSeries, BENCHMARK_REBALANCE_LABELS, parseCustomBenchmarkValue, resolveBlendedComponents, toCustomBenchmarkValue } from '../services/blendedBenchmark';
+import { CustomBenchmarksPanel } from '../components/CustomBenchmarksPanel';
 import { computeRealNavBalanceMetrics, resolveInflationInputForRange } from '../services/inflationService';
 import {
   PRIMARY_BLUE,
@@ -62,6 +82,7 @@ const KPICard = ({ title, value, subValue, highlight = false, alert = false }: {
 );
 
 const POSITIONS_MAX = 8;
+const MONTH_LABELS = ['Gen', 'Feb', 'Mar', 'Apr', 'Mag', 'Giu', 'Lug', 'Ago', 'Set', 'Ott', 'Nov', 'Dic'];
 
 const formatMoney = (value: number, currency: Currency, decimals: number) => {
   if (!Number.isFinite(value) || value <= 0) return '—';
@@ -101,10 +122,10 @@ const formatSignedPct = (value: number) => {
   return `${sign}${Math.abs(value).toFixed(1)}%`;
 };
 
-const formatChfValue = (value: number) => {
+const formatBaseValue = (value: number, currency: Currency) => {
   if (!Number.isFinite(value) || value <= 0) return '—';
   const decimals = value < 100 ? 2 : 0;
-  return formatMoney(value, Currency.CHF, decimals);
+  return formatMoney(value, currency, decimals);
 };
 
 const formatCurrencyValue = (value: number, currency: Currency, decimals?: number) => {
@@ -305,6 +326,7 @@ export const Dashboard: React.FC = () => {
   const [gapFillRunning, setGapFillRunning] = useState(false);
   const [latestSyncStatus, setLatestSyncStatus] = useState('');
   const [gapFillStatus, setGapFillStatus] = useState('');
+  const [incomeYear, setIncomeYear] = useState<number | null>(null);
   const [lastLatestSyncAt, setLastLatestSyncAtState] = useState<string | null>(() => getLastLatestSyncAt(currentPortfolioId));
   const [lastGapFillAt, setLastGapFillAtState] = useState<string | null>(() => getLastGapFillAt(currentPortfolioId));
 
@@ -318,9 +340,14 @@ export const Dashboard: React.FC = () => {
     return calculateHoldings(transactions);
   }, [transactions]);
 
+  const costBasisMethod = settings?.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+  const taxLotLedger = useMemo(() => {
+    return computeTaxLotLedger(transactions || [], { method: costBasisMethod });
+  }, [transactions, costBasisMethod]);
+
   const costBasisByTicker = useMemo(() => {
-    return computePositionCostBasis(transactions || []);
-  }, [transactions]);
+    return summarizeOpenLots(taxLotLedger);
+  }, [taxLotLedger]);
 
   const priceTickers = useMemo(() => {
     const set = new Set<string>();
@@ -341,6 +368,12 @@ export const Dashboard: React.FC = () => {
     [holdings, instruments, baseCurrency]
   );
   const fxPairsKey = useMemo(() => fxPairs.slice().sort().join('|'), [fxPairs]);
+  const fxPivots = useMemo(() => getFxPivots(settings), [settings?.baseCurrency, settings?.fxPivotCurrency]);
+  const fxLookupPairs = useMemo(
+    () => getFxLookupPairs(Array.from(new Set(fxPairs.flatMap(pair => pair.split('/')))), fxPivots),
+    [fxPairs, fxPivots]
+  );
+  const fxLookupPairsKey = useMemo(() => fxLookupPairs.join('|'), [fxLookupPairs]);
 
   const priceTickersKey = useMemo(() => priceTickers.slice().sort().join('|'), [priceTickers]);
 
@@ -423,9 +456,9 @@ export const Dashboard: React.FC = () => {
   const fxRatesRange = useLiveQuery(
     () => {
       if (!fxPairs.length || !priceQueryStart || !priceQueryEnd) return Promise.resolve([]);
-      return queryFxForPairsRange({ pairs: fxPairs, startDate: priceQueryStart, endDate: priceQueryEnd });
+      return queryFxForPairsRange({ pairs: fxLookupPairs, startDate: priceQueryStart, endDate: priceQueryEnd });
     },
-    [fxPairsKey, priceQueryStart, priceQueryEnd],
+    [fxLookupPairsKey, priceQueryStart, priceQueryEnd],
     []
   );
 
@@ -457,9 +490,10 @@ export const Dashboard: React.FC = () => {
       prices: prices || [],
       fxRates: fxRatesRange || [],
       valuationDate: priceQueryEnd || undefined,
-      today: format(new Date(), 'yyyy-MM-dd')
+      today: format(new Date(), 'yyyy-MM-dd'),
+      fxPivots
     });
-  }, [baseCurrency, holdings, instruments, latestPrices, latestFx, prices, fxRatesRange, priceQueryEnd]);
+  }, [baseCurrency, holdings, instruments, latestPrices, latestFx, prices, fxRatesRange, priceQueryEnd, fxPivots]);
   const coverage = useMemo(() => {
     return computePortfolioCoverage({
       holdings,
@@ -489,9 +523,16 @@ export const Dashboard: React.FC = () => {
       prices: prices || [],
       fxRates: fxRatesRange || [],
       valuationDate: valuationDateEffective,
-      baseCurrency: Currency.CHF
+      baseCurrency,
+      fxPivots
     });
-  }, [holdings, instruments, prices, fxRatesRange, valuationDateEffective]);
+  }, [holdings, instruments, prices, fxRatesRange, valuationDateEffective, baseCurrency, fxPivots]);
+
+  const cashByAccount = useMemo(() => {
+    if (!transactions || !fxRates || !valuationDateEffective || !hasCashTracking(transactions)) return null;
+    const valued = valueCashBalances(computeCashBalances(transactions), baseCurrency, valuationDateEffective, fxRates, fxPivots);
+    return { ...valued, accounts: groupCashByAccount(valued.balances) };
+  }, [transactions, fxRates, valuationDateEffective, baseCurrency, fxPivots]);
 
   const positionsSorted = useMemo(() => {
     const list = valuedPositions?.positions || [];
@@ -516,6 +557,8 @@ export const Dashboard: React.FC = () => {
   const [performanceMode, setPerformanceMode] = useState<'nominal' | 'real'>('nominal');
   const [benchmarkEnabled, setBenchmarkEnabled] = useState(false);
   const [benchmarkTicker, setBenchmarkTicker] = useState('');
+  const [customBenchmarksOpen, setCustomBenchmarksOpen] = useState(false);
+  const [feeDragOpen, setFeeDragOpen] = useState(false);
   const isRealMode = performanceMode === 'real';
 
   useEffect(() => {
@@ -563,27 +606,35 @@ export const Dashboard: React.FC = () => {
   const dailyTrends = useMemo(() => {
     if (!transactions || !prices || !instruments) return null;
     const t0 = import.meta.env.DEV ? performance.now() : 0;
-    const result = calculateHistoricalPerformance(transactions, instruments, prices, 120, 'daily');
+    const result = calculateHistoricalPerformance(transactions, instruments, prices, 120, 'daily', {
+      fxRates: fxRates || [],
+      baseCurrency,
+      pivots: fxPivots
+    });
     if (import.meta.env.DEV) {
       console.log('[PERF][Dashboard] calc history daily', Math.round(performance.now() - t0), 'ms', {
         points: result.history.length
       });
     }
     return result;
-  }, [transactions, prices, instruments]);
+  }, [transactions, prices, instruments, fxRates, baseCurrency, fxPivots]);
 
   const monthlyTrends = useMemo(() => {
     if (!transactions || !prices || !instruments) return null;
     if (dailyTrends && dailyTrends.history.length > 1) return null;
     const t0 = import.meta.env.DEV ? performance.now() : 0;
-    const result = calculateHistoricalPerformance(transactions, instruments, prices, 120, 'monthly');
+    const result = calculateHistoricalPerformance(transactions, instruments, prices, 120, 'monthly', {
+      fxRates: fxRates || [],
+      baseCurrency,
+      pivots: fxPivots
+    });
     if (import.meta.env.DEV) {
       console.log('[PERF][Dashboard] calc history monthly', Math.round(performance.now() - t0), 'ms', {
         points: result.history.length
       });
     }
     return result;
-  }, [transactions, prices, instruments, dailyTrends]);
+  }, [transactions, prices, instruments, fxRates, baseCurrency, fxPivots, dailyTrends]);
 
   const baseHistory = useMemo(() => {
     if (dailyTrends && dailyTrends.history.length > 1) return dailyTrends.history;
@@ -653,6 +704,31 @@ export const Dashboard: React.FC = () => {
     return isRealMode && inflationInput.mode === 'monthly' ? realRangeHistory : rangeHistory;
   }, [isRealMode, inflationInput.mode, realRangeHistory, rangeHistory]);
 
+  // Trailing windows and the monthly grid always look at the whole history, not the selected range
+  const fullRealHistory = useMemo(() => {
+    const input = resolveInflationInputForRange({
+      history: baseHistory,
+      monthlyPoints: inflationRates || [],
+      annualPoints: inflationAnnualRates || [],
+      currency: baseCurrency
+    });
+    return input.mode === 'monthly' ? input.realHistory : [];
+  }, [baseHistory, inflationRates, inflationAnnualRates, baseCurrency]);
+
+  const trailingReturns = useMemo(() => {
+    return computeTrailingReturns({
+      history: baseHistory,
+      transactions: transactions || [],
+      realHistory: fullRealHistory,
+      market: { instruments: instruments || [], prices: prices || [], fx: { fxRates: fxRates || [], baseCurrency, pivots: fxPivots } }
+    });
+  }, [baseHistory, transactions, fullRealHistory, instruments, prices, fxRates, baseCurrency, fxPivots]);
+
+  const monthlyReturnGrid = useMemo(() => {
+    const history = isRealMode && fullRealHistory.length ? fullRealHistory : baseHistory;
+    return buildMonthlyReturnGrid(toIndexSeries(history));
+  }, [isRealMode, fullRealHistory, baseHistory]);
+
   const costMetrics = useMemo(() => {
     return computePortfolioCostMetrics({
       transactions: transactions || [],
@@ -665,6 +741,149 @@ export const Dashboard: React.FC = () => {
     });
   }, [transactions, instruments, valuedPositions, fxRatesRange, rangeStartDate, rangeEndDate, baseCurrency]);
 
+  const tradeFeeRatePct = useMemo(() => estimateTradeFeeRatePct(transactions || []), [transactions]);
+
+  const dividendIncome = useMemo(() => {
+    if (!transactions || !fxRates) return null;
+    return computeDividendIncome({
+      transactions,
+      instruments: instruments || [],
+      fxRates,
+      baseCurrency,
+      asOfDate: valuationDateEffective || format(new Date(), 'yyyy-MM-dd'),
+      holdings,
+      costBasis: costBasisByTicker,
+      rules: settings?.withholdingRules
+    });
+  }, [transactions, instruments, fxRates, baseCurrency, valuationDateEffective, holdings, costBasisByTicker, settings?.withholdingRules]);
+
+  const returnAttribution = useMemo(() => {
+    if (!transactions?.length || !instruments || !prices || !fxRates || !rangeStartDate) return null;
+    return computeReturnAttribution({
+      transactions,
+      instruments,
+      prices,
+      fxRates,
+      baseCurrency,
+      fxPivots,
+      startDate: rangeStartDate,
+      endDate: rangeEndDate || undefined,
+      granularity: kpiGranularity
+    });
+  }, [transactions, instruments, prices, fxRates, baseCurrency, fxPivots, rangeStartDate, rangeEndDate, kpiGranularity]);
+
+  const positionContributions = useMemo(() => {
+    if (!transactions?.length || !instruments || !prices || !fxRates || !rangeStartDate || !rangeEndDate) return null;
+    return computePositionContributions({
+      transactions,
+      instruments,
+      prices,
+      fxRates,
+      baseCurrency,
+      fxPivots,
+      startDate: rangeStartDate,
+      endDate: rangeEndDate
+    });
+  }, [transactions, instruments, prices, fxRates, baseCurrency, fxPivots, rangeStartDate, rangeEndDate]);
+
+  const contributionWaterfall = useMemo(() => {
+    if (!positionContributions) return [];
+    return buildContributionWaterfall(positionContributions, 12).map(step => ({
+      ...step,
+      range: [Math.min(step.start, step.end), Math.max(step.start, step.end)]
+    }));
+  }, [positionContributions]);
+
+  const attributionChart = useMemo(() => {
+    return downsampleSeries(returnAttribution?.series || [], 400).map(point => ({
+      ...point,
+      displayDate: format(new Date(`${point.date}T12:00:00`), 'dd MMM yy')
+    }));
+  }, [returnAttribution]);
+
+  const backtestImports = useLiveQuery(() => listBacktestImports(currentPortfolioId), [currentPortfolioId], []);
+  const customBenchmarks = useLiveQuery(() => listCustomBenchmarks(currentPortfolioId), [currentPortfolioId], []);
+  const etfBreakdowns = useLiveQuery(() => listEtfBreakdowns(currentPortfolioId), [currentPortfolioId], []);
+  const attributionBenchmarks = settings?.attributionBenchmarks;
+  const benchmarkImportIds = useMemo(() => {
+    const ids = new Set(Object.values(attributionBenchmarks || {}));
+    (customBenchmarks || []).forEach(benchmark => benchmark.components.forEach(c => {
+      if (c.source === 'CSV_IMPORT' && c.importId) ids.add(c.importId);
+    }));
+    return Array.from(ids).sort((a, b) => a - b);
+  }, [attributionBenchmarks, customBenchmarks]);
+  const benchmarkImportPrices = useLiveQuery(
+    () => getBacktestImportPricesByImportIds({
+      importIds: benchmarkImportIds,
+      startDate: rangeStartDate,
+      endDate: rangeEndDate,
+      lookbackDays: 10
+    }),
+    [benchmarkImportIds.join('|'), rangeStartDate, rangeEndDate],
+    []
+  );
+  const attributionBenchmarkSeries = useMemo(() => {
+    const map = new Map<string, BenchmarkSeries>();
+    Object.entries(attributionBenchmarks || {}).forEach(([ticker, importId]) => {
+      const meta = (backtestImports || []).find(row => row.id === importId);
+      if (!meta) return;
+      map.set(ticker, {
+        currency: meta.currency as Currency,
+        points: (benchmarkImportPrices || []).filter(row => row.importId === importId)
+      });
+    });
+    return map;
+  }, [attributionBenchmarks, backtestImports, benchmarkImportPrices]);
+
+  const brinsonAttribution = useMemo(() => {
+    if (!transactions?.length || !instruments || !prices || !fxRates || !rangeStartDate) return null;
+    return computeBrinsonAttribution({
+      transactions,
+      instruments,
+      prices,
+      fxRates,
+      baseCurrency,
+      fxPivots,
+      startDate: rangeStartDate,
+      endDate: rangeEndDate || undefined,
+      granularity: kpiGranularity,
+      benchmarkSeries: attributionBenchmarkSeries
+    });
+  }, [transactions, instruments, prices, fxRates, baseCurrency, fxPivots, rangeStartDate, rangeEndDate, kpiGranularity, attributionBenchmarkSeries]);
+  const targetInstruments = useMemo(
+    () => (instruments || []).filter(inst => (inst.targetAllocation || 0) > 0),
+    [instruments]
+  );
+
+  const [benchmarkSaveError, setBenchmarkSaveError] = useState('');
+
+  const handleBenchmarkChange = async (ticker: string, value: string) => {
+    if (!settings?.id) return;
+    const next = { ...(settings.attributionBenchmarks || {}) };
+    if (value) next[ticker] = Number(value);
+    else delete next[ticker];
+    setBenchmarkSaveError('');
+    try {
+      await db.settings.update(settings.id, { attributionBenchmarks: next });
+    } catch (e: any) {
+      setBenchmarkSaveError(e?.message || 'Errore nel salvataggio della serie benchmark.');
+    }
+  };
+
+  const incomeMonthlyChart = useMemo(() => {
+    return (dividendIncome?.monthly || []).slice(-24).map(row => ({
+      ...row,
+      displayDate: format(new Date(`${row.month}-01T12:00:00`), 'MMM yy')
+    }));
+  }, [dividendIncome]);
+
+  const incomeYears = useMemo(() => (dividendIncome?.annual || []).map(row => row.year).reverse(), [dividendIncome]);
+  const incomeYearSelected = incomeYear ?? incomeYears[0];
+  const incomeCalendar = useMemo(() => {
+    if (!dividendIncome || !incomeYearSelected) return [];
+    return buildDividendCalendar(dividendIncome.payments, incomeYearSelected);
+  }, [dividendIncome, incomeYearSelected]);
+
   const chartGranularity: Granularity = useMemo(() => {
     if (kpiGranularity === 'monthly') return 'monthly';
     if (timeRange === 'MAX' && activeRangeHistory.length > CHART_DOWNSAMPLE_THRESHOLD) return 'monthly';
@@ -690,14 +909,16 @@ export const Dashboard: React.FC = () => {
     return downsampleSeries(chartHistory, maxPoints);
   }, [chartHistory, chartGranularity]);
 
+  const riskFreeRate = getRiskFreeRate(settings, baseCurrency);
+
   const analytics = useMemo(() => {
-    return calculateAnalytics(activeRangeHistory, kpiGranularity);
-  }, [activeRangeHistory, kpiGranularity]);
+    return calculateAnalytics(activeRangeHistory, kpiGranularity, riskFreeRate);
+  }, [activeRangeHistory, kpiGranularity, riskFreeRate]);
 
   const analyticsAll = useMemo(() => {
     if (!baseHistory.length) return null;
-    return calculateAnalytics(baseHistory, kpiGranularity);
-  }, [baseHistory, kpiGranularity]);
+    return calculateAnalytics(baseHistory, kpiGranularity, riskFreeRate);
+  }, [baseHistory, kpiGranularity, riskFreeRate]);
 
   // --- Data Preparation (Filtered by TimeRange) ---
 
@@ -729,8 +950,12 @@ export const Dashboard: React.FC = () => {
 
   const mwrrSeries = useMemo(() => {
     if (isRealMode || metric !== 'MWRR' || !rangeHistory.length) return [];
-    return computeMwrrSeries(rangeHistory, transactions || []);
-  }, [isRealMode, metric, rangeHistory, transactions]);
+    return computeMwrrSeries(rangeHistory, transactions || [], {
+      instruments: instruments || [],
+      prices: prices || [],
+      fx: { fxRates: fxRates || [], baseCurrency, pivots: fxPivots }
+    });
+  }, [isRealMode, metric, rangeHistory, transactions, instruments, prices, fxRates, baseCurrency, fxPivots]);
 
   const benchmarkModeAvailable = !isRealMode && metric === 'PERF' && valueMode === 'PERF_INDEX';
 
@@ -747,8 +972,14 @@ export const Dashboard: React.FC = () => {
         options.set(canonical, { value: canonical, label });
       }
     });
-    return Array.from(options.values()).sort((a, b) => a.label.localeCompare(b.label));
-  }, [instruments]);
+    const custom = (customBenchmarks || [])
+      .filter(benchmark => benchmark.id)
+      .map(benchmark => ({
+        value: toCustomBenchmarkValue(benchmark.id as number),
+        label: `${benchmark.name} \u2022 personalizzato`
+      }));
+    return [...custom, ...Array.from(options.values()).sort((a, b) => a.label.localeCompare(b.label))];
+  }, [instruments, customBenchmarks]);
 
   const benchmarkOptionsByValue = useMemo(() => {
     return new Map(benchmarkOptions.map(opt => [opt.value, opt]));
@@ -764,6 +995,47 @@ export const Dashboard: React.FC = () => {
 
   const benchmarkActive = benchmarkEnabled && benchmarkModeAvailable && !!benchmarkTicker;
 
+  const selectedCustomBenchmark = useMemo(() => {
+    const id = parseCustomBenchmarkValue(benchmarkTicker);
+    return id ? (customBenchmarks || []).find(benchmark => benchmark.id === id) : undefined;
+  }, [benchmarkTicker, customBenchmarks]);
+  const benchmarkLabel = selectedCustomBenchmark
+    ? `${selectedCustomBenchmark.name} (${BENCHMARK_REBALANCE_LABELS[selectedCustomBenchmark.rebalance].toLowerCase()})`
+    : benchmarkTicker;
+
+  const customBenchmarkComponents = useMemo(() => {
+    if (!selectedCustomBenchmark) return [];
+    return resolveBlendedComponents({
+      benchmark: selectedCustomBenchmark,
+      prices: prices || [],
+      importPrices: benchmarkImportPrices || [],
+      imports: backtestImports || [],
+      baseCurrency
+    });
+  }, [selectedCustomBenchmark, prices, benchmarkImportPrices, backtestImports, baseCurrency]);
+
+  const buildSelectedBenchmarkSeries = useCallback((history: { date: string }[]) => {
+    if (selectedCustomBenchmark) {
+      return buildBlendedBenchmarkSeries({
+        dates: history.map(point => point.date),
+        components: customBenchmarkComponents,
+        rebalance: selectedCustomBenchmark.rebalance,
+        baseCurrency,
+        fxRates: fxRates || [],
+        fxPivots
+      });
+    }
+    return buildBenchmarkComparisonSeries({
+      chartHistory: history,
+      prices: prices || [],
+      fxRates: fxRates || [],
+      instruments: instruments || [],
+      benchmarkTicker,
+      baseCurrency,
+      fxPivots
+    });
+  }, [selectedCustomBenchmark, customBenchmarkComponents, prices, fxRates, instruments, benchmarkTicker, baseCurrency, fxPivots]);
+
   const benchmarkSeries = useMemo(() => {
     if (!benchmarkActive) {
       return {
@@ -773,18 +1045,63 @@ export const Dashboard: React.FC = () => {
         endDate: undefined as string | undefined
       };
     }
-    return buildBenchmarkComparisonSeries({
-      chartHistory,
-      prices: prices || [],
-      fxRates: fxRates || [],
-      instruments: instruments || [],
-      benchmarkTicker,
-      baseCurrency
-    });
-  }, [benchmarkActive, chartHistory, prices, fxRates, instruments, benchmarkTicker, baseCurrency]);
+    return buildSelectedBenchmarkSeries(chartHistory);
+  }, [benchmarkActive, chartHistory, buildSelectedBenchmarkSeries]);
 
   const benchmarkWarning = benchmarkSeries.warning;
 
+  // Same benchmark as the chart, but on the KPI series so beta and tracking error use every period of the range
+  const riskBenchmarkSeries = useMemo(() => {
+    if (!benchmarkActive || !activeRangeHistory.length) return null;
+    return buildSelectedBenchmarkSeries(activeRangeHistory);
+  }, [benchmarkActive, activeRangeHistory, buildSelectedBenchmarkSeries]);
+
+  const riskMetrics = useMemo(() => {
+    const benchmark = riskBenchmarkSeries
+      ? Array.from(riskBenchmarkSeries.byDate.values())
+        .filter(point => Number.isFinite(point.benchmarkIndex))
+        .map(point => ({ date: point.date, index: point.benchmarkIndex as number }))
+      : undefined;
+    return computeRiskMetrics({
+      series: toIndexSeries(activeRangeHistory),
+      granularity: kpiGranularity,
+      riskFreeRate,
+      benchmark
+    });
+  }, [activeRangeHistory, kpiGranularity, riskFreeRate, riskBenchmarkSeries]);
+
+  // Windows look back over the whole history, only the plotted dates follow the selected range
+  const rollingRows = useMemo(() => {
+    const rows = buildRollingRows(toIndexSeries(baseHistory), kpiGranularity, riskFreeRate);
+    return rows.filter(row => (!rangeStartDate || row.date >= rangeStartDate) && (!rangeEndDate || row.date <= rangeEndDate));
+  }, [baseHistory, kpiGranularity, riskFreeRate, rangeStartDate, rangeEndDate]);
+
+  const correlationRisk = useMemo(() => {
+    if (!valuedPositions || !instruments || !prices || !rangeStartDate || !rangeEndDate) return null;
+    const instrumentByTicker = new Map(instruments.map(inst => [inst.ticker, inst]));
+    const assets = valuedPositions.positions
+      .filter(position => position.currentValueCHF > 0)
+      .map(position => {
+        const inst = instrumentByTicker.get(position.ticker);
+        return {
+          key: (inst && getCanonicalTicker(inst)) || position.ticker,
+          label: position.name,
+          weight: position.currentValueCHF
+        };
+      });
+    if (assets.length < 2) return null;
+    return computeCorrelationRisk({
+      prices,
+      fxRates: fxRates || [],
+      baseCurrency,
+      assets,
+      startDate: rangeStartDate,
+      endDate: rangeEndDate,
+      granularity: kpiGranularity,
+      fxPivots
+    });
+  }, [valuedPositions, instruments, prices, fxRates, baseCurrency, rangeStartDate, rangeEndDate, kpiGranularity, fxPivots]);
+
   const handleBenchmarkToggle = () => {
     setBenchmarkEnabled(prev => {
       const next = !prev;
@@ -1023,9 +1340,14 @@ export const Dashboard: React.FC = () => {
 
   const regionExposure = useMemo(() => {
     if (!state || !instruments) return [];
-    return calculateRegionExposure(state, instruments);
-  }, [state, instruments]);
+    return calculateRegionExposure(state, instruments, etfBreakdowns || []);
+  }, [state, instruments, etfBreakdowns]);
   const regionData = useMemo(() => regionExposure.filter(r => r.region !== 'UNASSIGNED'), [regionExposure]);
+  const sectorExposure = useMemo(() => {
+    if (!state || !instruments) return [];
+    return calculateSectorExposure(state, instruments, etfBreakdowns || []);
+  }, [state, instruments, etfBreakdowns]);
+  const unassignedSector = useMemo(() => sectorExposure.find(s => s.sector === 'UNASSIGNED'), [sectorExposure]);
   const unassignedRegion = useMemo(() => regionExposure.find(r => r.region === 'UNASSIGNED'), [regionExposure]);
   const hasIncompleteRegionData = !!(unassignedRegion && unassignedRegion.value > 0);
   const regionPctSum = useMemo(() => regionData.reduce((sum, r) => sum + (r.pct || 0), 0), [regionData]);
@@ -1398,7 +1720,8 @@ export const Dashboard: React.FC = () => {
           />
           <KPICard
             title="Sharpe Ratio"
-            value={analytics.sharpeRatio.toFixed(2)}
+            value={riskMetrics ? riskMetrics.sharpe.toFixed(2) : '—'}
+            subValue={`Risk-free ${formatPctValue(riskFreeRate * 100)} ${baseCurrency}`}
           />
           <KPICard
             title="Drawdown Max"
@@ -1418,8 +1741,13 @@ export const Dashboard: React.FC = () => {
         </div>
         <div className="ui-panel-dense p-4">
           <div className="text-[11px] uppercase font-bold text-slate-600">Costo annuo TER</div>
-          <div className="text-xl font-bold text-slate-900 mt-1">{formatCurrencyValue(costMetrics.annualTerCostBase, Currency.CHF)}</div>
-          <div className="text-[11px] text-slate-500 mt-1">Stima su posizioni correnti</div>
+          <div className="text-xl font-bold text-slate-900 mt-1">{formatCurrencyValue(costMetrics.annualTerCostBase, baseCurrency)}</div>
+          <div className="text-[11px] text-slate-500 mt-1">
+            Stima su posizioni correnti ·{' '}
+            <button type="button" onClick={() => setFeeDragOpen(open => !open)} className="font-semibold text-[#0052a3] hover:underline">
+              {feeDragOpen ? 'Nascondi proiezione' : 'Proiezione 10/20/30 anni'}
+            </button>
+          </div>
         </div>
         <div className="ui-panel-dense p-4">
           <div className="text-[11px] uppercase font-bold text-slate-600">Commissioni range</div>
@@ -1440,6 +1768,551 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {feeDragOpen && (
+        <FeeDragPanel
+          positions={(valuedPositions?.positions || []).map(position => ({
+            ticker: position.ticker,
+            name: position.name,
+            valueBase: position.currentValueCHF
+          }))}
+          instruments={instruments || []}
+          tradeFeePct={tradeFeeRatePct}
+          currency={baseCurrency}
+          onClose={() => setFeeDragOpen(false)}
+        />
+      )}
+
+      {/* Metriche di rischio */}
+      {!isRealMode && riskMetrics && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Metriche di rischio
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                {riskMetrics.periods} rendimenti {kpiGranularity === 'daily' ? 'giornalieri' : 'mensili'} · risk-free {formatPctValue(riskMetrics.riskFreeRatePct)} {baseCurrency}
+                {benchmarkActive ? ` · benchmark ${benchmarkLabel}` : ''}
+              </div>
+            </div>
+            <InfoPopover
+              ariaLabel="Come leggere le metriche di rischio"
+              title="Metriche di rischio"
+              popoverClassName="right-0 left-auto"
+              renderContent={() => (
+                <div className="text-sm space-y-2">
+                  <p>Sortino e Calmar rapportano il rendimento annuo (oltre il risk-free per Sortino) alla sola volatilità negativa e al drawdown massimo.</p>
+                  <p>VaR e CVaR {Math.round(riskMetrics.confidence * 100)}% sono la perdita di un singolo periodo ({kpiGranularity === 'daily' ? 'giorno' : 'mese'}) superata solo nel {Math.round((1 - riskMetrics.confidence) * 100)}% dei casi e la perdita media oltre quella soglia: storici dalla serie, parametrici da una normale.</p>
+                  <p>Beta, tracking error e information ratio usano il benchmark selezionato nel grafico performance.</p>
+                </div>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3 md:gap-4">
+            {[
+              { label: 'Downside dev.', value: formatPctValue(riskMetrics.downsideDeviationPct), sub: `Volatilità ${formatPctValue(riskMetrics.volatilityPct)}` },
+              { label: 'Sortino', value: riskMetrics.sortino !== undefined ? riskMetrics.sortino.toFixed(2) : '—', sub: `Sharpe ${riskMetrics.sharpe.toFixed(2)}` },
+              { label: 'Calmar', value: riskMetrics.calmar !== undefined ? riskMetrics.calmar.toFixed(2) : '—', sub: `Max DD ${formatPctValue(riskMetrics.maxDrawdownPct)}` },
+              { label: `VaR ${Math.round(riskMetrics.confidence * 100)}% (1${kpiGranularity === 'daily' ? 'g' : 'm'})`, value: formatPctValue(riskMetrics.varHistoricalPct), sub: `Parametrico ${formatPctValue(riskMetrics.varParametricPct)}`, alert: true },
+              { label: `CVaR ${Math.round(riskMetrics.confidence * 100)}% (1${kpiGranularity === 'daily' ? 'g' : 'm'})`, value: formatPctValue(riskMetrics.cvarHistoricalPct), sub: `Parametrico ${formatPctValue(riskMetrics.cvarParametricPct)}`, alert: true },
+              { label: 'Skew / Kurtosi', value: `${riskMetrics.skewness.toFixed(2)} / ${riskMetrics.excessKurtosis.toFixed(2)}`, sub: 'Kurtosi in eccesso' }
+            ].map(card => (
+              <div key={card.label} className="ui-panel-dense p-4">
+                <div className="text-[11px] uppercase font-bold text-slate-600">{card.label}</div>
+                <div className={clsx('text-xl font-bold mt-1', card.alert ? 'text-rose-600' : 'text-slate-900')}>{card.value}</div>
+                <div className="text-[11px] text-slate-500 mt-1">{card.sub}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4 mt-4">
+            {riskMetrics.benchmark ? (
+              [
+                { label: 'Beta', value: riskMetrics.benchmark.beta !== undefined ? riskMetrics.benchmark.beta.toFixed(2) : '—', sub: `Correlazione ${riskMetrics.benchmark.correlation !== undefined ? riskMetrics.benchmark.correlation.toFixed(2) : '—'}` },
+                { label: 'Tracking error', value: formatPctValue(riskMetrics.benchmark.trackingErrorPct), sub: `${riskMetrics.benchmark.periods} periodi allineati` },
+                { label: 'Information ratio', value: riskMetrics.benchmark.informationRatio !== undefined ? riskMetrics.benchmark.informationRatio.toFixed(2) : '—', sub: `Extra-rendimento annuo ${formatPctValue(riskMetrics.benchmark.activeReturnPct)}` }
+              ].map(card => (
+                <div key={card.label} className="ui-panel-dense p-4">
+                  <div className="text-[11px] uppercase font-bold text-slate-600">{card.label}</div>
+                  <div className="text-xl font-bold text-slate-900 mt-1">{card.value}</div>
+                  <div className="text-[11px] text-slate-500 mt-1">{card.sub}</div>
+                </div>
+              ))
+            ) : (
+              <div className="md:col-span-3 text-xs text-slate-500">
+                {benchmarkActive
+                  ? (riskBenchmarkSeries?.warning || 'Storico benchmark insufficiente per beta e tracking error.')
+                  : 'Attiva un benchmark nel grafico performance per beta, tracking error e information ratio.'}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Rolling */}
+      {!isRealMode && baseHistory.length > 2 && (
+        <div className="ui-panel p-6">
+          <div className="mb-4">
+            <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+              <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Rendimento e rischio rolling
+            </h3>
+            <div className="text-xs text-slate-600 mt-1">
+              Finestre mobili di 1, 3 e 5 anni sull'indice TWRR, valori annualizzati · risk-free {formatPctValue(riskFreeRate * 100)} {baseCurrency}
+            </div>
+          </div>
+          <RollingMetricsChart rows={rollingRows} />
+        </div>
+      )}
+
+      {/* Correlazioni e contributo al rischio */}
+      {correlationRisk && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Correlazioni e contributo al rischio
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                Rendimenti {kpiGranularity === 'daily' ? 'giornalieri' : 'mensili'} in {baseCurrency} dal {correlationRisk.startDate} al {correlationRisk.endDate} ({correlationRisk.periods} periodi), pesi correnti
+              </div>
+            </div>
+            <InfoPopover
+              ariaLabel="Come leggere il contributo al rischio"
+              title="% di rischio vs % di capitale"
+              popoverClassName="right-0 left-auto"
+              renderContent={() => (
+                <div className="text-sm space-y-2">
+                  <p>Il contributo al rischio di una posizione è peso × volatilità marginale: quanto aumenta la volatilità del portafoglio aumentandone il peso.</p>
+                  <p>I contributi sommano alla volatilità del portafoglio. Una quota di rischio molto sopra la quota di capitale indica una posizione concentrata o poco diversificante.</p>
+                </div>
+              )}
+            />
+          </div>
+          <CorrelationRiskPanel result={correlationRisk} />
+        </div>
+      )}
+
+      {/* Contributo per posizione */}
+      {positionContributions && positionContributions.positions.length > 0 && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Contributo per posizione
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                Peso × rendimento in {baseCurrency} dal {positionContributions.startDate} al {positionContributions.endDate}, {positionContributions.subPeriods} sotto-periodi tra operazioni
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="xl:col-span-2 h-72 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={contributionWaterfall}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.3} />
+                  <XAxis dataKey="label" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} interval={0} angle={-30} textAnchor="end" height={50} />
+                  <YAxis tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} width={50} tickFormatter={(v: number) => `${v.toFixed(1)}%`} />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  <Tooltip
+                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                    contentStyle={{
+                      borderRadius: '8px',
+                      border: `1px solid ${BORDER_COLOR}`,
+                      backgroundColor: CARD_BG,
+                      color: CARD_TEXT
+                    }}
+                    formatter={(_: unknown, __: string, item: { payload?: { value: number } }) => [formatPctValue(item.payload?.value ?? NaN), 'Contributo']}
+                  />
+                  <Bar dataKey="range" radius={[3, 3, 3, 3]}>
+                    {contributionWaterfall.map(step => (
+                      <Cell
+                        key={step.label}
+                        fill={step.kind === 'total' ? PRIMARY_BLUE : step.kind === 'down' ? NEGATIVE_RED : '#10b981'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="overflow-x-auto max-h-72">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Posizione</th>
+                    <th className="px-3 py-2 text-right">Peso medio</th>
+                    <th className="px-3 py-2 text-right">Rend.</th>
+                    <th className="px-3 py-2 text-right">Contributo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positionContributions.positions.map(row => (
+                    <tr key={row.ticker} className="border-t border-slate-200">
+                      <td className="px-3 py-2 font-semibold text-slate-700">{row.ticker}</td>
+                      <td className="px-3 py-2 text-right text-slate-500">{formatPctValue(row.avgWeightPct, 1)}</td>
+                      <td className="px-3 py-2 text-right">{formatPctValue(row.returnPct)}</td>
+                      <td className={clsx('px-3 py-2 text-right font-semibold', row.contributionPct < 0 ? 'text-rose-600' : 'text-slate-900')}>{formatPctValue(row.contributionPct)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-slate-300 font-semibold">
+                    <td className="px-3 py-2 text-slate-900" colSpan={3}>Somma contributi (TWR {formatPctValue(positionContributions.twrPct)})</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatPctValue(positionContributions.totalContributionPct)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Attribuzione mercato / valuta */}
+      {returnAttribution && returnAttribution.positions.length > 0 && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Mercato vs valuta
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                Rendimento di prezzo in {baseCurrency} dal {returnAttribution.startDate} al {returnAttribution.endDate}, dividendi esclusi
+                {returnAttribution.missingFxPairs.length ? ` - FX mancanti: ${returnAttribution.missingFxPairs.join(', ')}` : ''}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3 md:gap-4 mb-6">
+            {[
+              { label: 'Mercato locale', pct: returnAttribution.portfolio.localReturnPct, pnl: returnAttribution.portfolio.localPnl },
+              { label: 'Valuta', pct: returnAttribution.portfolio.fxReturnPct, pnl: returnAttribution.portfolio.fxPnl },
+              { label: 'Effetto incrociato', pct: returnAttribution.portfolio.crossReturnPct, pnl: returnAttribution.portfolio.crossPnl },
+              { label: 'Totale', pct: returnAttribution.portfolio.totalReturnPct, pnl: returnAttribution.portfolio.totalPnl }
+            ].map(card => (
+              <div key={card.label} className="ui-panel-dense p-4">
+                <div className="text-[11px] uppercase font-bold text-slate-600">{card.label}</div>
+                <div className={clsx('text-xl font-bold mt-1', card.pct < 0 ? 'text-rose-600' : 'text-slate-900')}>{formatPctValue(card.pct)}</div>
+                <div className="text-[11px] text-slate-500 mt-1">{formatCurrencyValue(card.pnl, baseCurrency)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-56 w-full mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={attributionChart}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.3} />
+                <XAxis dataKey="displayDate" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} dy={10} minTickGap={40} />
+                <YAxis tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} width={50} tickFormatter={(v: number) => `${v.toFixed(0)}%`} />
+                <ReferenceLine y={0} stroke="#94a3b8" />
+                <Tooltip
+                  contentStyle={{
+                    borderRadius: '8px',
+                    border: `1px solid ${BORDER_COLOR}`,
+                    backgroundColor: CARD_BG,
+                    color: CARD_TEXT
+                  }}
+                  formatter={(val: number, name: string) => [formatPctValue(val), name]}
+                />
+                <Line type="monotone" dataKey="localPct" name="Mercato locale" stroke={PRIMARY_BLUE} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="fxPct" name="Valuta" stroke={ACCENT_ORANGE} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="totalPct" name="Totale" stroke="#0f172a" strokeWidth={1.5} strokeDasharray="4 3" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs min-w-[760px]">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Posizione</th>
+                  <th className="px-3 py-2 text-left">Valuta</th>
+                  <th className="px-3 py-2 text-right">Mercato</th>
+                  <th className="px-3 py-2 text-right">Valuta</th>
+                  <th className="px-3 py-2 text-right">Incrociato</th>
+                  <th className="px-3 py-2 text-right">Totale</th>
+                  <th className="px-3 py-2 text-right">P&L {baseCurrency}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {returnAttribution.positions.map(row => (
+                  <tr key={`${row.kind}-${row.ticker}`} className="border-t border-slate-200">
+                    <td className="px-3 py-2 font-semibold text-slate-700">{row.kind === 'cash' ? `Liquidità ${row.currency}` : row.ticker}</td>
+                    <td className="px-3 py-2 text-slate-500">{row.currency}</td>
+                    <td className="px-3 py-2 text-right">{formatPctValue(row.localReturnPct)}</td>
+                    <td className="px-3 py-2 text-right">{formatPctValue(row.fxReturnPct)}</td>
+                    <td className="px-3 py-2 text-right text-slate-500">{formatPctValue(row.crossReturnPct)}</td>
+                    <td className={clsx('px-3 py-2 text-right font-semibold', row.totalReturnPct < 0 ? 'text-rose-600' : 'text-slate-900')}>{formatPctValue(row.totalReturnPct)}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrencyValue(row.totalPnl, baseCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Attribuzione vs target */}
+      {targetInstruments.length > 0 && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Attribuzione vs allocazione target
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                Benchmark = pesi target ribilanciati a ogni periodo
+                {brinsonAttribution ? ` · ${brinsonAttribution.startDate} - ${brinsonAttribution.endDate} (${brinsonAttribution.periods} periodi)` : ''}
+              </div>
+            </div>
+            <InfoPopover
+              ariaLabel="Come leggere l'attribuzione"
+              title="Allocazione, selezione, interazione"
+              popoverClassName="right-0 left-auto"
+              renderContent={() => (
+                <div className="text-sm space-y-2">
+                  <p>Allocazione: effetto di sovra/sottopesare una classe rispetto al target.</p>
+                  <p>Selezione: rendimento dei titoli detenuti rispetto alla serie benchmark della classe.</p>
+                  <p>Interazione: combinazione dei due effetti. La somma è l'extra-rendimento sul benchmark.</p>
+                </div>
+              )}
+            />
+          </div>
+
+          {!brinsonAttribution ? (
+            <div className="text-xs text-slate-500">Dati insufficienti per il periodo selezionato.</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 xl:grid-cols-5 gap-3 md:gap-4 mb-6">
+                {[
+                  { label: 'Portafoglio', value: brinsonAttribution.portfolioReturnPct },
+                  { label: 'Benchmark target', value: brinsonAttribution.benchmarkReturnPct },
+                  { label: 'Allocazione', value: brinsonAttribution.allocationPct },
+                  { label: 'Selezione', value: brinsonAttribution.selectionPct },
+                  { label: 'Interazione', value: brinsonAttribution.interactionPct }
+                ].map(card => (
+                  <div key={card.label} className="ui-panel-dense p-4">
+                    <div className="text-[11px] uppercase font-bold text-slate-600">{card.label}</div>
+                    <div className={clsx('text-xl font-bold mt-1', card.value < 0 ? 'text-rose-600' : 'text-slate-900')}>{formatPctValue(card.value)}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto mb-6">
+                <table className="w-full text-xs min-w-[820px]">
+                  <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Classe</th>
+                      <th className="px-3 py-2 text-right">Peso medio</th>
+                      <th className="px-3 py-2 text-right">Peso target</th>
+                      <th className="px-3 py-2 text-right">Rend. portafoglio</th>
+                      <th className="px-3 py-2 text-right">Rend. benchmark</th>
+                      <th className="px-3 py-2 text-right">Allocazione</th>
+                      <th className="px-3 py-2 text-right">Selezione</th>
+                      <th className="px-3 py-2 text-right">Interazione</th>
+                      <th className="px-3 py-2 text-right">Totale</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {brinsonAttribution.segments.map(row => (
+                      <tr key={row.assetClass} className="border-t border-slate-200">
+                        <td className="px-3 py-2 font-semibold text-slate-700">{getAssetClassLabel(row.assetClass)}</td>
+                        <td className="px-3 py-2 text-right">{formatPctValue(row.portfolioWeightPct, 1)}</td>
+                        <td className="px-3 py-2 text-right text-slate-500">{formatPctValue(row.benchmarkWeightPct, 1)}</td>
+                        <td className="px-3 py-2 text-right">{formatPctValue(row.portfolioReturnPct ?? NaN)}</td>
+                        <td className="px-3 py-2 text-right">{formatPctValue(row.benchmarkReturnPct ?? NaN)}</td>
+                        <td className="px-3 py-2 text-right">{formatPctValue(row.allocationPct)}</td>
+                        <td className="px-3 py-2 text-right">{formatPctValue(row.selectionPct)}</td>
+                        <td className="px-3 py-2 text-right text-slate-500">{formatPctValue(row.interactionPct)}</td>
+                        <td className={clsx('px-3 py-2 text-right font-semibold', row.totalPct < 0 ? 'text-rose-600' : 'text-slate-900')}>{formatPctValue(row.totalPct)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {brinsonAttribution.missingBenchmarks.length > 0 && (
+                <div className="text-[11px] text-amber-700 mb-4">
+                  Serie benchmark senza dati nel periodo: {brinsonAttribution.missingBenchmarks.join(', ')}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="text-[11px] uppercase font-bold text-slate-600 mb-2">Serie benchmark per strumento target</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+            {targetInstruments.map(inst => (
+              <label key={inst.ticker} className="flex items-center justify-between gap-2 text-xs text-slate-700">
+                <span className="font-semibold truncate">{inst.ticker} · {inst.targetAllocation}%</span>
+                <select
+                  className="ui-input text-xs w-48"
+                  value={attributionBenchmarks?.[inst.ticker] ?? ''}
+                  onChange={e => handleBenchmarkChange(inst.ticker, e.target.value)}
+                  disabled={!settings?.id}
+                >
+                  <option value="">Prezzi dello strumento</option>
+                  {(backtestImports || []).map(row => (
+                    <option key={row.id} value={row.id}>{row.name} ({row.currency})</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {benchmarkSaveError && <div className="text-[11px] text-amber-700 mt-2">{benchmarkSaveError}</div>}
+        </div>
+      )}
+
+      {/* Reddito da dividendi */}
+      {dividendIncome && dividendIncome.payments.length > 0 && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Reddito da dividendi
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                Dividendi netti incassati in {baseCurrency}
+                {dividendIncome.missingFx.length ? ` - FX mancanti: ${dividendIncome.missingFx.join(', ')}` : ''}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3 md:gap-4 mb-6">
+            <div className="ui-panel-dense p-4">
+              <div className="text-[11px] uppercase font-bold text-slate-600">Ultimi 12 mesi</div>
+              <div className="text-xl font-bold text-slate-900 mt-1">{formatCurrencyValue(dividendIncome.trailingNetBase, baseCurrency)}</div>
+              <div className="text-[11px] text-slate-500 mt-1">Netto incassato</div>
+            </div>
+            <div className="ui-panel-dense p-4">
+              <div className="text-[11px] uppercase font-bold text-slate-600">Stima prossimi 12 mesi</div>
+              <div className="text-xl font-bold text-slate-900 mt-1">{formatCurrencyValue(dividendIncome.forwardNetBase, baseCurrency)}</div>
+              <div className="text-[11px] text-slate-500 mt-1">Lordo {formatCurrencyValue(dividendIncome.forwardGrossBase, baseCurrency)} sulle quote attuali</div>
+            </div>
+            <div className="ui-panel-dense p-4">
+              <div className="text-[11px] uppercase font-bold text-slate-600">Yield on cost</div>
+              <div className="text-xl font-bold text-slate-900 mt-1">{formatPctValue(dividendIncome.yieldOnCostPct ?? NaN)}</div>
+              <div className="text-[11px] text-slate-500 mt-1">Stima lorda sul costo di carico</div>
+            </div>
+            <div className="ui-panel-dense p-4">
+              <div className="text-[11px] uppercase font-bold text-slate-600">Ritenute perse {incomeYears[0] ?? ''}</div>
+              <div className="text-xl font-bold text-slate-900 mt-1">
+                {formatCurrencyValue(dividendIncome.annual[dividendIncome.annual.length - 1]?.lostBase ?? 0, baseCurrency)}
+              </div>
+              <div className="text-[11px] text-slate-500 mt-1">Non recuperabili</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 mb-6">
+            <div className="xl:col-span-2 h-56 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={incomeMonthlyChart}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.3} />
+                  <XAxis dataKey="displayDate" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} dy={10} />
+                  <YAxis tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} width={60} />
+                  <Tooltip
+                    cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                    contentStyle={{
+                      borderRadius: '8px',
+                      border: `1px solid ${BORDER_COLOR}`,
+                      backgroundColor: CARD_BG,
+                      color: CARD_TEXT
+                    }}
+                    formatter={(val: number) => [formatCurrencyValue(val, baseCurrency), 'Netto']}
+                  />
+                  <Bar dataKey="netBase" fill={PRIMARY_BLUE} radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Anno</th>
+                    <th className="px-3 py-2 text-right">Lordo</th>
+                    <th className="px-3 py-2 text-right">Netto</th>
+                    <th className="px-3 py-2 text-right">Ritenute perse</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dividendIncome.annual.slice().reverse().map(row => (
+                    <tr key={row.year} className="border-t border-slate-200">
+                      <td className="px-3 py-2 font-semibold text-slate-700">{row.year}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrencyValue(row.grossBase, baseCurrency)}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{formatCurrencyValue(row.netBase, baseCurrency)}</td>
+                      <td className="px-3 py-2 text-right text-slate-500">{formatCurrencyValue(row.lostBase, baseCurrency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <div className="text-[11px] uppercase font-bold text-slate-600">Calendario pagamenti</div>
+            <select
+              className="ui-input text-xs w-28"
+              value={incomeYearSelected ?? ''}
+              onChange={e => setIncomeYear(Number(e.target.value))}
+            >
+              {incomeYears.map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs min-w-[920px]">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Strumento</th>
+                  {MONTH_LABELS.map(label => (
+                    <th key={label} className="px-2 py-2 text-right">{label}</th>
+                  ))}
+                  <th className="px-3 py-2 text-right">Totale</th>
+                </tr>
+              </thead>
+              <tbody>
+                {incomeCalendar.map(row => (
+                  <tr key={row.ticker} className="border-t border-slate-200">
+                    <td className="px-3 py-2 font-semibold text-slate-700">{row.ticker}</td>
+                    {row.months.map((value, idx) => (
+                      <td key={idx} className={clsx('px-2 py-2 text-right', value > 0 ? 'text-slate-900' : 'text-slate-300')}>
+                        {value > 0 ? formatCurrencyValue(value, baseCurrency, 0) : '·'}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-semibold">{formatCurrencyValue(row.totalNetBase, baseCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="overflow-x-auto mt-6">
+            <table className="w-full text-xs min-w-[720px]">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Strumento</th>
+                  <th className="px-3 py-2 text-right">Ultimo pagamento</th>
+                  <th className="px-3 py-2 text-right">Netto 12 mesi</th>
+                  <th className="px-3 py-2 text-right">Stima 12 mesi</th>
+                  <th className="px-3 py-2 text-right">Yield on cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dividendIncome.instruments.map(row => (
+                  <tr key={row.ticker} className="border-t border-slate-200">
+                    <td className="px-3 py-2">
+                      <div className="font-semibold text-slate-700">{row.ticker}</div>
+                      {row.name && <div className="text-[11px] text-slate-500">{row.name}</div>}
+                    </td>
+                    <td className="px-3 py-2 text-right">{row.lastPaymentDate}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrencyValue(row.trailingNetBase, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right font-semibold">{formatCurrencyValue(row.forwardNetBase, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right">{formatPctValue(row.yieldOnCostPct ?? NaN)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Posizioni attuali */}
       <div className="ui-panel p-6">
         <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
@@ -1471,9 +2344,10 @@ export const Dashboard: React.FC = () => {
                   <th className="px-3 py-2 text-left">Nome</th>
                   <th className="px-3 py-2 text-right">Quote</th>
                   <th className="px-3 py-2 text-right">PMC</th>
+                  <th className="px-3 py-2 text-right">Lotti</th>
                   <th className="px-3 py-2 text-right">Prezzo attuale</th>
                   <th className="px-3 py-2 text-right">Delta</th>
-                  <th className="px-3 py-2 text-right">Valore CHF</th>
+                  <th className="px-3 py-2 text-right">Valore {baseCurrency}</th>
                   <th className="px-3 py-2 text-right">Peso %</th>
                 </tr>
               </thead>
@@ -1481,11 +2355,13 @@ export const Dashboard: React.FC = () => {
                 {positionsVisible.map(pos => {
                   const instrument = instrumentByTicker.get(pos.ticker);
                   const priceMissing = !pos.priceDate || pos.currentPrice <= 0;
-                  const needsFx = pos.priceCurrency !== Currency.CHF;
+                  const needsFx = pos.priceCurrency !== baseCurrency;
                   const fxMissing = !priceMissing && needsFx && !pos.fxRateToChf;
                   const isValued = !priceMissing && !fxMissing;
                   const isPriceStale = Boolean(pos.priceDate && valuationDateEffective && pos.priceDate < valuationDateEffective);
                   const costBasis = costBasisByTicker.get(pos.ticker);
+                  const openLots = getOpenLotsForTicker(taxLotLedger, pos.ticker);
+                  const oldestLotDays = openLots.reduce((max, lot) => Math.max(max, lot.holdingDays), 0);
                   const pmcValue = costBasis?.avgCost;
                   const pmcCurrency = (costBasis?.currency || pos.priceCurrency || instrument?.currency || Currency.CHF) as Currency;
                   const hasPmc = Number.isFinite(pmcValue) && (pmcValue as number) > 0;
@@ -1514,6 +2390,17 @@ export const Dashboard: React.FC = () => {
                           ? formatUnitPrice(pmcValue as number, pmcCurrency)
                           : '—'}
                       </td>
+                      <td
+                        className="px-3 py-2 text-right text-slate-700"
+                        title={openLots.map(lot => `${lot.openDate}: ${lot.quantity} @ ${lot.unitCost.toFixed(2)}`).join('\n')}
+                      >
+                        {openLots.length > 0 ? (
+                          <div className="flex flex-col items-end leading-tight">
+                            <span>{openLots.length}</span>
+                            <span className="text-[10px] text-slate-500">max {oldestLotDays} gg</span>
+                          </div>
+                        ) : '—'}
+                      </td>
                       <td className="px-3 py-2 text-right text-slate-700">
                         {priceMissing ? (
                           missingBadge('Prezzo mancante')
@@ -1539,7 +2426,7 @@ export const Dashboard: React.FC = () => {
                           ? missingBadge('Prezzo mancante')
                           : fxMissing
                             ? missingBadge('FX mancante')
-                            : formatChfValue(pos.currentValueCHF)}
+                            : formatBaseValue(pos.currentValueCHF, baseCurrency)}
                       </td>
                       <td className="px-3 py-2 text-right text-slate-700">
                         {isValued ? `${pos.currentPct.toFixed(1)}%` : '—'}
@@ -1553,6 +2440,67 @@ export const Dashboard: React.FC = () => {
         )}
       </div>
 
+      {cashByAccount && cashByAccount.balances.length > 0 && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Liquidità per conto
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">Saldi per conto e valuta, convertiti in {baseCurrency} al {valuationDateEffective}</div>
+            </div>
+            <div className="text-right">
+              <div className="text-[11px] uppercase font-bold text-slate-500">Totale liquidità</div>
+              <div className="text-sm font-bold text-slate-900">{formatCurrencyValue(cashByAccount.totalBase, baseCurrency)}</div>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs min-w-[640px]">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Conto</th>
+                  <th className="px-3 py-2 text-left">Valuta</th>
+                  <th className="px-3 py-2 text-right">Saldo</th>
+                  <th className="px-3 py-2 text-right">Cambio</th>
+                  <th className="px-3 py-2 text-right">Valore {baseCurrency}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cashByAccount.accounts.map(group => (
+                  <React.Fragment key={group.account}>
+                    {group.balances.map((balance, idx) => (
+                      <tr key={`${balance.account}-${balance.currency}`} className="border-t border-borderSoft">
+                        <td className="px-3 py-2 font-semibold text-slate-700">{idx === 0 ? balance.account : ''}</td>
+                        <td className="px-3 py-2 text-slate-700">{balance.currency}</td>
+                        <td className={clsx('px-3 py-2 text-right', balance.amount < 0 ? 'text-rose-600' : 'text-slate-700')}>
+                          {formatCurrencyValue(balance.amount, balance.currency, 2)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-500">
+                          {balance.fxRate !== undefined && balance.currency !== baseCurrency ? balance.fxRate.toFixed(4) : '—'}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {balance.valueBase === null ? (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200 text-[10px] font-bold">
+                              FX mancante
+                            </span>
+                          ) : formatCurrencyValue(balance.valueBase, baseCurrency)}
+                        </td>
+                      </tr>
+                    ))}
+                    {group.balances.length > 1 && (
+                      <tr className="border-t border-borderSoft bg-slate-50">
+                        <td className="px-3 py-2 text-slate-500" colSpan={4}>Totale {group.account}{group.hasMissingFx ? ' (parziale)' : ''}</td>
+                        <td className="px-3 py-2 text-right font-semibold text-slate-900">{formatCurrencyValue(group.totalBase, baseCurrency)}</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* ROW 2: Performance Chart */}
       <div className="ui-panel p-6 relative">
         <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
@@ -1596,6 +2544,13 @@ export const Dashboard: React.FC = () => {
                 </span>
               )}
             </div>
+            <button
+              type="button"
+              onClick={() => setCustomBenchmarksOpen(prev => !prev)}
+              className="ui-btn-ghost px-2 py-1 text-[11px]"
+            >
+              Benchmark personalizzati
+            </button>
             <InfoPopover
               ariaLabel="Info grafico rendimento"
               title="Come leggere i rendimenti"
@@ -1612,6 +2567,17 @@ export const Dashboard: React.FC = () => {
           </div>
         </div>
 
+        {customBenchmarksOpen && (
+          <div className="mb-4">
+            <CustomBenchmarksPanel
+              portfolioId={currentPortfolioId}
+              instruments={instruments || []}
+              imports={backtestImports || []}
+              onClose={() => setCustomBenchmarksOpen(false)}
+            />
+          </div>
+        )}
+
         <div className="ui-panel-subtle p-3 flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
           <div className="flex items-center gap-2">
             <span className="text-[11px] font-semibold text-slate-700 uppercase tracking-wide">Analisi Temporale</span>
@@ -2035,6 +3001,36 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Rendimenti mensili e per periodo */}
+      {baseHistory.length > 2 && (
+        <div className="ui-panel p-6 space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Rendimenti mensili e per periodo
+              </h3>
+              <div className="text-xs text-slate-600 mt-1">
+                TWRR {isRealMode && fullRealHistory.length ? 'reale' : 'nominale'} in {baseCurrency} su tutto lo storico, indipendente dal range selezionato
+              </div>
+            </div>
+            <InfoPopover
+              ariaLabel="Come leggere i rendimenti per periodo"
+              title="Rendimenti per periodo"
+              popoverClassName="right-0 left-auto"
+              renderContent={() => (
+                <div className="text-sm space-y-2">
+                  <p>Griglia: rendimento TWRR di ogni mese (da fine mese a fine mese) e totale dell'anno. Il primo mese può essere parziale.</p>
+                  <p>Tabella: fino a 1 anno i rendimenti sono cumulati, 3A e 5A sono annualizzati, "Dall'inizio" è annualizzato oltre l'anno.</p>
+                  <p>MWRR riparte a ogni finestra dal valore del portafoglio all'inizio; Reale usa l'inflazione mensile della valuta base.</p>
+                </div>
+              )}
+            />
+          </div>
+          <MonthlyReturnsHeatmap rows={monthlyReturnGrid} />
+          <TrailingReturnsTable rows={trailingReturns} />
+        </div>
+      )}
+
       {/* ROW: Donut cards + Macro */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="ui-panel p-6 lg:col-span-2 flex flex-col gap-4">
@@ -2206,7 +3202,7 @@ export const Dashboard: React.FC = () => {
               <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
                 <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Distribuzione geografica
               </h3>
-              <p className="text-xs text-slate-600 mt-1">Valori in CHF. Definisci le percentuali per ogni strumento in Settings &gt; Listings &amp; FX.</p>
+              <p className="text-xs text-slate-600 mt-1">Valori in CHF. Definisci le percentuali o importa la composizione ETF per ogni strumento in Settings &gt; Listings &amp; FX.</p>
             </div>
             <div className="flex items-center gap-2">
               {hasRegionPctWarning && (
@@ -2286,6 +3282,81 @@ export const Dashboard: React.FC = () => {
         {/* Esposizione Valutaria card rimossa su richiesta */}
       </div>
 
+      {/* ROW: Settori */}
+      {sectorExposure.length > 0 && (
+        <div className="ui-panel p-6 flex flex-col gap-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Distribuzione settoriale
+              </h3>
+              <p className="text-xs text-slate-600 mt-1">Valori in CHF. Imposta i settori nel modal Modifica Asset o importa la composizione ETF in Settings.</p>
+            </div>
+            {unassignedSector && (
+              <span className="px-3 py-1 rounded-full text-[11px] font-bold bg-amber-100 text-amber-800 border border-amber-200">
+                Non definito {unassignedSector.pct.toFixed(1)}%
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-4 items-center">
+            <div className="lg:col-span-2 h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart margin={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Pie
+                    data={sectorExposure}
+                    dataKey="value"
+                    nameKey="label"
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={60}
+                    outerRadius={95}
+                    paddingAngle={2}
+                    stroke="none"
+                  >
+                    {sectorExposure.map((entry, idx) => (
+                      <Cell key={entry.sector} fill={entry.sector === 'UNASSIGNED' ? '#cbd5e1' : COLORS[idx % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip
+                    formatter={(value: number) => `CHF ${Math.round(value).toLocaleString()}`}
+                    contentStyle={{
+                      borderRadius: '12px',
+                      border: `1px solid ${BORDER_COLOR}`,
+                      backgroundColor: CARD_BG,
+                      color: CARD_TEXT,
+                      boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.3)'
+                    }}
+                    itemStyle={{ color: CARD_TEXT, fontWeight: 600 }}
+                  />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="lg:col-span-3 grid grid-cols-1 sm:grid-cols-2 gap-1">
+              {sectorExposure.map((s, idx) => (
+                <div key={s.sector} className="flex items-center justify-between rounded-lg px-2 py-1 hover:bg-slate-50 transition-colors">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.sector === 'UNASSIGNED' ? '#cbd5e1' : COLORS[idx % COLORS.length] }} />
+                    <span className={s.sector === 'UNASSIGNED' ? 'font-semibold text-amber-800 text-sm' : 'font-medium text-slate-700 text-sm'}>{s.label}</span>
+                  </div>
+                  <div className="text-right text-sm leading-tight">
+                    <div className="font-bold text-slate-900">{s.pct.toFixed(1)}%</div>
+                    <div className="text-[11px] text-slate-600">CHF {Math.round(s.value).toLocaleString()}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <LookThroughPanel
+        positions={(valuedPositions?.positions || []).map(position => ({ ticker: position.ticker, valueBase: position.currentValueCHF }))}
+        instruments={instruments || []}
+        breakdowns={etfBreakdowns || []}
+        referenceDate={valuationDateEffective}
+        currency={baseCurrency}
+      />
+
     </div>
   );
 };
@@ -9,9 +9,11 @@ import { PRICE_GAP_DAYS } from '../services/constants';
 import { fillMissingPrices } from '../services/priceBackfill';
 import { buildNavSeriesDetailed, calculateHoldings, getCanonicalTicker, getValuationDateForHoldings } from '../services/financeUtils';
 import { queryFxForPairsRange, queryLatestFxForPairs, queryLatestPricesForTickers, queryPriceBoundsForTickers, queryPricesForTickersRange } from '../services/dbQueries';
+import { getFxLookupPairs, getFxPivots } from '../services/fxResolver';
 import { upsertFxRowsByNaturalKey, upsertPriceRowsByNaturalKey } from '../services/dataWriteService';
 import { downsampleSeries } from '../services/chartUtils';
 import { addDaysYmd, subDaysYmd, diffDaysYmd } from '../services/dateUtils';
+import { CURRENCY_OPTIONS, isCurrencyCode } from '../services/currencyUtils';
 import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
 import clsx from 'clsx';
 import { InfoPopover } from '../components/InfoPopover';
@@ -232,6 +234,12 @@ export const Data: React.FC = () => {
   }, [portfolioCurrencies, baseCurrency]);
 
   const fxPairsKey = useMemo(() => fxPairs.join('|'), [fxPairs]);
+  const fxPivots = useMemo(() => getFxPivots(settings), [settings?.baseCurrency, settings?.fxPivotCurrency]);
+  const fxLookupPairs = useMemo(
+    () => getFxLookupPairs([...portfolioCurrencies, baseCurrency], fxPivots),
+    [portfolioCurrencies, baseCurrency, fxPivots]
+  );
+  const fxLookupPairsKey = useMemo(() => fxLookupPairs.join('|'), [fxLookupPairs]);
 
   const fxQueryStart = fxRange.from || subDaysYmd(todayYmd, 365);
   const fxQueryEnd = fxRange.to || todayYmd;
@@ -290,19 +298,19 @@ export const Data: React.FC = () => {
       if (!fxPairs.length || !valuationDate) return [];
       const t0 = performance.now();
       const rows = await queryLatestFxForPairs({
-        pairs: fxPairs,
+        pairs: fxLookupPairs,
         upToDate: valuationDate
       });
       if (import.meta.env.DEV) {
         console.log('[PERF][Data] latest fx query', Math.round(performance.now() - t0), 'ms', {
-          pairs: fxPairs.length,
+          pairs: fxLookupPairs.length,
           count: rows.length,
           upToDate: valuationDate
         });
       }
       return rows;
     },
-    [fxPairsKey, valuationDate],
+    [fxLookupPairsKey, valuationDate],
     []
   );
 
@@ -939,7 +947,7 @@ export const Data: React.FC = () => {
     if (csvCurrencySet.size === 1) {
       const csvCurrency = Array.from(csvCurrencySet.values())[0] as Currency;
       currencyUsed = csvCurrency;
-      if (!Object.values(Currency).includes(csvCurrency)) {
+      if (!isCurrencyCode(csvCurrency)) {
         errors.push(`Currency non supportata nel CSV: ${csvCurrency}.`);
       }
       if (expectedCurrency && csvCurrency !== expectedCurrency) {
@@ -1382,9 +1390,9 @@ export const Data: React.FC = () => {
     const holdings = calculateHoldings(transactions);
     return {
       valuationDate,
-      summary: analyzeRebalanceQuality(holdings, instruments, latestPrices, latestFxRates, valuationDate, Currency.CHF)
+      summary: analyzeRebalanceQuality(holdings, instruments, latestPrices, latestFxRates, valuationDate, Currency.CHF, undefined, fxPivots)
     };
-  }, [transactions, instruments, latestPrices, latestFxRates, valuationDate, checkRunId]);
+  }, [transactions, instruments, latestPrices, latestFxRates, valuationDate, checkRunId, fxPivots]);
 
   const navSummary = useMemo(() => {
     if (checkRunId === 0) return null;
@@ -1420,15 +1428,23 @@ export const Data: React.FC = () => {
     });
   }, [checkPrices, checkTickers, instruments]);
 
+  const fxTriangulatedPivots = useMemo(() => {
+    const map = new Map<string, string>();
+    (rebalanceQuality?.summary.issues || []).forEach(issue => {
+      if (issue.type === 'fxTriangulated' && issue.fxPivot) map.set(`${issue.fxBase}/${issue.fxQuote}`, issue.fxPivot);
+    });
+    return map;
+  }, [rebalanceQuality]);
+
   const fxChecksSummary = useMemo(() => {
     if (!checkFxRates || fxPairs.length === 0) return [];
     return fxPairs.map(pair => {
       const [base, quote] = pair.split('/');
       const rows = (checkFxRates as FxRatePoint[]).filter(r => r.baseCurrency === base && r.quoteCurrency === quote);
       const { stats, issues } = analyzeFxSeries(rows);
-      return { pair, stats, issueCount: issues.length };
+      return { pair, stats, issueCount: issues.length, triangulatedVia: fxTriangulatedPivots.get(pair) };
     });
-  }, [checkFxRates, fxPairs]);
+  }, [checkFxRates, fxPairs, fxTriangulatedPivots]);
 
   const topIssues = useMemo(() => {
     const items: {
@@ -1457,12 +1473,14 @@ export const Data: React.FC = () => {
       priceTicker?: string;
       fxBase?: string;
       fxQuote?: string;
+      fxPivot?: string;
     }>;
     const priceMissing = Array.from(new Set(rebalanceIssues.filter(i => i.type === 'priceMissing').map(i => i.priceTicker || i.ticker)));
     const priceStale = Array.from(new Set(rebalanceIssues.filter(i => i.type === 'priceStale').map(i => i.priceTicker || i.ticker)));
     const fxMissing = Array.from(new Set(rebalanceIssues.filter(i => i.type === 'fxMissing').map(i => `${i.fxBase || 'FX'}/${i.fxQuote || 'CHF'}`)));
     const fxStale = Array.from(new Set(rebalanceIssues.filter(i => i.type === 'fxStale').map(i => `${i.fxBase || 'FX'}/${i.fxQuote || 'CHF'}`)));
     const currencyMismatch = Array.from(new Set(rebalanceIssues.filter(i => i.type === 'currencyMismatch').map(i => i.priceTicker || i.ticker)));
+    const fxTriangulated = Array.from(new Set(rebalanceIssues.filter(i => i.type === 'fxTriangulated').map(i => `${i.fxBase || 'FX'}/${i.fxQuote || 'CHF'} via ${i.fxPivot || '?'}`)));
 
     const gapTickers = priceChecksSummary.filter(row => row.stats.gaps > 0).map(row => row.ticker);
     const fxGapPairs = fxChecksSummary.filter(row => row.stats.gaps > 0).map(row => row.pair);
@@ -1551,6 +1569,18 @@ export const Data: React.FC = () => {
       });
     }
 
+    if (fxTriangulated.length) {
+      pushItem({
+        key: 'fxTriangulated',
+        title: 'FX triangolato',
+        detail: fxTriangulated.slice(0, 3).join(', '),
+        meaning: 'Manca la coppia diretta: il cambio è derivato da due tassi tramite una valuta pivot.',
+        action: 'Importa la coppia diretta se serve un valore esatto.',
+        primary: { label: 'Apri tab FX', href: '#/data?tab=fx' },
+        secondary: { label: 'Vai a Settings (FX)', href: '#/settings' }
+      });
+    }
+
     return items;
   }, [rebalanceQuality, priceChecksSummary, fxChecksSummary]);
 
@@ -1862,7 +1892,7 @@ export const Data: React.FC = () => {
                     disabled={!selectedTicker || hasPriceData}
                   >
                     <option value="" disabled>Seleziona</option>
-                    {Object.values(Currency).map(cur => (
+                    {CURRENCY_OPTIONS.map(cur => (
                       <option key={cur} value={cur}>{cur}</option>
                     ))}
                   </select>
@@ -1897,7 +1927,7 @@ export const Data: React.FC = () => {
                             className="w-full border border-amber-200 bg-white px-2 py-1 rounded text-[11px] font-semibold text-slate-700"
                           >
                             <option value="" disabled>Seleziona nuova valuta</option>
-                            {Object.values(Currency).map(cur => (
+                            {CURRENCY_OPTIONS.map(cur => (
                               <option key={cur} value={cur}>{cur}</option>
                             ))}
                           </select>
@@ -2149,7 +2179,7 @@ export const Data: React.FC = () => {
                         className="w-full border border-borderSoft bg-white p-2 rounded text-xs font-semibold text-slate-700"
                       >
                         <option value="" disabled>Seleziona</option>
-                        {Object.values(Currency).map(cur => (
+                        {CURRENCY_OPTIONS.map(cur => (
                           <option key={cur} value={cur}>{cur}</option>
                         ))}
                       </select>
@@ -2697,7 +2727,17 @@ export const Data: React.FC = () => {
                       const status = getStatusBadge(row.issueCount, row.stats);
                       return (
                         <tr key={row.pair}>
-                          <td className="py-1">{row.pair}</td>
+                          <td className="py-1">
+                            {row.pair}
+                            {row.triangulatedVia && (
+                              <span
+                                className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold bg-sky-100 text-sky-800"
+                                title={`Derivato via ${row.triangulatedVia}: coppia diretta assente`}
+                              >
+                                TRIANGOLATO via {row.triangulatedVia}
+                              </span>
+                            )}
+                          </td>
                           <td className="py-1 text-right">{row.issueCount}</td>
                           <td className="py-1 text-right">{row.stats.gaps}</td>
                           <td className="py-1 text-right">{row.stats.outliers}</td>
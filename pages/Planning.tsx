@@ -0,0 +1,507 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { Area, ComposedChart, CartesianGrid, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { db, getCurrentPortfolioId } from '../db';
+import { Currency, InflationAnnualPoint, InflationPoint } from '../types';
+import { calculateHistoricalPerformance, calculateHoldings, getValuationDateForHoldings } from '../services/financeUtils';
+import { computeCurrentValuedPositions } from '../services/positionValuation';
+import { computeCashBalances, hasCashTracking, valueCashBalances } from '../services/cashLedger';
+import { getFxPivots } from '../services/fxResolver';
+import { estimateLongRunInflation } from '../services/inflationService';
+import {
+  estimateAssumptionsFromBacktest,
+  estimateAssumptionsFromHistory,
+  MONTE_CARLO_MAX_YEARS,
+  MonteCarloBand,
+  MonteCarloResult,
+  MonteCarloReturnModel,
+  ReturnAssumptions,
+  runMonteCarlo
+} from '../services/monteCarlo';
+import { listBacktestScenarios } from '../services/backtestScenarioRepository';
+import { loadBacktestScenarioData } from '../services/backtestDataSource';
+import { runBacktest } from '../services/backtestEngine';
+import { getRiskFreeRate } from '../services/riskMetrics';
+import { recordToScenario } from '../components/backtest/backtestUiUtils';
+import { InfoPopover } from '../components/InfoPopover';
+import { DecumulationPanel } from '../components/DecumulationPanel';
+
+const PRIMARY_BLUE = '#0052a3';
+const PATH_OPTIONS = [1000, 5000, 10000];
+
+const formatAmount = (value: number | undefined, currency: Currency | string) => {
+  if (value === undefined || !Number.isFinite(value)) return '—';
+  return `${currency} ${value.toLocaleString('it-CH', { maximumFractionDigits: 0 })}`;
+};
+
+const formatCompact = (value: number) => value.toLocaleString('it-CH', { notation: 'compact', maximumFractionDigits: 1 });
+
+const formatPct = (value: number | null | undefined, decimals = 1) => (
+  value === null || value === undefined || !Number.isFinite(value) ? '—' : `${value.toFixed(decimals)}%`
+);
+
+const parseNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+type AssumptionSource = 'history' | 'manual' | `scenario:${number}`;
+
+const NumberField: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  suffix?: string;
+}> = ({ label, value, onChange, suffix }) => (
+  <div>
+    <label className="text-[11px] font-semibold text-slate-600">{label}</label>
+    <div className="flex items-center gap-1 mt-1">
+      <input
+        type="number"
+        step="any"
+        className="ui-input text-right"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+      />
+      {suffix && <span className="text-xs text-slate-500 whitespace-nowrap">{suffix}</span>}
+    </div>
+  </div>
+);
+
+export const Planning: React.FC = () => {
+  const currentPortfolioId = getCurrentPortfolioId();
+  const transactions = useLiveQuery(
+    () => db.transactions.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const instruments = useLiveQuery(
+    () => db.instruments.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const prices = useLiveQuery(
+    () => db.prices.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const fxRates = useLiveQuery(() => db.fxRates.toArray(), [], []);
+  const inflationRates = useLiveQuery(
+    () => db.inflationRates.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  ) as InflationPoint[];
+  const inflationAnnualRates = useLiveQuery(
+    () => db.inflationAnnualRates.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  ) as InflationAnnualPoint[];
+  const settings = useLiveQuery(
+    () => db.settings.where('portfolioId').equals(currentPortfolioId).first(),
+    [currentPortfolioId]
+  );
+  const scenarios = useLiveQuery(() => listBacktestScenarios(currentPortfolioId), [currentPortfolioId], []);
+  const baseCurrency = settings?.baseCurrency || Currency.CHF;
+  const fxPivots = useMemo(() => getFxPivots(settings), [settings?.baseCurrency, settings?.fxPivotCurrency]);
+
+  // Positions and cash valued through FX in the base currency, as on the Dashboard
+  const currentNav = useMemo(() => {
+    if (!transactions?.length || !instruments || !prices || !fxRates) return 0;
+    const valuationDate = getValuationDateForHoldings(transactions, prices, instruments) || format(new Date(), 'yyyy-MM-dd');
+    const valued = computeCurrentValuedPositions({
+      holdings: calculateHoldings(transactions),
+      instruments,
+      prices,
+      fxRates,
+      valuationDate,
+      baseCurrency,
+      fxPivots
+    });
+    const cash = hasCashTracking(transactions)
+      ? valueCashBalances(computeCashBalances(transactions), baseCurrency, valuationDate, fxRates, fxPivots).totalBase
+      : 0;
+    return valued.totalValueCHF + cash;
+  }, [transactions, instruments, prices, fxRates, baseCurrency, fxPivots]);
+
+  const historyAssumptions = useMemo(() => {
+    if (!transactions?.length || !instruments || !prices) return null;
+    return estimateAssumptionsFromHistory(
+      calculateHistoricalPerformance(transactions, instruments, prices, 240, 'monthly', {
+        fxRates: fxRates || [],
+        baseCurrency,
+        pivots: fxPivots
+      }).history
+    );
+  }, [transactions, instruments, prices, fxRates, baseCurrency, fxPivots]);
+
+  const inflationEstimate = useMemo(() => estimateLongRunInflation({
+    monthlyPoints: inflationRates || [],
+    annualPoints: inflationAnnualRates || [],
+    currency: baseCurrency
+  }), [inflationRates, inflationAnnualRates, baseCurrency]);
+
+  const [startValue, setStartValue] = useState('');
+  const [years, setYears] = useState('20');
+  const [monthlyContribution, setMonthlyContribution] = useState('500');
+  const [monthlyWithdrawal, setMonthlyWithdrawal] = useState('0');
+  const [indexFlows, setIndexFlows] = useState(true);
+  const [expectedReturn, setExpectedReturn] = useState('5');
+  const [volatility, setVolatility] = useState('12');
+  const [inflation, setInflation] = useState('');
+  const [model, setModel] = useState<MonteCarloReturnModel>('normal');
+  const [paths, setPaths] = useState(5000);
+  const [target, setTarget] = useState('');
+  const [targetReal, setTargetReal] = useState(true);
+  const [source, setSource] = useState<AssumptionSource>('history');
+  const [assumptions, setAssumptions] = useState<ReturnAssumptions | null>(null);
+  const [sourceLoading, setSourceLoading] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [view, setView] = useState<'nominal' | 'real'>('real');
+  const [mode, setMode] = useState<'accumulation' | 'decumulation'>('accumulation');
+
+  useEffect(() => {
+    if (startValue === '' && currentNav > 0) setStartValue(String(Math.round(currentNav)));
+  }, [currentNav, startValue]);
+
+  useEffect(() => {
+    if (inflation === '' && inflationEstimate.ratePct !== null) setInflation(inflationEstimate.ratePct.toFixed(2));
+  }, [inflation, inflationEstimate]);
+
+  useEffect(() => {
+    if (source !== 'history') return;
+    setSourceError(historyAssumptions ? null : 'Storico del portafoglio insufficiente: inserisci le ipotesi manualmente.');
+    setAssumptions(historyAssumptions);
+    if (historyAssumptions) {
+      setExpectedReturn(historyAssumptions.expectedReturnPct.toFixed(2));
+      setVolatility(historyAssumptions.volatilityPct.toFixed(2));
+    }
+  }, [source, historyAssumptions]);
+
+  const handleSourceChange = async (next: AssumptionSource) => {
+    setSource(next);
+    setSourceError(null);
+    if (next === 'manual') {
+      setAssumptions(null);
+      setModel('normal');
+      return;
+    }
+    if (!next.startsWith('scenario:')) return;
+    const record = (scenarios || []).find(item => item.id === Number(next.slice(9)));
+    if (!record) return;
+    setSourceLoading(true);
+    try {
+      const scenario = recordToScenario(record);
+      const data = await loadBacktestScenarioData(scenario, currentPortfolioId);
+      const backtest = runBacktest(scenario, data, { riskFreeRate: getRiskFreeRate(settings, scenario.baseCurrency) });
+      const estimate = estimateAssumptionsFromBacktest(backtest);
+      setAssumptions(estimate);
+      if (estimate) {
+        setExpectedReturn(estimate.expectedReturnPct.toFixed(2));
+        setVolatility(estimate.volatilityPct.toFixed(2));
+      } else {
+        setSourceError(backtest.errors?.[0] || 'Backtest senza dati sufficienti per stimare rendimento e volatilità.');
+      }
+    } catch (e: any) {
+      setAssumptions(null);
+      setSourceError(e?.message || 'Errore nel caricamento dello scenario.');
+    } finally {
+      setSourceLoading(false);
+    }
+  };
+
+  const handleRun = () => {
+    const targetValue = parseNumber(target);
+    setResult(runMonteCarlo({
+      startValue: parseNumber(startValue),
+      years: Math.max(1, parseNumber(years)),
+      monthlyContribution: parseNumber(monthlyContribution),
+      monthlyWithdrawal: parseNumber(monthlyWithdrawal),
+      indexFlowsToInflation: indexFlows,
+      expectedReturnPct: parseNumber(expectedReturn),
+      volatilityPct: Math.max(0, parseNumber(volatility)),
+      inflationPct: parseNumber(inflation),
+      model,
+      historicalMonthlyReturns: assumptions?.monthlyReturns,
+      paths,
+      targetValue: targetValue > 0 ? targetValue : undefined,
+      targetReal
+    }));
+  };
+
+  const bands = result ? (view === 'real' ? result.real : result.nominal) : [];
+  const chartData = bands.map(band => ({
+    ...band,
+    outer: [band.p10, band.p90],
+    inner: [band.p25, band.p75]
+  }));
+  const finalBand: MonteCarloBand | undefined = bands[bands.length - 1];
+  const tableBands = bands.filter(band => band.year > 0 && (band.year % 5 === 0 || band.year === bands.length - 1));
+  const targetValue = parseNumber(target);
+
+  return (
+    <div className="space-y-6 animate-fade-in text-textPrimary">
+      <div className="flex flex-wrap justify-between items-center gap-3 ui-panel p-6">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <span className="material-symbols-outlined text-[#0052a3]">insights</span>
+            Pianificazione
+          </h2>
+          <div className="text-xs text-slate-600 mt-1">
+            {mode === 'accumulation' ? 'Proiezione del patrimonio' : 'Simulazione dei prelievi'} in {baseCurrency} · NAV attuale {formatAmount(currentNav, baseCurrency)}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1 text-xs">
+            {([
+              { key: 'accumulation', label: 'Accumulo' },
+              { key: 'decumulation', label: 'Decumulo' }
+            ] as const).map(option => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => setMode(option.key)}
+                className={clsx('px-3 py-1.5 rounded-md border', mode === option.key ? 'border-[#0052a3] text-[#0052a3] font-bold' : 'border-slate-200 text-slate-500')}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {mode === 'accumulation' && (
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={sourceLoading}
+              className="ui-btn-primary px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2"
+            >
+              <span className="material-symbols-outlined text-[18px]">play_arrow</span>
+              Esegui simulazione
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {mode === 'accumulation' && (
+          <div className="ui-panel p-6 space-y-4">
+            <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+              <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Flussi e orizzonte
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <NumberField label={`Capitale iniziale (${baseCurrency})`} value={startValue} onChange={setStartValue} />
+                <button
+                  type="button"
+                  className="text-[11px] text-slate-500 hover:text-primary mt-1"
+                  onClick={() => setStartValue(String(Math.round(currentNav)))}
+                >
+                  Usa NAV attuale
+                </button>
+              </div>
+              <div className="col-span-2">
+                <NumberField label="Orizzonte" value={years} onChange={setYears} suffix="anni" />
+              </div>
+              <NumberField label="Versamento mensile" value={monthlyContribution} onChange={setMonthlyContribution} suffix={baseCurrency} />
+              <NumberField label="Prelievo mensile" value={monthlyWithdrawal} onChange={setMonthlyWithdrawal} suffix={baseCurrency} />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={indexFlows} onChange={e => setIndexFlows(e.target.checked)} />
+              Versamenti e prelievi indicizzati all'inflazione (importi in valuta di oggi)
+            </label>
+          </div>
+        )}
+
+        <div className="ui-panel p-6 space-y-4">
+          <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+            <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Ipotesi di mercato
+          </h3>
+          <div>
+            <label className="text-[11px] font-semibold text-slate-600">Stima da</label>
+            <select
+              className="ui-input mt-1"
+              value={source}
+              disabled={sourceLoading}
+              onChange={e => handleSourceChange(e.target.value as AssumptionSource)}
+            >
+              <option value="history">Storico del portafoglio</option>
+              {(scenarios || []).map(scenario => (
+                <option key={scenario.id} value={`scenario:${scenario.id}`}>Backtest: {scenario.title}</option>
+              ))}
+              <option value="manual">Manuale</option>
+            </select>
+            {sourceLoading && <div className="text-[11px] text-slate-500 mt-1">Esecuzione backtest…</div>}
+            {assumptions?.startDate && !sourceLoading && (
+              <div className="text-[11px] text-slate-500 mt-1">
+                {assumptions.monthlyReturns.length} rendimenti mensili · {assumptions.startDate} → {assumptions.endDate}
+              </div>
+            )}
+            {sourceError && <div className="text-[11px] text-amber-700 mt-1">{sourceError}</div>}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField label="Rendimento atteso (CAGR)" value={expectedReturn} onChange={setExpectedReturn} suffix="% / anno" />
+            <NumberField label="Volatilità" value={volatility} onChange={setVolatility} suffix="% / anno" />
+          </div>
+          <div>
+            <label className="text-[11px] font-semibold text-slate-600">Modello dei rendimenti</label>
+            <select className="ui-input mt-1" value={model} onChange={e => setModel(e.target.value as MonteCarloReturnModel)}>
+              <option value="normal">Lognormale (rendimento e volatilità)</option>
+              <option value="bootstrap" disabled={!assumptions?.monthlyReturns.length}>Bootstrap dei rendimenti mensili storici</option>
+            </select>
+          </div>
+          <div>
+            <NumberField label="Inflazione attesa" value={inflation} onChange={setInflation} suffix="% / anno" />
+            <div className="text-[11px] text-slate-500 mt-1">
+              Stima: {formatPct(inflationEstimate.ratePct, 2)} · {inflationEstimate.label}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-semibold text-slate-600">Percorsi</span>
+            {PATH_OPTIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setPaths(option)}
+                className={clsx('px-2 py-1 rounded-md border', paths === option ? 'border-[#0052a3] text-[#0052a3] font-bold' : 'border-slate-200 text-slate-500')}
+              >
+                {option.toLocaleString('it-CH')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {mode === 'accumulation' ? (
+          <div className="ui-panel p-6 space-y-4">
+            <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+              <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Obiettivo
+            </h3>
+            <NumberField label={`Patrimonio obiettivo a fine orizzonte (${baseCurrency})`} value={target} onChange={setTarget} />
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={targetReal} onChange={e => setTargetReal(e.target.checked)} />
+              Obiettivo in potere d'acquisto di oggi (reale)
+            </label>
+            {result && (
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  { label: 'Probabilità obiettivo', value: formatPct(result.probabilityOfTarget) },
+                  { label: 'Probabilità esaurimento', value: formatPct(result.probabilityOfDepletion) },
+                  { label: 'Mediana finale nominale', value: formatAmount(result.nominal[result.nominal.length - 1]?.p50, baseCurrency) },
+                  { label: 'Mediana finale reale', value: formatAmount(result.real[result.real.length - 1]?.p50, baseCurrency) }
+                ].map(card => (
+                  <div key={card.label} className="ui-panel-subtle p-3">
+                    <div className="text-[11px] uppercase font-bold text-slate-500">{card.label}</div>
+                    <div className="text-base font-bold mt-1 text-slate-900">{card.value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {result?.warnings.map(warning => (
+              <div key={warning} className="text-[11px] text-amber-700">{warning}</div>
+            ))}
+          </div>
+        ) : (
+          <div className="lg:col-span-2">
+            <DecumulationPanel
+              baseCurrency={baseCurrency}
+              currentNav={currentNav}
+              assumptions={assumptions}
+              expectedReturnPct={parseNumber(expectedReturn)}
+              volatilityPct={Math.max(0, parseNumber(volatility))}
+              inflationPct={parseNumber(inflation)}
+              model={model}
+              paths={paths}
+            />
+          </div>
+        )}
+      </div>
+
+      {mode === 'accumulation' && result && (
+        <div className="ui-panel p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+              <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span>
+              Distribuzione del patrimonio ({result.paths.toLocaleString('it-CH')} percorsi)
+              <InfoPopover
+                ariaLabel="Come leggere la proiezione"
+                title="Proiezione Monte Carlo"
+                renderContent={() => (
+                  <div className="space-y-2 text-xs text-slate-600">
+                    <p>La banda chiara copre il 10°–90° percentile dei percorsi, quella scura il 25°–75°; la linea è la mediana.</p>
+                    <p>I valori reali sono deflazionati con l'inflazione attesa e sono espressi in potere d'acquisto di oggi.</p>
+                    <p>Un percorso che arriva a zero resta esaurito: conta nella probabilità di esaurimento.</p>
+                  </div>
+                )}
+              />
+            </h3>
+            <div className="flex items-center gap-1 text-xs">
+              {(['real', 'nominal'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setView(option)}
+                  className={clsx('px-3 py-1 rounded-md border', view === option ? 'border-[#0052a3] text-[#0052a3] font-bold' : 'border-slate-200 text-slate-500')}
+                >
+                  {option === 'real' ? 'Reale' : 'Nominale'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-[360px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" opacity={0.3} />
+                <XAxis dataKey="year" tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} unit=" a" />
+                <YAxis tick={{ fontSize: 11, fill: '#64748b' }} axisLine={false} tickLine={false} tickFormatter={formatCompact} width={60} />
+                <Tooltip
+                  formatter={(value: number | number[], name: string) => [
+                    Array.isArray(value) ? value.map(v => formatAmount(v, baseCurrency)).join(' – ') : formatAmount(value, baseCurrency),
+                    name
+                  ]}
+                  labelFormatter={label => `Anno ${label}`}
+                />
+                <Area type="monotone" dataKey="outer" name="P10–P90" stroke="none" fill={PRIMARY_BLUE} fillOpacity={0.15} isAnimationActive={false} />
+                <Area type="monotone" dataKey="inner" name="P25–P75" stroke="none" fill={PRIMARY_BLUE} fillOpacity={0.3} isAnimationActive={false} />
+                <Line type="monotone" dataKey="p50" name="Mediana" stroke={PRIMARY_BLUE} strokeWidth={2.5} dot={false} isAnimationActive={false} />
+                {targetValue > 0 && (targetReal === (view === 'real')) && (
+                  <ReferenceLine y={targetValue} stroke="#f97316" strokeDasharray="4 4" label={{ value: 'Obiettivo', fontSize: 11, fill: '#f97316', position: 'insideTopLeft' }} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Anno</th>
+                  <th className="px-3 py-2 text-right">P10</th>
+                  <th className="px-3 py-2 text-right">P25</th>
+                  <th className="px-3 py-2 text-right">Mediana</th>
+                  <th className="px-3 py-2 text-right">P75</th>
+                  <th className="px-3 py-2 text-right">P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tableBands.map(band => (
+                  <tr key={band.year} className={clsx('border-t border-borderSoft', band === finalBand && 'font-semibold')}>
+                    <td className="px-3 py-2 text-slate-700">{band.year}</td>
+                    <td className="px-3 py-2 text-right">{formatAmount(band.p10, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right">{formatAmount(band.p25, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right">{formatAmount(band.p50, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right">{formatAmount(band.p75, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right">{formatAmount(band.p90, baseCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-[11px] text-slate-500 mt-3">
+            Versamenti totali {formatAmount(result.totalContributions, baseCurrency)} · prelievi totali {formatAmount(result.totalWithdrawals, baseCurrency)} (nominali) ·
+            modello {result.model === 'bootstrap' ? 'bootstrap storico' : 'lognormale'} · orizzonte massimo {MONTE_CARLO_MAX_YEARS} anni
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import React, { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import clsx from 'clsx';
+import { db, getCurrentPortfolioId } from '../db';
+import { Currency } from '../types';
+import { getValuationDateForHoldings } from '../services/financeUtils';
+import { computePnlReport, PnlBreakdown, PORTFOLIO_PNL_KEY } from '../services/pnlService';
+import { COST_BASIS_METHOD_LABELS, DEFAULT_COST_BASIS_METHOD } from '../services/taxLots';
+import { buildPnlCsv, downloadCsv } from '../services/csvExport';
+import { buildDividendTaxSummary, UNKNOWN_COUNTRY } from '../services/dividendTax';
+
+const formatAmount = (value: number, currency?: Currency | string) => {
+  if (!Number.isFinite(value)) return '—';
+  const formatted = value.toLocaleString('it-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency ? `${currency} ${formatted}` : formatted;
+};
+
+const toneClass = (value: number) => (
+  Math.abs(value) < 0.005 ? 'text-slate-500' : value > 0 ? 'text-emerald-600' : 'text-rose-600'
+);
+
+const BreakdownCells: React.FC<{ row: PnlBreakdown }> = ({ row }) => (
+  <>
+    <td className={clsx('px-3 py-2 text-right', toneClass(row.realizedBase))}>{formatAmount(row.realizedBase)}</td>
+    <td className={clsx('px-3 py-2 text-right', toneClass(row.unrealizedBase))}>{formatAmount(row.unrealizedBase)}</td>
+    <td className="px-3 py-2 text-right text-slate-700">{formatAmount(row.dividendsBase)}</td>
+    <td className="px-3 py-2 text-right text-slate-500">{formatAmount(-row.withholdingLostBase)}</td>
+    <td className="px-3 py-2 text-right text-slate-700">{formatAmount(-row.feesBase)}</td>
+    <td className={clsx('px-3 py-2 text-right', toneClass(row.priceEffectBase))}>{formatAmount(row.priceEffectBase)}</td>
+    <td className={clsx('px-3 py-2 text-right', toneClass(row.fxEffectBase))}>{formatAmount(row.fxEffectBase)}</td>
+    <td className={clsx('px-3 py-2 text-right font-bold', toneClass(row.totalBase))}>{formatAmount(row.totalBase)}</td>
+  </>
+);
+
+const BreakdownHeader: React.FC = () => (
+  <>
+    <th className="px-3 py-2 text-right">Realizzato</th>
+    <th className="px-3 py-2 text-right">Non realizzato</th>
+    <th className="px-3 py-2 text-right">Dividendi netti</th>
+    <th className="px-3 py-2 text-right">Ritenute perse</th>
+    <th className="px-3 py-2 text-right">Costi</th>
+    <th className="px-3 py-2 text-right">Effetto prezzo</th>
+    <th className="px-3 py-2 text-right">Effetto FX</th>
+    <th className="px-3 py-2 text-right">Totale</th>
+  </>
+);
+
+export const Pnl: React.FC = () => {
+  const currentPortfolioId = getCurrentPortfolioId();
+  const transactions = useLiveQuery(
+    () => db.transactions.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const instruments = useLiveQuery(
+    () => db.instruments.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const prices = useLiveQuery(
+    () => db.prices.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const fxRates = useLiveQuery(() => db.fxRates.toArray(), [], []);
+  const settings = useLiveQuery(
+    () => db.settings.where('portfolioId').equals(currentPortfolioId).first(),
+    [currentPortfolioId]
+  );
+  const baseCurrency = settings?.baseCurrency || Currency.CHF;
+  const method = settings?.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+  const [selectedYear, setSelectedYear] = useState<number | 'ALL'>('ALL');
+
+  const valuationDate = useMemo(() => {
+    const fallback = format(new Date(), 'yyyy-MM-dd');
+    if (!transactions?.length || !prices?.length) return fallback;
+    return getValuationDateForHoldings(transactions, prices, instruments || []) || fallback;
+  }, [transactions, prices, instruments]);
+
+  const report = useMemo(() => {
+    if (!transactions?.length) return null;
+    return computePnlReport({
+      transactions,
+      instruments: instruments || [],
+      prices: prices || [],
+      fxRates: fxRates || [],
+      baseCurrency,
+      valuationDate,
+      method,
+      withholdingRules: settings?.withholdingRules
+    });
+  }, [transactions, instruments, prices, fxRates, baseCurrency, valuationDate, method, settings?.withholdingRules]);
+
+  const dividendTax = useMemo(() => {
+    if (!transactions?.length) return null;
+    return buildDividendTaxSummary({
+      transactions,
+      instruments: instruments || [],
+      fxRates: fxRates || [],
+      baseCurrency,
+      rules: settings?.withholdingRules
+    });
+  }, [transactions, instruments, fxRates, baseCurrency, settings?.withholdingRules]);
+
+  const instrumentRows = useMemo(() => {
+    if (!report) return [];
+    if (selectedYear === 'ALL') return report.instruments;
+    return report.years.filter(row => row.year === selectedYear).sort((a, b) => b.totalBase - a.totalBase);
+  }, [report, selectedYear]);
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(`pnl_${currentPortfolioId}_${report.valuationDate}.csv`, buildPnlCsv(report));
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in text-textPrimary">
+      <div className="flex flex-wrap justify-between items-center gap-3 ui-panel p-6">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <span className="material-symbols-outlined text-[#0052a3]">account_balance_wallet</span>
+            Profitti e perdite
+          </h2>
+          <div className="text-xs text-slate-600 mt-1">
+            Valori in {baseCurrency} al {valuationDate} · Metodo lotti: {COST_BASIS_METHOD_LABELS[method]}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={!report}
+          className="ui-btn-primary px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2"
+        >
+          <span className="material-symbols-outlined text-[18px]">download</span>
+          Esporta CSV
+        </button>
+      </div>
+
+      {!report ? (
+        <div className="ui-panel p-6 text-xs text-slate-500">Nessuna transazione disponibile.</div>
+      ) : (
+        <>
+          {(report.missingFx.length > 0 || report.missingPrices.length > 0) && (
+            <div className="ui-panel-subtle border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-700 space-y-1">
+              {report.missingFx.length > 0 && (
+                <div>FX mancante per {report.missingFx.join(', ')}: i relativi importi in {baseCurrency} sono esclusi.</div>
+              )}
+              {report.missingPrices.length > 0 && (
+                <div>Prezzo mancante per {report.missingPrices.join(', ')}: non realizzato non calcolato.</div>
+              )}
+              <a href="#/data?tab=checks" className="font-bold hover:underline">Apri Data Inspector</a>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Realizzato', value: report.totals.realizedBase },
+              { label: 'Non realizzato', value: report.totals.unrealizedBase },
+              { label: 'Dividendi − costi', value: report.totals.dividendsBase - report.totals.feesBase },
+              { label: 'Totale', value: report.totals.totalBase }
+            ].map(card => (
+              <div key={card.label} className="ui-panel p-4">
+                <div className="text-[11px] uppercase font-bold text-slate-500">{card.label}</div>
+                <div className={clsx('text-lg font-bold mt-1', toneClass(card.value))}>{formatAmount(card.value, baseCurrency)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="ui-panel p-6">
+            <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2 mb-4">
+              <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> P&amp;L per anno
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs min-w-[860px]">
+                <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Anno</th>
+                    <BreakdownHeader />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.yearTotals.map(row => (
+                    <tr
+                      key={row.year}
+                      onClick={() => setSelectedYear(prev => (prev === row.year ? 'ALL' : row.year))}
+                      className={clsx('border-t border-borderSoft cursor-pointer hover:bg-slate-50', selectedYear === row.year && 'bg-blue-50')}
+                    >
+                      <td className="px-3 py-2 font-semibold text-slate-700">{row.year}</td>
+                      <BreakdownCells row={row} />
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-slate-300 font-semibold">
+                    <td className="px-3 py-2 text-slate-900">Totale</td>
+                    <BreakdownCells row={report.totals} />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="ui-panel p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span>
+                P&amp;L per strumento {selectedYear === 'ALL' ? '(dall\'inizio)' : `(${selectedYear})`}
+              </h3>
+              <select
+                className="ui-input text-xs w-auto"
+                value={String(selectedYear)}
+                onChange={e => setSelectedYear(e.target.value === 'ALL' ? 'ALL' : Number(e.target.value))}
+              >
+                <option value="ALL">Dall'inizio</option>
+                {report.yearTotals.map(row => (
+                  <option key={row.year} value={row.year}>{row.year}</option>
+                ))}
+              </select>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs min-w-[1100px]">
+                <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Ticker</th>
+                    <th className="px-3 py-2 text-left">Nome</th>
+                    <th className="px-3 py-2 text-right">Realizzato (loc.)</th>
+                    <th className="px-3 py-2 text-right">Non realizzato (loc.)</th>
+                    <BreakdownHeader />
+                  </tr>
+                </thead>
+                <tbody>
+                  {instrumentRows.map(row => (
+                    <tr key={row.ticker || PORTFOLIO_PNL_KEY} className="border-t border-borderSoft">
+                      <td className="px-3 py-2 font-semibold text-slate-700">{row.ticker || '—'}</td>
+                      <td className="px-3 py-2 text-slate-700">{row.name}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{formatAmount(row.realizedLocal, row.currency)}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{formatAmount(row.unrealizedLocal, row.currency)}</td>
+                      <BreakdownCells row={row} />
+                    </tr>
+                  ))}
+                  {instrumentRows.length === 0 && (
+                    <tr>
+                      <td colSpan={12} className="px-3 py-3 text-center text-slate-400">Nessun movimento nel periodo.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="text-[11px] text-slate-500 mt-3">
+              Effetto prezzo al cambio storico di acquisto; effetto FX = variazione del cambio sul valore in valuta dello strumento. Le commissioni di compravendita sono incluse nel costo dei lotti.
+              Ritenute perse = ritenuta alla fonte non recuperabile, già esclusa dai dividendi netti.
+            </div>
+          </div>
+
+          {dividendTax && dividendTax.years.length > 0 && (
+            <div className="ui-panel p-6">
+              <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2 mb-4">
+                <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Ritenute sui dividendi
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs min-w-[760px]">
+                  <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Anno</th>
+                      <th className="px-3 py-2 text-left">Paesi</th>
+                      <th className="px-3 py-2 text-right">Lordo</th>
+                      <th className="px-3 py-2 text-right">Ritenuta</th>
+                      <th className="px-3 py-2 text-right">Recuperabile</th>
+                      <th className="px-3 py-2 text-right">Persa</th>
+                      <th className="px-3 py-2 text-right">Netto</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dividendTax.years.map(row => (
+                      <tr key={row.year} className="border-t border-borderSoft">
+                        <td className="px-3 py-2 font-semibold text-slate-700">{row.year}</td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {row.countries.map(c => `${c.country === UNKNOWN_COUNTRY ? 'N/D' : c.country} ${formatAmount(c.withheldBase)}`).join(' · ')}
+                        </td>
+                        <td className="px-3 py-2 text-right text-slate-700">{formatAmount(row.grossBase)}</td>
+                        <td className="px-3 py-2 text-right text-slate-700">{formatAmount(row.withheldBase)}</td>
+                        <td className="px-3 py-2 text-right text-emerald-600">{formatAmount(row.reclaimableBase)}</td>
+                        <td className={clsx('px-3 py-2 text-right', toneClass(-row.lostBase))}>{formatAmount(row.lostBase)}</td>
+                        <td className="px-3 py-2 text-right font-bold text-slate-900">{formatAmount(row.netBase)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="text-[11px] text-slate-500 mt-3">
+                Paese dal prefisso ISIN; aliquote e quote recuperabili predefinite modificabili in Impostazioni. Per i dividendi senza ritenuta registrata il lordo coincide con il netto.
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import { RebalanceStrategy, AssetType, AssetClass, Instrument, Currency, RegionK
 import { computeCurrentValuedPositions } from '../services/positionValuation';
 import { analyzeRebalanceQuality, getIssueHelp } from '../services/dataQuality';
 import { queryLatestFxForPairs, queryLatestPricesForTickers } from '../services/dbQueries';
+import { getFxLookupPairs, getFxPivots } from '../services/fxResolver';
 import { InfoPopover } from '../components/InfoPopover';
 import { DataStatusBar } from '../components/DataStatusBar';
 import { computeRebalanceUnits } from '../services/rebalanceUtils';
@@ -16,6 +17,12 @@ import { clearDraft, getDraftAgeLabel, loadDraft, saveDraft, type RebalanceDraft
 import { deletePlan, duplicatePlan, listPlans, savePlan as saveRebalancePlan } from '../services/rebalancePlanService';
 import { buildRebalancePlanCsv, downloadCsv } from '../services/csvExport';
 import { formatQuantity } from '../services/quantityFormat';
+import { computeTaxLotLedger, DEFAULT_COST_BASIS_METHOD, previewLotSale } from '../services/taxLots';
+import { computeCashBalances, groupCashByAccount, hasCashTracking, valueCashBalances } from '../services/cashLedger';
+import { CURRENCY_OPTIONS } from '../services/currencyUtils';
+import { SectorAllocationEditor, SectorAllocationDraft, parseSectorAllocationDraft, toSectorAllocationDraft } from '../components/SectorAllocationEditor';
+import { estimateTradeFeeRatePct } from '../services/portfolioCostService';
+import { evaluateTerSwitch, FEE_DRAG_HORIZONS } from '../services/feeDrag';
 
 import clsx from 'clsx';
 
@@ -37,6 +44,8 @@ const getMacroCategory = (instrument?: Instrument): MacroCategory => {
 };
 
 const MACRO_ORDER = ['OBBLIGAZIONI', 'AZIONI', 'COMMODITIES', 'MONETARIO', 'ALTRO'];
+// Expected gross return used to compound the TER saving of a fund switch
+const SWITCH_GROSS_RETURN_PCT = 5;
 const MACRO_COLORS: Record<MacroCategory, string> = {
     AZIONI: '#0052a3',
     OBBLIGAZIONI: '#1d4ed8',
@@ -89,10 +98,12 @@ export const Rebalance: React.FC = () => {
         name: '',
         type: AssetType.Stock,
         assetClass: AssetClass.STOCK,
-        currency: Currency.CHF,
+        currency: Currency.CHF as Currency,
         sector: '',
         region: '' as RegionKey | '',
-        terPct: ''
+        terPct: '',
+        switchTerPct: '',
+        sectorAllocation: {} as SectorAllocationDraft
     });
     const [editAssetInitialRegion, setEditAssetInitialRegion] = useState<RegionKey | ''>('');
     const defaultStrategy = RebalanceStrategy.Accumulate;
@@ -106,9 +117,12 @@ export const Rebalance: React.FC = () => {
     const [planNotice, setPlanNotice] = useState<string | null>(null);
     const [planLoading, setPlanLoading] = useState(false);
     const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
+    const [switchTaxRate, setSwitchTaxRate] = useState('0');
 
     const transactions = useLiveQuery(() => db.transactions.where('portfolioId').equals(currentPortfolioId).toArray(), [currentPortfolioId], []);
     const instruments = useLiveQuery(() => db.instruments.where('portfolioId').equals(currentPortfolioId).toArray(), [currentPortfolioId], []);
+    const settings = useLiveQuery(() => db.settings.where('portfolioId').equals(currentPortfolioId).first(), [currentPortfolioId]);
+    const costBasisMethod = settings?.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
 
     const priceTickers = useMemo(() => {
         const set = new Set<string>();
@@ -145,6 +159,11 @@ export const Rebalance: React.FC = () => {
         []
     );
 
+    const cashBalances = useMemo(() => {
+        if (!transactions || !hasCashTracking(transactions)) return [];
+        return computeCashBalances(transactions);
+    }, [transactions]);
+
     const fxPairs = useMemo(() => {
         const base = Currency.CHF;
         const set = new Set<string>();
@@ -153,15 +172,32 @@ export const Rebalance: React.FC = () => {
                 set.add(`${instr.currency}/${base}`);
             }
         });
+        cashBalances.forEach(balance => {
+            if (balance.currency !== base) set.add(`${balance.currency}/${base}`);
+        });
         return Array.from(set.values());
-    }, [instruments]);
+    }, [instruments, cashBalances]);
 
-    const fxPairsKey = useMemo(() => fxPairs.slice().sort().join('|'), [fxPairs]);
+    const fxPivots = useMemo(() => getFxPivots(settings), [settings?.baseCurrency, settings?.fxPivotCurrency]);
+    const fxLookupPairs = useMemo(
+        () => getFxLookupPairs(Array.from(new Set(fxPairs.flatMap(pair => pair.split('/')))), fxPivots),
+        [fxPairs, fxPivots]
+    );
+    const fxLookupPairsKey = useMemo(() => fxLookupPairs.join('|'), [fxLookupPairs]);
 
     const holdings = useMemo(() => {
         return calculateHoldings(transactions || []);
     }, [transactions]);
 
+    const tradeFeeRatePct = useMemo(() => estimateTradeFeeRatePct(transactions || []), [transactions]);
+    const hasSwitchCandidates = useMemo(() => (instruments || []).some(instr => (
+        typeof instr.terPct === 'number' && typeof instr.switchTerPct === 'number' && instr.switchTerPct < instr.terPct
+    )), [instruments]);
+
+    const taxLotLedger = useMemo(() => {
+        return computeTaxLotLedger(transactions || [], { method: costBasisMethod });
+    }, [transactions, costBasisMethod]);
+
     const priceStats = useMemo(() => {
         return computeHoldingsPriceDateStats(transactions || [], instruments || [], latestPricesAll || []);
     }, [transactions, instruments, latestPricesAll]);
@@ -300,26 +336,26 @@ export const Rebalance: React.FC = () => {
             if (!fxPairs.length || !rebalanceDate) return [];
             const t0 = performance.now();
             const rows = await queryLatestFxForPairs({
-                pairs: fxPairs,
+                pairs: fxLookupPairs,
                 upToDate: rebalanceDate
             });
             if (import.meta.env.DEV) {
                 console.log('[PERF][Rebalance] latest fx', Math.round(performance.now() - t0), 'ms', {
-                    pairs: fxPairs.length,
+                    pairs: fxLookupPairs.length,
                     count: rows.length,
                     upToDate: rebalanceDate
                 });
             }
             return rows;
         },
-        [fxPairsKey, rebalanceDate],
+        [fxLookupPairsKey, rebalanceDate],
         []
     );
 
     const rebalanceQuality = useMemo(() => {
         if (!transactions || !prices || !instruments || !fxRates || !rebalanceDate) return null;
-        return analyzeRebalanceQuality(holdings, instruments, prices, fxRates, rebalanceDate, Currency.CHF);
-    }, [transactions, prices, instruments, fxRates, rebalanceDate, holdings]);
+        return analyzeRebalanceQuality(holdings, instruments, prices, fxRates, rebalanceDate, Currency.CHF, undefined, fxPivots);
+    }, [transactions, prices, instruments, fxRates, rebalanceDate, holdings, fxPivots]);
 
     const rebalanceData = useMemo(() => {
         if (!transactions || !prices || !instruments || !fxRates || !rebalanceDate) return null;
@@ -329,9 +365,16 @@ export const Rebalance: React.FC = () => {
             prices,
             fxRates,
             valuationDate: rebalanceDate,
-            baseCurrency: Currency.CHF
+            baseCurrency: Currency.CHF,
+            fxPivots
         });
-    }, [transactions, prices, instruments, fxRates, rebalanceDate, holdings]);
+    }, [transactions, prices, instruments, fxRates, rebalanceDate, holdings, fxPivots]);
+
+    const cashByAccount = useMemo(() => {
+        if (!fxRates || !rebalanceDate || !cashBalances.length) return null;
+        const valued = valueCashBalances(cashBalances, Currency.CHF, rebalanceDate, fxRates, fxPivots);
+        return { ...valued, accounts: groupCashByAccount(valued.balances) };
+    }, [cashBalances, fxRates, rebalanceDate, fxPivots]);
 
     const rebalanceCoverage = useMemo(() => {
         if (!prices || !fxRates || !instruments) return null;
@@ -636,7 +679,9 @@ export const Rebalance: React.FC = () => {
             currency: instrument.currency || Currency.CHF,
             sector: instrument.sector || '',
             region: regionValue,
-            terPct: instrument.terPct !== undefined ? String(instrument.terPct) : ''
+            terPct: instrument.terPct !== undefined ? String(instrument.terPct) : '',
+            switchTerPct: instrument.switchTerPct !== undefined ? String(instrument.switchTerPct) : '',
+            sectorAllocation: toSectorAllocationDraft(instrument.sectorAllocation)
         });
         setEditAssetInitialRegion(initialRegion);
         setEditAssetModalOpen(true);
@@ -664,7 +709,9 @@ export const Rebalance: React.FC = () => {
             assetClass: editAssetForm.assetClass,
             currency: editAssetForm.currency,
             sector: editAssetForm.sector.trim() || undefined,
-            terPct: parseOptionalPct(editAssetForm.terPct)
+            terPct: parseOptionalPct(editAssetForm.terPct),
+            switchTerPct: parseOptionalPct(editAssetForm.switchTerPct),
+            sectorAllocation: parseSectorAllocationDraft(editAssetForm.sectorAllocation)
         };
 
         const regionChanged = editAssetForm.region !== editAssetInitialRegion;
@@ -769,7 +816,7 @@ export const Rebalance: React.FC = () => {
 
             {isEditAssetModalOpen && editingAsset && (
                 <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-md">
-                    <div className="ui-panel-dense w-full max-w-lg p-6 relative">
+                    <div className="ui-panel-dense w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 relative">
                         <div className="flex items-start justify-between">
                             <div>
                                 <h3 className="text-lg font-bold text-slate-900">Modifica Asset</h3>
@@ -826,7 +873,7 @@ export const Rebalance: React.FC = () => {
                                         onChange={e => setEditAssetForm({ ...editAssetForm, currency: e.target.value as Currency })}
                                         className="ui-input w-full text-sm"
                                     >
-                                        {Object.values(Currency).map(cur => (
+                                        {CURRENCY_OPTIONS.map(cur => (
                                             <option key={cur} value={cur}>{cur}</option>
                                         ))}
                                     </select>
@@ -866,6 +913,22 @@ export const Rebalance: React.FC = () => {
                                     className="ui-input w-full text-sm font-mono"
                                 />
                             </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-400 uppercase mb-1.5">TER alternativa % (switch, opzionale)</label>
+                                <input
+                                    type="number"
+                                    placeholder="0.07"
+                                    step="0.01"
+                                    min="0"
+                                    value={editAssetForm.switchTerPct}
+                                    onChange={e => setEditAssetForm({ ...editAssetForm, switchTerPct: e.target.value })}
+                                    className="ui-input w-full text-sm font-mono"
+                                />
+                            </div>
+                            <SectorAllocationEditor
+                                value={editAssetForm.sectorAllocation}
+                                onChange={sectorAllocation => setEditAssetForm({ ...editAssetForm, sectorAllocation })}
+                            />
 
                             <div className="pt-4 flex gap-3">
                                 <button
@@ -1209,6 +1272,59 @@ export const Rebalance: React.FC = () => {
                                     className="ui-input w-full font-mono text-lg font-bold text-right"
                                 />
                             </div>
+                            {cashByAccount && cashByAccount.totalBase > 0 && (
+                                <button
+                                    type="button"
+                                    onClick={() => setCashInjection(Math.floor(cashByAccount.totalBase))}
+                                    className="mt-2 text-xs font-bold text-[#0052a3] hover:underline"
+                                >
+                                    Usa liquidità disponibile (CHF {Math.floor(cashByAccount.totalBase).toLocaleString()})
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {hasSwitchCandidates && (
+                        <div className="flex-1">
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-3">Imposta plusvalenze switch (%)</label>
+                            <input
+                                type="number"
+                                step="any"
+                                min="0"
+                                value={switchTaxRate}
+                                onChange={e => setSwitchTaxRate(e.target.value)}
+                                className="ui-input w-full font-mono text-right"
+                            />
+                            <div className="mt-2 text-xs text-slate-500">
+                                Commissione stimata {tradeFeeRatePct !== null ? `${tradeFeeRatePct.toFixed(2)}%` : 'N/D'} per operazione, due operazioni per switch
+                            </div>
+                        </div>
+                    )}
+
+                    {cashByAccount && cashByAccount.accounts.length > 0 && (
+                        <div className="flex-1">
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-3">Liquidità per conto</label>
+                            <div className="ui-panel-subtle p-3 space-y-2 text-xs">
+                                {cashByAccount.accounts.map(group => (
+                                    <div key={group.account}>
+                                        <div className="flex justify-between font-bold text-slate-700">
+                                            <span>{group.account}</span>
+                                            <span>CHF {group.totalBase.toLocaleString(undefined, { maximumFractionDigits: 0 })}{group.hasMissingFx ? ' *' : ''}</span>
+                                        </div>
+                                        {group.balances.map(balance => (
+                                            <div key={balance.currency} className="flex justify-between text-slate-500 pl-2">
+                                                <span>{balance.currency}</span>
+                                                <span className={balance.amount < 0 ? 'text-rose-600' : ''}>
+                                                    {balance.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                                {cashByAccount.missingFxPairs.length > 0 && (
+                                    <div className="text-amber-700">* FX mancante: {cashByAccount.missingFxPairs.join(', ')}</div>
+                                )}
+                            </div>
                         </div>
                     )}
                 </div>
@@ -1331,6 +1447,33 @@ export const Rebalance: React.FC = () => {
                                             : (unitsResult.units !== undefined && Number.isFinite(unitsResult.units))
                                                 ? formatQuantity(unitsResult.units, instr, p.ticker)
                                                 : '—';
+                                        const salePreview = (p.action === 'VENDI' && !isNeutral && unitsResult.units !== undefined && Number.isFinite(unitsResult.units))
+                                            ? previewLotSale(taxLotLedger, {
+                                                ticker: p.ticker,
+                                                quantity: Math.abs(unitsResult.units),
+                                                price: priceValue,
+                                                date: rebalanceDate || undefined
+                                            })
+                                            : null;
+                                        // Selling the whole position and buying the cheaper fund, in the instrument's currency
+                                        const terSwitch = (instr && typeof instr.terPct === 'number' && typeof instr.switchTerPct === 'number'
+                                            && instr.switchTerPct < instr.terPct && heldQty > 0 && currentValue > 0)
+                                            ? evaluateTerSwitch({
+                                                valueBase: currentValue,
+                                                currentTerPct: instr.terPct,
+                                                alternativeTerPct: instr.switchTerPct,
+                                                tradeFeePct: tradeFeeRatePct ?? 0,
+                                                realizedGainBase: previewLotSale(taxLotLedger, {
+                                                    ticker: p.ticker,
+                                                    quantity: heldQty,
+                                                    price: priceValue,
+                                                    date: rebalanceDate || undefined
+                                                })?.realizedGain ?? 0,
+                                                taxRatePct: Number(switchTaxRate) || 0,
+                                                grossReturnPct: SWITCH_GROSS_RETURN_PCT,
+                                                horizonYears: FEE_DRAG_HORIZONS[0]
+                                            })
+                                            : null;
                                         const unitsTitle = unitsLabel === '—'
                                             ? (unitsResult.reason === 'currency_mismatch'
                                                 ? 'Valuta prezzo non coerente con la valuta dello strumento'
@@ -1372,6 +1515,19 @@ export const Rebalance: React.FC = () => {
                                                             {assetClassLabelIt}
                                                         </span>
                                                     )}
+                                                    {terSwitch && instr && (
+                                                        <span
+                                                            className={clsx(
+                                                                'mt-1 ml-1 inline-flex items-center text-[10px] font-bold px-2 py-0.5 rounded-full',
+                                                                terSwitch.paysOff ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'
+                                                            )}
+                                                            title={`Costo switch ${assetCurrency} ${terSwitch.switchCost.toLocaleString('it-CH', { maximumFractionDigits: 0 })} (commissioni${Number(switchTaxRate) > 0 ? ' e imposte' : ''}) · risparmio TER ${assetCurrency} ${terSwitch.annualSavingBase.toLocaleString('it-CH', { maximumFractionDigits: 0 })}/anno · rendimento lordo ipotizzato ${SWITCH_GROSS_RETURN_PCT}%`}
+                                                        >
+                                                            {terSwitch.paysOff
+                                                                ? `Switch TER ${instr.switchTerPct?.toFixed(2)}%: si ripaga in ${Math.max(1, terSwitch.breakEvenYear ?? 1)} anni`
+                                                                : `Switch TER ${instr.switchTerPct?.toFixed(2)}%: non si ripaga in ${FEE_DRAG_HORIZONS[0]} anni`}
+                                                        </span>
+                                                    )}
                                                 </td>
 
                                                 {/* Target % (Editable) */}
@@ -1490,6 +1646,14 @@ export const Rebalance: React.FC = () => {
                                                                 ˜ {assetCurrency} {amountLocal.toLocaleString('it-CH', { maximumFractionDigits: 0 })}
                                                             </span>
                                                         )}
+                                                        {isTradable && salePreview && (
+                                                            <span
+                                                                className={clsx('text-[11px]', salePreview.realizedGain >= 0 ? 'text-emerald-600' : 'text-rose-600')}
+                                                                title={`Lotti chiusi (${costBasisMethod}): ${salePreview.lots.map(lot => `${lot.openDate} × ${formatQuantity(lot.quantity, instr, p.ticker)}`).join(', ')}`}
+                                                            >
+                                                                {salePreview.realizedGain >= 0 ? 'Plusvalenza' : 'Minusvalenza'} stimata {salePreview.currency || priceCurrency} {salePreview.realizedGain.toLocaleString('it-CH', { maximumFractionDigits: 0 })}
+                                                            </span>
+                                                        )}
                                                     </div>
                                                 </td>
                                             </tr>
@@ -28,9 +28,21 @@ import {
   calculatePortfolioState,
   calculateAllocationByAssetClass,
   calculateRegionExposure,
-  computeMwrrSeries
+  calculateSectorExposure,
+  computeMwrrSeries,
+  calculateHoldings
 } from '../services/financeUtils';
+import { computeDividendIncome } from '../services/dividendIncome';
+import { computeReturnAttribution } from '../services/returnAttribution';
+import { computePositionContributions } from '../services/positionContribution';
+import { computePositionCostBasis } from '../services/positionCostBasis';
+import { getRiskFreeRate, toIndexSeries } from '../services/riskMetrics';
+import { buildMonthlyReturnGrid, computeTrailingReturns } from '../services/periodReturns';
+import { resolveInflationInputForRange } from '../services/inflationService';
+import { formatReturnCell, MONTH_LABELS, returnCellColor } from '../components/PeriodReturnsTables';
 import { downsampleSeries } from '../services/chartUtils';
+import { listEtfBreakdowns } from '../services/etfBreakdownRepository';
+import { getFxPivots } from '../services/fxResolver';
 import { MACRO_ZONES, COLORS, CARD_BG, CARD_TEXT, PRIMARY_BLUE, ACCENT_ORANGE } from '../constants';
 import '../report.css';
 import {
@@ -42,7 +54,7 @@ import {
   validateLayout,
   getCanvasSize
 } from '../report/reportLayout';
-import { PortfolioPosition } from '../types';
+import { Currency, InflationAnnualPoint, InflationPoint, PortfolioPosition } from '../types';
 
 const MM_PER_PX = 25.4 / 96;
 const BASE_PX_PER_MM = 1 / MM_PER_PX;
@@ -67,12 +79,17 @@ const titleMap: Record<string, string> = {
   composition: 'Asset Class',
   currency: 'Esposizione Valutaria',
   regions: 'Distribuzione Geografica',
+  sectors: 'Distribuzione Settoriale',
   twrr: 'Andamento Portafoglio (TWRR)',
   mwrr: 'Andamento Portafoglio (MWRR)',
   retann: 'Ritorni Annuali',
+  retmonthly: 'Rendimenti mensili',
+  trailing: 'Rendimenti per periodo',
   dd: 'Drawdowns',
   asset: 'Allocazione Asset Class',
   holdings: 'Posizioni',
+  income: 'Reddito da dividendi',
+  attribution: 'Mercato vs valuta',
   text: 'Testo'
 };
 
@@ -84,9 +101,9 @@ const normalizeWidgetType = (rawType: string) => {
   return titleMap[lower] ? lower : baseType;
 };
 
-const formatCurrency = (value?: number) =>
+const formatCurrency = (value?: number, currency: string = 'CHF') =>
   typeof value === 'number'
-    ? value.toLocaleString('it-IT', { style: 'currency', currency: 'CHF', maximumFractionDigits: 0 })
+    ? value.toLocaleString('it-IT', { style: 'currency', currency, maximumFractionDigits: 0 })
     : '-';
 
 const formatPct = (value?: number) =>
@@ -162,6 +179,23 @@ export const Report: React.FC = () => {
     [currentPortfolioId],
     []
   );
+  const fxRates = useLiveQuery(() => db.fxRates.toArray(), [], []);
+  const etfBreakdowns = useLiveQuery(() => listEtfBreakdowns(currentPortfolioId), [currentPortfolioId], []);
+  const inflationRates = useLiveQuery(
+    () => db.inflationRates.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  ) as InflationPoint[];
+  const inflationAnnualRates = useLiveQuery(
+    () => db.inflationAnnualRates.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  ) as InflationAnnualPoint[];
+  const settings = useLiveQuery(
+    () => db.settings.where('portfolioId').equals(currentPortfolioId).first(),
+    [currentPortfolioId]
+  );
+  const fxPivots = useMemo(() => getFxPivots(settings), [settings?.baseCurrency, settings?.fxPivotCurrency]);
   const [macroConfig] = useState(() => {
     try {
       const saved = localStorage.getItem('macro_indicators_config');
@@ -192,13 +226,17 @@ export const Report: React.FC = () => {
 
   const rawTrends = useMemo(() => {
     if (!transactions || !prices || !instruments) return null;
-    return calculateHistoricalPerformance(transactions, instruments, prices, 120);
-  }, [transactions, prices, instruments]);
+    return calculateHistoricalPerformance(transactions, instruments, prices, 120, 'monthly', {
+      fxRates: fxRates || [],
+      baseCurrency: settings?.baseCurrency || Currency.CHF,
+      pivots: fxPivots
+    });
+  }, [transactions, prices, instruments, fxRates, settings?.baseCurrency, fxPivots]);
 
   const analytics = useMemo(() => {
     if (!rawTrends) return null;
-    return calculateAnalytics(rawTrends.history);
-  }, [rawTrends]);
+    return calculateAnalytics(rawTrends.history, 'monthly', getRiskFreeRate(settings, settings?.baseCurrency || Currency.CHF));
+  }, [rawTrends, settings]);
 
   const assetClassAllocationData = useMemo(() => {
     if (!state || !instruments) return [];
@@ -215,8 +253,12 @@ export const Report: React.FC = () => {
 
   const mwrrSeries = useMemo(() => {
     if (!rawTrends || !transactions) return [];
-    return computeMwrrSeries(rawTrends.history, transactions);
-  }, [rawTrends, transactions]);
+    return computeMwrrSeries(rawTrends.history, transactions, {
+      instruments: instruments || [],
+      prices: prices || [],
+      fx: { fxRates: fxRates || [], baseCurrency: settings?.baseCurrency || Currency.CHF, pivots: fxPivots }
+    });
+  }, [rawTrends, transactions, instruments, prices, fxRates, settings?.baseCurrency, fxPivots]);
 
   const mwrrData = useMemo(() => {
     if (!rawTrends) return [];
@@ -240,6 +282,32 @@ export const Report: React.FC = () => {
   }, [rawTrends]);
 
   const annualReturns = analytics?.annualReturns || [];
+
+  const trailingReturns = useMemo(() => {
+    if (!rawTrends || !transactions) return [];
+    const inflation = resolveInflationInputForRange({
+      history: rawTrends.history,
+      monthlyPoints: inflationRates || [],
+      annualPoints: inflationAnnualRates || [],
+      currency: settings?.baseCurrency || Currency.CHF
+    });
+    return computeTrailingReturns({
+      history: rawTrends.history,
+      transactions,
+      realHistory: inflation.mode === 'monthly' ? inflation.realHistory : [],
+      market: {
+        instruments: instruments || [],
+        prices: prices || [],
+        fx: { fxRates: fxRates || [], baseCurrency: settings?.baseCurrency || Currency.CHF, pivots: fxPivots }
+      }
+    });
+  }, [rawTrends, transactions, inflationRates, inflationAnnualRates, settings?.baseCurrency, instruments, prices, fxRates, fxPivots]);
+
+  // Most recent years first, as many as fit the widget
+  const monthlyReturnGrid = useMemo(() => {
+    if (!rawTrends) return [];
+    return buildMonthlyReturnGrid(toIndexSeries(rawTrends.history));
+  }, [rawTrends]);
   const drawdownData = analytics?.drawdownSeries?.map(d => ({
     ...d,
     displayDate: format(new Date(d.date), 'MMM yy')
@@ -282,8 +350,13 @@ export const Report: React.FC = () => {
 
   const regionExposure = useMemo(() => {
     if (!state || !instruments) return [];
-    return calculateRegionExposure(state, instruments);
-  }, [state, instruments]);
+    return calculateRegionExposure(state, instruments, etfBreakdowns || []);
+  }, [state, instruments, etfBreakdowns]);
+
+  const sectorExposure = useMemo(() => {
+    if (!state || !instruments) return [];
+    return calculateSectorExposure(state, instruments, etfBreakdowns || []);
+  }, [state, instruments, etfBreakdowns]);
 
   const holdings = useMemo<PortfolioPosition[]>(() => {
     if (!state) return [];
@@ -294,6 +367,63 @@ export const Report: React.FC = () => {
 
   const holdingsPreview = holdings.slice(0, 14);
 
+  // Since the first transaction, like the TWRR widget
+  const contributionByTicker = useMemo(() => {
+    const map = new Map<string, number>();
+    if (!transactions?.length || !instruments || !prices || !fxRates) return map;
+    const firstDate = transactions.reduce((min, t) => {
+      const date = format(t.date, 'yyyy-MM-dd');
+      return !min || date < min ? date : min;
+    }, '');
+    const summary = computePositionContributions({
+      transactions,
+      instruments,
+      prices,
+      fxRates,
+      baseCurrency: settings?.baseCurrency || Currency.CHF,
+      fxPivots,
+      startDate: firstDate,
+      endDate: format(new Date(), 'yyyy-MM-dd')
+    });
+    summary?.positions.forEach(p => map.set(p.ticker, p.contributionPct));
+    return map;
+  }, [transactions, instruments, prices, fxRates, settings?.baseCurrency, fxPivots]);
+
+  const baseCurrency = settings?.baseCurrency || Currency.CHF;
+  const dividendIncome = useMemo(() => {
+    if (!transactions || !instruments || !fxRates) return null;
+    return computeDividendIncome({
+      transactions,
+      instruments,
+      fxRates,
+      baseCurrency,
+      asOfDate: format(new Date(), 'yyyy-MM-dd'),
+      holdings: calculateHoldings(transactions),
+      costBasis: computePositionCostBasis(transactions),
+      rules: settings?.withholdingRules
+    });
+  }, [transactions, instruments, fxRates, baseCurrency, settings?.withholdingRules]);
+
+  const incomeChartData = useMemo(() => {
+    return (dividendIncome?.monthly || []).slice(-12).map(row => ({
+      displayDate: format(new Date(`${row.month}-01T12:00:00`), 'MMM yy'),
+      net: row.netBase
+    }));
+  }, [dividendIncome]);
+
+  const returnAttribution = useMemo(() => {
+    if (!transactions?.length || !instruments || !prices || !fxRates) return null;
+    return computeReturnAttribution({ transactions, instruments, prices, fxRates, baseCurrency, fxPivots, granularity: 'monthly' });
+  }, [transactions, instruments, prices, fxRates, baseCurrency, fxPivots]);
+
+  const attributionChartData = useMemo(() => {
+    return (returnAttribution?.positions || []).slice(0, 6).map(row => ({
+      name: row.kind === 'cash' ? row.currency : row.ticker,
+      local: row.localPnl,
+      fx: row.fxPnl + row.crossPnl
+    }));
+  }, [returnAttribution]);
+
   const layoutFromStorage = (): ReportLayout | null => {
     try {
       const saved = localStorage.getItem(storageKey);
@@ -769,6 +899,40 @@ export const Report: React.FC = () => {
             </ResponsiveContainer>
           </div>
         );
+      case 'sectors':
+        if (sectorExposure.length === 0) return empty('Nessun settore');
+        return (
+          <div className="fx-exposure-wrap">
+            <div className="fx-exposure-chart">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie data={sectorExposure} dataKey="value" nameKey="label" innerRadius={30} outerRadius={60} paddingAngle={2}>
+                    {sectorExposure.map((entry, index) => (
+                      <Cell key={entry.sector} fill={entry.sector === 'UNASSIGNED' ? '#cbd5e1' : COLORS[index % COLORS.length]} stroke={CARD_BG} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value: number | string) => (typeof value === 'number' ? formatCurrency(value) : value)} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="fx-exposure-legend">
+              <ul>
+                {sectorExposure.map((item, idx) => (
+                  <li key={item.sector}>
+                    <span className="fx-exposure-label">
+                      <span className="fx-swatch" style={{ background: item.sector === 'UNASSIGNED' ? '#cbd5e1' : COLORS[idx % COLORS.length] }} />
+                      {item.label}
+                    </span>
+                    <span className="fx-exposure-values">
+                      <span className="fx-exposure-pct">{item.pct.toFixed(1)}%</span>
+                      <span className="fx-exposure-val">{formatCurrency(item.value)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        );
       case 'holdings':
         if (holdingsPreview.length === 0) return empty('Nessuna posizione');
         return (
@@ -779,6 +943,7 @@ export const Report: React.FC = () => {
               <col className="col-qty" />
               <col className="col-value" />
               <col className="col-weight" />
+              <col className="col-contrib" />
             </colgroup>
             <thead>
               <tr>
@@ -787,6 +952,7 @@ export const Report: React.FC = () => {
                 <th className="num">Quote</th>
                 <th className="num">Valore</th>
                 <th className="num">Peso %</th>
+                <th className="num">Contrib.</th>
               </tr>
             </thead>
             <tbody>
@@ -797,11 +963,136 @@ export const Report: React.FC = () => {
                   <td className="num">{h.quantity.toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                   <td className="num">{formatCurrency(h.currentValueCHF)}</td>
                   <td className="num">{h.currentPct.toFixed(1)}%</td>
+                  <td className="num">{formatPct(contributionByTicker.get(h.ticker))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      case 'retmonthly':
+        if (monthlyReturnGrid.length === 0) return empty('Storico insufficiente');
+        return (
+          <table className="table returns-table">
+            <thead>
+              <tr>
+                <th></th>
+                {MONTH_LABELS.map(label => <th key={label} className="num">{label}</th>)}
+                <th className="num">Anno</th>
+              </tr>
+            </thead>
+            <tbody>
+              {monthlyReturnGrid.slice(0, Math.max(1, Math.floor((widget.h - 14) / 6))).map(row => (
+                <tr key={row.year}>
+                  <td>{row.year}</td>
+                  {row.months.map((value, idx) => (
+                    <td key={idx} className="num" style={{ background: returnCellColor(value) }}>{formatReturnCell(value)}</td>
+                  ))}
+                  <td className="num total" style={{ background: returnCellColor(row.totalPct, 20) }}>{formatReturnCell(row.totalPct)}</td>
                 </tr>
               ))}
             </tbody>
           </table>
         );
+      case 'trailing':
+        if (trailingReturns.length === 0) return empty('Storico insufficiente');
+        return (
+          <table className="table returns-table">
+            <thead>
+              <tr>
+                <th>{baseCurrency}</th>
+                {trailingReturns.map(row => (
+                  <th key={row.key} className="num">{row.label}{row.key === 'ITD' && row.annualized ? ' ann.' : ''}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {([
+                { key: 'twrrPct', label: 'TWRR' },
+                { key: 'mwrrPct', label: 'MWRR' },
+                { key: 'realPct', label: 'Reale' }
+              ] as const)
+                .filter(measure => measure.key !== 'realPct' || trailingReturns.some(row => row.realPct !== null))
+                .map(measure => (
+                  <tr key={measure.key}>
+                    <td>{measure.label}</td>
+                    {trailingReturns.map(row => (
+                      <td key={row.key} className="num">{formatPct(row[measure.key] ?? undefined)}</td>
+                    ))}
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        );
+      case 'income':
+        if (!dividendIncome || dividendIncome.payments.length === 0) return empty('Nessun dividendo');
+        return (
+          <div className="income-widget">
+            <div className="kpi-grid">
+              <div className="kpi">
+                <div className="label">Ultimi 12 mesi</div>
+                <div className="value">{formatCurrency(dividendIncome.trailingNetBase, baseCurrency)}</div>
+                <div className="sub">Netto incassato</div>
+              </div>
+              <div className="kpi">
+                <div className="label">Stima 12 mesi</div>
+                <div className="value">{formatCurrency(dividendIncome.forwardNetBase, baseCurrency)}</div>
+                <div className="sub">Sulle quote attuali</div>
+              </div>
+              <div className="kpi">
+                <div className="label">Yield on cost</div>
+                <div className="value">{formatPct(dividendIncome.yieldOnCostPct)}</div>
+                <div className="sub">Lordo</div>
+              </div>
+            </div>
+            <div className="income-chart">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={incomeChartData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid stroke="#e2e8f0" strokeDasharray="3 3" />
+                  <XAxis dataKey="displayDate" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} width={50} tickFormatter={(v: number) => formatCurrency(v, baseCurrency)} />
+                  <Tooltip formatter={(value: number | string) => (typeof value === 'number' ? formatCurrency(value, baseCurrency) : value)} />
+                  <Bar dataKey="net" fill={PRIMARY_BLUE} radius={2} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        );
+      case 'attribution':
+        if (!returnAttribution || returnAttribution.positions.length === 0) return empty('Dati insufficienti');
+        return (
+          <div className="attribution-widget">
+            <div className="kpi-grid">
+              <div className="kpi">
+                <div className="label">Mercato locale</div>
+                <div className="value">{formatPct(returnAttribution.portfolio.localReturnPct)}</div>
+                <div className="sub">{formatCurrency(returnAttribution.portfolio.localPnl, baseCurrency)}</div>
+              </div>
+              <div className="kpi">
+                <div className="label">Valuta</div>
+                <div className="value">{formatPct(returnAttribution.portfolio.fxReturnPct)}</div>
+                <div className="sub">{formatCurrency(returnAttribution.portfolio.fxPnl, baseCurrency)}</div>
+              </div>
+              <div className="kpi">
+                <div className="label">Totale</div>
+                <div className="value">{formatPct(returnAttribution.portfolio.totalReturnPct)}</div>
+                <div className="sub">Incrociato {formatPct(returnAttribution.portfolio.crossReturnPct)}</div>
+              </div>
+            </div>
+            <div className="attribution-chart">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={attributionChartData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid stroke="#e2e8f0" strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} width={50} tickFormatter={(v: number) => formatCurrency(v, baseCurrency)} />
+                  <Tooltip formatter={(value: number | string) => (typeof value === 'number' ? formatCurrency(value, baseCurrency) : value)} />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  <Bar dataKey="local" name="Mercato" stackId="pnl" fill={PRIMARY_BLUE} />
+                  <Bar dataKey="fx" name="Valuta" stackId="pnl" fill={ACCENT_ORANGE} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        );
       default:
         return empty('Widget non configurato');
     }
@@ -1139,10 +1430,15 @@ export const Report: React.FC = () => {
     { id: 'twrr', label: 'Andamento Portafoglio (TWRR)', w: 190, h: 70, minW: 120, minH: 60 },
     { id: 'mwrr', label: 'Andamento Portafoglio (MWRR)', w: 190, h: 70, minW: 120, minH: 60 },
     { id: 'retann', label: 'Ritorni Annuali', w: 95, h: 55, minW: 70, minH: 40 },
+    { id: 'retmonthly', label: 'Rendimenti mensili', w: 190, h: 60, minW: 140, minH: 30 },
+    { id: 'trailing', label: 'Rendimenti per periodo', w: 190, h: 35, minW: 140, minH: 28 },
     { id: 'dd', label: 'Drawdowns', w: 90, h: 55, minW: 70, minH: 40 },
     { id: 'composition', label: 'Asset Class', w: 90, h: 60, minW: 60, minH: 45 },
     { id: 'currency', label: 'Esposizione Valutaria', w: 90, h: 60, minW: 60, minH: 45 },
-    { id: 'regions', label: 'Distribuzione Geografica', w: 190, h: 70, minW: 120, minH: 50 }
+    { id: 'regions', label: 'Distribuzione Geografica', w: 190, h: 70, minW: 120, minH: 50 },
+    { id: 'sectors', label: 'Distribuzione Settoriale', w: 90, h: 60, minW: 60, minH: 45 },
+    { id: 'income', label: 'Reddito da dividendi', w: 190, h: 75, minW: 120, minH: 60 },
+    { id: 'attribution', label: 'Mercato vs valuta', w: 190, h: 75, minW: 120, minH: 60 }
   ];
 
   const addWidgetById = (id: string) => {
@@ -1274,6 +1570,7 @@ export const Report: React.FC = () => {
           <col className="col-qty" />
           <col className="col-value" />
           <col className="col-weight" />
+          <col className="col-contrib" />
         </colgroup>
         <thead>
           <tr>
@@ -1282,12 +1579,13 @@ export const Report: React.FC = () => {
             <th className="num">Quote</th>
             <th className="num">Valore</th>
             <th className="num">Peso %</th>
+            <th className="num">Contrib.</th>
           </tr>
         </thead>
         <tbody>
           {rows.length === 0 ? (
             <tr>
-              <td colSpan={5} style={{ textAlign: 'center', color: '#94a3b8' }}>Nessuna posizione</td>
+              <td colSpan={6} style={{ textAlign: 'center', color: '#94a3b8' }}>Nessuna posizione</td>
             </tr>
           ) : (
             rows.map(h => (
@@ -1297,6 +1595,7 @@ export const Report: React.FC = () => {
                 <td className="num">{h.quantity.toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                 <td className="num">{formatCurrency(h.currentValueCHF)}</td>
                 <td className="num">{h.currentPct.toFixed(1)}%</td>
+                <td className="num">{formatPct(contributionByTicker.get(h.ticker))}</td>
               </tr>
             ))
           )}
@@ -16,14 +16,20 @@ import { deleteInstrumentGloballySafely, queryLatestFxForPairs } from '../servic
 import { computeFxCoverageForPairs } from '../services/dataCoverage';
 import { addHiddenTicker, getHiddenTickersForPortfolio, removeHiddenTicker, removeHiddenTickerEverywhere } from '../services/portfolioVisibility';
 import { isIsin, normalizeTicker, resolveEodhdSymbol, hasExchangeSuffix } from '../services/symbolUtils';
-import { AppSettings, Currency, InstrumentListing, Instrument, PriceProviderType, PriceTickerConfig, RegionKey, AssetType, Transaction, InflationPoint, InflationAnnualPoint } from '../types';
+import { AppSettings, CostBasisMethod, Currency, InstrumentListing, Instrument, PriceProviderType, PriceTickerConfig, RegionKey, AssetType, Transaction, InflationPoint, InflationAnnualPoint } from '../types';
 import { InfoPopover } from '../components/InfoPopover';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { format, subDays } from 'date-fns';
 import { useLocation } from 'react-router-dom';
 import { resetSymbolMigrationFlag, runSymbolMigrationOnce } from '../services/symbolMigration';
 import clsx from 'clsx';
+import { COST_BASIS_METHOD_LABELS, DEFAULT_COST_BASIS_METHOD } from '../services/taxLots';
+import { WithholdingRulesEditor } from '../components/settings/WithholdingRulesEditor';
+import { RiskFreeRatesEditor } from '../components/settings/RiskFreeRatesEditor';
+import { EtfBreakdownEditor } from '../components/settings/EtfBreakdownEditor';
 import { dedupeInflationCsvRows, getAnnualInflationCoverage, getInflationCoverage, mergeInflationRowsWithExisting } from '../services/inflationService';
+import { CURRENCY_OPTIONS, isCurrencyCode } from '../services/currencyUtils';
+import { DEFAULT_FX_PIVOT } from '../services/fxResolver';
 
 type InstrumentListingRow = {
   id?: number;
@@ -243,7 +249,10 @@ export const Settings: React.FC = () => {
     rebalancePlans: 'Piani rebalance',
     backtestImports: 'Backtest import',
     backtestImportPrices: 'Prezzi backtest import',
-    backtestScenarios: 'Scenari backtest'
+    backtestScenarios: 'Scenari backtest',
+    savingsPlans: 'Piani di accumulo',
+    customBenchmarks: 'Benchmark personalizzati',
+    etfBreakdowns: 'Composizione ETF (look-through)'
   };
 
   useEffect(() => {
@@ -305,6 +314,7 @@ export const Settings: React.FC = () => {
     if (!id) return undefined;
     return instruments.find(inst => String(inst.id) === id);
   };
+  const selectedInstrument = getInstrumentByIdString(selectedInstrumentId);
 
   const missingTxRows = useMemo(() => {
     return (missingInstrumentTransactions || []).filter(tx => !tx.instrumentId);
@@ -1373,7 +1383,7 @@ export const Settings: React.FC = () => {
         const currency = cols[currencyIdx] as Currency;
         const index = toNum(cols[indexIdx]);
         const validDate = /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(new Date(`${date}T00:00:00`).getTime());
-        const validCurrency = (Object.values(Currency) as string[]).includes(currency);
+        const validCurrency = isCurrencyCode(currency);
         if (!validDate || !validCurrency || index === null || index <= 0) {
           errors.push(`Riga ${idx + 2}: data/valuta/index non validi`);
           return;
@@ -1869,7 +1879,7 @@ export const Settings: React.FC = () => {
                     value={config.baseCurrency}
                     onChange={e => setConfig({ ...config, baseCurrency: e.target.value as Currency })}
                   >
-                    {Object.values(Currency).map(c => (
+                    {CURRENCY_OPTIONS.map(c => (
                       <option key={c} value={c}>{c}</option>
                     ))}
                   </select>
@@ -1883,6 +1893,49 @@ export const Settings: React.FC = () => {
                   />
                 </div>
               </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1.5">Valuta pivot FX</label>
+                <select
+                  className="ui-input w-full"
+                  value={config.fxPivotCurrency || DEFAULT_FX_PIVOT}
+                  onChange={e => setConfig({ ...config, fxPivotCurrency: e.target.value as Currency })}
+                >
+                  {CURRENCY_OPTIONS.map(c => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-400 mt-1">Se manca una coppia diretta il cambio viene derivato via questa valuta, poi via la valuta base.</p>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1.5">Metodo cost basis (lotti)</label>
+                <select
+                  className="ui-input w-full"
+                  value={config.costBasisMethod || DEFAULT_COST_BASIS_METHOD}
+                  onChange={e => setConfig({ ...config, costBasisMethod: e.target.value as CostBasisMethod })}
+                >
+                  {(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map(method => (
+                    <option key={method} value={method}>{COST_BASIS_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-400 mt-1">Determina quali lotti chiude ogni vendita e la plusvalenza realizzata.</p>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1.5">Ritenute alla fonte sui dividendi</label>
+                <WithholdingRulesEditor
+                  value={config.withholdingRules}
+                  onChange={next => setConfig({ ...config, withholdingRules: next })}
+                />
+                <p className="text-xs text-slate-400 mt-1">Aliquote per paese (prefisso ISIN) usate per proporre ritenuta e quota recuperabile dei nuovi dividendi e per stimare il recuperabile dove non è indicato.</p>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1.5">Tasso risk-free</label>
+                <RiskFreeRatesEditor
+                  value={config.riskFreeRates}
+                  baseCurrency={config.baseCurrency}
+                  onChange={next => setConfig({ ...config, riskFreeRates: next })}
+                />
+                <p className="text-xs text-slate-400 mt-1">Tasso annuo per valuta usato da Sharpe e Sortino in dashboard, report e backtest (valuta base del calcolo). Default 2%.</p>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-xs font-bold text-slate-400 uppercase mb-1.5">Backfill da data</label>
@@ -2060,11 +2113,11 @@ export const Settings: React.FC = () => {
             <div className="flex items-center gap-2 text-[11px] text-slate-600">
               <span>FX base</span>
               <select className="border border-borderSoft rounded px-2 py-1" value={fxBase} onChange={e => setFxBase(e.target.value as Currency)}>
-                {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                {CURRENCY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
               </select>
               <span>/</span>
               <select className="border border-borderSoft rounded px-2 py-1" value={fxQuote} onChange={e => setFxQuote(e.target.value as Currency)}>
-                {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                {CURRENCY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
               </select>
             </div>
           </div>
@@ -2571,7 +2624,7 @@ export const Settings: React.FC = () => {
                       value={annualInflationCurrency}
                       onChange={e => setAnnualInflationCurrency(e.target.value as Currency)}
                     >
-                      {Object.values(Currency).map(currency => <option key={currency} value={currency}>{currency}</option>)}
+                      {CURRENCY_OPTIONS.map(currency => <option key={currency} value={currency}>{currency}</option>)}
                     </select>
                   </div>
                   <div>
@@ -3356,7 +3409,11 @@ export const Settings: React.FC = () => {
                 </button>
                 <span className="text-[11px] text-slate-500">Somma attuale: {Object.values(regionAllocation || {}).reduce((s, v) => s + (v || 0), 0).toFixed(1)}%</span>
               </div>
+              <div className="text-[11px] text-slate-500">Se lo strumento ha una composizione ETF importata, la Dashboard usa i paesi del file al posto di queste percentuali.</div>
             </div>
+            {selectedInstrument && (
+              <EtfBreakdownEditor instrument={selectedInstrument} portfolioId={currentPortfolioId} />
+            )}
             {recommendedListings.length > 0 && (
               <div>
                 <div className="text-xs font-bold text-slate-500 mb-2">Consigliati</div>
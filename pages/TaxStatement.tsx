@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import clsx from 'clsx';
+import { db, getCurrentPortfolioId } from '../db';
+import { getMarketCloseForDate } from '../services/priceService';
+import { getIssueHelp } from '../services/dataQuality';
+import { buildSwissTaxStatement, getLastTradingDay, getStatementYears, TAX_CURRENCY, YearEndClose } from '../services/swissTaxStatement';
+import { buildSwissTaxStatementCsv, downloadCsv } from '../services/csvExport';
+
+const formatAmount = (value?: number, decimals = 2) => {
+  if (value === undefined || !Number.isFinite(value)) return '—';
+  return value.toLocaleString('it-CH', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+const formatQuantity = (value: number) => value.toLocaleString('it-CH', { maximumFractionDigits: 6 });
+
+export const TaxStatement: React.FC = () => {
+  const currentPortfolioId = getCurrentPortfolioId();
+  const transactions = useLiveQuery(
+    () => db.transactions.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const instruments = useLiveQuery(
+    () => db.instruments.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const prices = useLiveQuery(
+    () => db.prices.where('portfolioId').equals(currentPortfolioId).toArray(),
+    [currentPortfolioId],
+    []
+  );
+  const fxRates = useLiveQuery(() => db.fxRates.toArray(), [], []);
+  const settings = useLiveQuery(
+    () => db.settings.where('portfolioId').equals(currentPortfolioId).first(),
+    [currentPortfolioId]
+  );
+
+  const years = useMemo(() => getStatementYears(transactions || []), [transactions]);
+  const [year, setYear] = useState<number | null>(null);
+  const [closes, setCloses] = useState<Map<string, YearEndClose>>(new Map());
+  const [fetching, setFetching] = useState(false);
+  const [fetchMessage, setFetchMessage] = useState<string | null>(null);
+  const selectedYear = year ?? years[0] ?? null;
+
+  useEffect(() => {
+    setCloses(new Map());
+    setFetchMessage(null);
+  }, [selectedYear, currentPortfolioId]);
+
+  const statement = useMemo(() => {
+    if (!selectedYear || !transactions?.length) return null;
+    return buildSwissTaxStatement({
+      year: selectedYear,
+      transactions,
+      instruments: instruments || [],
+      prices: prices || [],
+      fxRates: fxRates || [],
+      closes,
+      rules: settings?.withholdingRules
+    });
+  }, [selectedYear, transactions, instruments, prices, fxRates, closes, settings?.withholdingRules]);
+
+  const handleFetchCloses = async () => {
+    if (!statement) return;
+    setFetching(true);
+    setFetchMessage(null);
+    const yearEnd = `${statement.year}-12-31`;
+    const next = new Map(closes);
+    let found = 0;
+    const held = statement.rows.filter(row => row.quantity > 0);
+    for (const row of held) {
+      const result = await getMarketCloseForDate(currentPortfolioId, row.ticker, statement.valuationDate);
+      // The provider may fall back to the first close after the date: that belongs to the next tax year.
+      if (!result || !(result.close > 0) || result.date > yearEnd) continue;
+      next.set(row.ticker, { close: result.close, date: result.date, currency: result.currency });
+      found += 1;
+    }
+    setCloses(next);
+    setFetching(false);
+    setFetchMessage(`Chiusure recuperate: ${found}/${held.length}`);
+  };
+
+  const handleExport = () => {
+    if (!statement) return;
+    downloadCsv(`tax_statement_${currentPortfolioId}_${statement.year}.csv`, buildSwissTaxStatementCsv(statement));
+  };
+
+  const blockingCount = statement?.issues.filter(issue => issue.blocking).length || 0;
+
+  return (
+    <div className="space-y-6 animate-fade-in text-textPrimary">
+      <div className="flex flex-wrap justify-between items-center gap-3 ui-panel p-6">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <span className="material-symbols-outlined text-[#0052a3]">receipt</span>
+            Dichiarazione fiscale {selectedYear ?? ''}
+          </h2>
+          <div className="text-xs text-slate-600 mt-1">
+            Elenco titoli e redditi in {TAX_CURRENCY} · Valori al {selectedYear ? getLastTradingDay(selectedYear) : '—'} (ultimo giorno di borsa)
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          <select
+            className="ui-input text-xs w-auto"
+            value={selectedYear ?? ''}
+            onChange={e => setYear(Number(e.target.value))}
+            disabled={!years.length}
+          >
+            {years.map(y => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleFetchCloses}
+            disabled={!statement || fetching}
+            className="ui-btn-secondary px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2"
+          >
+            <span className="material-symbols-outlined text-[18px]">sync</span>
+            {fetching ? 'Recupero…' : 'Recupera chiusure'}
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!statement}
+            className="ui-btn-secondary px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2"
+          >
+            <span className="material-symbols-outlined text-[18px]">download</span>
+            Esporta CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={!statement}
+            className="ui-btn-primary px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2"
+          >
+            <span className="material-symbols-outlined text-[18px]">print</span>
+            Stampa
+          </button>
+        </div>
+      </div>
+
+      {!statement ? (
+        <div className="ui-panel p-6 text-xs text-slate-500">Nessuna transazione disponibile.</div>
+      ) : (
+        <>
+          {fetchMessage && <div className="text-xs text-slate-500 print:hidden">{fetchMessage}</div>}
+
+          {statement.issues.length > 0 && (
+            <div className="ui-panel-subtle border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-700 space-y-2">
+              <div className="font-bold">
+                {blockingCount > 0
+                  ? `${blockingCount} valori mancanti: il totale imponibile è incompleto.`
+                  : 'Dati da verificare prima della dichiarazione.'}
+              </div>
+              {statement.issues.map((issue, idx) => {
+                const help = getIssueHelp(issue);
+                return (
+                  <div key={`${issue.ticker}-${issue.type}-${idx}`} className="flex flex-wrap items-center gap-2">
+                    <span className={clsx('font-semibold', issue.blocking ? 'text-rose-700' : 'text-amber-700')}>{issue.ticker}</span>
+                    <span>{help.title}: {help.description}</span>
+                    <a href={help.href} className="font-bold hover:underline print:hidden">{help.ctaLabel}</a>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Valore fiscale', value: statement.totals.taxValueChf },
+              { label: 'Redditi lordi', value: statement.totals.grossIncomeChf },
+              { label: 'Imposta preventiva CH', value: statement.totals.swissWithholdingChf },
+              { label: 'Ritenute estere', value: statement.totals.foreignWithheldChf }
+            ].map(card => (
+              <div key={card.label} className="ui-panel p-4">
+                <div className="text-[11px] uppercase font-bold text-slate-500">{card.label}</div>
+                <div className="text-lg font-bold mt-1 text-slate-900">{TAX_CURRENCY} {formatAmount(card.value)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="ui-panel p-6">
+            <h3 className="font-bold text-slate-900 text-xs uppercase tracking-wider flex items-center gap-2 mb-4">
+              <span className="w-1 h-4 rounded-full bg-[#0052a3] shadow-[0_0_10px_rgba(0,82,163,0.5)]"></span> Elenco titoli {statement.year}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs min-w-[1100px]">
+                <thead className="bg-slate-100 text-[11px] text-slate-600 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Titolo</th>
+                    <th className="px-3 py-2 text-left">ISIN</th>
+                    <th className="px-3 py-2 text-right">Quantità</th>
+                    <th className="px-3 py-2 text-right">Corso</th>
+                    <th className="px-3 py-2 text-right">Cambio</th>
+                    <th className="px-3 py-2 text-right">Valore fiscale</th>
+                    <th className="px-3 py-2 text-right">Reddito lordo</th>
+                    <th className="px-3 py-2 text-right">Imposta prev. CH</th>
+                    <th className="px-3 py-2 text-right">Ritenuta estera</th>
+                    <th className="px-3 py-2 text-right">Recuperabile</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statement.rows.map(row => (
+                    <tr key={row.ticker} className="border-t border-borderSoft">
+                      <td className="px-3 py-2">
+                        <div className="font-semibold text-slate-700">{row.ticker}</div>
+                        <div className="text-slate-500">{row.name}</div>
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">{row.isin || '—'}</td>
+                      <td className="px-3 py-2 text-right text-slate-700">{formatQuantity(row.quantity)}</td>
+                      <td className="px-3 py-2 text-right text-slate-700">
+                        {row.close !== undefined ? `${row.currency} ${formatAmount(row.close)}` : '—'}
+                        {row.closeDate && <div className="text-[11px] text-slate-400">{row.closeDate}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-right text-slate-600">
+                        {formatAmount(row.fxRate, 4)}
+                        {row.fxDate && row.currency !== TAX_CURRENCY && <div className="text-[11px] text-slate-400">{row.fxDate}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-right font-semibold text-slate-900">{row.quantity > 0 ? formatAmount(row.taxValueChf) : '—'}</td>
+                      <td className="px-3 py-2 text-right text-slate-700">{formatAmount(row.grossIncomeChf)}</td>
+                      <td className="px-3 py-2 text-right text-slate-700">{formatAmount(row.swissWithholdingChf)}</td>
+                      <td className="px-3 py-2 text-right text-slate-700">{formatAmount(row.foreignWithheldChf)}</td>
+                      <td className="px-3 py-2 text-right text-emerald-600">{formatAmount(row.reclaimableChf)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-slate-300 font-semibold">
+                    <td className="px-3 py-2 text-slate-900" colSpan={5}>Totale {TAX_CURRENCY}</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatAmount(statement.totals.taxValueChf)}</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatAmount(statement.totals.grossIncomeChf)}</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatAmount(statement.totals.swissWithholdingChf)}</td>
+                    <td className="px-3 py-2 text-right text-slate-900">{formatAmount(statement.totals.foreignWithheldChf)}</td>
+                    <td className="px-3 py-2 text-right text-emerald-600">{formatAmount(statement.totals.reclaimableChf)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <div className="text-[11px] text-slate-500 mt-3">
+              Valore fiscale = quantità × corso di chiusura × cambio verso {TAX_CURRENCY} all'ultimo giorno di borsa. I redditi sono convertiti al cambio della data di pagamento.
+              I titoli venduti nell'anno compaiono con quantità zero se hanno distribuito dividendi. Verificare i corsi con la lista ufficiale AFC prima dell'invio.
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -9,6 +9,16 @@ import { resolveListingsByIsin } from '../services/eodhdSearchService';
 import { getPriceCoverage, resolvePriceSyncConfig, CoverageRow, getMarketCloseAroundDate, MarketCloseAroundResult } from '../services/priceService';
 import { buildPriceTickerConfigWithDefault, planAutoAttachListing } from '../services/priceAttach';
 import { isIsin, normalizeIsin, normalizeTicker, resolveEodhdSymbol, hasExchangeSuffix } from '../services/symbolUtils';
+import { BrokerImportPanel } from '../components/transactions/BrokerImportPanel';
+import { SavingsPlansPanel } from '../components/transactions/SavingsPlansPanel';
+import { computeTaxLotLedger, DEFAULT_COST_BASIS_METHOD, getOpenLotsForTicker } from '../services/taxLots';
+import { getSplitFactor, isCorporateAction, sortTransactionsForReplay } from '../services/corporateActions';
+import { DEFAULT_CASH_ACCOUNT } from '../services/cashLedger';
+import { buildTransferPair, isTransfer } from '../services/transfers';
+import { estimateWithholding, getWithholdingCountry, resolveWithholdingRule } from '../services/dividendTax';
+import { deleteTransfer, saveTransferPair } from '../services/dataWriteService';
+import { CURRENCY_OPTIONS } from '../services/currencyUtils';
+import { SectorAllocationEditor, SectorAllocationDraft, parseSectorAllocationDraft, toSectorAllocationDraft } from '../components/SectorAllocationEditor';
 
 interface GroupedAsset {
     ticker: string;
@@ -38,7 +48,14 @@ const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
     [TransactionType.Dividend]: 'Dividendo',
     [TransactionType.Deposit]: 'Versamento',
     [TransactionType.Withdrawal]: 'Prelievo',
-    [TransactionType.Fee]: 'Commissione'
+    [TransactionType.Fee]: 'Commissione',
+    [TransactionType.Split]: 'Frazionamento',
+    [TransactionType.ReverseSplit]: 'Raggruppamento',
+    [TransactionType.SpinOff]: 'Scorporo (spin-off)',
+    [TransactionType.TickerChange]: 'Cambio ticker',
+    [TransactionType.FxConversion]: 'Cambio valuta',
+    [TransactionType.TransferOut]: 'Trasferimento titoli',
+    [TransactionType.TransferIn]: 'Trasferimento in entrata'
 };
 
 const REGION_OPTIONS: { key: RegionKey; label: string }[] = [
@@ -99,12 +116,15 @@ export const Transactions: React.FC = () => {
         () => db.settings.where('portfolioId').equals(currentPortfolioId).first(),
         [currentPortfolioId]
     );
+    const portfolios = useLiveQuery(() => db.portfolios.toArray(), [], []);
 
     // -- Global State --
     const [expandedTicker, setExpandedTicker] = useState<string | null>(null);
     const [coverageRows, setCoverageRows] = useState<CoverageRow[]>([]);
     const [assetAttachNotice, setAssetAttachNotice] = useState<string>("");
     const [assetInputNotice, setAssetInputNotice] = useState<string>("");
+    const [brokerImportOpen, setBrokerImportOpen] = useState(false);
+    const [savingsPlansOpen, setSavingsPlansOpen] = useState(false);
     const navigate = useNavigate();
 
     const priceTickers = useMemo(() => {
@@ -149,7 +169,7 @@ export const Transactions: React.FC = () => {
         price: 0,
         fees: 0,
         date: new Date().toISOString().split('T')[0],
-        currency: Currency.USD,
+        currency: Currency.USD as Currency,
         terPct: ''
     });
     const [isinLookupStatus, setIsinLookupStatus] = useState<'idle' | 'loading' | 'resolved' | 'multiple' | 'none' | 'error'>('idle');
@@ -195,8 +215,35 @@ export const Transactions: React.FC = () => {
         qty: 0,
         price: 0,
         fees: 0,
-        currency: Currency.CHF
+        currency: Currency.CHF as Currency,
+        relatedTicker: '',
+        costAllocationPct: 0,
+        account: DEFAULT_CASH_ACCOUNT,
+        toCurrency: Currency.USD as Currency,
+        toAccount: '',
+        toPortfolioId: currentPortfolioId,
+        grossAmount: NaN,
+        withholdingTax: NaN,
+        reclaimableTax: NaN
     });
+    const [txLotSelections, setTxLotSelections] = useState<Record<string, number>>({});
+    const [txFormError, setTxFormError] = useState('');
+    const costBasisMethod = settings?.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+    const isSpecificLotSell = costBasisMethod === 'SPECIFIC'
+        && (txForm.type === TransactionType.Sell || txForm.type === TransactionType.TransferOut);
+
+    const accountOptions = useMemo(() => {
+        return Array.from(new Set((transactions || []).map(t => t.account).filter(Boolean))).sort();
+    }, [transactions]);
+
+    const sellLotOptions = useMemo(() => {
+        if (!isTxModalOpen || !isSpecificLotSell || !activeAssetForTx || !transactions) return [];
+        const prior = transactions.filter(t => t.id !== editingTxId && t.date.toISOString().split('T')[0] <= txForm.date);
+        const ledger = computeTaxLotLedger(prior, { method: costBasisMethod, asOfDate: txForm.date });
+        // Only lots of the selling account can be picked, as the ledger closes nothing elsewhere
+        const account = txForm.account.trim() || DEFAULT_CASH_ACCOUNT;
+        return getOpenLotsForTicker(ledger, activeAssetForTx).filter(lot => !lot.account || lot.account === account);
+    }, [isTxModalOpen, isSpecificLotSell, activeAssetForTx, transactions, editingTxId, txForm.date, txForm.account, costBasisMethod]);
 
     // -- Edit Asset Modal State --
     const [isEditAssetModalOpen, setEditAssetModalOpen] = useState(false);
@@ -205,10 +252,11 @@ export const Transactions: React.FC = () => {
         name: '',
         type: AssetType.Stock,
         assetClass: AssetClass.STOCK,
-        currency: Currency.CHF,
+        currency: Currency.CHF as Currency,
         sector: '',
         region: '' as RegionKey | '',
-        terPct: ''
+        terPct: '',
+        sectorAllocation: {} as SectorAllocationDraft
     });
     const [editAssetInitialRegion, setEditAssetInitialRegion] = useState<RegionKey | ''>('');
 
@@ -284,13 +332,27 @@ export const Transactions: React.FC = () => {
         return new Map((instruments || []).map(inst => [inst.ticker, inst]));
     }, [instruments]);
 
+    const txWithholdingCountry = activeAssetForTx ? getWithholdingCountry(instrumentByTicker.get(activeAssetForTx)) : undefined;
+    const txWithholdingRule = resolveWithholdingRule(txWithholdingCountry, settings?.withholdingRules);
+
+    const handleDividendGrossChange = (gross: number) => {
+        const estimate = estimateWithholding(gross, txWithholdingRule);
+        setTxForm(prev => ({
+            ...prev,
+            grossAmount: gross,
+            withholdingTax: estimate.withheld,
+            reclaimableTax: estimate.reclaimable,
+            qty: Number.isFinite(gross) ? estimate.net : prev.qty
+        }));
+    };
+
     // -- Grouping Logic --
     const groupedAssets = useMemo(() => {
         if (!transactions) return [];
 
         const groups: Record<string, GroupedAsset> = {};
         // Sort logic remains valid
-        const sortedTx = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+        const sortedTx = sortTransactionsForReplay(transactions);
 
         sortedTx.forEach(t => {
             const ticker = t.instrumentTicker || 'CASH';
@@ -319,6 +381,30 @@ export const Transactions: React.FC = () => {
             } else if (t.type === TransactionType.Sell) {
                 groups[ticker].quantity -= t.quantity;
                 groups[ticker].invested -= (t.quantity * t.price) - (t.fees || 0);
+            } else if (t.type === TransactionType.TransferIn) {
+                const movedCost = (t.transferLots || []).reduce((sum, lot) => sum + lot.costBasis, 0) || t.quantity * t.price;
+                const newQty = groups[ticker].quantity + t.quantity;
+                groups[ticker].avgPrice = newQty > 0 ? ((groups[ticker].quantity * groups[ticker].avgPrice) + movedCost) / newQty : 0;
+                groups[ticker].quantity = newQty;
+                groups[ticker].invested += movedCost;
+            } else if (t.type === TransactionType.TransferOut) {
+                groups[ticker].invested -= t.quantity * groups[ticker].avgPrice;
+                groups[ticker].quantity -= t.quantity;
+            } else if (t.type === TransactionType.SpinOff) {
+                groups[ticker].quantity += t.quantity;
+            } else if (t.type === TransactionType.TickerChange && t.relatedTicker && groups[t.relatedTicker]) {
+                const previous = groups[t.relatedTicker];
+                groups[ticker].quantity += previous.quantity;
+                groups[ticker].avgPrice = previous.avgPrice;
+                groups[ticker].invested += previous.invested;
+                previous.quantity = 0;
+                previous.invested = 0;
+            } else {
+                const factor = getSplitFactor(t);
+                if (factor !== null) {
+                    groups[ticker].quantity *= factor;
+                    groups[ticker].avgPrice /= factor;
+                }
             }
         });
 
@@ -354,7 +440,8 @@ export const Transactions: React.FC = () => {
             currency: instrument.currency || Currency.CHF,
             sector: instrument.sector || '',
             region: regionValue,
-            terPct: instrument.terPct !== undefined ? String(instrument.terPct) : ''
+            terPct: instrument.terPct !== undefined ? String(instrument.terPct) : '',
+            sectorAllocation: toSectorAllocationDraft(instrument.sectorAllocation)
         });
         setEditAssetInitialRegion(initialRegion);
         setEditAssetModalOpen(true);
@@ -375,7 +462,8 @@ export const Transactions: React.FC = () => {
             assetClass: editAssetForm.assetClass,
             currency: editAssetForm.currency,
             sector: editAssetForm.sector.trim() || undefined,
-            terPct: parseOptionalPct(editAssetForm.terPct)
+            terPct: parseOptionalPct(editAssetForm.terPct),
+            sectorAllocation: parseSectorAllocationDraft(editAssetForm.sectorAllocation)
         };
 
         const regionChanged = editAssetForm.region !== editAssetInitialRegion;
@@ -409,20 +497,44 @@ export const Transactions: React.FC = () => {
                 qty: txToEdit.quantity,
                 price: txToEdit.price,
                 fees: txToEdit.fees,
-                currency: txToEdit.currency
+                currency: txToEdit.currency,
+                relatedTicker: txToEdit.relatedTicker || '',
+                costAllocationPct: (txToEdit.costAllocation || 0) * 100,
+                account: txToEdit.account || DEFAULT_CASH_ACCOUNT,
+                toCurrency: txToEdit.toCurrency || Currency.USD,
+                toAccount: '',
+                toPortfolioId: currentPortfolioId,
+                grossAmount: txToEdit.grossAmount ?? NaN,
+                withholdingTax: txToEdit.withholdingTax ?? NaN,
+                reclaimableTax: txToEdit.reclaimableTax ?? NaN
             });
+            setTxLotSelections(Object.fromEntries((txToEdit.lotSelections || []).map(sel => [sel.lotId, sel.quantity])));
         } else {
             // New Mode
+            const lastForTicker = (transactions || [])
+                .filter(t => (t.instrumentTicker || 'CASH') === ticker)
+                .sort((a, b) => b.date.getTime() - a.date.getTime())[0];
             setEditingTxId(null);
             setTxForm({
                 date: new Date().toISOString().split('T')[0],
-                type: TransactionType.Buy,
+                type: ticker === 'CASH' ? TransactionType.Deposit : TransactionType.Buy,
                 qty: 0,
                 price: 0,
                 fees: 0,
-                currency: Currency.CHF
+                currency: lastForTicker?.currency || Currency.CHF,
+                relatedTicker: '',
+                costAllocationPct: 0,
+                account: lastForTicker?.account || accountOptions[0] || DEFAULT_CASH_ACCOUNT,
+                toCurrency: Currency.USD,
+                toAccount: '',
+                toPortfolioId: currentPortfolioId,
+                grossAmount: NaN,
+                withholdingTax: NaN,
+                reclaimableTax: NaN
             });
+            setTxLotSelections({});
         }
+        setTxFormError('');
         setTxModalOpen(true);
     };
 
@@ -433,38 +545,103 @@ export const Transactions: React.FC = () => {
         }
     };
 
+    const handleDeleteTransfer = async (transferId: string) => {
+        if (window.confirm("Eliminare il trasferimento? Vengono rimossi entrambi i movimenti, anche se registrati in un altro portafoglio.")) {
+            await deleteTransfer(transferId);
+        }
+    };
+
     const handleSaveTransaction = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!activeAssetForTx) return;
         const qtyValue = Number.isFinite(txForm.qty) ? txForm.qty : 0;
         const priceValue = Number.isFinite(txForm.price) ? txForm.price : 0;
         const feesValue = Number.isFinite(txForm.fees) ? txForm.fees : 0;
+        const lotSelections = isSpecificLotSell
+            ? Object.entries(txLotSelections)
+                .filter(([, quantity]) => Number.isFinite(quantity) && quantity > 0)
+                .map(([lotId, quantity]) => ({ lotId, quantity }))
+            : [];
+        const needsRelated = txForm.type === TransactionType.SpinOff || txForm.type === TransactionType.TickerChange;
+        const relatedTicker = needsRelated && txForm.relatedTicker ? txForm.relatedTicker : undefined;
+        const costAllocation = txForm.type === TransactionType.SpinOff && Number.isFinite(txForm.costAllocationPct)
+            ? txForm.costAllocationPct / 100
+            : undefined;
+        const toCurrency = txForm.type === TransactionType.FxConversion ? txForm.toCurrency : undefined;
+        const hasDividendTax = txForm.type === TransactionType.Dividend && Number.isFinite(txForm.grossAmount) && txForm.grossAmount > 0;
+        const withholdingTax = hasDividendTax && Number.isFinite(txForm.withholdingTax) ? Math.max(txForm.withholdingTax, 0) : 0;
+        const dividendTax = hasDividendTax
+            ? {
+                grossAmount: txForm.grossAmount,
+                withholdingTax,
+                reclaimableTax: Number.isFinite(txForm.reclaimableTax) ? Math.min(Math.max(txForm.reclaimableTax, 0), withholdingTax) : undefined
+            }
+            : { grossAmount: undefined, withholdingTax: undefined, reclaimableTax: undefined };
+        const quantity = hasDividendTax ? txForm.grossAmount - withholdingTax : Number(qtyValue);
+        const account = txForm.account.trim() || DEFAULT_CASH_ACCOUNT;
+        const instrumentTicker = activeAssetForTx === 'CASH' ? undefined : activeAssetForTx;
+
+        if (txForm.type === TransactionType.TransferOut && instrumentTicker) {
+            const prior = (transactions || []).filter(t => t.id !== editingTxId && t.date.toISOString().split('T')[0] <= txForm.date);
+            try {
+                const pair = buildTransferPair(computeTaxLotLedger(prior, { method: costBasisMethod, asOfDate: txForm.date }), {
+                    ticker: instrumentTicker,
+                    quantity: Number(qtyValue),
+                    date: new Date(txForm.date),
+                    currency: txForm.currency,
+                    fromAccount: account,
+                    toAccount: txForm.toAccount,
+                    fromPortfolioId: currentPortfolioId,
+                    toPortfolioId: txForm.toPortfolioId || currentPortfolioId,
+                    price: Number(priceValue),
+                    fees: Number(feesValue),
+                    selections: lotSelections.length ? lotSelections : undefined
+                });
+                await saveTransferPair(pair);
+            } catch (err) {
+                setTxFormError(err instanceof Error ? err.message : String(err));
+                return;
+            }
+            setTxModalOpen(false);
+            setEditingTxId(null);
+            return;
+        }
 
         if (editingTxId) {
             // Update existing
             await db.transactions.update(editingTxId, {
                 date: new Date(txForm.date),
                 type: txForm.type,
-                instrumentTicker: activeAssetForTx,
-                quantity: Number(qtyValue),
+                instrumentTicker,
+                quantity,
                 price: Number(priceValue),
                 currency: txForm.currency,
                 fees: Number(feesValue),
-                account: 'Default',
-                portfolioId: currentPortfolioId
+                account,
+                portfolioId: currentPortfolioId,
+                lotSelections: lotSelections.length ? lotSelections : undefined,
+                relatedTicker,
+                costAllocation,
+                toCurrency,
+                ...dividendTax
             });
         } else {
             // Create new
             await db.transactions.add({
                 date: new Date(txForm.date),
                 type: txForm.type,
-                instrumentTicker: activeAssetForTx,
-                quantity: Number(qtyValue),
+                instrumentTicker,
+                quantity,
                 price: Number(priceValue),
                 currency: txForm.currency,
                 fees: Number(feesValue),
-                account: 'Default',
-                portfolioId: currentPortfolioId
+                account,
+                portfolioId: currentPortfolioId,
+                lotSelections: lotSelections.length ? lotSelections : undefined,
+                relatedTicker,
+                costAllocation,
+                toCurrency,
+                ...dividendTax
             });
         }
         setTxModalOpen(false);
@@ -817,14 +994,54 @@ export const Transactions: React.FC = () => {
                     <span className="material-symbols-outlined text-[#0052a3]">receipt_long</span>
                     Registro Transazioni
                 </h2>
-                <button
-                    onClick={() => { setAssetAttachNotice(''); setAssetInputNotice(''); setIsinLookupStatus('idle'); setIsinLookupMessage(''); setIsinCandidates([]); setIsinResolvedSymbol(''); setAssetModalOpen(true); }}
-                    className="ui-btn-primary px-5 py-2.5 rounded-xl text-sm font-bold transition-all shadow-lg hover:shadow-primary/30 flex items-center gap-2"
-                >
-                    <span className="material-symbols-outlined text-[20px]">add_circle</span>
-                    Nuovo Asset
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => handleOpenTxModal('CASH')}
+                        className="ui-btn-ghost px-4 py-2.5 rounded-xl text-sm font-bold flex items-center gap-2"
+                    >
+                        <span className="material-symbols-outlined text-[20px]">payments</span>
+                        Movimento di cassa
+                    </button>
+                    <button
+                        onClick={() => setBrokerImportOpen(open => !open)}
+                        className="ui-btn-ghost px-4 py-2.5 rounded-xl text-sm font-bold flex items-center gap-2"
+                    >
+                        <span className="material-symbols-outlined text-[20px]">upload_file</span>
+                        Importa estratto conto
+                    </button>
+                    <button
+                        onClick={() => setSavingsPlansOpen(open => !open)}
+                        className="ui-btn-ghost px-4 py-2.5 rounded-xl text-sm font-bold flex items-center gap-2"
+                    >
+                        <span className="material-symbols-outlined text-[20px]">event_repeat</span>
+                        Piani di accumulo
+                    </button>
+                    <button
+                        onClick={() => { setAssetAttachNotice(''); setAssetInputNotice(''); setIsinLookupStatus('idle'); setIsinLookupMessage(''); setIsinCandidates([]); setIsinResolvedSymbol(''); setAssetModalOpen(true); }}
+                        className="ui-btn-primary px-5 py-2.5 rounded-xl text-sm font-bold transition-all shadow-lg hover:shadow-primary/30 flex items-center gap-2"
+                    >
+                        <span className="material-symbols-outlined text-[20px]">add_circle</span>
+                        Nuovo Asset
+                    </button>
+                </div>
             </div>
+            {brokerImportOpen && (
+                <BrokerImportPanel
+                    portfolioId={currentPortfolioId}
+                    instruments={instruments || []}
+                    transactions={transactions || []}
+                    settings={settings}
+                    onClose={() => setBrokerImportOpen(false)}
+                />
+            )}
+            {savingsPlansOpen && (
+                <SavingsPlansPanel
+                    portfolioId={currentPortfolioId}
+                    instruments={instruments || []}
+                    transactions={transactions || []}
+                    onClose={() => setSavingsPlansOpen(false)}
+                />
+            )}
             {assetAttachNotice && (
                 <div className="ui-panel-subtle border-amber-200 bg-amber-50 px-4 py-2 text-xs font-semibold text-amber-700">
                     {assetAttachNotice}
@@ -989,7 +1206,7 @@ export const Transactions: React.FC = () => {
                                         onChange={e => setAssetForm({ ...assetForm, currency: e.target.value as Currency })}
                                         className="ui-input w-full text-sm"
                                     >
-                                        {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                                        {CURRENCY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
                                     </select>
                                 </div>
                             </div>
@@ -1140,7 +1357,9 @@ export const Transactions: React.FC = () => {
                                         value={txForm.type}
                                         onChange={e => setTxForm({ ...txForm, type: e.target.value as TransactionType })}
                                     >
-                                        {Object.values(TransactionType).map(t => <option key={t} value={t}>{getTransactionTypeLabel(t)}</option>)}
+                                        {Object.values(TransactionType)
+                                            .filter(t => t !== TransactionType.TransferIn || txForm.type === t)
+                                            .map(t => <option key={t} value={t}>{getTransactionTypeLabel(t)}</option>)}
                                     </select>
                                 </div>
                             </div>
@@ -1226,11 +1445,229 @@ export const Transactions: React.FC = () => {
                                         value={txForm.currency}
                                         onChange={e => setTxForm({ ...txForm, currency: e.target.value as Currency })}
                                     >
-                                        {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                                        {CURRENCY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
                                     </select>
                                 </div>
                             </div>
 
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-700 font-medium uppercase mb-1.5">Conto</label>
+                                    <input
+                                        className="ui-input w-full text-sm"
+                                        list="tx-account-options"
+                                        value={txForm.account}
+                                        onChange={e => setTxForm({ ...txForm, account: e.target.value })}
+                                        placeholder={DEFAULT_CASH_ACCOUNT}
+                                    />
+                                    <datalist id="tx-account-options">
+                                        {accountOptions.map(account => <option key={account} value={account} />)}
+                                    </datalist>
+                                </div>
+                                {txForm.type === TransactionType.FxConversion && (
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-700 font-medium uppercase mb-1.5">Valuta di destinazione</label>
+                                        <select
+                                            className="ui-input w-full text-sm"
+                                            value={txForm.toCurrency}
+                                            onChange={e => setTxForm({ ...txForm, toCurrency: e.target.value as Currency })}
+                                        >
+                                            {CURRENCY_OPTIONS.filter(c => c !== txForm.currency).map(c => <option key={c} value={c}>{c}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                            </div>
+                            {txForm.type === TransactionType.FxConversion && (
+                                <div className="text-[11px] text-slate-500">
+                                    Quantità = importo venduto in {txForm.currency}; Prezzo = cambio {txForm.currency}/{txForm.toCurrency}. Il conto riceve {(txForm.qty * txForm.price || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })} {txForm.toCurrency}; le commissioni sono addebitate in {txForm.currency}.
+                                </div>
+                            )}
+
+                            {txForm.type === TransactionType.Dividend && activeAssetForTx !== 'CASH' && (
+                                <div className="ui-panel-subtle p-3 space-y-3 text-xs text-slate-600">
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Lordo</label>
+                                            <input
+                                                type="number"
+                                                className="ui-input w-full text-sm font-mono"
+                                                step="0.01"
+                                                min={0}
+                                                value={numberValue(txForm.grossAmount)}
+                                                onChange={e => handleDividendGrossChange(parseNumberInput(e.target.value))}
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Ritenuta</label>
+                                            <input
+                                                type="number"
+                                                className="ui-input w-full text-sm font-mono"
+                                                step="0.01"
+                                                min={0}
+                                                value={numberValue(txForm.withholdingTax)}
+                                                onChange={e => {
+                                                    const withheld = parseNumberInput(e.target.value);
+                                                    setTxForm({
+                                                        ...txForm,
+                                                        withholdingTax: withheld,
+                                                        qty: Number.isFinite(txForm.grossAmount) ? txForm.grossAmount - (Number.isFinite(withheld) ? withheld : 0) : txForm.qty
+                                                    });
+                                                }}
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Recuperabile</label>
+                                            <input
+                                                type="number"
+                                                className="ui-input w-full text-sm font-mono"
+                                                step="0.01"
+                                                min={0}
+                                                value={numberValue(txForm.reclaimableTax)}
+                                                onChange={e => setTxForm({ ...txForm, reclaimableTax: parseNumberInput(e.target.value) })}
+                                            />
+                                        </div>
+                                    </div>
+                                    <div>
+                                        Quantità = importo netto accreditato. Con il lordo indicato la ritenuta è proposta con l'aliquota
+                                        {txWithholdingCountry ? ` ${txWithholdingCountry}` : ''} ({((txWithholdingRule?.rate || 0) * 100).toFixed(2)}%, recuperabile {((txWithholdingRule?.reclaimableRate || 0) * 100).toFixed(2)}%).
+                                    </div>
+                                </div>
+                            )}
+
+                            {txForm.type === TransactionType.TransferOut && (
+                                <div className="ui-panel-subtle p-3 space-y-3 text-xs text-slate-600">
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Conto di destinazione</label>
+                                            <input
+                                                className="ui-input w-full text-sm"
+                                                list="tx-account-options"
+                                                value={txForm.toAccount}
+                                                onChange={e => setTxForm({ ...txForm, toAccount: e.target.value })}
+                                                required
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Portafoglio di destinazione</label>
+                                            <select
+                                                className="ui-input w-full text-sm"
+                                                value={txForm.toPortfolioId}
+                                                onChange={e => setTxForm({ ...txForm, toPortfolioId: e.target.value })}
+                                            >
+                                                {!(portfolios || []).some(p => p.portfolioId === currentPortfolioId) && (
+                                                    <option value={currentPortfolioId}>{currentPortfolioId}</option>
+                                                )}
+                                                {(portfolios || []).map(p => <option key={p.portfolioId} value={p.portfolioId}>{p.name}</option>)}
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div>
+                                        Le quote passano al conto indicato con i lotti originali (data e costo di acquisto): nessun flusso di cassa né flusso esterno viene registrato.
+                                        Il prezzo è solo indicativo; le commissioni sono addebitate sul conto di origine.
+                                    </div>
+                                </div>
+                            )}
+
+                            {isCorporateAction(txForm.type) && (
+                                <div className="ui-panel-subtle p-3 space-y-3 text-xs text-slate-600">
+                                    {(txForm.type === TransactionType.Split || txForm.type === TransactionType.ReverseSplit) && (
+                                        <div>
+                                            {txForm.type === TransactionType.Split
+                                                ? 'Quantità = nuove azioni per ogni azione posseduta (es. 4 per uno split 4:1).'
+                                                : 'Quantità = vecchie azioni per ogni nuova azione (es. 10 per un raggruppamento 1:10).'}
+                                            {' '}Quote e costo unitario vengono rettificati dalla data indicata; prezzo e commissioni restano a 0.
+                                        </div>
+                                    )}
+                                    {(txForm.type === TransactionType.SpinOff || txForm.type === TransactionType.TickerChange) && (
+                                        <div className="grid grid-cols-2 gap-4">
+                                            <div>
+                                                <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">
+                                                    {txForm.type === TransactionType.SpinOff ? 'Strumento di origine' : 'Ticker precedente'}
+                                                </label>
+                                                <select
+                                                    className="ui-input w-full text-sm"
+                                                    value={txForm.relatedTicker}
+                                                    onChange={e => setTxForm({ ...txForm, relatedTicker: e.target.value })}
+                                                    required
+                                                >
+                                                    <option value="">Seleziona...</option>
+                                                    {(instruments || [])
+                                                        .filter(inst => inst.ticker !== activeAssetForTx)
+                                                        .map(inst => <option key={inst.ticker} value={inst.ticker}>{inst.ticker} · {inst.name}</option>)}
+                                                </select>
+                                            </div>
+                                            {txForm.type === TransactionType.SpinOff && (
+                                                <div>
+                                                    <label className="block text-xs font-bold text-slate-700 uppercase mb-1.5">Costo trasferito (%)</label>
+                                                    <input
+                                                        type="number"
+                                                        className="ui-input w-full text-sm font-mono"
+                                                        step="0.01"
+                                                        min={0}
+                                                        max={100}
+                                                        value={numberValue(txForm.costAllocationPct)}
+                                                        onChange={e => setTxForm({ ...txForm, costAllocationPct: parseNumberInput(e.target.value) })}
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                    {txForm.type === TransactionType.SpinOff && (
+                                        <div>Quantità = azioni del nuovo strumento ricevute; la quota di costo indicata viene tolta dallo strumento di origine mantenendo la data di acquisto dei lotti.</div>
+                                    )}
+                                    {txForm.type === TransactionType.TickerChange && (
+                                        <div>Quote, costo e lotti del ticker precedente passano a questo strumento.</div>
+                                    )}
+                                </div>
+                            )}
+
+                            {isSpecificLotSell && (
+                                <div className="ui-panel-subtle p-3 space-y-2">
+                                    <div className="text-xs font-bold text-slate-700 uppercase">
+                                        {txForm.type === TransactionType.TransferOut ? 'Lotti da trasferire' : 'Lotti da chiudere'}
+                                    </div>
+                                    {sellLotOptions.length === 0 ? (
+                                        <div className="text-xs text-slate-500">Nessun lotto aperto alla data selezionata.</div>
+                                    ) : (
+                                        <table className="w-full text-xs">
+                                            <thead className="text-[11px] uppercase text-slate-500">
+                                                <tr>
+                                                    <th className="py-1 text-left">Apertura</th>
+                                                    <th className="py-1 text-right">Quote aperte</th>
+                                                    <th className="py-1 text-right">Costo unit.</th>
+                                                    <th className="py-1 text-right">{txForm.type === TransactionType.TransferOut ? 'Da trasferire' : 'Da vendere'}</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {sellLotOptions.map(lot => (
+                                                    <tr key={lot.lotId} className="border-t border-slate-200">
+                                                        <td className="py-1">{lot.openDate} <span className="text-slate-400">({lot.holdingDays} gg)</span></td>
+                                                        <td className="py-1 text-right font-mono">{lot.quantity}</td>
+                                                        <td className="py-1 text-right font-mono">{lot.unitCost.toFixed(2)}</td>
+                                                        <td className="py-1 text-right">
+                                                            <input
+                                                                type="number"
+                                                                step="0.0001"
+                                                                min={0}
+                                                                max={lot.quantity}
+                                                                className="ui-input w-24 text-xs font-mono text-right"
+                                                                value={numberValue(txLotSelections[lot.lotId] ?? 0)}
+                                                                onChange={e => setTxLotSelections(prev => ({ ...prev, [lot.lotId]: parseNumberInput(e.target.value) }))}
+                                                            />
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                    <p className="text-[11px] text-slate-500">Le quote non assegnate a un lotto vengono prese in ordine FIFO.</p>
+                                </div>
+                            )}
+
+                            {txFormError && (
+                                <div className="text-xs text-rose-600">{txFormError}</div>
+                            )}
+
                             <div className="pt-4">
                                 <button type="submit" className="ui-btn-primary w-full py-3.5 rounded-xl font-bold transition shadow-lg text-sm">
                                     {editingTxId ? 'Aggiorna Transazione' : 'Registra Movimento'}
@@ -1243,7 +1680,7 @@ export const Transactions: React.FC = () => {
 
             {isEditAssetModalOpen && editingAsset && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-md animate-fade-in">
-                    <div className="ui-panel-dense w-full max-w-lg overflow-hidden">
+                    <div className="ui-panel-dense w-full max-w-lg max-h-[90vh] overflow-y-auto">
                         <div className="p-6 border-b border-slate-200/70 flex justify-between items-center bg-white/90">
                             <div>
                                 <h3 className="text-lg font-bold text-slate-900">Modifica Asset</h3>
@@ -1295,7 +1732,7 @@ export const Transactions: React.FC = () => {
                                         onChange={e => setEditAssetForm({ ...editAssetForm, currency: e.target.value as Currency })}
                                         className="ui-input w-full text-sm"
                                     >
-                                        {Object.values(Currency).map(c => <option key={c} value={c}>{c}</option>)}
+                                        {CURRENCY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
                                     </select>
                                 </div>
                                 <div>
@@ -1333,6 +1770,11 @@ export const Transactions: React.FC = () => {
                                     className="ui-input w-full text-sm font-mono"
                                 />
                             </div>
+                            <SectorAllocationEditor
+                                value={editAssetForm.sectorAllocation}
+                                onChange={sectorAllocation => setEditAssetForm({ ...editAssetForm, sectorAllocation })}
+                                labelClassName="block text-xs font-bold text-slate-700 font-medium uppercase mb-1.5"
+                            />
 
                             <div className="pt-4 flex gap-3">
                                 <button
@@ -1469,6 +1911,11 @@ export const Transactions: React.FC = () => {
                                                     )}>
                                                         {getTransactionTypeLabel(t.type)}
                                                     </span>
+                                                    {isTransfer(t.type) && t.counterpartyAccount && (
+                                                        <span className="ml-2 text-[11px] text-slate-500">
+                                                            {t.type === TransactionType.TransferOut ? '→' : '←'} {t.counterpartyAccount}
+                                                        </span>
+                                                    )}
                                                 </td>
                                                 <td className="px-6 py-3 text-right text-slate-900 font-mono">{t.price.toFixed(2)}</td>
                                                 <td className="px-6 py-3 text-right text-slate-900 font-mono">{t.quantity}</td>
@@ -1476,15 +1923,17 @@ export const Transactions: React.FC = () => {
                                                 <td className="px-6 py-3 text-right font-bold text-slate-900 font-mono">{(t.quantity * t.price).toFixed(2)}</td>
                                                 <td className="px-6 py-3 text-right">
                                                     <div className="flex items-center justify-center gap-1 opacity-100 transition-opacity">
+                                                        {!isTransfer(t.type) && (
+                                                            <button
+                                                                onClick={() => handleOpenTxModal(group.ticker, t)}
+                                                                className="p-1.5 rounded-lg hover:bg-slate-100 text-slate-400 hover:text-primary transition-colors"
+                                                                title="Modifica"
+                                                            >
+                                                                <span className="material-symbols-outlined text-[18px]">edit</span>
+                                                            </button>
+                                                        )}
                                                         <button
-                                                            onClick={() => handleOpenTxModal(group.ticker, t)}
-                                                            className="p-1.5 rounded-lg hover:bg-slate-100 text-slate-400 hover:text-primary transition-colors"
-                                                            title="Modifica"
-                                                        >
-                                                            <span className="material-symbols-outlined text-[18px]">edit</span>
-                                                        </button>
-                                                        <button
-                                                            onClick={() => handleDeleteTransaction(t.id)}
+                                                            onClick={() => (t.transferId ? handleDeleteTransfer(t.transferId) : handleDeleteTransaction(t.id))}
                                                             className="p-1.5 rounded-lg hover:bg-slate-100 text-slate-400 hover:text-negative transition-colors"
                                                             title="Elimina"
                                                         >
@@ -4,7 +4,9 @@ import { Currency, PricePoint } from '../types';
 import { fillMissingPrices } from './priceBackfill';
 import { computeTWRRFromNav, calculateAnalytics } from './financeUtils';
 import { FxRateRow } from './fxService';
+import { createFxResolver } from './fxResolver';
 import { isYmd, parseYmdLocal } from './dateUtils';
+import { computeRiskMetrics, DEFAULT_RISK_FREE_RATE, toIndexSeries } from './riskMetrics';
 
 type FxRateByDate = Map<string, number | null>;
 
@@ -42,38 +44,11 @@ const buildFxRateSeries = (
   to: Currency,
   fxRates: FxRateRow[]
 ): FxRateByDate => {
+  const resolver = createFxResolver(fxRates);
   const map: FxRateByDate = new Map();
-  if (from === to) {
-    dateIndex.forEach(date => map.set(date, 1));
-    return map;
-  }
-  const rows = fxRates
-    .filter(row =>
-      (row.baseCurrency === from && row.quoteCurrency === to)
-      || (row.baseCurrency === to && row.quoteCurrency === from)
-    )
-    .sort((a, b) => a.date.localeCompare(b.date));
-
-  let lastDirect: FxRateRow | null = null;
-  let lastInverse: FxRateRow | null = null;
-  let idx = 0;
-
   dateIndex.forEach(date => {
-    while (idx < rows.length && rows[idx].date <= date) {
-      const row = rows[idx];
-      if (row.baseCurrency === from && row.quoteCurrency === to) lastDirect = row;
-      if (row.baseCurrency === to && row.quoteCurrency === from) lastInverse = row;
-      idx += 1;
-    }
-    if (lastDirect) {
-      map.set(date, lastDirect.rate);
-    } else if (lastInverse) {
-      map.set(date, lastInverse.rate > 0 ? (1 / lastInverse.rate) : null);
-    } else {
-      map.set(date, null);
-    }
+    map.set(date, resolver.resolve(from, to, date)?.rate ?? null);
   });
-
   return map;
 };
 
@@ -86,10 +61,16 @@ const buildPriceSeriesByAsset = (
   return fillResult.filledByTicker;
 };
 
+export type RunBacktestOptions = {
+  riskFreeRate?: number;
+};
+
 export const runBacktest = (
   scenario: BacktestScenarioInput,
-  data: BacktestScenarioData
+  data: BacktestScenarioData,
+  options: RunBacktestOptions = {}
 ): BacktestResult => {
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
   const warnings: string[] = [];
   const errors: string[] = [];
   const effectiveStart = data.quality.effectiveStartDate || scenario.startDate;
@@ -352,12 +333,15 @@ export const runBacktest = (
   }));
 
   const twrrHistory = computeTWRRFromNav(perfHistory, externalFlows);
-  const analytics = calculateAnalytics(twrrHistory, 'monthly');
+  const analytics = calculateAnalytics(twrrHistory, 'monthly', riskFreeRate);
+  const risk = computeRiskMetrics({ series: toIndexSeries(twrrHistory), granularity: 'monthly', riskFreeRate });
 
   const drawdownByDate = new Map(analytics.drawdownSeries.map(d => [d.date, d.depth]));
+  const twrrByDate = new Map(twrrHistory.map(p => [p.date, p.cumulativeTWRRIndex]));
   const navSeriesWithDd = navSeries.map(point => ({
     ...point,
-    drawdown: drawdownByDate.get(point.date)
+    drawdown: drawdownByDate.get(point.date),
+    twrrIndex: twrrByDate.get(point.date)
   }));
 
   const annualReturns = analytics.annualReturns.map(r => ({ year: String(r.year), value: r.returnPct }));
@@ -386,6 +370,16 @@ export const runBacktest = (
       volatility: analytics.stdDev,
       maxDrawdown: analytics.maxDrawdown,
       sharpe: analytics.sharpeRatio,
+      sortino: risk?.sortino,
+      calmar: risk?.calmar,
+      downsideDeviation: risk?.downsideDeviationPct,
+      varHistorical: risk?.varHistoricalPct,
+      cvarHistorical: risk?.cvarHistoricalPct,
+      varParametric: risk?.varParametricPct,
+      cvarParametric: risk?.cvarParametricPct,
+      skewness: risk?.skewness,
+      excessKurtosis: risk?.excessKurtosis,
+      riskFreeRatePct: riskFreeRate * 100,
       bestYear,
       worstYear
     },
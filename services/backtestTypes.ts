@@ -28,7 +28,7 @@ export type BacktestScenarioInput = {
 export type BacktestResult = {
   effectiveStartDate?: string;
   effectiveEndDate?: string;
-  navSeries: Array<{ date: string; nav: number; contributionCumulative?: number; drawdown?: number }>;
+  navSeries: Array<{ date: string; nav: number; contributionCumulative?: number; drawdown?: number; twrrIndex?: number }>;
   annualReturns: Array<{ year: string; value: number }>;
   summary: {
     initialCapital: number;
@@ -39,6 +39,17 @@ export type BacktestResult = {
     volatility?: number;
     maxDrawdown?: number;
     sharpe?: number;
+    sortino?: number;
+    calmar?: number;
+    downsideDeviation?: number;
+    // Monthly losses at 95%
+    varHistorical?: number;
+    cvarHistorical?: number;
+    varParametric?: number;
+    cvarParametric?: number;
+    skewness?: number;
+    excessKurtosis?: number;
+    riskFreeRatePct?: number;
     bestYear?: number;
     worstYear?: number;
   };
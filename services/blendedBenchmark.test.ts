@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Currency } from '../types';
+import { buildBlendedBenchmarkSeries, BlendedComponentSeries, parseCustomBenchmarkValue, toCustomBenchmarkValue } from './blendedBenchmark';
+import { validateAndNormalize } from './importExportService';
+
+const dates = ['2024-01-31', '2024-02-29', '2024-03-29', '2024-04-30', '2024-05-31'];
+
+const component = (key: string, closes: number[], weight: number, currency: Currency = Currency.CHF): BlendedComponentSeries => ({
+  key,
+  label: key,
+  currency,
+  weight,
+  points: closes.map((close, i) => ({ date: dates[i], close }))
+});
+
+describe('blended benchmark', () => {
+  const equity = component('EQ', [100, 120, 120, 120, 120], 60);
+  const bonds = component('BD', [100, 100, 100, 100, 50], 40);
+
+  it('lets weights drift without rebalancing', () => {
+    const result = buildBlendedBenchmarkSeries({
+      dates,
+      components: [equity, bonds],
+      rebalance: 'none',
+      baseCurrency: Currency.CHF,
+      fxRates: []
+    });
+    expect(result.startDate).toBe('2024-01-31');
+    expect(result.byDate.get('2024-02-29')?.benchmarkIndex).toBeCloseTo(112, 8);
+    // 0.6 units of EQ at 120 + 0.4 units of BD at 50
+    expect(result.byDate.get('2024-05-31')?.benchmarkIndex).toBeCloseTo(92, 8);
+  });
+
+  it('resets to the target weights at each new quarter', () => {
+    const result = buildBlendedBenchmarkSeries({
+      dates,
+      components: [equity, bonds],
+      rebalance: 'quarterly',
+      baseCurrency: Currency.CHF,
+      fxRates: []
+    });
+    // Rebalanced at 112 on 2024-04-30: 40% of it in bonds, which then halve
+    expect(result.byDate.get('2024-04-30')?.benchmarkIndex).toBeCloseTo(112, 8);
+    expect(result.byDate.get('2024-05-31')?.benchmarkIndex).toBeCloseTo(112 * 0.6 + 112 * 0.4 * 0.5, 8);
+    expect(result.warning).toBeUndefined();
+  });
+
+  it('converts to base currency and starts once every component is quoted', () => {
+    const late = component('USD', [10, 10, 11, 11, 11], 50, Currency.USD);
+    late.points = late.points.slice(1);
+    const fxRates = dates.map(date => ({ baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date, rate: 0.9 }));
+    const result = buildBlendedBenchmarkSeries({
+      dates,
+      components: [component('CHF', [100, 100, 100, 100, 100], 50), late],
+      rebalance: 'monthly',
+      baseCurrency: Currency.CHF,
+      fxRates
+    });
+    expect(result.startDate).toBe('2024-02-29');
+    expect(result.byDate.has('2024-01-31')).toBe(false);
+    expect(result.byDate.get('2024-03-29')?.benchmarkIndex).toBeCloseTo(105, 8);
+    expect(result.warning).toBe('Storico benchmark parziale');
+  });
+
+  it('round-trips the select value of a custom benchmark', () => {
+    expect(parseCustomBenchmarkValue(toCustomBenchmarkValue(7))).toBe(7);
+    expect(parseCustomBenchmarkValue('VWRL')).toBeNull();
+  });
+
+  it('round-trips benchmarks through the backup format', () => {
+    const payload = JSON.parse(JSON.stringify({
+      customBenchmarks: [
+        {
+          id: 1,
+          portfolioId: 'p1',
+          name: '60/40 CHF',
+          rebalance: 'quarterly',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          components: [
+            { source: 'APP_DB', ticker: 'VWRL', weightPct: 60 },
+            { source: 'CSV_IMPORT', ticker: 'CHFBOND', importId: 3, weightPct: 40 }
+          ]
+        },
+        { name: 'Senza componenti', rebalance: 'annual', components: [] }
+      ]
+    }));
+    const { normalized, report } = validateAndNormalize(payload);
+    expect(normalized.customBenchmarks).toHaveLength(1);
+    expect(normalized.customBenchmarks[0].components[1]).toMatchObject({ source: 'CSV_IMPORT', importId: 3, weightPct: 40 });
+    expect(report.tables.customBenchmarks.discarded).toBe(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { BacktestImport, BacktestImportPrice, BenchmarkRebalanceRule, Currency, CustomBenchmark, PricePoint } from '../types';
+import type { BenchmarkPoint, BenchmarkSeriesResult } from './financeUtils';
+import { createFxResolver } from './fxResolver';
+import type { FxRateRow } from './fxService';
+import { fillMissingPrices } from './priceBackfill';
+
+export const CUSTOM_BENCHMARK_PREFIX = 'custom:';
+
+export const BENCHMARK_REBALANCE_LABELS: Record<BenchmarkRebalanceRule, string> = {
+  none: 'Nessun ribilanciamento',
+  monthly: 'Mensile',
+  quarterly: 'Trimestrale',
+  annual: 'Annuale'
+};
+
+export type BlendedComponentSeries = {
+  key: string;
+  label: string;
+  currency: Currency;
+  // Target weight, any scale (normalized over the components)
+  weight: number;
+  points: { date: string; close: number }[];
+};
+
+export const toCustomBenchmarkValue = (id: number) => `${CUSTOM_BENCHMARK_PREFIX}${id}`;
+
+export const parseCustomBenchmarkValue = (value: string): number | null => {
+  if (!value.startsWith(CUSTOM_BENCHMARK_PREFIX)) return null;
+  const id = Number(value.slice(CUSTOM_BENCHMARK_PREFIX.length));
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+export const describeCustomBenchmark = (benchmark: CustomBenchmark) => {
+  const total = benchmark.components.reduce((sum, c) => sum + Math.max(0, c.weightPct), 0) || 1;
+  return benchmark.components
+    .map(c => `${Math.round((Math.max(0, c.weightPct) / total) * 100)}% ${c.ticker}`)
+    .join(' / ');
+};
+
+const componentKey = (index: number) => `__blend${index}`;
+
+// Price rows of each component: app prices by ticker, CSV imports by import id
+export const resolveBlendedComponents = (params: {
+  benchmark: CustomBenchmark;
+  prices: PricePoint[];
+  importPrices: BacktestImportPrice[];
+  imports: BacktestImport[];
+  baseCurrency: Currency;
+}): BlendedComponentSeries[] => {
+  const { benchmark, prices, importPrices, imports, baseCurrency } = params;
+  return benchmark.components.map((component, index) => {
+    if (component.source === 'CSV_IMPORT') {
+      const meta = imports.find(row => row.id === component.importId);
+      return {
+        key: componentKey(index),
+        label: component.name || meta?.name || component.ticker,
+        currency: (meta?.currency || component.currency || baseCurrency) as Currency,
+        weight: component.weightPct,
+        points: importPrices.filter(row => row.importId === component.importId)
+      };
+    }
+    const rows = prices.filter(row => row.ticker === component.ticker);
+    return {
+      key: componentKey(index),
+      label: component.name || component.ticker,
+      currency: (rows.find(row => row.currency)?.currency || component.currency || baseCurrency) as Currency,
+      weight: component.weightPct,
+      points: rows
+    };
+  });
+};
+
+const rebalancePeriodKey = (date: string, rule: BenchmarkRebalanceRule) => {
+  if (rule === 'monthly') return date.slice(0, 7);
+  if (rule === 'quarterly') return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+  if (rule === 'annual') return date.slice(0, 4);
+  return '';
+};
+
+// Index 100 on the first date every component is quoted. Units are bought at the target weights and reset
+// to them on the first date of each new rebalance period; in between the weights drift with the prices.
+export const buildBlendedBenchmarkSeries = (params: {
+  dates: string[];
+  components: BlendedComponentSeries[];
+  rebalance: BenchmarkRebalanceRule;
+  baseCurrency: Currency;
+  fxRates: FxRateRow[];
+  fxPivots?: Currency[];
+}): BenchmarkSeriesResult => {
+  const { dates, components, rebalance, baseCurrency, fxRates, fxPivots } = params;
+  const byDate = new Map<string, BenchmarkPoint>();
+  const active = components.filter(c => c.weight > 0);
+  if (!dates.length || !active.length) return { byDate };
+  const missing = active.filter(c => !c.points.length);
+  if (missing.length) {
+    return { byDate, warning: `Benchmark senza dati: ${missing.map(c => c.label).join(', ')}` };
+  }
+
+  const weightTotal = active.reduce((sum, c) => sum + c.weight, 0);
+  const weights = active.map(c => c.weight / weightTotal);
+  const priceRows: PricePoint[] = active.flatMap(c => c.points.map(p => ({
+    ticker: c.key,
+    date: p.date.slice(0, 10),
+    close: Number(p.close),
+    currency: c.currency
+  })));
+  const { filledByTicker } = fillMissingPrices(priceRows, dates, { tickers: active.map(c => c.key) });
+  const resolver = createFxResolver(fxRates, { pivots: fxPivots });
+
+  let units: number[] = [];
+  let periodKey = '';
+  let baseDate = '';
+  let lastDate = '';
+  let missingFx = false;
+  let partialHistory = false;
+
+  dates.forEach(date => {
+    let synthetic = false;
+    const values = active.map(c => {
+      const filled = filledByTicker.get(c.key)?.get(date);
+      if (!filled || filled.fillType === 'backfill' || !(filled.close > 0)) return null;
+      if (filled.synthetic) synthetic = true;
+      if (c.currency === baseCurrency) return filled.close;
+      const fx = resolver.resolve(c.currency, baseCurrency, date);
+      if (!fx) {
+        missingFx = true;
+        return null;
+      }
+      return filled.close * fx.rate;
+    });
+    if (values.some(v => v === null)) {
+      partialHistory = true;
+      return;
+    }
+    const prices = values as number[];
+
+    if (!units.length) {
+      units = prices.map((price, i) => (100 * weights[i]) / price);
+      periodKey = rebalancePeriodKey(date, rebalance);
+      baseDate = date;
+    }
+    const index = prices.reduce((sum, price, i) => sum + units[i] * price, 0);
+    const nextPeriodKey = rebalancePeriodKey(date, rebalance);
+    if (nextPeriodKey !== periodKey) {
+      units = prices.map((price, i) => (index * weights[i]) / price);
+      periodKey = nextPeriodKey;
+    }
+
+    byDate.set(date, {
+      date,
+      benchmarkIndex: index,
+      benchmarkPct: index - 100,
+      benchmarkSynthetic: synthetic
+    });
+    lastDate = date;
+  });
+
+  if (!baseDate) {
+    return { byDate, warning: missingFx ? 'FX benchmark mancante' : 'Benchmark non disponibile nel range' };
+  }
+  let warning: string | undefined;
+  if (missingFx) warning = 'FX benchmark mancante';
+  else if (partialHistory) warning = 'Storico benchmark parziale';
+  return { byDate, startDate: baseDate, endDate: lastDate, warning };
+};
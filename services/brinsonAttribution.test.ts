@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { AssetClass, AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { computeBrinsonAttribution } from './brinsonAttribution';
+
+const transactions: Transaction[] = [{
+  date: new Date('2024-01-02T12:00:00'),
+  instrumentTicker: 'EQ',
+  type: TransactionType.Buy,
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  currency: Currency.CHF,
+  account: 'Main'
+}];
+
+const instruments: Instrument[] = [
+  { id: 1, ticker: 'EQ', name: 'Equity ETF', type: AssetType.ETF, assetClass: AssetClass.ETF_STOCK, currency: Currency.CHF, targetAllocation: 60 },
+  { id: 2, ticker: 'BD', name: 'Bond ETF', type: AssetType.ETF, assetClass: AssetClass.ETF_BOND, currency: Currency.CHF, targetAllocation: 40 }
+];
+
+const price = (ticker: string, date: string, close: number): PricePoint => ({ ticker, date, close, currency: Currency.CHF });
+
+const prices: PricePoint[] = [
+  price('EQ', '2024-01-02', 100),
+  price('EQ', '2024-01-03', 110),
+  price('EQ', '2024-01-04', 99),
+  price('BD', '2024-01-02', 100),
+  price('BD', '2024-01-03', 101),
+  price('BD', '2024-01-04', 102)
+];
+
+const run = (endDate: string, benchmarkSeries?: Parameters<typeof computeBrinsonAttribution>[0]['benchmarkSeries']) =>
+  computeBrinsonAttribution({
+    transactions,
+    instruments,
+    prices,
+    fxRates: [],
+    baseCurrency: Currency.CHF,
+    endDate,
+    granularity: 'daily',
+    benchmarkSeries
+  });
+
+describe('brinson attribution', () => {
+  it('credits an overweight in the outperforming class to allocation', () => {
+    const result = run('2024-01-03')!;
+    expect(result.portfolioReturnPct).toBeCloseTo(10, 8);
+    expect(result.benchmarkReturnPct).toBeCloseTo(6.4, 8);
+    const equity = result.segments.find(s => s.assetClass === AssetClass.ETF_STOCK)!;
+    const bonds = result.segments.find(s => s.assetClass === AssetClass.ETF_BOND)!;
+    expect(equity).toMatchObject({ portfolioWeightPct: 100, benchmarkWeightPct: 60 });
+    expect(equity.allocationPct).toBeCloseTo(1.44, 8);
+    expect(bonds.allocationPct).toBeCloseTo(2.16, 8);
+    expect(bonds.portfolioReturnPct).toBeUndefined();
+    expect(result.selectionPct).toBeCloseTo(0, 8);
+    expect(result.interactionPct).toBeCloseTo(0, 8);
+  });
+
+  it('measures selection against an external benchmark series', () => {
+    const result = run('2024-01-03', new Map([
+      ['EQ', { currency: Currency.CHF, points: [{ date: '2024-01-02', close: 200 }, { date: '2024-01-03', close: 210 }] }]
+    ]))!;
+    const equity = result.segments.find(s => s.assetClass === AssetClass.ETF_STOCK)!;
+    expect(equity.benchmarkReturnPct).toBeCloseTo(5, 8);
+    expect(equity.selectionPct).toBeCloseTo(3, 8);
+    expect(equity.interactionPct).toBeCloseTo(2, 8);
+    expect(result.allocationPct).toBeCloseTo(0.64 + 0.96, 8);
+  });
+
+  it('links the periods so the effects add up to the active return', () => {
+    const result = run('2024-01-04')!;
+    expect(result.periods).toBe(2);
+    expect(result.portfolioReturnPct).toBeCloseTo(-1, 8);
+    expect(result.allocationPct + result.selectionPct + result.interactionPct).toBeCloseTo(result.activeReturnPct, 8);
+    expect(result.missingBenchmarks).toEqual([]);
+  });
+
+  it('needs at least one target weight', () => {
+    expect(computeBrinsonAttribution({
+      transactions,
+      instruments: instruments.map(inst => ({ ...inst, targetAllocation: 0 })),
+      prices,
+      fxRates: [],
+      baseCurrency: Currency.CHF
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,282 @@
+import { AssetClass, Currency, Instrument, PricePoint, Transaction } from '../types';
+import { buildNavSeriesDetailed, getCanonicalTicker, Granularity } from './financeUtils';
+import { createFxResolver, FxResolver } from './fxResolver';
+import type { FxRateRow } from './fxService';
+
+export type BenchmarkSeries = {
+  currency: Currency;
+  points: { date: string; close: number }[];
+};
+
+export type BrinsonSegment = {
+  assetClass: AssetClass;
+  // Average of the start-of-period weights
+  portfolioWeightPct: number;
+  benchmarkWeightPct: number;
+  portfolioReturnPct?: number;
+  benchmarkReturnPct?: number;
+  allocationPct: number;
+  selectionPct: number;
+  interactionPct: number;
+  totalPct: number;
+};
+
+export type BrinsonAttribution = {
+  baseCurrency: Currency;
+  startDate: string;
+  endDate: string;
+  periods: number;
+  portfolioReturnPct: number;
+  benchmarkReturnPct: number;
+  activeReturnPct: number;
+  allocationPct: number;
+  selectionPct: number;
+  interactionPct: number;
+  segments: BrinsonSegment[];
+  // Target instruments without a usable benchmark series in the range
+  missingBenchmarks: string[];
+};
+
+export type BrinsonAttributionArgs = {
+  transactions: Transaction[];
+  instruments: Instrument[];
+  prices: PricePoint[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  fxPivots?: Currency[];
+  startDate?: string;
+  endDate?: string;
+  granularity?: Granularity;
+  // Instrument ticker -> external series replacing the instrument's own prices in the benchmark
+  benchmarkSeries?: Map<string, BenchmarkSeries>;
+};
+
+type SegmentAccumulator = {
+  weightSumP: number;
+  weightSumB: number;
+  growthP: number;
+  heldPeriods: number;
+  growthB: number;
+  benchmarkPeriods: number;
+  allocation: number;
+  selection: number;
+  interaction: number;
+};
+
+const latestClose = (points: { date: string; close: number }[], date: string) => {
+  let lo = 0;
+  let hi = points.length - 1;
+  let found: { date: string; close: number } | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].date <= date) {
+      found = points[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+const seriesValue = (series: BenchmarkSeries, date: string, baseCurrency: Currency, resolver: FxResolver) => {
+  const point = latestClose(series.points, date);
+  if (!point || !(point.close > 0)) return null;
+  const fx = resolver.resolve(series.currency, baseCurrency, date);
+  return fx ? point.close * fx.rate : null;
+};
+
+// Carino factor: scales a single-period effect so that linked effects add up to the cumulative excess return.
+const carinoFactor = (portfolio: number, benchmark: number) => {
+  if (Math.abs(portfolio - benchmark) < 1e-12) return 1 / (1 + portfolio);
+  return (Math.log(1 + portfolio) - Math.log(1 + benchmark)) / (portfolio - benchmark);
+};
+
+// Brinson-Fachler per period against the target allocation held constant (rebalanced every period):
+// allocation = (wP - wB)(rB,k - RB), selection = wB(rP,k - rB,k), interaction = (wP - wB)(rP,k - rB,k).
+export const computeBrinsonAttribution = (args: BrinsonAttributionArgs): BrinsonAttribution | null => {
+  const {
+    transactions,
+    instruments,
+    prices,
+    fxRates,
+    baseCurrency,
+    fxPivots,
+    startDate,
+    endDate,
+    granularity = 'monthly',
+    benchmarkSeries = new Map<string, BenchmarkSeries>()
+  } = args;
+
+  const targets = instruments.filter(inst => (inst.targetAllocation || 0) > 0);
+  const targetTotal = targets.reduce((sum, inst) => sum + (inst.targetAllocation || 0), 0);
+  if (!targets.length || targetTotal <= 0) return null;
+
+  const nav = buildNavSeriesDetailed(transactions, instruments, prices, granularity, startDate, endDate, { fxRates, baseCurrency, pivots: fxPivots });
+  if (nav.length < 2) return null;
+
+  const resolver = createFxResolver(fxRates, { pivots: fxPivots });
+  const classByKey = new Map<string, AssetClass>();
+  instruments.forEach(inst => {
+    const assetClass = inst.assetClass || AssetClass.OTHER;
+    classByKey.set(inst.ticker, assetClass);
+    if (inst.symbol) classByKey.set(inst.symbol, assetClass);
+  });
+
+  const ownSeries = (inst: Instrument): BenchmarkSeries => {
+    const ticker = getCanonicalTicker(inst);
+    const rows = prices.filter(p => p.ticker === ticker).sort((a, b) => a.date.localeCompare(b.date));
+    return { currency: (rows[rows.length - 1]?.currency || inst.currency) as Currency, points: rows };
+  };
+  const benchmarkLegs = targets.map(inst => {
+    const external = benchmarkSeries.get(inst.ticker);
+    return {
+      ticker: inst.ticker,
+      assetClass: inst.assetClass || AssetClass.OTHER,
+      weight: (inst.targetAllocation || 0) / targetTotal,
+      series: external
+        ? { currency: external.currency, points: external.points.slice().sort((a, b) => a.date.localeCompare(b.date)) }
+        : ownSeries(inst)
+    };
+  });
+
+  const benchmarkWeights = new Map<AssetClass, number>();
+  benchmarkLegs.forEach(leg => benchmarkWeights.set(leg.assetClass, (benchmarkWeights.get(leg.assetClass) || 0) + leg.weight));
+
+  const segments = new Map<AssetClass, SegmentAccumulator>();
+  const segmentFor = (assetClass: AssetClass) => {
+    let acc = segments.get(assetClass);
+    if (!acc) {
+      acc = { weightSumP: 0, weightSumB: 0, growthP: 1, heldPeriods: 0, growthB: 1, benchmarkPeriods: 0, allocation: 0, selection: 0, interaction: 0 };
+      segments.set(assetClass, acc);
+    }
+    return acc;
+  };
+  benchmarkWeights.forEach((_, assetClass) => segmentFor(assetClass));
+
+  const usedLegs = new Set<string>();
+  let growthP = 1;
+  let growthB = 1;
+  let periods = 0;
+  const periodEffects: { factor: number; effects: Map<AssetClass, { allocation: number; selection: number; interaction: number }> }[] = [];
+
+  for (let i = 1; i < nav.length; i += 1) {
+    const prev = nav[i - 1];
+    const curr = nav[i];
+
+    const valueP = new Map<AssetClass, number>();
+    const pnlP = new Map<AssetClass, number>();
+    const currByTicker = new Map(curr.positions.map(p => [p.ticker, p]));
+    prev.positions.forEach(position => {
+      const next = currByTicker.get(position.ticker);
+      if (!next || !(position.valueBaseCcy > 0) || !(position.price > 0) || !(position.fxRate > 0)) return;
+      const assetClass = classByKey.get(position.ticker) || AssetClass.OTHER;
+      const growth = (next.price * next.fxRate) / (position.price * position.fxRate);
+      valueP.set(assetClass, (valueP.get(assetClass) || 0) + position.valueBaseCcy);
+      pnlP.set(assetClass, (pnlP.get(assetClass) || 0) + position.valueBaseCcy * (growth - 1));
+    });
+    const prevCash = new Map<Currency, number>();
+    prev.cashBalances.forEach(balance => prevCash.set(balance.currency, (prevCash.get(balance.currency) || 0) + balance.amount));
+    prevCash.forEach((amount, currency) => {
+      const prevRate = currency === baseCurrency ? 1 : prev.fxUsed[currency];
+      const currRate = currency === baseCurrency ? 1 : curr.fxUsed[currency];
+      if (!(amount > 0) || !(prevRate > 0) || !(currRate > 0)) return;
+      valueP.set(AssetClass.CASH, (valueP.get(AssetClass.CASH) || 0) + amount * prevRate);
+      pnlP.set(AssetClass.CASH, (pnlP.get(AssetClass.CASH) || 0) + amount * prevRate * (currRate / prevRate - 1));
+    });
+    const totalP = Array.from(valueP.values()).reduce((sum, v) => sum + v, 0);
+    if (totalP <= 0) continue;
+
+    const legReturns = new Map<AssetClass, { weighted: number; weight: number }>();
+    benchmarkLegs.forEach(leg => {
+      const start = seriesValue(leg.series, prev.date, baseCurrency, resolver);
+      const end = seriesValue(leg.series, curr.date, baseCurrency, resolver);
+      if (start === null || end === null) return;
+      usedLegs.add(leg.ticker);
+      const entry = legReturns.get(leg.assetClass) || { weighted: 0, weight: 0 };
+      entry.weighted += leg.weight * (end / start - 1);
+      entry.weight += leg.weight;
+      legReturns.set(leg.assetClass, entry);
+    });
+    const covered = Array.from(legReturns.values());
+    const coveredWeight = covered.reduce((sum, entry) => sum + entry.weight, 0);
+    if (coveredWeight <= 0) continue;
+    // Classes without benchmark data this period earn the benchmark total, so they carry no allocation effect.
+    const benchmarkReturn = covered.reduce((sum, entry) => sum + entry.weighted, 0) / coveredWeight;
+
+    valueP.forEach((_, assetClass) => segmentFor(assetClass));
+    let portfolioReturn = 0;
+    const effects = new Map<AssetClass, { allocation: number; selection: number; interaction: number }>();
+    segments.forEach((acc, assetClass) => {
+      const wP = (valueP.get(assetClass) || 0) / totalP;
+      const wB = benchmarkWeights.get(assetClass) || 0;
+      const legs = legReturns.get(assetClass);
+      const rB = legs && legs.weight > 0 ? legs.weighted / legs.weight : benchmarkReturn;
+      const rP = wP > 0 ? (pnlP.get(assetClass) || 0) / (valueP.get(assetClass) || 1) : rB;
+      portfolioReturn += wP * rP;
+      acc.weightSumP += wP;
+      acc.weightSumB += wB;
+      if (wP > 0) {
+        acc.growthP *= 1 + rP;
+        acc.heldPeriods += 1;
+      }
+      if (legs) {
+        acc.growthB *= 1 + rB;
+        acc.benchmarkPeriods += 1;
+      }
+      effects.set(assetClass, {
+        allocation: (wP - wB) * (rB - benchmarkReturn),
+        selection: wB * (rP - rB),
+        interaction: (wP - wB) * (rP - rB)
+      });
+    });
+
+    growthP *= 1 + portfolioReturn;
+    growthB *= 1 + benchmarkReturn;
+    periods += 1;
+    periodEffects.push({ factor: carinoFactor(portfolioReturn, benchmarkReturn), effects });
+  }
+
+  if (!periods) return null;
+
+  const totalFactor = carinoFactor(growthP - 1, growthB - 1);
+  periodEffects.forEach(({ factor, effects }) => {
+    effects.forEach((effect, assetClass) => {
+      const acc = segmentFor(assetClass);
+      const scale = factor / totalFactor;
+      acc.allocation += effect.allocation * scale;
+      acc.selection += effect.selection * scale;
+      acc.interaction += effect.interaction * scale;
+    });
+  });
+
+  const segmentRows: BrinsonSegment[] = Array.from(segments.entries())
+    .map(([assetClass, acc]) => ({
+      assetClass,
+      portfolioWeightPct: (acc.weightSumP / periods) * 100,
+      benchmarkWeightPct: (acc.weightSumB / periods) * 100,
+      portfolioReturnPct: acc.heldPeriods ? (acc.growthP - 1) * 100 : undefined,
+      benchmarkReturnPct: acc.benchmarkPeriods ? (acc.growthB - 1) * 100 : undefined,
+      allocationPct: acc.allocation * 100,
+      selectionPct: acc.selection * 100,
+      interactionPct: acc.interaction * 100,
+      totalPct: (acc.allocation + acc.selection + acc.interaction) * 100
+    }))
+    .sort((a, b) => Math.abs(b.totalPct) - Math.abs(a.totalPct));
+
+  const sum = (key: 'allocationPct' | 'selectionPct' | 'interactionPct') => segmentRows.reduce((total, row) => total + row[key], 0);
+  return {
+    baseCurrency,
+    startDate: nav[0].date,
+    endDate: nav[nav.length - 1].date,
+    periods,
+    portfolioReturnPct: (growthP - 1) * 100,
+    benchmarkReturnPct: (growthB - 1) * 100,
+    activeReturnPct: (growthP - growthB) * 100,
+    allocationPct: sum('allocationPct'),
+    selectionPct: sum('selectionPct'),
+    interactionPct: sum('interactionPct'),
+    segments: segmentRows,
+    missingBenchmarks: benchmarkLegs.filter(leg => !usedLegs.has(leg.ticker)).map(leg => leg.ticker)
+  };
+};
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Currency, TransactionType, type Instrument, type Transaction } from '../types';
+import ibkrFixture from '../__fixtures__/broker_ibkr_flex.json';
+import degiroFixture from '../__fixtures__/broker_degiro.json';
+import swissquoteFixture from '../__fixtures__/broker_swissquote.json';
+
+vi.mock('./eodhdSearchService', () => ({
+  resolveListingsByIsin: vi.fn(async (isin: string) => {
+    if (isin === 'US9229087690') {
+      return [{ exchangeCode: 'US', symbol: 'VTI.US', currency: 'USD', name: 'Vanguard Total Stock Market', type: 'ETF' }];
+    }
+    return [];
+  })
+}));
+
+import {
+  buildBrokerTransactions,
+  detectBrokerFormat,
+  markAlreadyImportedRows,
+  parseBrokerStatement,
+  resolveBrokerInstruments
+} from './brokerImport';
+
+const toText = (lines: string[]) => lines.join('\n');
+
+const hasBlocking = (row: { issues: { blocking: boolean }[] }) => row.issues.some(issue => issue.blocking);
+
+describe('detectBrokerFormat', () => {
+  it('recognizes each supported statement header', () => {
+    expect(detectBrokerFormat(toText(ibkrFixture.csv))).toBe('ibkr_flex');
+    expect(detectBrokerFormat(toText(degiroFixture.transactions))).toBe('degiro_transactions');
+    expect(detectBrokerFormat(toText(degiroFixture.account))).toBe('degiro_account');
+    expect(detectBrokerFormat(toText(swissquoteFixture.csv))).toBe('swissquote');
+    expect(detectBrokerFormat('date,close\n2024-01-01,10')).toBeNull();
+  });
+});
+
+describe('parseBrokerStatement', () => {
+  it('maps IBKR Flex trades and cash sections', () => {
+    const { preview, rows } = parseBrokerStatement(toText(ibkrFixture.csv));
+    expect(preview.format).toBe('ibkr_flex');
+    expect(preview.account).toBe('IBKR');
+
+    const buy = rows.find(r => r.type === TransactionType.Buy && r.symbol === 'VTI');
+    expect(buy).toMatchObject({ date: '2023-03-15', isin: 'US9229087690', quantity: 10, price: 200.5, fees: 1, currency: Currency.USD });
+    const sell = rows.find(r => r.type === TransactionType.Sell);
+    expect(sell).toMatchObject({ date: '2023-11-20', quantity: 4, fees: 1.02 });
+
+    expect(rows.find(r => r.type === TransactionType.Deposit)?.quantity).toBe(5000);
+    expect(rows.find(r => r.type === TransactionType.Withdrawal)?.quantity).toBe(1000);
+    const dividend = rows.find(r => r.type === TransactionType.Dividend);
+    expect(dividend).toMatchObject({ grossAmount: 8.3, withholdingTax: 1.25 });
+    expect(dividend?.quantity).toBeCloseTo(7.05, 6);
+    const fees = rows.filter(r => r.type === TransactionType.Fee);
+    expect(fees.map(r => r.fees)).toEqual([3]);
+
+    const jpy = rows.find(r => r.isin === 'JP3633400001');
+    expect(jpy).toMatchObject({ currency: 'JPY', quantity: 100, price: 2800, fees: 80 });
+    expect(jpy?.issues.map(i => i.code)).not.toContain('unsupported_currency');
+    expect(preview.rowCountInvalid).toBe(0);
+    expect(preview.rowCountSkipped).toBe(1);
+    expect(preview.reasons.find(r => r.code === 'unsupported_type')?.count).toBe(1);
+  });
+
+  it('maps Degiro transactions with signed quantities and rejects invalid dates', () => {
+    const { preview, rows } = parseBrokerStatement(toText(degiroFixture.transactions));
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({ type: TransactionType.Buy, date: '2023-03-15', quantity: 10, price: 95.5, fees: 2, currency: Currency.EUR });
+    expect(rows[1]).toMatchObject({ type: TransactionType.Sell, quantity: 3, price: 101.2 });
+    expect(rows[2].issues.map(i => i.code)).toEqual(['invalid_date']);
+    expect(preview.rowCountValid).toBe(2);
+    expect(preview.firstDate).toBe('2023-03-15');
+    expect(preview.lastDate).toBe('2023-10-02');
+  });
+
+  it('maps Degiro account movements and skips order legs and internal transfers', () => {
+    const { preview, rows } = parseBrokerStatement(toText(degiroFixture.account));
+    expect(rows.map(r => r.type)).toEqual([
+      TransactionType.Deposit,
+      TransactionType.Dividend,
+      TransactionType.Fee,
+      TransactionType.Withdrawal
+    ]);
+    expect(rows[0].quantity).toBe(1000);
+    expect(rows[1]).toMatchObject({ grossAmount: 4.1, withholdingTax: 0.62, currency: Currency.USD, isin: 'IE00B5BMR087' });
+    expect(rows[1].quantity).toBeCloseTo(3.48, 6);
+    expect(rows[2].fees).toBe(2.5);
+    expect(preview.rowCountSkipped).toBe(2);
+    expect(preview.reasons.map(r => r.code).sort()).toEqual(['internal_transfer', 'order_leg']);
+  });
+
+  it('maps Swissquote rows with apostrophe thousands separators', () => {
+    const { preview, rows } = parseBrokerStatement(toText(swissquoteFixture.csv));
+    expect(preview.account).toBe('Swissquote');
+    expect(rows.map(r => r.type)).toEqual([
+      TransactionType.Deposit,
+      TransactionType.Buy,
+      TransactionType.Dividend,
+      TransactionType.Fee,
+      TransactionType.Sell
+    ]);
+    expect(rows[0].quantity).toBe(10000);
+    expect(rows[1]).toMatchObject({ date: '2023-02-15', quantity: 50, price: 130.2, fees: 9.85, symbol: 'CHSPI' });
+    expect(rows[2].quantity).toBeCloseTo(68.25, 6);
+    expect(rows[3].fees).toBe(25);
+    expect(rows.every(r => !hasBlocking(r))).toBe(true);
+    expect(preview.rowCountSkipped).toBe(1);
+  });
+
+  it('reports unknown formats as errors', () => {
+    const { preview, rows } = parseBrokerStatement('foo,bar\n1,2');
+    expect(rows).toHaveLength(0);
+    expect(preview.errors[0]).toContain('non riconosciuto');
+  });
+});
+
+describe('broker instrument resolution', () => {
+  it('matches existing instruments by ISIN and resolves unknown ISINs via listings', async () => {
+    const { rows } = parseBrokerStatement(toText(ibkrFixture.csv));
+    const existing: Instrument[] = [];
+    const resolution = await resolveBrokerInstruments({ rows, instruments: existing, baseCurrency: Currency.CHF });
+    expect(resolution.newInstruments).toHaveLength(1);
+    expect(resolution.newInstruments[0]).toMatchObject({ ticker: 'VTI.US', isin: 'US9229087690', currency: Currency.USD });
+    const trades = resolution.rows.filter(r => r.isin === 'US9229087690');
+    expect(trades.every(r => r.instrumentTicker === 'VTI.US')).toBe(true);
+  });
+
+  it('flags ISINs that cannot be resolved', async () => {
+    const { rows } = parseBrokerStatement(toText(degiroFixture.account));
+    const resolution = await resolveBrokerInstruments({ rows, instruments: [] });
+    const dividend = resolution.rows.find(r => r.type === TransactionType.Dividend);
+    expect(dividend?.issues.map(i => i.code)).toContain('unresolved_isin');
+    expect(dividend).toMatchObject({ grossAmount: 4.1, withholdingTax: 0.62 });
+    expect(resolution.rows.some(r => r.type === TransactionType.Fee && r.isin)).toBe(false);
+  });
+
+  it('builds transactions and marks rows already present in the portfolio', async () => {
+    const { rows } = parseBrokerStatement(toText(swissquoteFixture.csv));
+    const instruments: Instrument[] = [
+      { ticker: 'CHSPI.SW', name: 'iShares Core SPI', type: 'ETF' as Instrument['type'], currency: Currency.CHF, isin: 'CH0237935652' }
+    ];
+    const resolution = await resolveBrokerInstruments({ rows, instruments });
+    const params = { portfolioId: 'p1', account: 'Swissquote' };
+    const transactions = buildBrokerTransactions(resolution.rows, params);
+    expect(transactions).toHaveLength(5);
+    expect(transactions[1]).toMatchObject({ instrumentTicker: 'CHSPI.SW', account: 'Swissquote', portfolioId: 'p1' });
+
+    const stored: Transaction[] = [transactions[1]];
+    const marked = markAlreadyImportedRows(resolution.rows, stored, params);
+    const flagged = marked.filter(r => r.issues.some(i => i.code === 'already_imported'));
+    expect(flagged).toHaveLength(1);
+    expect(flagged[0].type).toBe(TransactionType.Buy);
+  });
+});
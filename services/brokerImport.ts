@@ -0,0 +1,713 @@
+import { format } from 'date-fns';
+import { db } from '../db';
+import { AssetType, Currency, Instrument, Transaction, TransactionType } from '../types';
+import { isYmd, parseYmdLocal } from './dateUtils';
+import { resolveListingsByIsin } from './eodhdSearchService';
+import type { ImportIssueReason } from './importExportService';
+import { pickDefaultListing } from './listingService';
+import { insertTransactionsByNaturalKey, toTransactionKey, type NaturalKeyWriteSummary } from './dataWriteService';
+import { asCurrency, isIsin, normalizeIsin, normalizeTicker } from './symbolUtils';
+
+export type BrokerFormat = 'ibkr_flex' | 'degiro_transactions' | 'degiro_account' | 'swissquote';
+
+export type BrokerImportIssue = {
+  code: string;
+  message: string;
+  blocking: boolean;
+};
+
+export type BrokerImportRow = {
+  line: number;
+  type: TransactionType;
+  date: string;
+  isin?: string;
+  symbol?: string;
+  name?: string;
+  quantity: number;
+  price: number;
+  fees: number;
+  currency?: Currency;
+  note?: string;
+  grossAmount?: number;
+  withholdingTax?: number;
+  instrumentTicker?: string;
+  issues: BrokerImportIssue[];
+};
+
+export type BrokerImportPreview = {
+  format: BrokerFormat | null;
+  account: string;
+  rowCountRaw: number;
+  rowCountValid: number;
+  rowCountInvalid: number;
+  rowCountSkipped: number;
+  firstDate?: string;
+  lastDate?: string;
+  reasons: ImportIssueReason[];
+  errors: string[];
+  warnings: string[];
+};
+
+export type BrokerInstrumentResolution = {
+  rows: BrokerImportRow[];
+  newInstruments: Instrument[];
+};
+
+export type BrokerImportWriteResult = NaturalKeyWriteSummary & {
+  instrumentsCreated: number;
+};
+
+export const BROKER_FORMAT_LABELS: Record<BrokerFormat, string> = {
+  ibkr_flex: 'Interactive Brokers (Flex Query)',
+  degiro_transactions: 'Degiro (Transazioni)',
+  degiro_account: 'Degiro (Estratto conto)',
+  swissquote: 'Swissquote'
+};
+
+const DEFAULT_ACCOUNTS: Record<BrokerFormat, string> = {
+  ibkr_flex: 'IBKR',
+  degiro_transactions: 'Degiro',
+  degiro_account: 'Degiro',
+  swissquote: 'Swissquote'
+};
+
+const DEFAULT_PREFERRED_EXCHANGES = ['SW', 'US', 'LSE', 'XETRA', 'MI', 'PA'];
+
+const INSTRUMENT_TYPES = [TransactionType.Buy, TransactionType.Sell, TransactionType.Dividend];
+
+const WITHHOLDING_NOTE = 'Ritenuta alla fonte';
+
+const ISSUE_MESSAGES: Record<string, string> = {
+  invalid_date: 'Data non valida',
+  invalid_number: 'Quantità o prezzo non validi',
+  unsupported_currency: 'Valuta non supportata',
+  unsupported_type: 'Tipo movimento non supportato',
+  missing_instrument: 'Strumento non riconosciuto (manca ISIN o ticker)',
+  unresolved_isin: 'ISIN non risolto in nessun listing',
+  already_imported: 'Movimento già presente nel portafoglio'
+};
+
+const createIssue = (code: string, blocking = true, detail?: string): BrokerImportIssue => ({
+  code,
+  blocking,
+  message: detail ? `${ISSUE_MESSAGES[code] || code}: ${detail}` : (ISSUE_MESSAGES[code] || code)
+});
+
+const addReason = (reasons: ImportIssueReason[], code: string, example?: string) => {
+  let reason = reasons.find(r => r.code === code);
+  if (!reason) {
+    reason = { code, count: 0, examples: [] };
+    reasons.push(reason);
+  }
+  reason.count += 1;
+  if (example && reason.examples.length < 3) reason.examples.push(example);
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (char === delimiter && !inQuotes) {
+      result.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  result.push(current);
+  return result.map(cell => cell.trim());
+};
+
+const detectDelimiter = (headerLine: string) => {
+  const semicolons = (headerLine.match(/;/g) || []).length;
+  const commas = (headerLine.match(/,/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+};
+
+const parseBrokerNumber = (raw: string | undefined): number | null => {
+  const cleaned = (raw || '').replace(/[\s']/g, '');
+  if (!cleaned) return null;
+  let normalized = cleaned;
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    normalized = (cleaned.match(/,/g) || []).length > 1
+      ? cleaned.replace(/,/g, '')
+      : cleaned.replace(',', '.');
+  }
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+const parseBrokerDate = (raw: string | undefined): string | null => {
+  const value = (raw || '').trim();
+  if (!value) return null;
+  let ymd = '';
+  let match = value.match(/^(\d{4})(\d{2})(\d{2})(?:\D|$)/);
+  if (match) ymd = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!ymd) {
+    match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) ymd = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  if (!ymd) {
+    match = value.match(/^(\d{2})[-./](\d{2})[-./](\d{4})/);
+    if (match) ymd = `${match[3]}-${match[2]}-${match[1]}`;
+  }
+  if (!ymd || !isYmd(ymd)) return null;
+  const parsed = parseYmdLocal(ymd);
+  if (Number.isNaN(parsed.getTime()) || format(parsed, 'yyyy-MM-dd') !== ymd) return null;
+  return ymd;
+};
+
+const findColumn = (header: string[], aliases: string[]) => {
+  for (const alias of aliases) {
+    const idx = header.indexOf(alias.toLowerCase());
+    if (idx >= 0) return idx;
+  }
+  return -1;
+};
+
+const cellAt = (cells: string[], idx: number) => (idx >= 0 ? cells[idx] || '' : '');
+
+const normalizeIsinCell = (raw: string) => {
+  const value = normalizeIsin(raw || '');
+  return value && isIsin(value) ? value : undefined;
+};
+
+const normalizeSymbolCell = (raw: string) => {
+  const value = normalizeTicker(raw || '');
+  return value || undefined;
+};
+
+export const detectBrokerFormat = (text: string): BrokerFormat | null => {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/).find(l => l.trim().length > 0) || '';
+  const header = splitCsvLine(firstLine, detectDelimiter(firstLine)).map(c => c.toLowerCase());
+  if (header[0] === 'clientaccountid') return 'ibkr_flex';
+  if (header.includes('order #') && header.includes('net amount')) return 'swissquote';
+  const hasIsin = header.includes('isin');
+  if (hasIsin && findColumn(header, ['venue', 'sede di esecuzione']) >= 0) return 'degiro_transactions';
+  if (hasIsin && findColumn(header, ['value date', 'data valuta']) >= 0) return 'degiro_account';
+  return null;
+};
+
+type RowDraft = Omit<BrokerImportRow, 'issues'> & { issues?: BrokerImportIssue[] };
+
+type RowSink = {
+  push: (draft: RowDraft) => void;
+  skip: (code: string, example?: string) => void;
+};
+
+const parseIbkrFlex = (lines: string[], sink: RowSink) => {
+  let header: string[] = [];
+  lines.forEach((line, index) => {
+    const cells = splitCsvLine(line, ',');
+    if ((cells[0] || '').toLowerCase() === 'clientaccountid') {
+      header = cells.map(c => c.toLowerCase());
+      return;
+    }
+    if (!header.length) return;
+    const lineNo = index + 1;
+    const get = (aliases: string[]) => cellAt(cells, findColumn(header, aliases));
+    const currency = asCurrency(get(['currencyprimary', 'currency']));
+    const isin = normalizeIsinCell(get(['isin']));
+    const symbol = normalizeSymbolCell(get(['symbol']));
+    const name = get(['description']) || undefined;
+
+    if (header.includes('buy/sell')) {
+      const side = get(['buy/sell']).toUpperCase();
+      const type = side.startsWith('BUY') ? TransactionType.Buy : side.startsWith('SELL') ? TransactionType.Sell : null;
+      if (!type) {
+        sink.skip('unsupported_type', side || `riga ${lineNo}`);
+        return;
+      }
+      const quantity = parseBrokerNumber(get(['quantity']));
+      const price = parseBrokerNumber(get(['tradeprice', 'price']));
+      const commission = parseBrokerNumber(get(['ibcommission', 'commission'])) ?? 0;
+      sink.push({
+        line: lineNo,
+        type,
+        date: parseBrokerDate(get(['tradedate', 'datetime', 'date'])) || '',
+        isin,
+        symbol,
+        name,
+        quantity: quantity === null ? NaN : Math.abs(quantity),
+        price: price === null ? NaN : price,
+        fees: Math.abs(commission),
+        currency
+      });
+      return;
+    }
+
+    const kind = get(['type']).toLowerCase();
+    const amount = parseBrokerNumber(get(['amount']));
+    const date = parseBrokerDate(get(['datetime', 'settledate', 'reportdate', 'date'])) || '';
+    const base = { line: lineNo, date, currency, price: 0 };
+    if (amount === null) {
+      sink.push({ ...base, type: TransactionType.Fee, quantity: NaN, fees: 0, isin, symbol, name });
+      return;
+    }
+    if (kind.includes('withholding')) {
+      if (amount >= 0) {
+        sink.skip('tax_refund', name || `riga ${lineNo}`);
+        return;
+      }
+      sink.push({ ...base, type: TransactionType.Fee, quantity: 0, fees: Math.abs(amount), isin, symbol, name, note: WITHHOLDING_NOTE });
+      return;
+    }
+    if (kind.includes('dividend')) {
+      if (amount <= 0) {
+        sink.skip('dividend_reversal', name || `riga ${lineNo}`);
+        return;
+      }
+      sink.push({ ...base, type: TransactionType.Dividend, quantity: amount, fees: 0, isin, symbol, name });
+      return;
+    }
+    if (kind.includes('deposit') || kind.includes('withdrawal')) {
+      sink.push({
+        ...base,
+        type: amount >= 0 ? TransactionType.Deposit : TransactionType.Withdrawal,
+        quantity: Math.abs(amount),
+        fees: 0
+      });
+      return;
+    }
+    if (kind.includes('fee') && amount < 0) {
+      sink.push({ ...base, type: TransactionType.Fee, quantity: 0, fees: Math.abs(amount), note: name });
+      return;
+    }
+    sink.skip('unsupported_type', kind || `riga ${lineNo}`);
+  });
+};
+
+const parseDegiroTransactions = (header: string[], lines: string[], sink: RowSink) => {
+  const priceIdx = findColumn(header, ['price', 'quotazione', 'kurs']);
+  const feesIdx = findColumn(header, ['transaction and/or third party fees', 'costi di transazione e/o di terze parti', 'transaction costs']);
+  lines.forEach((line, index) => {
+    const cells = splitCsvLine(line, ',');
+    const lineNo = index + 2;
+    const get = (aliases: string[]) => cellAt(cells, findColumn(header, aliases));
+    const quantity = parseBrokerNumber(get(['quantity', 'quantità', 'anzahl']));
+    const price = parseBrokerNumber(cellAt(cells, priceIdx));
+    const fees = parseBrokerNumber(cellAt(cells, feesIdx)) ?? 0;
+    const type = quantity !== null && quantity < 0 ? TransactionType.Sell : TransactionType.Buy;
+    sink.push({
+      line: lineNo,
+      type,
+      date: parseBrokerDate(get(['date', 'data', 'datum'])) || '',
+      isin: normalizeIsinCell(get(['isin'])),
+      name: get(['product', 'prodotto', 'produkt']) || undefined,
+      quantity: quantity === null ? NaN : Math.abs(quantity),
+      price: price === null ? NaN : price,
+      fees: Math.abs(fees),
+      currency: asCurrency(cellAt(cells, priceIdx >= 0 ? priceIdx + 1 : -1))
+    });
+  });
+};
+
+const parseDegiroAccount = (header: string[], lines: string[], sink: RowSink) => {
+  const changeIdx = findColumn(header, ['change', 'variazione', 'änderung']);
+  lines.forEach((line, index) => {
+    const cells = splitCsvLine(line, ',');
+    const lineNo = index + 2;
+    const get = (aliases: string[]) => cellAt(cells, findColumn(header, aliases));
+    const description = get(['description', 'descrizione', 'beschreibung']);
+    const kind = description.toLowerCase();
+    if (get(['order id', 'id ordine'])) {
+      sink.skip('order_leg', description || `riga ${lineNo}`);
+      return;
+    }
+    if (kind.includes('cambio valuta') || kind.includes('fx ') || kind.includes('cash sweep') || kind.includes('money market')) {
+      sink.skip('internal_transfer', description);
+      return;
+    }
+    const amount = parseBrokerNumber(cellAt(cells, changeIdx >= 0 ? changeIdx + 1 : -1));
+    const base = {
+      line: lineNo,
+      date: parseBrokerDate(get(['date', 'data', 'datum'])) || '',
+      currency: asCurrency(cellAt(cells, changeIdx)),
+      price: 0
+    };
+    const isin = normalizeIsinCell(get(['isin']));
+    const name = get(['product', 'prodotto', 'produkt']) || undefined;
+    if (amount === null) {
+      sink.push({ ...base, type: TransactionType.Fee, quantity: NaN, fees: 0, isin, name });
+      return;
+    }
+    if (kind.includes('dividend tax') || kind.includes('ritenuta')) {
+      if (amount >= 0) {
+        sink.skip('tax_refund', description);
+        return;
+      }
+      sink.push({ ...base, type: TransactionType.Fee, quantity: 0, fees: Math.abs(amount), isin, name, note: WITHHOLDING_NOTE });
+      return;
+    }
+    if (kind.includes('dividend')) {
+      sink.push({ ...base, type: TransactionType.Dividend, quantity: Math.abs(amount), fees: 0, isin, name });
+      return;
+    }
+    if (kind.includes('deposit') || kind.includes('versamento')) {
+      sink.push({ ...base, type: TransactionType.Deposit, quantity: Math.abs(amount), fees: 0 });
+      return;
+    }
+    if (kind.includes('withdrawal') || kind.includes('prelievo')) {
+      sink.push({ ...base, type: TransactionType.Withdrawal, quantity: Math.abs(amount), fees: 0 });
+      return;
+    }
+    if ((kind.includes('fee') || kind.includes('commission')) && amount < 0) {
+      sink.push({ ...base, type: TransactionType.Fee, quantity: 0, fees: Math.abs(amount), note: description });
+      return;
+    }
+    sink.skip('unsupported_type', description || `riga ${lineNo}`);
+  });
+};
+
+const parseSwissquote = (header: string[], lines: string[], sink: RowSink) => {
+  lines.forEach((line, index) => {
+    const cells = splitCsvLine(line, ';');
+    const lineNo = index + 2;
+    const get = (aliases: string[]) => cellAt(cells, findColumn(header, aliases));
+    const kind = get(['transaction']).toLowerCase();
+    const base = {
+      line: lineNo,
+      date: parseBrokerDate(get(['date'])) || '',
+      currency: asCurrency(get(['currency']))
+    };
+    const isin = normalizeIsinCell(get(['isin']));
+    const symbol = normalizeSymbolCell(get(['symbol']));
+    const name = get(['name']) || undefined;
+    const netAmount = parseBrokerNumber(get(['net amount']));
+    const costs = Math.abs(parseBrokerNumber(get(['costs'])) ?? 0);
+
+    if (kind.includes('forex') || kind.includes('interest')) {
+      sink.skip(kind.includes('forex') ? 'internal_transfer' : 'unsupported_type', kind);
+      return;
+    }
+    if (kind === 'buy' || kind === 'sell') {
+      const quantity = parseBrokerNumber(get(['quantity']));
+      const price = parseBrokerNumber(get(['unit price']));
+      sink.push({
+        ...base,
+        type: kind === 'buy' ? TransactionType.Buy : TransactionType.Sell,
+        isin,
+        symbol,
+        name,
+        quantity: quantity === null ? NaN : Math.abs(quantity),
+        price: price === null ? NaN : price,
+        fees: costs
+      });
+      return;
+    }
+    if (kind.includes('dividend')) {
+      sink.push({
+        ...base,
+        type: TransactionType.Dividend,
+        isin,
+        symbol,
+        name,
+        quantity: netAmount === null ? NaN : Math.abs(netAmount),
+        price: 0,
+        fees: 0
+      });
+      return;
+    }
+    if (kind.includes('payment') || kind.includes('credit')) {
+      sink.push({ ...base, type: TransactionType.Deposit, quantity: netAmount === null ? NaN : Math.abs(netAmount), price: 0, fees: 0 });
+      return;
+    }
+    if (kind.includes('withdrawal') || kind.includes('debit')) {
+      sink.push({ ...base, type: TransactionType.Withdrawal, quantity: netAmount === null ? NaN : Math.abs(netAmount), price: 0, fees: 0 });
+      return;
+    }
+    if (kind.includes('fee')) {
+      const amount = netAmount === null ? costs : Math.abs(netAmount);
+      sink.push({ ...base, type: TransactionType.Fee, quantity: 0, price: 0, fees: amount, note: get(['transaction']) });
+      return;
+    }
+    sink.skip('unsupported_type', kind || `riga ${lineNo}`);
+  });
+};
+
+// Brokers report the withholding as a separate line: fold it into the dividend paid by the same
+// instrument on the same day so the transaction carries gross, tax and net.
+const attachWithholdingToDividends = (rows: BrokerImportRow[]): BrokerImportRow[] => {
+  const attached = new Set<BrokerImportRow>();
+  rows.forEach(row => {
+    if (row.type !== TransactionType.Fee || row.note !== WITHHOLDING_NOTE || row.issues.length) return;
+    const dividend = rows.find(candidate => candidate.type === TransactionType.Dividend
+      && !candidate.issues.length
+      && candidate.withholdingTax === undefined
+      && candidate.date === row.date
+      && candidate.currency === row.currency
+      && ((row.isin && candidate.isin === row.isin) || (row.symbol && candidate.symbol === row.symbol)));
+    if (!dividend || row.fees > dividend.quantity) return;
+    dividend.grossAmount = dividend.quantity;
+    dividend.withholdingTax = row.fees;
+    dividend.quantity = dividend.quantity - row.fees;
+    attached.add(row);
+  });
+  return attached.size ? rows.filter(row => !attached.has(row)) : rows;
+};
+
+const validateRow = (draft: RowDraft): BrokerImportRow => {
+  const issues: BrokerImportIssue[] = [...(draft.issues || [])];
+  if (!draft.date) issues.push(createIssue('invalid_date'));
+  if (!draft.currency) issues.push(createIssue('unsupported_currency'));
+  const needsPrice = draft.type === TransactionType.Buy || draft.type === TransactionType.Sell;
+  if (!Number.isFinite(draft.quantity) || !Number.isFinite(draft.price) || !Number.isFinite(draft.fees)
+    || draft.quantity < 0 || draft.fees < 0 || (needsPrice && (draft.quantity <= 0 || draft.price <= 0))) {
+    issues.push(createIssue('invalid_number'));
+  }
+  if (INSTRUMENT_TYPES.includes(draft.type) && !draft.isin && !draft.symbol) {
+    issues.push(createIssue('missing_instrument'));
+  }
+  return { ...draft, issues };
+};
+
+export const parseBrokerStatement = (
+  text: string,
+  options: { format?: BrokerFormat; account?: string } = {}
+): { preview: BrokerImportPreview; rows: BrokerImportRow[] } => {
+  const normalized = text.replace(/^\uFEFF/, '').trim();
+  const lines = normalized.split(/\r?\n/).filter(l => l.trim().length > 0);
+  const detected = options.format || detectBrokerFormat(normalized);
+  const reasons: ImportIssueReason[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const rows: BrokerImportRow[] = [];
+  let skipped = 0;
+
+  if (!lines.length || !detected) {
+    errors.push(lines.length ? 'Formato estratto conto non riconosciuto.' : 'File CSV vuoto o non valido.');
+    return {
+      preview: {
+        format: detected || null,
+        account: options.account || '',
+        rowCountRaw: Math.max(lines.length - 1, 0),
+        rowCountValid: 0,
+        rowCountInvalid: 0,
+        rowCountSkipped: 0,
+        reasons,
+        errors,
+        warnings
+      },
+      rows
+    };
+  }
+
+  const sink: RowSink = {
+    push: draft => {
+      const row = validateRow(draft);
+      row.issues.forEach(issue => addReason(reasons, issue.code, `riga ${row.line}`));
+      rows.push(row);
+    },
+    skip: (code, example) => {
+      skipped += 1;
+      addReason(reasons, code, example);
+    }
+  };
+
+  const header = splitCsvLine(lines[0], detectDelimiter(lines[0])).map(c => c.toLowerCase());
+  if (detected === 'ibkr_flex') parseIbkrFlex(lines, sink);
+  if (detected === 'degiro_transactions') parseDegiroTransactions(header, lines.slice(1), sink);
+  if (detected === 'degiro_account') parseDegiroAccount(header, lines.slice(1), sink);
+  if (detected === 'swissquote') parseSwissquote(header, lines.slice(1), sink);
+
+  const mergedRows = attachWithholdingToDividends(rows);
+  const validRows = mergedRows.filter(row => !row.issues.some(issue => issue.blocking));
+  const dates = validRows.map(row => row.date).sort();
+  const rowCountRaw = detected === 'ibkr_flex'
+    ? lines.filter(line => !/^"?clientaccountid"?,/i.test(line)).length
+    : Math.max(lines.length - 1, 0);
+  const rowCountInvalid = mergedRows.length - validRows.length;
+
+  if (rowCountInvalid > 0) warnings.push(`Righe con errori: ${rowCountInvalid}`);
+  if (skipped > 0) warnings.push(`Righe ignorate (non pertinenti o non supportate): ${skipped}`);
+  if (!mergedRows.length) errors.push('Nessun movimento riconosciuto nel file.');
+
+  return {
+    preview: {
+      format: detected,
+      account: options.account || DEFAULT_ACCOUNTS[detected],
+      rowCountRaw,
+      rowCountValid: validRows.length,
+      rowCountInvalid,
+      rowCountSkipped: skipped,
+      firstDate: dates[0],
+      lastDate: dates[dates.length - 1],
+      reasons,
+      errors,
+      warnings
+    },
+    rows: mergedRows
+  };
+};
+
+const withoutIssue = (row: BrokerImportRow, code: string) => row.issues.filter(issue => issue.code !== code);
+
+export const matchBrokerRowsToInstruments = (rows: BrokerImportRow[], instruments: Instrument[]): BrokerImportRow[] => {
+  const byIsin = new Map<string, Instrument>();
+  const byTicker = new Map<string, Instrument>();
+  instruments.forEach(inst => {
+    if (inst.isin) byIsin.set(normalizeIsin(inst.isin), inst);
+    [inst.ticker, inst.symbol, inst.preferredListing?.symbol].forEach(key => {
+      if (!key) return;
+      byTicker.set(normalizeTicker(key), inst);
+      byTicker.set(normalizeTicker(key).split('.')[0], inst);
+    });
+  });
+  return rows.map(row => {
+    if (row.instrumentTicker) return row;
+    const match = (row.isin && byIsin.get(row.isin)) || (row.symbol && byTicker.get(row.symbol));
+    if (!match) return row;
+    return { ...row, instrumentTicker: match.ticker, issues: withoutIssue(row, 'missing_instrument') };
+  });
+};
+
+export const resolveBrokerInstruments = async (params: {
+  rows: BrokerImportRow[];
+  instruments: Instrument[];
+  apiKey?: string;
+  preferredExchangesOrder?: string[];
+  baseCurrency?: Currency;
+}): Promise<BrokerInstrumentResolution> => {
+  const matched = matchBrokerRowsToInstruments(params.rows, params.instruments);
+  const pendingIsins = Array.from(new Set(
+    matched
+      .filter(row => !row.instrumentTicker && row.isin && INSTRUMENT_TYPES.includes(row.type))
+      .map(row => row.isin as string)
+  ));
+
+  const newInstruments: Instrument[] = [];
+  for (const isin of pendingIsins) {
+    try {
+      const listings = await resolveListingsByIsin(isin, params.apiKey);
+      const listing = pickDefaultListing(
+        listings,
+        params.preferredExchangesOrder || DEFAULT_PREFERRED_EXCHANGES,
+        params.baseCurrency || Currency.CHF
+      );
+      if (!listing) continue;
+      const sample = matched.find(row => row.isin === isin);
+      newInstruments.push({
+        ticker: listing.symbol,
+        name: sample?.name || listing.name || listing.symbol,
+        type: listing.type?.toUpperCase() === 'ETF' ? AssetType.ETF : AssetType.Stock,
+        currency: listing.currency,
+        targetAllocation: 0,
+        isin,
+        preferredListing: listing,
+        listings
+      });
+    } catch (e) {
+      console.warn('Broker import ISIN lookup error', isin, e);
+    }
+  }
+
+  const rows = matchBrokerRowsToInstruments(matched, newInstruments).map(row => {
+    if (row.instrumentTicker || !row.isin || !INSTRUMENT_TYPES.includes(row.type)) return row;
+    return { ...row, issues: [...row.issues, createIssue('unresolved_isin', true, row.isin)] };
+  });
+  return { rows, newInstruments };
+};
+
+export const buildBrokerTransactions = (
+  rows: BrokerImportRow[],
+  params: { portfolioId: string; account: string }
+): Transaction[] => {
+  return rows
+    .filter(row => !row.issues.some(issue => issue.blocking))
+    .filter(row => !INSTRUMENT_TYPES.includes(row.type) || Boolean(row.instrumentTicker))
+    .map(row => ({
+      portfolioId: params.portfolioId,
+      date: parseYmdLocal(row.date),
+      type: row.type,
+      instrumentTicker: row.instrumentTicker,
+      quantity: row.quantity,
+      price: row.price,
+      fees: row.fees,
+      currency: row.currency as Currency,
+      account: params.account,
+      note: row.note,
+      grossAmount: row.grossAmount,
+      withholdingTax: row.withholdingTax
+    }));
+};
+
+export const markAlreadyImportedRows = (
+  rows: BrokerImportRow[],
+  existing: Transaction[],
+  params: { portfolioId: string; account: string }
+): BrokerImportRow[] => {
+  const remaining = new Map<string, number>();
+  existing.forEach(tx => {
+    const key = toTransactionKey(tx);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+  return rows.map(row => {
+    const issues = withoutIssue(row, 'already_imported');
+    if (issues.some(issue => issue.blocking) || !row.date) return { ...row, issues };
+    const [tx] = buildBrokerTransactions([{ ...row, issues }], params);
+    if (!tx) return { ...row, issues };
+    const key = toTransactionKey(tx);
+    const count = remaining.get(key) || 0;
+    if (count <= 0) return { ...row, issues };
+    remaining.set(key, count - 1);
+    return { ...row, issues: [...issues, createIssue('already_imported', false)] };
+  });
+};
+
+export const writeBrokerImport = async (params: {
+  portfolioId: string;
+  account: string;
+  rows: BrokerImportRow[];
+  newInstruments: Instrument[];
+}): Promise<BrokerImportWriteResult> => {
+  const usedTickers = new Set(
+    buildBrokerTransactions(params.rows, params).map(tx => tx.instrumentTicker).filter(Boolean) as string[]
+  );
+  const instrumentsToAdd = params.newInstruments.filter(inst => usedTickers.has(inst.ticker));
+
+  let created = 0;
+  if (instrumentsToAdd.length) {
+    await db.transaction('rw', [db.instruments, db.instrumentListings], async () => {
+      for (const inst of instrumentsToAdd) {
+        const existing = await db.instruments
+          .where('portfolioId')
+          .equals(params.portfolioId)
+          .and(row => row.ticker === inst.ticker)
+          .first();
+        if (existing) continue;
+        created += 1;
+        await db.instruments.add({ ...inst, portfolioId: params.portfolioId });
+        if (inst.preferredListing && inst.isin) {
+          await db.instrumentListings.put({
+            isin: inst.isin,
+            exchangeCode: inst.preferredListing.exchangeCode,
+            symbol: inst.preferredListing.symbol,
+            currency: inst.preferredListing.currency,
+            name: inst.preferredListing.name,
+            portfolioId: params.portfolioId
+          });
+        }
+      }
+    });
+  }
+
+  const summary = await insertTransactionsByNaturalKey(buildBrokerTransactions(params.rows, params));
+  return { ...summary, instrumentsCreated: created };
+};
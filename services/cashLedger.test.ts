@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { computeCashBalances, groupCashByAccount, valueCashBalances } from './cashLedger';
+import { buildNavSeriesDetailed, calculateHistoricalPerformance } from './financeUtils';
+import type { FxRateRow } from './fxService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2024-01-02T12:00:00'),
+  type: TransactionType.Deposit,
+  quantity: 0,
+  price: 0,
+  fees: 0,
+  currency: Currency.CHF,
+  account: 'PostFinance',
+  ...overrides
+});
+
+const history = (): Transaction[] => [
+  makeTx({ quantity: 5000 }),
+  makeTx({ account: 'IBKR', quantity: 10000 }),
+  makeTx({
+    date: new Date('2024-01-03T12:00:00'),
+    account: 'IBKR',
+    type: TransactionType.FxConversion,
+    quantity: 4000,
+    price: 1.1,
+    fees: 2,
+    toCurrency: Currency.USD
+  }),
+  makeTx({
+    date: new Date('2024-01-04T12:00:00'),
+    account: 'IBKR',
+    type: TransactionType.Buy,
+    instrumentTicker: 'VTI',
+    quantity: 10,
+    price: 200,
+    fees: 1,
+    currency: Currency.USD
+  }),
+  makeTx({
+    date: new Date('2024-01-05T12:00:00'),
+    account: 'IBKR',
+    type: TransactionType.Dividend,
+    instrumentTicker: 'VTI',
+    quantity: 15,
+    currency: Currency.USD
+  })
+];
+
+const fxRates: FxRateRow[] = [
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-02', rate: 0.9 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-05', rate: 0.8 }
+];
+
+describe('cashLedger', () => {
+  it('keeps a balance per account and currency, debiting buys from the trading account', () => {
+    const balances = computeCashBalances(history());
+    expect(balances).toEqual([
+      { account: 'IBKR', currency: Currency.CHF, amount: 10000 - 4002 },
+      { account: 'IBKR', currency: Currency.USD, amount: 4400 - 2001 + 15 },
+      { account: 'PostFinance', currency: Currency.CHF, amount: 5000 }
+    ]);
+    expect(computeCashBalances(history(), '2024-01-03')).toContainEqual({ account: 'IBKR', currency: Currency.USD, amount: 4400 });
+  });
+
+  it('values each balance through FX and reports missing pairs', () => {
+    const valued = valueCashBalances(computeCashBalances(history()), Currency.CHF, '2024-01-05', fxRates);
+    expect(valued.totalBase).toBeCloseTo(5998 + 2414 * 0.8 + 5000, 6);
+    expect(valued.missingFxPairs).toEqual([]);
+    const accounts = groupCashByAccount(valued.balances);
+    expect(accounts.map(a => a.account)).toEqual(['IBKR', 'PostFinance']);
+    expect(accounts[0].totalBase).toBeCloseTo(5998 + 2414 * 0.8, 6);
+
+    const noFx = valueCashBalances(computeCashBalances(history()), Currency.CHF, '2024-01-05', []);
+    expect(noFx.missingFxPairs).toEqual(['USD/CHF']);
+    expect(noFx.totalBase).toBeCloseTo(10998, 6);
+  });
+
+  it('converts cash and holdings to the base currency in the NAV series', () => {
+    const instrument: Instrument = { id: 1, ticker: 'VTI', symbol: 'VTI', name: 'Vanguard Total', type: AssetType.ETF, currency: Currency.USD };
+    const prices: PricePoint[] = [
+      { ticker: 'VTI', date: '2024-01-04', close: 200, currency: Currency.USD },
+      { ticker: 'VTI', date: '2024-01-05', close: 210, currency: Currency.USD }
+    ];
+    const nav = buildNavSeriesDetailed(history(), [instrument], prices, 'daily', undefined, '2024-01-05', {
+      fxRates,
+      baseCurrency: Currency.CHF
+    });
+    const last = nav[nav.length - 1];
+    expect(last.date).toBe('2024-01-05');
+    expect(last.cashBalances).toHaveLength(3);
+    expect(last.holdingsValue).toBeCloseTo(10 * 210 * 0.8, 6);
+    expect(last.cashBalance).toBeCloseTo(5998 + 2414 * 0.8 + 5000, 6);
+    expect(last.fxUsed).toEqual({ USD: 0.8 });
+    expect(last.missingFxPairs).toEqual([]);
+
+    const conversionDay = nav.find(point => point.date === '2024-01-03');
+    expect(conversionDay?.externalFlow).toBe(0);
+    expect(conversionDay?.cashBalance).toBeCloseTo(5000 + 5998 + 4400 * 0.9, 6);
+  });
+
+  it('leaves out flows without an FX rate and reports the missing pair', () => {
+    const nav = buildNavSeriesDetailed([
+      makeTx({ quantity: 1000 }),
+      makeTx({ date: new Date('2024-01-03T12:00:00'), account: 'IBKR', quantity: 500, currency: Currency.USD })
+    ], [], [], 'daily', undefined, '2024-01-03', { fxRates: [], baseCurrency: Currency.CHF });
+    const day = nav.find(point => point.date === '2024-01-03');
+    expect(day?.externalFlow).toBe(0);
+    expect(day?.missingFxPairs).toEqual(['USD/CHF']);
+  });
+
+  it('values the history cash per account and currency through FX', () => {
+    const { history: points } = calculateHistoricalPerformance(history().slice(0, 3), [], [], 1, 'daily', {
+      fxRates,
+      baseCurrency: Currency.CHF
+    });
+    const conversionDay = points.find(point => point.date === '2024-01-03');
+    expect(conversionDay?.value).toBeCloseTo(5000 + 5998 + 4400 * 0.9, 6);
+  });
+
+  it('matches the NAV series when holdings are valued through FX', () => {
+    const instrument: Instrument = { id: 1, ticker: 'VTI', symbol: 'VTI', name: 'Vanguard Total', type: AssetType.ETF, currency: Currency.USD };
+    const prices: PricePoint[] = [
+      { ticker: 'VTI', date: '2024-01-04', close: 200, currency: Currency.USD },
+      { ticker: 'VTI', date: '2024-01-05', close: 210, currency: Currency.USD }
+    ];
+    const fx = { fxRates, baseCurrency: Currency.CHF };
+    const nav = buildNavSeriesDetailed(history(), [instrument], prices, 'daily', undefined, '2024-01-05', fx);
+    const { history: points } = calculateHistoricalPerformance(history(), [instrument], prices, 1, 'daily', fx);
+    expect(points[points.length - 1].date).toBe('2024-01-05');
+    expect(points[points.length - 1].value).toBeCloseTo(nav[nav.length - 1].navBaseCcy, 6);
+  });
+});
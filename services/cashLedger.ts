@@ -0,0 +1,102 @@
+import { format } from 'date-fns';
+import { Currency, Transaction, TransactionType } from '../types';
+import { convertAmountFromSeries, FxRateRow } from './fxService';
+
+export type CashBalance = {
+  account: string;
+  currency: Currency;
+  amount: number;
+};
+
+export type ValuedCashBalance = CashBalance & {
+  valueBase: number | null;
+  fxRate?: number;
+  fxDate?: string;
+};
+
+export type CashLedger = Map<string, CashBalance>;
+
+export const DEFAULT_CASH_ACCOUNT = 'Default';
+
+const CASH_EPSILON = 1e-6;
+
+export const normalizeCashAccount = (account?: string) => (account || '').trim() || DEFAULT_CASH_ACCOUNT;
+
+// Cash is only tracked once the portfolio records explicit deposits or withdrawals.
+export const hasCashTracking = (transactions: Transaction[]) =>
+  transactions.some(t => t.type === TransactionType.Deposit || t.type === TransactionType.Withdrawal);
+
+const adjustCash = (ledger: CashLedger, account: string, currency: Currency, delta: number) => {
+  if (!Number.isFinite(delta) || delta === 0) return;
+  const key = `${account}|${currency}`;
+  const entry = ledger.get(key) || { account, currency, amount: 0 };
+  entry.amount += delta;
+  ledger.set(key, entry);
+};
+
+export const applyTransactionToCash = (ledger: CashLedger, t: Transaction) => {
+  const qty = t.quantity || 0;
+  const price = t.price || 0;
+  const fees = t.fees || 0;
+  const account = normalizeCashAccount(t.account);
+
+  if (t.type === TransactionType.Buy) adjustCash(ledger, account, t.currency, -((qty * price) + fees));
+  if (t.type === TransactionType.Sell) adjustCash(ledger, account, t.currency, (qty * price) - fees);
+  if (t.type === TransactionType.Deposit) adjustCash(ledger, account, t.currency, qty);
+  if (t.type === TransactionType.Withdrawal) adjustCash(ledger, account, t.currency, -qty);
+  if (t.type === TransactionType.Dividend) adjustCash(ledger, account, t.currency, qty);
+  if (t.type === TransactionType.Fee) adjustCash(ledger, account, t.currency, -fees);
+  if (t.type === TransactionType.TransferOut) adjustCash(ledger, account, t.currency, -fees);
+  if (t.type === TransactionType.FxConversion && t.toCurrency) {
+    adjustCash(ledger, account, t.currency, -(qty + fees));
+    adjustCash(ledger, account, t.toCurrency, qty * price);
+  }
+};
+
+export const listCashBalances = (ledger: CashLedger): CashBalance[] =>
+  Array.from(ledger.values())
+    .filter(entry => Math.abs(entry.amount) > CASH_EPSILON)
+    .map(entry => ({ ...entry }))
+    .sort((a, b) => a.account.localeCompare(b.account) || a.currency.localeCompare(b.currency));
+
+export const computeCashBalances = (transactions: Transaction[], asOfDate?: string): CashBalance[] => {
+  const ledger: CashLedger = new Map();
+  transactions.forEach(t => {
+    if (asOfDate && format(t.date, 'yyyy-MM-dd') > asOfDate) return;
+    applyTransactionToCash(ledger, t);
+  });
+  return listCashBalances(ledger);
+};
+
+export const valueCashBalances = (
+  balances: CashBalance[],
+  baseCurrency: Currency,
+  date: string,
+  fxRates: FxRateRow[],
+  fxPivots?: Currency[]
+): { balances: ValuedCashBalance[]; totalBase: number; missingFxPairs: string[] } => {
+  const missingFxPairs = new Set<string>();
+  let totalBase = 0;
+  const valued = balances.map(balance => {
+    const converted = convertAmountFromSeries(balance.amount, balance.currency, baseCurrency, date, fxRates, { pivots: fxPivots });
+    if (!converted) {
+      missingFxPairs.add(`${balance.currency}/${baseCurrency}`);
+      return { ...balance, valueBase: null };
+    }
+    totalBase += converted.value;
+    return { ...balance, valueBase: converted.value, fxRate: converted.lookup.rate, fxDate: converted.lookup.date };
+  });
+  return { balances: valued, totalBase, missingFxPairs: Array.from(missingFxPairs) };
+};
+
+export const groupCashByAccount = (balances: ValuedCashBalance[]) => {
+  const byAccount = new Map<string, { account: string; totalBase: number; hasMissingFx: boolean; balances: ValuedCashBalance[] }>();
+  balances.forEach(balance => {
+    const entry = byAccount.get(balance.account) || { account: balance.account, totalBase: 0, hasMissingFx: false, balances: [] };
+    entry.balances.push(balance);
+    if (balance.valueBase === null) entry.hasMissingFx = true;
+    else entry.totalBase += balance.valueBase;
+    byAccount.set(balance.account, entry);
+  });
+  return Array.from(byAccount.values());
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { buildNavSeriesDetailed, calculateHistoricalPerformance, calculateHoldings } from './financeUtils';
+import { computePositionCostBasis } from './positionCostBasis';
+import { computeTaxLotLedger } from './taxLots';
+import { buildSplitAdjuster, sortTransactionsForReplay } from './corporateActions';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2024-01-10T12:00:00'),
+  instrumentTicker: 'AAA',
+  type: TransactionType.Buy,
+  quantity: 1,
+  price: 100,
+  fees: 0,
+  currency: Currency.USD,
+  account: 'TEST',
+  ...overrides
+});
+
+const instrument: Instrument = { id: 1, ticker: 'AAA', symbol: 'AAA', name: 'Alpha', type: AssetType.Stock, currency: Currency.USD };
+
+// 4:1 split on 2024-06-03; a post-split buy is booked on the effective date itself.
+const splitHistory = (): Transaction[] => [
+  makeTx({ id: 1, quantity: 10, price: 400, fees: 10 }),
+  makeTx({ id: 3, date: new Date('2024-06-03T09:00:00'), quantity: 8, price: 110 }),
+  makeTx({ id: 2, date: new Date('2024-06-03T18:00:00'), type: TransactionType.Split, quantity: 4, price: 0 }),
+  makeTx({ id: 4, date: new Date('2024-09-02T12:00:00'), type: TransactionType.Sell, quantity: 20, price: 120 })
+];
+
+// EODHD closes are split-adjusted: pre-split 400 is stored as 100.
+const adjustedPrices: PricePoint[] = [
+  { ticker: 'AAA', date: '2024-01-10', close: 100, currency: Currency.USD },
+  { ticker: 'AAA', date: '2024-05-31', close: 105, currency: Currency.USD },
+  { ticker: 'AAA', date: '2024-06-03', close: 110, currency: Currency.USD },
+  { ticker: 'AAA', date: '2024-09-02', close: 120, currency: Currency.USD },
+  { ticker: 'AAA', date: '2024-09-30', close: 125, currency: Currency.USD }
+];
+
+describe('corporate actions', () => {
+  it('applies splits before trades booked on the same day', () => {
+    const ordered = sortTransactionsForReplay(splitHistory());
+    expect(ordered.map(tx => tx.id)).toEqual([1, 2, 3, 4]);
+    expect(calculateHoldings(splitHistory()).get('AAA')).toBeCloseTo(10 * 4 + 8 - 20, 8);
+  });
+
+  it('rescales quantity but keeps the total cost basis across a split', () => {
+    const result = computePositionCostBasis(splitHistory()).get('AAA');
+    const totalCost = 4010 + 880;
+    expect(result?.quantity).toBeCloseTo(28, 8);
+    expect(result?.totalCost).toBeCloseTo(totalCost * (28 / 48), 6);
+
+    const beforeSale = computePositionCostBasis(splitHistory().slice(0, 3)).get('AAA');
+    expect(beforeSale?.avgCost).toBeCloseTo(totalCost / 48, 6);
+  });
+
+  it('keeps lot open dates and splits unit costs in the tax-lot ledger', () => {
+    const ledger = computeTaxLotLedger(splitHistory(), { method: 'FIFO', asOfDate: '2024-12-31' });
+    const sale = ledger.realized[0];
+    expect(sale.lots).toHaveLength(1);
+    expect(sale.lots[0]).toMatchObject({ lotId: '1', openDate: '2024-01-10', quantity: 20 });
+    expect(sale.costBasis).toBeCloseTo(4010 / 2, 6);
+    expect(sale.realizedGain).toBeCloseTo(2400 - 2005, 6);
+    expect(ledger.openLots.map(lot => [lot.lotId, lot.quantity])).toEqual([['1', 20], ['3', 8]]);
+    expect(ledger.openLots[0].unitCost).toBeCloseTo(4010 / 40, 6);
+  });
+
+  it('values pre-split holdings against split-adjusted prices in the NAV series', () => {
+    const nav = buildNavSeriesDetailed(splitHistory(), [instrument], adjustedPrices, 'daily', undefined, '2024-09-30');
+    const at = (date: string) => nav.find(point => point.date === date)?.holdingsValue;
+    expect(at('2024-01-10')).toBeCloseTo(10 * 400, 6);
+    expect(at('2024-05-31')).toBeCloseTo(40 * 105, 6);
+    expect(at('2024-06-03')).toBeCloseTo(48 * 110, 6);
+    expect(at('2024-09-30')).toBeCloseTo(28 * 125, 6);
+
+    const { history } = calculateHistoricalPerformance(splitHistory(), [instrument], adjustedPrices, 12, 'monthly');
+    expect(history.find(point => point.date === '2024-05-31')?.value).toBeCloseTo(40 * 105, 6);
+    expect(history.find(point => point.date === '2024-06-30')?.value).toBeCloseTo(48 * 110, 6);
+  });
+
+  it('falls back to split-adjusted trade prices when no close is stored', () => {
+    const nav = buildNavSeriesDetailed(splitHistory().slice(0, 1), [instrument], [], 'daily', undefined, '2024-01-12');
+    expect(nav[nav.length - 1].holdingsValue).toBeCloseTo(10 * 400, 6);
+    const adjust = buildSplitAdjuster(splitHistory());
+    expect(adjust('AAA', '2024-06-02')).toBe(4);
+    expect(adjust('AAA', '2024-06-03')).toBe(1);
+  });
+
+  it('supports reverse splits, spin-offs and ticker changes', () => {
+    const txs: Transaction[] = [
+      makeTx({ id: 1, quantity: 100, price: 10 }),
+      makeTx({ id: 2, date: new Date('2024-03-01T12:00:00'), type: TransactionType.ReverseSplit, quantity: 10, price: 0 }),
+      makeTx({
+        id: 3,
+        date: new Date('2024-04-01T12:00:00'),
+        instrumentTicker: 'BBB',
+        type: TransactionType.SpinOff,
+        quantity: 5,
+        price: 0,
+        relatedTicker: 'AAA',
+        costAllocation: 0.2
+      }),
+      makeTx({ id: 4, date: new Date('2024-05-01T12:00:00'), instrumentTicker: 'AAB', type: TransactionType.TickerChange, quantity: 0, price: 0, relatedTicker: 'AAA' })
+    ];
+    const holdings = calculateHoldings(txs);
+    expect(holdings.get('AAA')).toBeUndefined();
+    expect(holdings.get('AAB')).toBeCloseTo(10, 8);
+    expect(holdings.get('BBB')).toBeCloseTo(5, 8);
+
+    const costs = computePositionCostBasis(txs);
+    expect(costs.get('AAB')?.totalCost).toBeCloseTo(800, 6);
+    expect(costs.get('AAB')?.avgCost).toBeCloseTo(80, 6);
+    expect(costs.get('BBB')?.totalCost).toBeCloseTo(200, 6);
+
+    const ledger = computeTaxLotLedger(txs, { method: 'FIFO', asOfDate: '2024-12-31' });
+    const child = ledger.openLots.find(lot => lot.ticker === 'BBB');
+    expect(child).toMatchObject({ lotId: '1:BBB', openDate: '2024-01-10', quantity: 5 });
+    expect(ledger.openLots.find(lot => lot.ticker === 'AAB')?.costBasis).toBeCloseTo(800, 6);
+  });
+});
@@ -0,0 +1,81 @@
+import { format } from 'date-fns';
+import { Transaction, TransactionType } from '../types';
+
+export const CORPORATE_ACTION_TYPES: TransactionType[] = [
+  TransactionType.Split,
+  TransactionType.ReverseSplit,
+  TransactionType.SpinOff,
+  TransactionType.TickerChange
+];
+
+export const isCorporateAction = (type: TransactionType) => CORPORATE_ACTION_TYPES.includes(type);
+
+// Multiplier applied to the shares held: 4 for a 4:1 split, 0.1 for a 1:10 reverse split.
+export const getSplitFactor = (tx: Transaction): number | null => {
+  if (tx.type !== TransactionType.Split && tx.type !== TransactionType.ReverseSplit) return null;
+  const ratio = Number(tx.quantity);
+  if (!Number.isFinite(ratio) || ratio <= 0) return null;
+  return tx.type === TransactionType.Split ? ratio : 1 / ratio;
+};
+
+const toYmd = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Chronological order where corporate actions take effect at the start of their day,
+// before any trade booked on the same date (trades on the effective date are post-split).
+export const sortTransactionsForReplay = (transactions: Transaction[]): Transaction[] => {
+  if (!transactions.some(t => isCorporateAction(t.type))) {
+    return transactions.slice().sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+  return transactions
+    .map(tx => ({ tx, day: toYmd(tx.date), rank: isCorporateAction(tx.type) ? 0 : 1 }))
+    .sort((a, b) => a.day.localeCompare(b.day) || a.rank - b.rank || a.tx.date.getTime() - b.tx.date.getTime())
+    .map(entry => entry.tx);
+};
+
+export const applyCorporateActionToQuantities = (quantities: Map<string, number>, tx: Transaction) => {
+  const ticker = tx.instrumentTicker;
+  if (!ticker) return;
+  const factor = getSplitFactor(tx);
+  if (factor !== null) {
+    const current = quantities.get(ticker);
+    if (current !== undefined) quantities.set(ticker, current * factor);
+    return;
+  }
+  if (tx.type === TransactionType.SpinOff) {
+    const qty = Number(tx.quantity || 0);
+    if (qty > 0) quantities.set(ticker, (quantities.get(ticker) || 0) + qty);
+    return;
+  }
+  if (tx.type === TransactionType.TickerChange && tx.relatedTicker && tx.relatedTicker !== ticker) {
+    const moved = quantities.get(tx.relatedTicker) || 0;
+    quantities.delete(tx.relatedTicker);
+    quantities.set(ticker, (quantities.get(ticker) || 0) + moved);
+  }
+};
+
+export type SplitAdjuster = (ticker: string, dateStr: string) => number;
+
+// Price series are split-adjusted back in time, so a quantity held on `dateStr` must be scaled
+// by every split that becomes effective afterwards before multiplying it by the stored close.
+export const buildSplitAdjuster = (transactions: Transaction[]): SplitAdjuster => {
+  const splitsByTicker = new Map<string, { date: string; factor: number }[]>();
+  transactions.forEach(tx => {
+    const factor = getSplitFactor(tx);
+    if (factor === null || !tx.instrumentTicker) return;
+    const list = splitsByTicker.get(tx.instrumentTicker) || [];
+    list.push({ date: toYmd(tx.date), factor });
+    splitsByTicker.set(tx.instrumentTicker, list);
+  });
+  if (!splitsByTicker.size) return () => 1;
+  return (ticker, dateStr) => {
+    const splits = splitsByTicker.get(ticker);
+    if (!splits) return 1;
+    return splits.reduce((acc, split) => (split.date > dateStr ? acc * split.factor : acc), 1);
+  };
+};
+
+export const clampCostAllocation = (value?: number) => {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return 0;
+  return Math.min(Math.max(num, 0), 1);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Currency, PricePoint } from '../types';
+import { computeCorrelationRisk } from './correlationRisk';
+
+const monthEnds = ['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31', '2024-06-30'];
+
+const seriesFrom = (ticker: string, returns: number[], currency: Currency = Currency.CHF): PricePoint[] => {
+  let close = 100;
+  return monthEnds.map((date, i) => {
+    if (i > 0) close *= 1 + returns[i - 1];
+    return { ticker, date, close, currency };
+  });
+};
+
+const returnsA = [0.02, -0.01, 0.03, -0.02, 0.01];
+
+describe('correlation risk', () => {
+  it('splits portfolio volatility into contributions that add up', () => {
+    const prices = [
+      ...seriesFrom('AAA', returnsA),
+      ...seriesFrom('BBB', returnsA.map(r => r * 2)),
+      ...seriesFrom('CCC', returnsA.map(r => -r))
+    ];
+    const result = computeCorrelationRisk({
+      prices,
+      fxRates: [],
+      baseCurrency: Currency.CHF,
+      assets: [
+        { key: 'AAA', weight: 50 },
+        { key: 'BBB', weight: 30 },
+        { key: 'CCC', weight: 20 }
+      ],
+      startDate: '2024-01-31',
+      endDate: '2024-06-30'
+    })!;
+
+    expect(result.periods).toBe(5);
+    expect(result.correlation[0][1]).toBeCloseTo(1, 8);
+    expect(result.correlation[0][2]).toBeCloseTo(-1, 8);
+
+    const byKey = new Map(result.contributions.map(c => [c.key, c]));
+    const total = result.contributions.reduce((sum, c) => sum + c.contributionPct, 0);
+    expect(total).toBeCloseTo(result.portfolioVolatilityPct!, 8);
+    expect(result.contributions.reduce((sum, c) => sum + c.riskPct, 0)).toBeCloseTo(100, 8);
+    // Net exposure 0.5 + 0.6 - 0.2 = 0.9 times AAA: shares are w_i * beta_i / 0.9
+    expect(byKey.get('AAA')!.riskPct).toBeCloseTo((0.5 / 0.9) * 100, 6);
+    expect(byKey.get('BBB')!.riskPct).toBeCloseTo((0.6 / 0.9) * 100, 6);
+    expect(byKey.get('CCC')!.riskPct).toBeCloseTo((-0.2 / 0.9) * 100, 6);
+  });
+
+  it('converts to base currency and leaves out assets without prices', () => {
+    const fxRates = monthEnds.map(date => ({ baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date, rate: 0.9 }));
+    const result = computeCorrelationRisk({
+      prices: [...seriesFrom('AAA', returnsA), ...seriesFrom('USD1', returnsA, Currency.USD)],
+      fxRates,
+      baseCurrency: Currency.CHF,
+      assets: [{ key: 'AAA', weight: 1 }, { key: 'USD1', weight: 1 }, { key: 'NONE', label: 'Senza prezzi', weight: 1 }],
+      startDate: '2024-01-31',
+      endDate: '2024-06-30'
+    })!;
+    expect(result.keys).toEqual(['AAA', 'USD1']);
+    expect(result.correlation[0][1]).toBeCloseTo(1, 8);
+    expect(result.contributions.map(c => c.capitalPct)).toEqual([50, 50]);
+    expect(result.excluded).toEqual([{ key: 'NONE', label: 'Senza prezzi' }]);
+  });
+});
@@ -0,0 +1,170 @@
+import { eachDayOfInterval, eachMonthOfInterval, endOfMonth, format } from 'date-fns';
+import { Currency, PricePoint } from '../types';
+import { isYmd, parseYmdLocal } from './dateUtils';
+import type { Granularity } from './financeUtils';
+import { createFxResolver } from './fxResolver';
+import type { FxRateRow } from './fxService';
+import { fillMissingPrices } from './priceBackfill';
+import { getPeriodsPerYear } from './riskMetrics';
+
+export type CorrelationAsset = {
+  // Ticker of the rows in `prices`
+  key: string;
+  label?: string;
+  // Capital weight, any scale (normalized over the assets with data)
+  weight?: number;
+};
+
+export type RiskContribution = {
+  key: string;
+  label: string;
+  capitalPct: number;
+  volatilityPct: number;
+  // d(sigma_p)/d(w_i): change of portfolio volatility per unit of weight
+  marginalPct: number;
+  // w_i * marginal_i, adds up to the portfolio volatility
+  contributionPct: number;
+  riskPct: number;
+};
+
+export type CorrelationRiskResult = {
+  baseCurrency: Currency;
+  startDate: string;
+  endDate: string;
+  periods: number;
+  keys: string[];
+  labels: string[];
+  correlation: number[][];
+  // Annualized
+  covariance: number[][];
+  portfolioVolatilityPct?: number;
+  contributions: RiskContribution[];
+  // Assets left out for lack of prices or FX in the range
+  excluded: { key: string; label: string }[];
+};
+
+export type CorrelationRiskArgs = {
+  prices: PricePoint[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  assets: CorrelationAsset[];
+  startDate: string;
+  endDate: string;
+  granularity?: Granularity;
+  fxPivots?: Currency[];
+};
+
+const MIN_PERIODS = 3;
+
+const buildDateIndex = (startDate: string, endDate: string, granularity: Granularity) => {
+  if (!isYmd(startDate) || !isYmd(endDate) || startDate >= endDate) return [];
+  const start = parseYmdLocal(startDate);
+  const end = parseYmdLocal(endDate);
+  if (granularity === 'daily') {
+    return eachDayOfInterval({ start, end })
+      .filter(day => day.getDay() !== 0 && day.getDay() !== 6)
+      .map(day => format(day, 'yyyy-MM-dd'));
+  }
+  const dates = eachMonthOfInterval({ start, end })
+    .map(month => format(endOfMonth(month), 'yyyy-MM-dd'))
+    .filter(date => date > startDate && date < endDate);
+  return [startDate, ...dates, endDate];
+};
+
+// Aligned base-currency return series: a period counts only if every asset has a real or forward-filled
+// close at both ends (back-filled closes before the first quote would add fake zero returns).
+export const computeCorrelationRisk = (args: CorrelationRiskArgs): CorrelationRiskResult | null => {
+  const { prices, fxRates, baseCurrency, assets, startDate, endDate, granularity = 'monthly', fxPivots } = args;
+  const dateIndex = buildDateIndex(startDate, endDate, granularity);
+  if (dateIndex.length < MIN_PERIODS + 1 || !assets.length) return null;
+
+  const keys = Array.from(new Set(assets.map(a => a.key)));
+  const labelByKey = new Map(assets.map(a => [a.key, a.label || a.key]));
+  const { filledByTicker } = fillMissingPrices(prices, dateIndex, { tickers: keys });
+  const resolver = createFxResolver(fxRates, { pivots: fxPivots });
+
+  const valuesByKey = new Map<string, (number | null)[]>();
+  keys.forEach(key => {
+    const filled = filledByTicker.get(key);
+    const values = dateIndex.map(date => {
+      const point = filled?.get(date);
+      if (!point || point.fillType === 'backfill' || !(point.close > 0)) return null;
+      const currency = (point.currency || baseCurrency) as Currency;
+      if (currency === baseCurrency) return point.close;
+      const fx = resolver.resolve(currency, baseCurrency, date);
+      return fx ? point.close * fx.rate : null;
+    });
+    valuesByKey.set(key, values);
+  });
+
+  const included = keys.filter(key => (valuesByKey.get(key) || []).filter(v => v !== null).length > MIN_PERIODS);
+  if (!included.length) return null;
+
+  const returns: number[][] = included.map(() => []);
+  const periodDates: string[] = [];
+  let firstDate = '';
+  for (let t = 1; t < dateIndex.length; t += 1) {
+    const row = included.map(key => {
+      const values = valuesByKey.get(key) as (number | null)[];
+      const prev = values[t - 1];
+      const curr = values[t];
+      return prev !== null && curr !== null ? curr / prev - 1 : null;
+    });
+    if (row.some(r => r === null)) continue;
+    row.forEach((r, i) => returns[i].push(r as number));
+    if (!firstDate) firstDate = dateIndex[t - 1];
+    periodDates.push(dateIndex[t]);
+  }
+  const periods = periodDates.length;
+  if (periods < MIN_PERIODS) return null;
+
+  const periodsPerYear = getPeriodsPerYear(granularity);
+  const means = returns.map(series => series.reduce((sum, r) => sum + r, 0) / periods);
+  const covariance = included.map((_, i) => included.map((__, j) => {
+    let sum = 0;
+    for (let t = 0; t < periods; t += 1) sum += (returns[i][t] - means[i]) * (returns[j][t] - means[j]);
+    return (sum / (periods - 1)) * periodsPerYear;
+  }));
+  const correlation = covariance.map((row, i) => row.map((value, j) => {
+    const denom = Math.sqrt(covariance[i][i] * covariance[j][j]);
+    if (i === j) return 1;
+    return denom > 0 ? value / denom : 0;
+  }));
+
+  const weightByKey = new Map<string, number>();
+  assets.forEach(a => weightByKey.set(a.key, (weightByKey.get(a.key) || 0) + Math.max(0, a.weight || 0)));
+  const weightTotal = included.reduce((sum, key) => sum + (weightByKey.get(key) || 0), 0);
+  const weights = included.map(key => (weightTotal > 0 ? (weightByKey.get(key) || 0) / weightTotal : 0));
+
+  const sigmaW = covariance.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+  const variance = weights.reduce((sum, w, i) => sum + w * sigmaW[i], 0);
+  const portfolioVolatility = weightTotal > 0 && variance > 0 ? Math.sqrt(variance) : undefined;
+
+  const contributions: RiskContribution[] = included.map((key, i) => {
+    const marginal = portfolioVolatility ? sigmaW[i] / portfolioVolatility : 0;
+    const contribution = weights[i] * marginal;
+    return {
+      key,
+      label: labelByKey.get(key) || key,
+      capitalPct: weights[i] * 100,
+      volatilityPct: Math.sqrt(Math.max(0, covariance[i][i])) * 100,
+      marginalPct: marginal * 100,
+      contributionPct: contribution * 100,
+      riskPct: portfolioVolatility ? (contribution / portfolioVolatility) * 100 : 0
+    };
+  }).sort((a, b) => b.riskPct - a.riskPct);
+
+  return {
+    baseCurrency,
+    startDate: firstDate,
+    endDate: periodDates[periods - 1],
+    periods,
+    keys: included,
+    labels: included.map(key => labelByKey.get(key) || key),
+    correlation,
+    covariance,
+    portfolioVolatilityPct: portfolioVolatility !== undefined ? portfolioVolatility * 100 : undefined,
+    contributions,
+    excluded: keys.filter(key => !included.includes(key)).map(key => ({ key, label: labelByKey.get(key) || key }))
+  };
+};
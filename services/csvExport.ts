@@ -1,4 +1,7 @@
 import { RebalancePlan } from '../types';
+import type { PnlBreakdown, PnlReport } from './pnlService';
+import type { SwissTaxStatement } from './swissTaxStatement';
+import type { DecumulationSummary } from './decumulation';
 
 export const toCsvValue = (value: any): string => {
   if (value === null || value === undefined) return '';
@@ -48,6 +51,156 @@ export const buildRebalancePlanCsv = (plan: RebalancePlan): string => {
   return [header.join(','), ...rows].join('\n');
 };
 
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const buildPnlCsv = (report: PnlReport): string => {
+  const header = [
+    'Scope',
+    'Year',
+    'Ticker',
+    'Name',
+    'Currency',
+    'RealizedLocal',
+    'RealizedBase',
+    'UnrealizedLocal',
+    'UnrealizedBase',
+    'DividendsLocal',
+    'DividendsBase',
+    'WithholdingLostBase',
+    'FeesLocal',
+    'FeesBase',
+    'PriceEffectBase',
+    'FxEffectBase',
+    'TotalBase',
+    'BaseCurrency'
+  ];
+
+  const toCells = (scope: string, year: number | string, ticker: string, name: string, currency: string, row: PnlBreakdown) => [
+    scope,
+    year,
+    ticker,
+    name,
+    currency,
+    round2(row.realizedLocal),
+    round2(row.realizedBase),
+    round2(row.unrealizedLocal),
+    round2(row.unrealizedBase),
+    round2(row.dividendsLocal),
+    round2(row.dividendsBase),
+    round2(row.withholdingLostBase),
+    round2(row.feesLocal),
+    round2(row.feesBase),
+    round2(row.priceEffectBase),
+    round2(row.fxEffectBase),
+    round2(row.totalBase),
+    report.baseCurrency
+  ].map(toCsvValue).join(',');
+
+  const rows = [
+    ...report.years.map(row => toCells('YEAR', row.year, row.ticker, row.name, row.currency || '', row)),
+    ...report.instruments.map(row => toCells('INSTRUMENT', '', row.ticker, row.name, row.currency || '', row)),
+    toCells('TOTAL', report.valuationDate, '', '', '', report.totals)
+  ];
+
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const buildSwissTaxStatementCsv = (statement: SwissTaxStatement): string => {
+  const header = [
+    'Year',
+    'Ticker',
+    'Name',
+    'ISIN',
+    'Country',
+    'Quantity',
+    'Currency',
+    'CloseDate',
+    'Close',
+    'FxRateCHF',
+    'FxDate',
+    'ValueLocal',
+    'TaxValueCHF',
+    'GrossIncomeCHF',
+    'WithheldCHF',
+    'SwissWithholdingCHF',
+    'ForeignWithheldCHF',
+    'ReclaimableCHF'
+  ];
+
+  const rows = statement.rows.map(row => [
+    statement.year,
+    row.ticker,
+    row.name,
+    row.isin ?? '',
+    row.country ?? '',
+    row.quantity,
+    row.currency,
+    row.closeDate ?? '',
+    row.close ?? '',
+    row.fxRate ?? '',
+    row.fxDate ?? '',
+    row.valueLocal !== undefined ? round2(row.valueLocal) : '',
+    row.taxValueChf !== undefined ? round2(row.taxValueChf) : '',
+    round2(row.grossIncomeChf),
+    round2(row.withheldChf),
+    round2(row.swissWithholdingChf),
+    round2(row.foreignWithheldChf),
+    round2(row.reclaimableChf)
+  ].map(toCsvValue).join(','));
+
+  const { totals } = statement;
+  const totalRow = [
+    statement.year, 'TOTAL', '', '', '', '', 'CHF', statement.valuationDate, '', '', '', '',
+    round2(totals.taxValueChf),
+    round2(totals.grossIncomeChf),
+    round2(totals.withheldChf),
+    round2(totals.swissWithholdingChf),
+    round2(totals.foreignWithheldChf),
+    round2(totals.reclaimableChf)
+  ].map(toCsvValue).join(',');
+
+  return [header.join(','), ...rows, totalRow].join('\n');
+};
+
+export const buildDecumulationCsv = (summary: DecumulationSummary, currency: string): string => {
+  const header = [
+    'Year',
+    'Currency',
+    'WithdrawalMedian',
+    'WithdrawalRealMedian',
+    'WithdrawalRealP10',
+    'ValueP10',
+    'ValueMedian',
+    'ValueP90',
+    'SolventPct',
+    'WorstCase',
+    'WorstWithdrawal',
+    'WorstReturnPct',
+    'WorstEndValue'
+  ];
+
+  const rows = summary.annual.map((row, idx) => {
+    const worst = summary.worst?.rows[idx];
+    return [
+      row.year,
+      currency,
+      round2(row.withdrawalP50),
+      round2(row.withdrawalRealP50),
+      round2(row.withdrawalRealP10),
+      round2(row.value.p10),
+      round2(row.value.p50),
+      round2(row.value.p90),
+      round2(row.solventPct),
+      summary.worst?.label ?? '',
+      worst ? round2(worst.withdrawal) : '',
+      worst ? round2(worst.returnPct) : '',
+      worst ? round2(worst.endValue) : ''
+    ].map(toCsvValue).join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n');
+};
+
 export const downloadCsv = (filename: string, csv: string): void => {
   const blob = new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,47 @@
+import { Currency } from '../types';
+
+// Active ISO-4217 codes (funds and precious metals excluded).
+export const ISO_4217_CURRENCIES: readonly string[] = [
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN',
+  'BAM', 'BBD', 'BDT', 'BGN', 'BHD', 'BIF', 'BMD', 'BND', 'BOB', 'BRL',
+  'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CLP', 'CNY',
+  'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP',
+  'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD',
+  'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR',
+  'IQD', 'IRR', 'ISK', 'JMD', 'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF',
+  'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL',
+  'LYD', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR',
+  'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO', 'NOK', 'NPR',
+  'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR',
+  'RON', 'RSD', 'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD',
+  'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP', 'SZL', 'THB',
+  'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX',
+  'USD', 'UYU', 'UZS', 'VES', 'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XOF',
+  'XPF', 'YER', 'ZAR', 'ZMW', 'ZWG'
+];
+
+// Quote units for crypto pairs; EODHD lists them under the .CC exchange.
+export const CRYPTO_QUOTE_CURRENCIES: readonly string[] = ['BTC', 'ETH', 'USDC', 'USDT'];
+
+// Listed first in the dropdowns.
+export const COMMON_CURRENCIES: readonly string[] = [
+  Currency.CHF, Currency.EUR, Currency.USD, Currency.GBP,
+  'JPY', 'SEK', 'NOK', 'DKK', 'CAD', 'AUD', 'HKD', 'SGD'
+];
+
+const KNOWN_CURRENCIES = new Set<string>([...ISO_4217_CURRENCIES, ...CRYPTO_QUOTE_CURRENCIES]);
+
+export const CURRENCY_OPTIONS: readonly Currency[] = [
+  ...COMMON_CURRENCIES,
+  ...Array.from(KNOWN_CURRENCIES).filter(code => !COMMON_CURRENCIES.includes(code)).sort()
+];
+
+export const isCryptoCurrency = (code: string) => CRYPTO_QUOTE_CURRENCIES.includes(code);
+
+export const isCurrencyCode = (value: unknown): value is Currency =>
+  typeof value === 'string' && KNOWN_CURRENCIES.has(value);
+
+export const normalizeCurrencyCode = (value: unknown): Currency | null => {
+  const raw = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return isCurrencyCode(raw) ? raw : null;
+};
@@ -0,0 +1,81 @@
+import { db } from '../db';
+import { Currency, CustomBenchmark } from '../types';
+import { getBacktestImportPricesByImportIds, listBacktestImports } from './backtestImportRepository';
+import { BlendedComponentSeries, resolveBlendedComponents } from './blendedBenchmark';
+import { queryFxForPairsRange, queryPricesForTickersRange } from './dbQueries';
+import { getFxLookupPairs } from './fxResolver';
+import type { FxRateRow } from './fxService';
+
+const nowIso = () => new Date().toISOString();
+
+export type CustomBenchmarkInput = Pick<CustomBenchmark, 'name' | 'components' | 'rebalance'>;
+
+const validateBenchmark = (benchmark: CustomBenchmarkInput) => {
+  if (!benchmark.name.trim()) throw new Error('Inserisci il nome del benchmark');
+  if (!benchmark.components.length) throw new Error('Aggiungi almeno una componente');
+  if (benchmark.components.some(c => !Number.isFinite(c.weightPct) || c.weightPct <= 0)) {
+    throw new Error('Pesi delle componenti non validi');
+  }
+  if (benchmark.components.some(c => c.source === 'CSV_IMPORT' && !c.importId)) {
+    throw new Error('Serie CSV della componente non trovata');
+  }
+};
+
+export const listCustomBenchmarks = async (portfolioId: string): Promise<CustomBenchmark[]> => {
+  const rows = await db.customBenchmarks.where('portfolioId').equals(portfolioId).toArray();
+  return rows.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCustomBenchmark = async (params: {
+  id?: number | null;
+  benchmark: CustomBenchmarkInput;
+  portfolioId: string;
+}): Promise<number> => {
+  const { id, benchmark, portfolioId } = params;
+  validateBenchmark(benchmark);
+  const fields = {
+    name: benchmark.name.trim(),
+    components: benchmark.components.map(c => ({ ...c, ticker: c.ticker.trim() })),
+    rebalance: benchmark.rebalance,
+    portfolioId,
+    updatedAt: nowIso()
+  };
+  if (id) {
+    await db.customBenchmarks.update(id, fields);
+    return id;
+  }
+  const newId = await db.customBenchmarks.add({ ...fields, createdAt: nowIso() });
+  return Number(newId);
+};
+
+export const deleteCustomBenchmark = async (id: number): Promise<void> => {
+  await db.customBenchmarks.delete(id);
+};
+
+// Component series and FX needed to build the benchmark over a range (used where the page has no price cache)
+export const loadCustomBenchmarkData = async (params: {
+  benchmark: CustomBenchmark;
+  portfolioId: string;
+  baseCurrency: Currency;
+  startDate: string;
+  endDate: string;
+  fxPivots?: Currency[];
+}): Promise<{ components: BlendedComponentSeries[]; fxRates: FxRateRow[] }> => {
+  const { benchmark, portfolioId, baseCurrency, startDate, endDate, fxPivots } = params;
+  const tickers = Array.from(new Set(benchmark.components.filter(c => c.source === 'APP_DB').map(c => c.ticker)));
+  const importIds = Array.from(new Set(
+    benchmark.components.map(c => c.importId).filter((id): id is number => Boolean(id))
+  ));
+  const [prices, importPrices, imports] = await Promise.all([
+    queryPricesForTickersRange({ portfolioId, tickers, startDate, endDate, lookbackDays: 10 }),
+    getBacktestImportPricesByImportIds({ importIds, startDate, endDate, lookbackDays: 10 }),
+    listBacktestImports(portfolioId)
+  ]);
+  const components = resolveBlendedComponents({ benchmark, prices, importPrices, imports, baseCurrency });
+  const currencies = Array.from(new Set(components.map(c => c.currency)));
+  const pairs = currencies.some(currency => currency !== baseCurrency)
+    ? getFxLookupPairs([...currencies, baseCurrency], fxPivots)
+    : [];
+  const fxRates = await queryFxForPairsRange({ pairs, startDate, endDate, lookbackDays: 10 });
+  return { components, fxRates };
+};
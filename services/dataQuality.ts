@@ -179,6 +179,7 @@ export type RebalanceQualityIssueType =
   | 'priceStale'
   | 'fxMissing'
   | 'fxStale'
+  | 'fxTriangulated'
   | 'currencyMismatch';
 
 export type RebalanceAssetStatus = 'OK' | 'STALE' | 'MISMATCH' | 'UNVALUED';
@@ -196,6 +197,7 @@ export type RebalanceQualityIssue = {
   fxBase?: Currency;
   fxQuote?: Currency;
   fxDate?: string;
+  fxPivot?: Currency;
 };
 
 export type RebalanceQualitySummary = {
@@ -243,6 +245,16 @@ export const getIssueHelp = (issue: RebalanceQualityIssue): IssueHelp => {
       href: buildDataInspectorHref({ tab: 'fx', base, quote, date })
     };
   }
+  if (issue.type === 'fxTriangulated') {
+    const base = issue.fxBase || Currency.USD;
+    const quote = issue.fxQuote || Currency.CHF;
+    return {
+      title: 'FX triangolato',
+      description: `Nessun cambio ${base}->${quote}: derivato via ${issue.fxPivot || 'N/D'} (${base}/${issue.fxPivot || '?'} × ${issue.fxPivot || '?'}/${quote}). Importa la coppia diretta per un valore esatto.`,
+      ctaLabel: 'Apri Data Inspector (FX)',
+      href: buildDataInspectorHref({ tab: 'fx', base, quote, date })
+    };
+  }
   if (issue.type === 'priceMissing') {
     const priceTicker = issue.priceTicker || issue.ticker;
     return {
@@ -277,7 +289,8 @@ export const analyzeRebalanceQuality = (
   fxRates: FxRatePoint[],
   valuationDate: string,
   baseCurrency: Currency,
-  staleDays = PRICE_STALE_DAYS
+  staleDays = PRICE_STALE_DAYS,
+  fxPivots?: Currency[]
 ): RebalanceQualitySummary => {
   const issues: RebalanceQualityIssue[] = [];
   const fxStaleDays = FX_STALE_DAYS;
@@ -359,7 +372,7 @@ export const analyzeRebalanceQuality = (
       });
     }
     if (priceCurrency && priceCurrency !== baseCurrency) {
-      const fxLookup = resolveFxRateFromSeries(fxSeries, priceCurrency, baseCurrency, valuationDate);
+      const fxLookup = resolveFxRateFromSeries(fxSeries, priceCurrency, baseCurrency, valuationDate, { pivots: fxPivots });
       if (!fxLookup) {
         hasFxMissing = true;
         issues.push({
@@ -373,6 +386,20 @@ export const analyzeRebalanceQuality = (
           fxQuote: baseCurrency
         });
       } else {
+        if (fxLookup.triangulated) {
+          issues.push({
+            ticker,
+            type: 'fxTriangulated',
+            message: `FX ${priceCurrency}->${baseCurrency} triangolato via ${fxLookup.pivot}`,
+            blocking: false,
+            valuationDate,
+            priceTicker,
+            fxBase: priceCurrency,
+            fxQuote: baseCurrency,
+            fxDate: fxLookup.date,
+            fxPivot: fxLookup.pivot
+          });
+        }
         const fxAge = diffDaysYmd(valuationDate, fxLookup.date);
         if (fxAge > fxStaleDays) {
           hasStale = true;
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { Currency } from '../types';
+import { Currency, TransactionType } from '../types';
 
 type MockPriceRow = {
   id?: number;
@@ -23,7 +23,8 @@ type MockFxRow = {
 const state = {
   instruments: [] as any[],
   prices: [] as MockPriceRow[],
-  fxRates: [] as MockFxRow[]
+  fxRates: [] as MockFxRow[],
+  transactions: [] as any[]
 };
 
 let nextPriceId = 1000;
@@ -113,9 +114,20 @@ vi.mock('../db', () => {
     }))
   };
 
+  const transactionsTable = {
+    where: vi.fn(() => transactionsTable),
+    equals: vi.fn((portfolioId: string) => ({
+      toArray: vi.fn(async () => state.transactions.filter(row => (row.portfolioId || 'default') === portfolioId))
+    })),
+    bulkAdd: vi.fn(async (rows: any[]) => {
+      rows.forEach(row => state.transactions.push({ ...row, id: state.transactions.length + 1 }));
+    })
+  };
+
   return {
     db: {
       instruments: instrumentsTable,
+      transactions: transactionsTable,
       prices: pricesTable,
       fxRates: fxRatesTable,
       transaction: async (...args: any[]) => {
@@ -126,13 +138,14 @@ vi.mock('../db', () => {
   };
 });
 
-const { upsertPriceRowsByNaturalKey, upsertFxRowsByNaturalKey } = await import('./dataWriteService');
+const { upsertPriceRowsByNaturalKey, upsertFxRowsByNaturalKey, insertTransactionsByNaturalKey } = await import('./dataWriteService');
 
 describe('dataWriteService', () => {
   beforeEach(() => {
     state.instruments = [];
     state.prices = [];
     state.fxRates = [];
+    state.transactions = [];
     nextPriceId = 1000;
     nextFxId = 2000;
   });
@@ -204,4 +217,34 @@ describe('dataWriteService', () => {
     expect(state.fxRates[0].rate).toBe(0.95);
     expect(state.fxRates[0].source).toBe('manual');
   });
+
+  it('inserts transactions by natural key, keeping same-key fills beyond the stored count', async () => {
+    const buy = {
+      portfolioId: 'p1',
+      date: new Date(2026, 0, 10),
+      type: TransactionType.Buy,
+      instrumentTicker: 'AAA',
+      quantity: 5,
+      price: 100,
+      fees: 1,
+      currency: Currency.USD,
+      account: 'IBKR'
+    };
+    state.transactions = [{ ...buy, id: 1 }];
+
+    const result = await insertTransactionsByNaturalKey([
+      { ...buy },
+      { ...buy },
+      { ...buy, date: new Date(2026, 0, 11) }
+    ]);
+
+    expect(result.unchanged).toBe(1);
+    expect(result.created).toBe(2);
+    expect(result.deduped).toBe(2);
+    expect(state.transactions).toHaveLength(3);
+
+    const again = await insertTransactionsByNaturalKey([{ ...buy }, { ...buy }, { ...buy, date: new Date(2026, 0, 11) }]);
+    expect(again.created).toBe(0);
+    expect(again.unchanged).toBe(3);
+  });
 });
@@ -1,8 +1,9 @@
 import { db } from '../db';
-import { Currency, type Instrument, type PricePoint } from '../types';
+import { Currency, type Instrument, type PricePoint, type Transaction } from '../types';
 import type { FxRateRow } from './fxService';
 import { format } from 'date-fns';
 import { parseYmdLocal } from './dateUtils';
+import type { TransferPair } from './transfers';
 
 export type NaturalKeyWriteSummary = {
   received: number;
@@ -40,6 +41,18 @@ const toPriceKey = (row: Pick<PricePoint, 'portfolioId' | 'ticker' | 'date'>) =>
 const toFxKey = (row: Pick<FxRateRow, 'baseCurrency' | 'quoteCurrency' | 'date'>) =>
   `${row.baseCurrency}|${row.quoteCurrency}|${normalizeDateKey(row.date) || row.date}`;
 
+export const toTransactionKey = (row: Transaction) => [
+  normalizePortfolioId(row.portfolioId),
+  row.date instanceof Date ? format(row.date, 'yyyy-MM-dd') : (normalizeDateKey(row.date) || String(row.date)),
+  row.type,
+  row.instrumentTicker || '',
+  row.account || '',
+  Number(row.quantity) || 0,
+  Number(row.price) || 0,
+  Number(row.fees) || 0,
+  row.currency
+].join('|');
+
 const buildInstrumentKeyCandidates = (instrument: Instrument): string[] => {
   const keys = new Set<string>();
   if (instrument.ticker) keys.add(instrument.ticker);
@@ -282,3 +295,82 @@ export const upsertFxRowsByNaturalKey = async (rows: FxRateRow[]): Promise<Natur
     written: created + updated
   };
 };
+
+export const insertTransactionsByNaturalKey = async (rows: Transaction[]): Promise<NaturalKeyWriteSummary> => {
+  if (!rows.length) {
+    return { received: 0, deduped: 0, created: 0, updated: 0, unchanged: 0, deletedDuplicates: 0, written: 0 };
+  }
+
+  const portfolioIds = Array.from(new Set(rows.map(row => normalizePortfolioId(row.portfolioId))));
+  const existingCountByKey = new Map<string, number>();
+  await Promise.all(portfolioIds.map(async portfolioId => {
+    const existing = await db.transactions.where('portfolioId').equals(portfolioId).toArray();
+    existing.forEach(row => {
+      const key = toTransactionKey(row);
+      existingCountByKey.set(key, (existingCountByKey.get(key) || 0) + 1);
+    });
+  }));
+
+  // Same-key rows can be legitimate (partial fills): only the excess over what is stored gets written.
+  const toAdd: Transaction[] = [];
+  const keys = new Set<string>();
+  let unchanged = 0;
+  rows.forEach(row => {
+    const { id: _id, ...rest } = row;
+    const nextRow: Transaction = { ...rest, portfolioId: normalizePortfolioId(row.portfolioId) };
+    const key = toTransactionKey(nextRow);
+    keys.add(key);
+    const available = existingCountByKey.get(key) || 0;
+    if (available > 0) {
+      existingCountByKey.set(key, available - 1);
+      unchanged += 1;
+      return;
+    }
+    toAdd.push(nextRow);
+  });
+
+  await db.transaction('rw', db.transactions, async () => {
+    if (toAdd.length > 0) await db.transactions.bulkAdd(toAdd);
+  });
+
+  return {
+    received: rows.length,
+    deduped: keys.size,
+    created: toAdd.length,
+    updated: 0,
+    unchanged,
+    deletedDuplicates: 0,
+    written: toAdd.length
+  };
+};
+
+// Both legs are written together; the instrument is copied when the shares land in another portfolio.
+export const saveTransferPair = async (pair: TransferPair) => {
+  await db.transaction('rw', db.transactions, db.instruments, async () => {
+    const targetPortfolioId = pair.incoming.portfolioId || '';
+    const ticker = pair.incoming.instrumentTicker as string;
+    if (targetPortfolioId !== (pair.outgoing.portfolioId || '')) {
+      const existing = await db.instruments
+        .where('ticker')
+        .equals(ticker)
+        .and(inst => (inst.portfolioId || '') === targetPortfolioId)
+        .first();
+      if (!existing) {
+        const source = await db.instruments
+          .where('ticker')
+          .equals(ticker)
+          .and(inst => (inst.portfolioId || '') === (pair.outgoing.portfolioId || ''))
+          .first();
+        if (source) {
+          const { id: _id, ...rest } = source;
+          await db.instruments.add({ ...rest, portfolioId: targetPortfolioId });
+        }
+      }
+    }
+    await db.transactions.bulkAdd([pair.outgoing, pair.incoming]);
+  });
+};
+
+export const deleteTransfer = async (transferId: string) => {
+  await db.transactions.filter(tx => tx.transferId === transferId).delete();
+};
@@ -1,6 +1,7 @@
 import Dexie from 'dexie';
 import { db } from '../db';
 import { FxRate, PricePoint, TransactionType } from '../types';
+import { getSplitFactor, sortTransactionsForReplay } from './corporateActions';
 import { subDaysYmd } from './dateUtils';
 
 const priceRangeCache = new Map<string, { ts: number; data: PricePoint[] }>();
@@ -256,9 +257,14 @@ export const getNetPositionForTicker = async (params: {
   }
   const rows = await query.toArray();
   let net = 0;
-  rows.forEach(tx => {
+  const ordered = rows.some(tx => getSplitFactor(tx) !== null) ? sortTransactionsForReplay(rows) : rows;
+  ordered.forEach(tx => {
     if (tx.type === TransactionType.Buy) net += (tx.quantity || 0);
     if (tx.type === TransactionType.Sell) net -= (tx.quantity || 0);
+    if (tx.type === TransactionType.TransferIn) net += (tx.quantity || 0);
+    if (tx.type === TransactionType.TransferOut) net -= (tx.quantity || 0);
+    const factor = getSplitFactor(tx);
+    if (factor !== null) net *= factor;
   });
   return net;
 };
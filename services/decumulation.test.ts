@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DecumulationParams, runDecumulation, simulateWithdrawalPath } from './decumulation';
+import { createReturnSampler } from './monteCarlo';
+import { buildDecumulationCsv } from './csvExport';
+
+const params: DecumulationParams = {
+  startValue: 100000,
+  years: 30,
+  strategy: 'fixed',
+  withdrawalRatePct: 4,
+  inflationPct: 2,
+  guardrailBandPct: 20,
+  guardrailAdjustmentPct: 10
+};
+
+const flat = (months: number, rate = 0) => Array(months).fill(rate);
+
+describe('decumulation strategies', () => {
+  it('flags the year a fixed withdrawal can no longer be paid', () => {
+    const path = simulateWithdrawalPath(flat(360), params);
+    expect(path.rows[0].withdrawal).toBe(4000);
+    expect(path.rows[24].endValue).toBeCloseTo(0, 8);
+    expect(path.depletedYear).toBe(26);
+    expect(path.totalWithdrawn).toBeCloseTo(100000, 8);
+  });
+
+  it('indexes withdrawals to inflation and keeps them constant in real terms', () => {
+    const path = simulateWithdrawalPath(flat(120, 0.01), { ...params, years: 10, strategy: 'inflationIndexed' });
+    expect(path.rows[5].withdrawal).toBeCloseTo(4000 * 1.02 ** 5, 8);
+    expect(path.rows[5].withdrawalReal).toBeCloseTo(4000, 8);
+    expect(path.depletedYear).toBeNull();
+  });
+
+  it('never depletes with a percentage of the portfolio', () => {
+    const path = simulateWithdrawalPath(flat(360), { ...params, strategy: 'percentage' });
+    expect(path.depletedYear).toBeNull();
+    expect(path.terminalValue).toBeCloseTo(100000 * 0.96 ** 30, 6);
+  });
+
+  it('skips the raise after a losing year and cuts when the rate breaks the upper guardrail', () => {
+    const returns = [...flat(12, -0.03), ...flat(24)];
+    const path = simulateWithdrawalPath(returns, { ...params, years: 3, strategy: 'guardrails' });
+    // After year 1: (100000 - 4000) * 0.97^12 ~ 66,960 -> 4000 / 66,960 ~ 6% > 4.8%, so cut by 10%
+    expect(path.rows[1].withdrawal).toBeCloseTo(3600, 8);
+    // Flat year 2: inflation raise, rate still above the band, cut again
+    expect(path.rows[2].withdrawal).toBeCloseTo(3600 * 1.02 * 0.9, 8);
+  });
+});
+
+describe('decumulation runs', () => {
+  it('rolls historical windows and reports the worst sequence', () => {
+    const monthlyReturns = [...flat(12, -0.04), ...flat(36, 0.01)];
+    const returnDates = monthlyReturns.map((_, i) => `${2000 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-28`);
+    const summary = runDecumulation({ ...params, years: 2 }, { kind: 'historical', monthlyReturns, returnDates });
+    expect(summary.pathCount).toBe(48 - 24 + 1);
+    expect(summary.worst?.label).toBe('Dal 2000-01');
+    expect(summary.successRatePct).toBe(100);
+    expect(summary.annual).toHaveLength(2);
+    expect(summary.annual[1].solventPct).toBe(100);
+
+    const short = runDecumulation(params, { kind: 'historical', monthlyReturns, returnDates });
+    expect(short.pathCount).toBe(0);
+    expect(short.warnings).toHaveLength(1);
+  });
+
+  it('runs on Monte Carlo paths and exports the annual table', () => {
+    const sampler = createReturnSampler({ model: 'normal', expectedReturnPct: 0, volatilityPct: 0, seed: 1 });
+    const summary = runDecumulation(params, { kind: 'montecarlo', sampler, paths: 50 });
+    expect(summary.pathCount).toBe(50);
+    expect(summary.successRatePct).toBe(0);
+    expect(summary.annual[25].solventPct).toBe(0);
+    expect(summary.annual[24].solventPct).toBe(100);
+
+    const csv = buildDecumulationCsv(summary, 'CHF').split('\n');
+    expect(csv).toHaveLength(31);
+    expect(csv[0].startsWith('Year,Currency,WithdrawalMedian')).toBe(true);
+    expect(csv[1].split(',').slice(0, 3)).toEqual(['1', 'CHF', '4000']);
+  });
+});
@@ -0,0 +1,219 @@
+import { MonteCarloBand, ReturnSampler, toPercentileBand } from './monteCarlo';
+
+export type WithdrawalStrategy = 'fixed' | 'inflationIndexed' | 'percentage' | 'guardrails';
+
+export const WITHDRAWAL_STRATEGY_LABELS: Record<WithdrawalStrategy, string> = {
+  fixed: 'Importo fisso nominale',
+  inflationIndexed: "Importo indicizzato all'inflazione",
+  percentage: 'Percentuale del portafoglio',
+  guardrails: 'Guardrail (Guyton-Klinger)'
+};
+
+export type DecumulationParams = {
+  startValue: number;
+  years: number;
+  strategy: WithdrawalStrategy;
+  // First-year withdrawal as % of the start value; for 'percentage' the yearly rate on the current value
+  withdrawalRatePct: number;
+  inflationPct: number;
+  // Guardrails: cut or raise the withdrawal when its current rate drifts this far from the initial one
+  guardrailBandPct: number;
+  guardrailAdjustmentPct: number;
+};
+
+export type DecumulationYear = {
+  year: number;
+  startValue: number;
+  withdrawal: number;
+  withdrawalReal: number;
+  returnPct: number;
+  endValue: number;
+};
+
+export type DecumulationPath = {
+  label: string;
+  rows: DecumulationYear[];
+  // Year in which the planned withdrawal could not be paid in full
+  depletedYear: number | null;
+  terminalValue: number;
+  terminalReal: number;
+  totalWithdrawn: number;
+};
+
+export type DecumulationAnnualRow = {
+  year: number;
+  withdrawalP50: number;
+  withdrawalRealP10: number;
+  withdrawalRealP50: number;
+  value: MonteCarloBand;
+  solventPct: number;
+};
+
+export type DecumulationSource =
+  | { kind: 'historical'; monthlyReturns: number[]; returnDates: string[] }
+  | { kind: 'montecarlo'; sampler: ReturnSampler; paths: number };
+
+export type DecumulationSummary = {
+  kind: DecumulationSource['kind'];
+  pathCount: number;
+  successRatePct: number;
+  worst: DecumulationPath | null;
+  terminal: MonteCarloBand;
+  terminalReal: MonteCarloBand;
+  annual: DecumulationAnnualRow[];
+  warnings: string[];
+};
+
+// Withdrawals are taken at the start of each year, then the rest earns that year's twelve monthly returns.
+// Guardrails follow Guyton-Klinger: no inflation raise after a losing year, and a cut / raise of
+// `guardrailAdjustmentPct` when the current rate leaves the band around the initial rate.
+export const simulateWithdrawalPath = (
+  monthlyReturns: ArrayLike<number>,
+  params: DecumulationParams,
+  label = ''
+): DecumulationPath => {
+  const years = Math.max(1, Math.round(params.years));
+  const inflation = 1 + params.inflationPct / 100;
+  const initialRate = Math.max(0, params.withdrawalRatePct) / 100;
+  const initialWithdrawal = Math.max(0, params.startValue) * initialRate;
+  const band = Math.max(0, params.guardrailBandPct) / 100;
+  const adjustment = Math.max(0, params.guardrailAdjustmentPct) / 100;
+
+  const rows: DecumulationYear[] = [];
+  let value = Math.max(0, params.startValue);
+  let previousPlanned = initialWithdrawal;
+  let previousReturn = 0;
+  let depletedYear: number | null = null;
+  let totalWithdrawn = 0;
+
+  for (let y = 0; y < years; y += 1) {
+    const startValue = value;
+    let planned = initialWithdrawal;
+    if (params.strategy === 'inflationIndexed') planned = initialWithdrawal * Math.pow(inflation, y);
+    if (params.strategy === 'percentage') planned = value * initialRate;
+    if (params.strategy === 'guardrails' && y > 0) {
+      planned = previousReturn < 0 ? previousPlanned : previousPlanned * inflation;
+      const currentRate = value > 0 ? planned / value : Infinity;
+      if (currentRate > initialRate * (1 + band)) planned *= 1 - adjustment;
+      else if (currentRate < initialRate * (1 - band)) planned *= 1 + adjustment;
+    }
+
+    const withdrawal = Math.min(planned, value);
+    if (depletedYear === null && planned - withdrawal > 1e-6) depletedYear = y + 1;
+    value -= withdrawal;
+    totalWithdrawn += withdrawal;
+
+    let growth = 1;
+    for (let m = y * 12; m < (y + 1) * 12; m += 1) growth *= 1 + (monthlyReturns[m] ?? 0);
+    value = Math.max(0, value * growth);
+
+    rows.push({
+      year: y + 1,
+      startValue,
+      withdrawal,
+      withdrawalReal: withdrawal / Math.pow(inflation, y),
+      returnPct: (growth - 1) * 100,
+      endValue: value
+    });
+    previousPlanned = planned;
+    previousReturn = growth - 1;
+  }
+
+  return {
+    label,
+    rows,
+    depletedYear,
+    terminalValue: value,
+    terminalReal: value / Math.pow(inflation, years),
+    totalWithdrawn
+  };
+};
+
+const isWorse = (candidate: DecumulationPath, current: DecumulationPath | null) => {
+  if (!current) return true;
+  const a = candidate.depletedYear ?? Infinity;
+  const b = current.depletedYear ?? Infinity;
+  if (a !== b) return a < b;
+  return candidate.terminalReal < current.terminalReal;
+};
+
+// Historical mode rolls a window starting at every month with a full horizon ahead of it
+export const runDecumulation = (params: DecumulationParams, source: DecumulationSource): DecumulationSummary => {
+  const years = Math.max(1, Math.round(params.years));
+  const months = years * 12;
+  const warnings: string[] = [];
+  const inputs: Array<{ label: string; returns: () => ArrayLike<number> }> = [];
+
+  if (source.kind === 'historical') {
+    const windows = source.monthlyReturns.length - months + 1;
+    if (windows <= 0) {
+      warnings.push(`Storico di ${Math.floor(source.monthlyReturns.length / 12)} anni: servono almeno ${years} anni di rendimenti mensili per l'orizzonte scelto.`);
+    }
+    for (let start = 0; start < windows; start += 1) {
+      inputs.push({
+        label: `Dal ${(source.returnDates[start] || '').slice(0, 7)}`,
+        returns: () => source.monthlyReturns.slice(start, start + months)
+      });
+    }
+  } else {
+    warnings.push(...source.sampler.warnings);
+    const buffer = new Float64Array(months);
+    for (let path = 0; path < Math.max(1, Math.round(source.paths)); path += 1) {
+      inputs.push({
+        label: `Percorso ${path + 1}`,
+        returns: () => {
+          for (let m = 0; m < months; m += 1) buffer[m] = source.sampler.draw();
+          return buffer;
+        }
+      });
+    }
+  }
+
+  const pathCount = inputs.length;
+  const withdrawals = Array.from({ length: years }, () => new Float64Array(pathCount));
+  const withdrawalsReal = Array.from({ length: years }, () => new Float64Array(pathCount));
+  const values = Array.from({ length: years }, () => new Float64Array(pathCount));
+  const solvent = new Float64Array(years);
+  const terminal = new Float64Array(pathCount);
+  const terminalReal = new Float64Array(pathCount);
+  let successes = 0;
+  let worst: DecumulationPath | null = null;
+
+  inputs.forEach((input, index) => {
+    const path = simulateWithdrawalPath(input.returns(), params, input.label);
+    path.rows.forEach((row, y) => {
+      withdrawals[y][index] = row.withdrawal;
+      withdrawalsReal[y][index] = row.withdrawalReal;
+      values[y][index] = row.endValue;
+      if (path.depletedYear === null || path.depletedYear > row.year) solvent[y] += 1;
+    });
+    terminal[index] = path.terminalValue;
+    terminalReal[index] = path.terminalReal;
+    if (path.depletedYear === null) successes += 1;
+    if (isWorse(path, worst)) worst = path;
+  });
+
+  const annual: DecumulationAnnualRow[] = withdrawals.map((_, y) => {
+    const nominalBand = toPercentileBand(y + 1, withdrawals[y]);
+    const realBand = toPercentileBand(y + 1, withdrawalsReal[y]);
+    return {
+      year: y + 1,
+      withdrawalP50: nominalBand.p50,
+      withdrawalRealP10: realBand.p10,
+      withdrawalRealP50: realBand.p50,
+      value: toPercentileBand(y + 1, values[y]),
+      solventPct: pathCount ? (solvent[y] / pathCount) * 100 : 0
+    };
+  });
+
+  return {
+    kind: source.kind,
+    pathCount,
+    successRatePct: pathCount ? (successes / pathCount) * 100 : 0,
+    worst,
+    terminal: toPercentileBand(years, terminal),
+    terminalReal: toPercentileBand(years, terminalReal),
+    annual: pathCount ? annual : [],
+    warnings
+  };
+};
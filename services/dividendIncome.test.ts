@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, Transaction, TransactionType } from '../types';
+import { buildDividendCalendar, computeDividendIncome } from './dividendIncome';
+import { calculateHoldings } from './financeUtils';
+import { computePositionCostBasis } from './positionCostBasis';
+import type { FxRateRow } from './fxService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2023-01-10T12:00:00'),
+  instrumentTicker: 'KO',
+  type: TransactionType.Buy,
+  quantity: 100,
+  price: 50,
+  fees: 0,
+  currency: Currency.USD,
+  account: 'IBKR',
+  ...overrides
+});
+
+const instruments: Instrument[] = [
+  { id: 1, ticker: 'KO', symbol: 'KO.US', name: 'Coca-Cola', type: AssetType.Stock, currency: Currency.USD, isin: 'US1912161007' },
+  { id: 2, ticker: 'NESN', symbol: 'NESN.SW', name: 'Nestle', type: AssetType.Stock, currency: Currency.CHF, isin: 'CH0038863350' }
+];
+
+const fxRates: FxRateRow[] = [
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2023-01-02', rate: 0.9 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-06-28', rate: 0.8 }
+];
+
+const dividend = (date: string, quantity: number, overrides: Partial<Transaction> = {}) =>
+  makeTx({ date: new Date(`${date}T12:00:00`), type: TransactionType.Dividend, quantity, price: 0, ...overrides });
+
+const history = (): Transaction[] => [
+  makeTx({}),
+  makeTx({ date: new Date('2023-02-01T12:00:00'), instrumentTicker: 'NESN', currency: Currency.CHF, quantity: 10, price: 100, account: 'PostFinance' }),
+  dividend('2023-05-02', 40),
+  dividend('2023-12-15', 42.5, { grossAmount: 50, withholdingTax: 7.5 }),
+  makeTx({ date: new Date('2024-02-01T12:00:00'), quantity: 100, price: 60 }),
+  dividend('2024-04-01', 85, { grossAmount: 100, withholdingTax: 15 }),
+  dividend('2024-04-25', 195, { instrumentTicker: 'NESN', currency: Currency.CHF, account: 'PostFinance', grossAmount: 300, withholdingTax: 105 })
+];
+
+const income = (txs = history()) => computeDividendIncome({
+  transactions: txs,
+  instruments,
+  fxRates,
+  baseCurrency: Currency.CHF,
+  asOfDate: '2024-06-30',
+  holdings: calculateHoldings(txs),
+  costBasis: computePositionCostBasis(txs)
+});
+
+describe('dividend income', () => {
+  it('groups payments per month and year in base currency', () => {
+    const summary = income();
+    expect(summary.annual.map(row => [row.year, row.payments])).toEqual([[2023, 2], [2024, 2]]);
+    expect(summary.annual[0].netBase).toBeCloseTo((40 + 42.5) * 0.9, 6);
+    expect(summary.annual[1].lostBase).toBeCloseTo(15 * 0.9, 6);
+    expect(summary.monthly[0].month).toBe('2023-05');
+    expect(summary.monthly[summary.monthly.length - 1].month).toBe('2024-06');
+    expect(summary.monthly.find(row => row.month === '2024-04')?.netBase).toBeCloseTo(85 * 0.9 + 195, 6);
+    expect(summary.monthly.find(row => row.month === '2024-01')?.netBase).toBe(0);
+    expect(summary.trailingNetBase).toBeCloseTo((42.5 + 85) * 0.9 + 195, 6);
+  });
+
+  it('projects trailing payments per share on the shares held today', () => {
+    const summary = income();
+    const ko = summary.instruments.find(row => row.ticker === 'KO');
+    // 0.5 per share on 100 shares, then 0.5 per share on 200 shares, all repeated on 200 shares
+    expect(ko?.forwardGrossBase).toBeCloseTo((100 + 100) * 0.8, 6);
+    expect(ko?.forwardNetBase).toBeCloseTo((85 + 85) * 0.8, 6);
+    expect(ko?.yieldOnCostPct).toBeCloseTo((200 / 11000) * 100, 6);
+    const nesn = summary.instruments.find(row => row.ticker === 'NESN');
+    expect(nesn?.yieldOnCostPct).toBeCloseTo(30, 6);
+    expect(summary.yieldOnCostPct).toBeCloseTo(((200 * 0.8 + 300) / (11000 * 0.8 + 1000)) * 100, 6);
+    expect(summary.missingFx).toEqual([]);
+  });
+
+  it('adjusts the forward estimate for splits after the payment', () => {
+    const txs = [
+      ...history(),
+      makeTx({ date: new Date('2024-05-15T12:00:00'), type: TransactionType.Split, quantity: 2, price: 0 })
+    ];
+    const ko = income(txs).instruments.find(row => row.ticker === 'KO');
+    expect(ko?.forwardGrossBase).toBeCloseTo(200 * 0.8, 6);
+  });
+
+  it('builds a month-by-month calendar per instrument', () => {
+    const calendar = buildDividendCalendar(income().payments, 2024);
+    expect(calendar.map(row => row.ticker)).toEqual(['NESN', 'KO']);
+    expect(calendar[1].months[3]).toBeCloseTo(85 * 0.9, 6);
+    expect(calendar[1].months.filter(value => value > 0)).toHaveLength(1);
+    expect(buildDividendCalendar(income().payments, 2022)).toEqual([]);
+  });
+});
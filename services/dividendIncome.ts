@@ -0,0 +1,255 @@
+import { format, subMonths } from 'date-fns';
+import { Currency, Instrument, Transaction, TransactionType, WithholdingRule } from '../types';
+import { applyCorporateActionToQuantities, buildSplitAdjuster, sortTransactionsForReplay } from './corporateActions';
+import { getDividendBreakdown, getWithholdingCountry, resolveWithholdingRule } from './dividendTax';
+import { convertAmountFromSeries, FxRateRow } from './fxService';
+import type { PositionCostBasis } from './positionCostBasis';
+import { applyTransferToQuantities, isTransfer } from './transfers';
+
+export type DividendPayment = {
+  date: string;
+  ticker?: string;
+  currency: Currency;
+  gross: number;
+  net: number;
+  grossBase: number;
+  netBase: number;
+  lostBase: number;
+  // Shares held when the payment was booked, 0 if unknown
+  sharesHeld: number;
+};
+
+export type DividendIncomeMonth = {
+  month: string;
+  grossBase: number;
+  netBase: number;
+};
+
+export type DividendIncomeYear = {
+  year: number;
+  payments: number;
+  grossBase: number;
+  netBase: number;
+  lostBase: number;
+};
+
+export type DividendIncomeInstrument = {
+  ticker: string;
+  name?: string;
+  currency: Currency;
+  payments: number;
+  lastPaymentDate: string;
+  totalNetBase: number;
+  trailingNetBase: number;
+  forwardGrossBase: number;
+  forwardNetBase: number;
+  yieldOnCostPct?: number;
+};
+
+export type DividendIncomeSummary = {
+  baseCurrency: Currency;
+  asOfDate: string;
+  payments: DividendPayment[];
+  monthly: DividendIncomeMonth[];
+  annual: DividendIncomeYear[];
+  instruments: DividendIncomeInstrument[];
+  trailingNetBase: number;
+  forwardGrossBase: number;
+  forwardNetBase: number;
+  yieldOnCostPct?: number;
+  missingFx: string[];
+};
+
+export type DividendIncomeArgs = {
+  transactions: Transaction[];
+  instruments: Instrument[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  asOfDate: string;
+  holdings: Map<string, number>;
+  costBasis?: Map<string, PositionCostBasis>;
+  rules?: Record<string, WithholdingRule>;
+};
+
+export type DividendCalendarRow = {
+  ticker: string;
+  months: number[];
+  totalNetBase: number;
+};
+
+const toYmd = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Shares held per ticker at the moment each dividend is booked, in replay order.
+const collectSharesAtPayment = (transactions: Transaction[]) => {
+  const quantities = new Map<string, number>();
+  const sharesAtPayment = new Map<Transaction, number>();
+  sortTransactionsForReplay(transactions).forEach(tx => {
+    const ticker = tx.instrumentTicker;
+    if (!ticker) return;
+    const current = quantities.get(ticker) || 0;
+    const qty = Number(tx.quantity || 0);
+    if (tx.type === TransactionType.Buy) quantities.set(ticker, current + qty);
+    else if (tx.type === TransactionType.Sell) quantities.set(ticker, current - qty);
+    else if (tx.type === TransactionType.Dividend) sharesAtPayment.set(tx, Math.max(current, 0));
+    else if (isTransfer(tx.type)) applyTransferToQuantities(quantities, tx);
+    else applyCorporateActionToQuantities(quantities, tx);
+  });
+  return sharesAtPayment;
+};
+
+const buildMonthRange = (first: string, last: string): string[] => {
+  const months: string[] = [];
+  let [year, month] = first.split('-').map(Number);
+  const [lastYear, lastMonth] = last.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+};
+
+// The forward estimate assumes the trailing 12 months of payments per share repeat on the shares held today.
+export const computeDividendIncome = (args: DividendIncomeArgs): DividendIncomeSummary => {
+  const { transactions, instruments, fxRates, baseCurrency, asOfDate, holdings, costBasis, rules } = args;
+  const instrumentByTicker = new Map(instruments.map(inst => [inst.ticker, inst]));
+  const sharesAtPayment = collectSharesAtPayment(transactions);
+  const splitAdjuster = buildSplitAdjuster(transactions);
+  const trailingStart = toYmd(subMonths(new Date(`${asOfDate}T12:00:00`), 12));
+  const missingFx = new Set<string>();
+
+  const payments: DividendPayment[] = [];
+  transactions.forEach(tx => {
+    if (tx.type !== TransactionType.Dividend) return;
+    const date = toYmd(tx.date);
+    if (date > asOfDate) return;
+    const instrument = tx.instrumentTicker ? instrumentByTicker.get(tx.instrumentTicker) : undefined;
+    const breakdown = getDividendBreakdown(tx, resolveWithholdingRule(getWithholdingCountry(instrument), rules));
+    const converted = convertAmountFromSeries(1, tx.currency, baseCurrency, date, fxRates);
+    if (!converted) {
+      missingFx.add(`${tx.currency}/${baseCurrency}`);
+      return;
+    }
+    const rate = converted.lookup.rate;
+    payments.push({
+      date,
+      ticker: tx.instrumentTicker,
+      currency: tx.currency,
+      gross: breakdown.gross,
+      net: breakdown.net,
+      grossBase: breakdown.gross * rate,
+      netBase: breakdown.net * rate,
+      lostBase: breakdown.lost * rate,
+      sharesHeld: sharesAtPayment.get(tx) || 0
+    });
+  });
+  payments.sort((a, b) => a.date.localeCompare(b.date));
+
+  const monthTotals = new Map<string, DividendIncomeMonth>();
+  const years = new Map<number, DividendIncomeYear>();
+  payments.forEach(payment => {
+    const month = payment.date.slice(0, 7);
+    const monthRow = monthTotals.get(month) || { month, grossBase: 0, netBase: 0 };
+    monthRow.grossBase += payment.grossBase;
+    monthRow.netBase += payment.netBase;
+    monthTotals.set(month, monthRow);
+
+    const year = Number(payment.date.slice(0, 4));
+    const yearRow = years.get(year) || { year, payments: 0, grossBase: 0, netBase: 0, lostBase: 0 };
+    yearRow.payments += 1;
+    yearRow.grossBase += payment.grossBase;
+    yearRow.netBase += payment.netBase;
+    yearRow.lostBase += payment.lostBase;
+    years.set(year, yearRow);
+  });
+  const monthly = payments.length
+    ? buildMonthRange(payments[0].date.slice(0, 7), asOfDate.slice(0, 7))
+      .map(month => monthTotals.get(month) || { month, grossBase: 0, netBase: 0 })
+    : [];
+
+  const byTicker = new Map<string, DividendPayment[]>();
+  payments.forEach(payment => {
+    if (!payment.ticker) return;
+    const list = byTicker.get(payment.ticker) || [];
+    list.push(payment);
+    byTicker.set(payment.ticker, list);
+  });
+
+  let costBaseTotal = 0;
+  let costGrossBaseTotal = 0;
+  const instrumentRows: DividendIncomeInstrument[] = [];
+  byTicker.forEach((list, ticker) => {
+    const instrument = instrumentByTicker.get(ticker);
+    const currency = list[list.length - 1].currency;
+    const trailing = list.filter(payment => payment.date > trailingStart);
+    const sharesNow = Math.max(holdings.get(ticker) || 0, 0);
+    let forwardGross = 0;
+    let forwardNet = 0;
+    trailing.forEach(payment => {
+      const shares = payment.sharesHeld * splitAdjuster(ticker, payment.date);
+      if (shares <= 0 || sharesNow <= 0) return;
+      forwardGross += (payment.gross / shares) * sharesNow;
+      forwardNet += (payment.net / shares) * sharesNow;
+    });
+    const spot = convertAmountFromSeries(1, currency, baseCurrency, asOfDate, fxRates);
+    if (!spot && forwardGross > 0) missingFx.add(`${currency}/${baseCurrency}`);
+    const spotRate = spot?.lookup.rate ?? 0;
+
+    let yieldOnCostPct: number | undefined;
+    const cost = costBasis?.get(ticker);
+    if (cost && cost.totalCost > 0 && forwardGross > 0) {
+      const costCurrency = cost.currency || currency;
+      const grossInCostCurrency = convertAmountFromSeries(forwardGross, currency, costCurrency, asOfDate, fxRates);
+      const costBase = convertAmountFromSeries(cost.totalCost, costCurrency, baseCurrency, asOfDate, fxRates);
+      if (grossInCostCurrency) yieldOnCostPct = (grossInCostCurrency.value / cost.totalCost) * 100;
+      if (costBase && spot) {
+        costBaseTotal += costBase.value;
+        costGrossBaseTotal += forwardGross * spotRate;
+      }
+    }
+
+    instrumentRows.push({
+      ticker,
+      name: instrument?.name,
+      currency,
+      payments: list.length,
+      lastPaymentDate: list[list.length - 1].date,
+      totalNetBase: list.reduce((sum, payment) => sum + payment.netBase, 0),
+      trailingNetBase: trailing.reduce((sum, payment) => sum + payment.netBase, 0),
+      forwardGrossBase: forwardGross * spotRate,
+      forwardNetBase: forwardNet * spotRate,
+      yieldOnCostPct
+    });
+  });
+  instrumentRows.sort((a, b) => b.forwardNetBase - a.forwardNetBase || b.totalNetBase - a.totalNetBase);
+
+  return {
+    baseCurrency,
+    asOfDate,
+    payments,
+    monthly,
+    annual: Array.from(years.values()).sort((a, b) => a.year - b.year),
+    instruments: instrumentRows,
+    trailingNetBase: payments.filter(payment => payment.date > trailingStart).reduce((sum, payment) => sum + payment.netBase, 0),
+    forwardGrossBase: instrumentRows.reduce((sum, row) => sum + row.forwardGrossBase, 0),
+    forwardNetBase: instrumentRows.reduce((sum, row) => sum + row.forwardNetBase, 0),
+    yieldOnCostPct: costBaseTotal > 0 ? (costGrossBaseTotal / costBaseTotal) * 100 : undefined,
+    missingFx: Array.from(missingFx)
+  };
+};
+
+// Net amounts in base currency per instrument and calendar month of the given year.
+export const buildDividendCalendar = (payments: DividendPayment[], year: number): DividendCalendarRow[] => {
+  const rows = new Map<string, DividendCalendarRow>();
+  payments.forEach(payment => {
+    if (!payment.ticker || Number(payment.date.slice(0, 4)) !== year) return;
+    const row = rows.get(payment.ticker) || { ticker: payment.ticker, months: new Array(12).fill(0), totalNetBase: 0 };
+    row.months[Number(payment.date.slice(5, 7)) - 1] += payment.netBase;
+    row.totalNetBase += payment.netBase;
+    rows.set(payment.ticker, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.totalNetBase - a.totalNetBase);
+};
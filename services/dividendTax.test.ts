@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, Transaction, TransactionType } from '../types';
+import { buildDividendTaxSummary, estimateWithholding, getDividendBreakdown, resolveWithholdingRule } from './dividendTax';
+import { buildNavSeriesDetailed } from './financeUtils';
+import { computePnlReport } from './pnlService';
+import type { FxRateRow } from './fxService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2024-04-15T12:00:00'),
+  instrumentTicker: 'NESN',
+  type: TransactionType.Dividend,
+  quantity: 0,
+  price: 0,
+  fees: 0,
+  currency: Currency.CHF,
+  account: 'PostFinance',
+  ...overrides
+});
+
+const instruments: Instrument[] = [
+  { id: 1, ticker: 'NESN', symbol: 'NESN.SW', name: 'Nestle', type: AssetType.Stock, currency: Currency.CHF, isin: 'CH0038863350' },
+  { id: 2, ticker: 'KO', symbol: 'KO.US', name: 'Coca-Cola', type: AssetType.Stock, currency: Currency.USD, isin: 'US1912161007' }
+];
+
+const fxRates: FxRateRow[] = [
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2023-01-02', rate: 0.9 }
+];
+
+const dividends = (): Transaction[] => [
+  makeTx({ quantity: 195, grossAmount: 300, withholdingTax: 105 }),
+  makeTx({ date: new Date('2024-07-01T12:00:00'), instrumentTicker: 'KO', currency: Currency.USD, quantity: 85, grossAmount: 100, withholdingTax: 15 }),
+  makeTx({ date: new Date('2023-10-02T12:00:00'), instrumentTicker: 'KO', currency: Currency.USD, quantity: 40 })
+];
+
+describe('dividend withholding tax', () => {
+  it('splits gross, withheld, reclaimable and net amounts', () => {
+    const ch = resolveWithholdingRule('CH');
+    expect(estimateWithholding(300, ch)).toEqual({ withheld: 105, reclaimable: 105, net: 195 });
+    expect(getDividendBreakdown(dividends()[0], ch)).toEqual({ gross: 300, withheld: 105, net: 195, reclaimable: 105, lost: 0 });
+    expect(getDividendBreakdown({ ...dividends()[0], reclaimableTax: 60 }, ch).lost).toBe(45);
+    expect(getDividendBreakdown(dividends()[2], resolveWithholdingRule('US'))).toEqual({ gross: 40, withheld: 0, net: 40, reclaimable: 0, lost: 0 });
+    expect(resolveWithholdingRule('US', { US: { rate: 0.3, reclaimableRate: 0.15 } })?.rate).toBe(0.3);
+  });
+
+  it('builds a yearly summary per source country in base currency', () => {
+    const summary = buildDividendTaxSummary({ transactions: dividends(), instruments, fxRates, baseCurrency: Currency.CHF });
+    expect(summary.years.map(row => row.year)).toEqual([2023, 2024]);
+    const year = summary.years[1];
+    expect(year.payments).toBe(2);
+    expect(year.grossBase).toBeCloseTo(300 + 90, 6);
+    expect(year.withheldBase).toBeCloseTo(105 + 13.5, 6);
+    expect(year.reclaimableBase).toBeCloseTo(105, 6);
+    expect(year.lostBase).toBeCloseTo(13.5, 6);
+    expect(year.netBase).toBeCloseTo(195 + 76.5, 6);
+    expect(year.countries.map(row => row.country)).toEqual(['CH', 'US']);
+    expect(summary.missingFx).toEqual([]);
+  });
+
+  it('credits the net amount in cash and reports the tax lost in the P&L', () => {
+    const deposit = makeTx({ date: new Date('2024-01-02T12:00:00'), type: TransactionType.Deposit, instrumentTicker: undefined, quantity: 1000 });
+    const txs = [deposit, ...dividends().slice(0, 2)];
+    const nav = buildNavSeriesDetailed(txs, instruments, [], 'daily', undefined, '2024-07-01', { fxRates, baseCurrency: Currency.CHF });
+    expect(nav[nav.length - 1].cashBalance).toBeCloseTo(1000 + 195 + 85 * 0.9, 6);
+
+    const report = computePnlReport({
+      transactions: txs,
+      instruments,
+      prices: [],
+      fxRates,
+      baseCurrency: Currency.CHF,
+      valuationDate: '2024-12-31'
+    });
+    expect(report.totals.dividendsBase).toBeCloseTo(195 + 85 * 0.9, 6);
+    expect(report.totals.withholdingLostBase).toBeCloseTo(15 * 0.9, 6);
+  });
+});
@@ -0,0 +1,141 @@
+import { format } from 'date-fns';
+import { Currency, Instrument, Transaction, TransactionType, WithholdingRule } from '../types';
+import { convertAmountFromSeries, FxRateRow } from './fxService';
+
+export type DividendBreakdown = {
+  gross: number;
+  withheld: number;
+  net: number;
+  reclaimable: number;
+  lost: number;
+};
+
+export type DividendTaxCountryRow = {
+  country: string;
+  grossBase: number;
+  withheldBase: number;
+  reclaimableBase: number;
+  lostBase: number;
+  netBase: number;
+};
+
+export type DividendTaxYearRow = DividendTaxCountryRow & {
+  year: number;
+  payments: number;
+  countries: DividendTaxCountryRow[];
+};
+
+export type DividendTaxSummary = {
+  baseCurrency: Currency;
+  years: DividendTaxYearRow[];
+  missingFx: string[];
+};
+
+// Swiss-resident defaults: the Verrechnungssteuer is refunded in full, abroad only the excess over
+// the treaty rate can be reclaimed from the source country.
+export const DEFAULT_WITHHOLDING_RULES: Record<string, WithholdingRule> = {
+  CH: { rate: 0.35, reclaimableRate: 0.35 },
+  US: { rate: 0.15, reclaimableRate: 0 },
+  DE: { rate: 0.26375, reclaimableRate: 0.11375 },
+  FR: { rate: 0.25, reclaimableRate: 0.1 },
+  IT: { rate: 0.26, reclaimableRate: 0.11 },
+  ES: { rate: 0.19, reclaimableRate: 0.04 },
+  AT: { rate: 0.275, reclaimableRate: 0.125 },
+  NL: { rate: 0.15, reclaimableRate: 0 },
+  CA: { rate: 0.25, reclaimableRate: 0.1 },
+  GB: { rate: 0, reclaimableRate: 0 },
+  IE: { rate: 0, reclaimableRate: 0 },
+  LU: { rate: 0, reclaimableRate: 0 }
+};
+
+export const UNKNOWN_COUNTRY = '??';
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export const getWithholdingCountry = (instrument?: Instrument): string | undefined => {
+  const prefix = (instrument?.isin || '').trim().toUpperCase().slice(0, 2);
+  return /^[A-Z]{2}$/.test(prefix) ? prefix : undefined;
+};
+
+export const resolveWithholdingRule = (
+  country: string | undefined,
+  overrides?: Record<string, WithholdingRule>
+): WithholdingRule | undefined => {
+  if (!country) return undefined;
+  return overrides?.[country] || DEFAULT_WITHHOLDING_RULES[country];
+};
+
+// Default split of a gross dividend, used to prefill the form and for rows imported without tax detail.
+export const estimateWithholding = (gross: number, rule?: WithholdingRule) => {
+  if (!rule || !Number.isFinite(gross) || gross <= 0) return { withheld: 0, reclaimable: 0, net: Math.max(gross, 0) || 0 };
+  const withheld = round(gross * rule.rate);
+  const reclaimable = round(Math.min(gross * rule.reclaimableRate, withheld));
+  return { withheld, reclaimable, net: round(gross - withheld) };
+};
+
+// Older rows only carry the net amount: gross = net and no tax.
+export const getDividendBreakdown = (tx: Transaction, rule?: WithholdingRule): DividendBreakdown => {
+  const net = Number(tx.quantity) || 0;
+  const withheld = Math.max(Number(tx.withholdingTax) || 0, 0);
+  const gross = Number.isFinite(Number(tx.grossAmount)) && Number(tx.grossAmount) > 0 ? Number(tx.grossAmount) : net + withheld;
+  const estimated = rule ? Math.min(gross * rule.reclaimableRate, withheld) : 0;
+  const reclaimable = Math.min(Math.max(tx.reclaimableTax ?? estimated, 0), withheld);
+  return { gross, withheld, net, reclaimable, lost: withheld - reclaimable };
+};
+
+const emptyCountryRow = (country: string): DividendTaxCountryRow => ({
+  country,
+  grossBase: 0,
+  withheldBase: 0,
+  reclaimableBase: 0,
+  lostBase: 0,
+  netBase: 0
+});
+
+const addBreakdown = (row: DividendTaxCountryRow, breakdown: DividendBreakdown, rate: number) => {
+  row.grossBase += breakdown.gross * rate;
+  row.withheldBase += breakdown.withheld * rate;
+  row.reclaimableBase += breakdown.reclaimable * rate;
+  row.lostBase += breakdown.lost * rate;
+  row.netBase += breakdown.net * rate;
+};
+
+export const buildDividendTaxSummary = (params: {
+  transactions: Transaction[];
+  instruments: Instrument[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  rules?: Record<string, WithholdingRule>;
+}): DividendTaxSummary => {
+  const { transactions, instruments, fxRates, baseCurrency, rules } = params;
+  const instrumentByTicker = new Map(instruments.map(inst => [inst.ticker, inst]));
+  const missingFx = new Set<string>();
+  const years = new Map<number, DividendTaxYearRow>();
+
+  transactions.forEach(tx => {
+    if (tx.type !== TransactionType.Dividend) return;
+    const date = format(tx.date, 'yyyy-MM-dd');
+    const country = getWithholdingCountry(tx.instrumentTicker ? instrumentByTicker.get(tx.instrumentTicker) : undefined) || UNKNOWN_COUNTRY;
+    const breakdown = getDividendBreakdown(tx, resolveWithholdingRule(country, rules));
+    const converted = convertAmountFromSeries(1, tx.currency, baseCurrency, date, fxRates);
+    if (!converted) {
+      missingFx.add(`${tx.currency}/${baseCurrency}`);
+      return;
+    }
+    const year = tx.date.getFullYear();
+    const yearRow = years.get(year) || { ...emptyCountryRow(''), year, payments: 0, countries: [] };
+    let countryRow = yearRow.countries.find(row => row.country === country);
+    if (!countryRow) {
+      countryRow = emptyCountryRow(country);
+      yearRow.countries.push(countryRow);
+    }
+    addBreakdown(yearRow, breakdown, converted.lookup.rate);
+    addBreakdown(countryRow, breakdown, converted.lookup.rate);
+    yearRow.payments += 1;
+    years.set(year, yearRow);
+  });
+
+  const sortedYears = Array.from(years.values()).sort((a, b) => a.year - b.year);
+  sortedYears.forEach(row => row.countries.sort((a, b) => b.grossBase - a.grossBase));
+  return { baseCurrency, years: sortedYears, missingFx: Array.from(missingFx) };
+};
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { EtfBreakdown } from '../types';
+import type { EtfBreakdownParseResult } from './etfLookThrough';
+import { isYmd } from './dateUtils';
+
+const nowIso = () => new Date().toISOString();
+
+export const listEtfBreakdowns = async (portfolioId: string): Promise<EtfBreakdown[]> => (
+  db.etfBreakdowns.where('portfolioId').equals(portfolioId).toArray()
+);
+
+// One breakdown per instrument: a new file replaces the previous one
+export const saveEtfBreakdown = async (params: {
+  portfolioId: string;
+  ticker: string;
+  asOfDate: string;
+  fileName?: string;
+  parsed: EtfBreakdownParseResult;
+}): Promise<number> => {
+  const { portfolioId, ticker, asOfDate, fileName, parsed } = params;
+  if (!ticker) throw new Error('Seleziona lo strumento');
+  if (!isYmd(asOfDate)) throw new Error('Data di riferimento non valida');
+  if (parsed.errors.length) throw new Error(parsed.errors[0]);
+  const fields: EtfBreakdown = {
+    portfolioId,
+    ticker,
+    asOfDate,
+    importedAt: nowIso(),
+    fileName,
+    holdingsCount: parsed.holdingsCount || undefined,
+    country: parsed.country,
+    sector: parsed.sector,
+    currency: parsed.currency
+  };
+  const existing = await db.etfBreakdowns.where('[portfolioId+ticker]').equals([portfolioId, ticker]).first();
+  if (existing?.id) {
+    await db.etfBreakdowns.update(existing.id, fields);
+    return existing.id;
+  }
+  return Number(await db.etfBreakdowns.add(fields));
+};
+
+export const deleteEtfBreakdown = async (id: number): Promise<void> => {
+  await db.etfBreakdowns.delete(id);
+};
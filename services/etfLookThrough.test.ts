@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AssetClass, AssetType, Currency, EtfBreakdown, Instrument, PortfolioState } from '../types';
+import { calculateRegionExposure } from './financeUtils';
+import { computeLookThroughExposure, LOOK_THROUGH_UNCOVERED, parseEtfBreakdownCsv } from './etfLookThrough';
+
+const ISHARES_HOLDINGS = [
+  'iShares Core MSCI World UCITS ETF',
+  'Fund Holdings as of,"Sep 30, 2024"',
+  'Inception Date,"Sep 25, 2009"',
+  '',
+  'Ticker,Name,Sector,Asset Class,Market Value,Weight (%),Notional Value,Shares,Price,Location,Exchange,Market Currency',
+  'AAPL,APPLE INC,Information Technology,Equity,"1,000.00",5.00,"1,000.00",10,100,United States,NASDAQ,USD',
+  'MSFT,MICROSOFT CORP,Information Technology,Equity,"900.00",4.50,"900.00",5,180,United States,NASDAQ,USD',
+  'NESN,NESTLE SA,Consumer Staples,Equity,"100.00",0.50,"100.00",1,100,Switzerland,SIX Swiss Exchange,CHF',
+  'USD,USD CASH,Cash and/or Derivatives,Cash,"-10.00",-0.05,"-10.00",-10,1,United States,-,USD',
+  '',
+  '"The content contained herein is owned or licensed by BlackRock"'
+].join('\n');
+
+const instruments: Instrument[] = [
+  { ticker: 'SWDA.SW', name: 'World', type: AssetType.ETF, assetClass: AssetClass.ETF_STOCK, currency: Currency.CHF, isin: 'IE00B4L5Y983' },
+  { ticker: 'EIMI.SW', name: 'EM', type: AssetType.ETF, assetClass: AssetClass.ETF_STOCK, currency: Currency.CHF, isin: 'IE00BKM4GZ66' },
+  { ticker: 'ROG.SW', name: 'Roche', type: AssetType.Stock, currency: Currency.CHF, isin: 'CH0012032048', sector: 'Health Care' }
+];
+
+const breakdown = (overrides: Partial<EtfBreakdown> = {}): EtfBreakdown => ({
+  ticker: 'SWDA.SW',
+  asOfDate: '2024-09-30',
+  importedAt: '2024-10-01T00:00:00.000Z',
+  country: { US: 75, JP: 25 },
+  sector: { 'Information Technology': 100 },
+  currency: { USD: 75, JPY: 25 },
+  ...overrides
+});
+
+describe('ETF look-through', () => {
+  it('parses an issuer holdings file with preamble, footer and negative cash weights', () => {
+    const parsed = parseEtfBreakdownCsv(ISHARES_HOLDINGS);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.format).toBe('holdings');
+    expect(parsed.asOfDate).toBe('2024-09-30');
+    expect(parsed.holdingsCount).toBe(4);
+    expect(parsed.country).toEqual({ US: 95, CH: 5 });
+    expect(parsed.sector['Information Technology']).toBeCloseTo(95, 6);
+    expect(parsed.currency).toEqual({ USD: 95, CHF: 5 });
+  });
+
+  it('parses a ready-made breakdown with decimal commas', () => {
+    const parsed = parseEtfBreakdownCsv([
+      'Data;31.08.2024',
+      'Tipo;Voce;Peso',
+      'Paese;Stati Uniti;60,5',
+      'Paese;Taiwan;39,5',
+      'Valuta;usd;100',
+      'Altro;x;1'
+    ].join('\n'));
+    expect(parsed.format).toBe('breakdown');
+    expect(parsed.asOfDate).toBe('2024-08-31');
+    expect(parsed.country).toEqual({ US: 60.5, TW: 39.5 });
+    expect(parsed.currency).toEqual({ USD: 100 });
+    expect(parsed.sector).toEqual({});
+    expect(parsed.warnings[0]).toContain('1 righe ignorate');
+  });
+
+  it('reports files without a weight column', () => {
+    const parsed = parseEtfBreakdownCsv('Ticker,Name,Location\nAAPL,Apple,United States');
+    expect(parsed.errors.length).toBeGreaterThan(0);
+  });
+
+  it('splits fund value by the breakdown and flags stale or missing data', () => {
+    const exposure = computeLookThroughExposure({
+      positions: [
+        { ticker: 'SWDA.SW', valueBase: 8000 },
+        { ticker: 'EIMI.SW', valueBase: 1000 },
+        { ticker: 'ROG.SW', valueBase: 1000 }
+      ],
+      instruments,
+      breakdowns: [breakdown()],
+      dimension: 'country',
+      referenceDate: '2025-03-31'
+    });
+    const byKey = Object.fromEntries(exposure.rows.map(row => [row.key, row.value]));
+    expect(byKey).toEqual({ US: 6000, JP: 2000, CH: 1000, [LOOK_THROUGH_UNCOVERED]: 1000 });
+    expect(exposure.rows[exposure.rows.length - 1].key).toBe(LOOK_THROUGH_UNCOVERED);
+    expect(exposure.lookThroughValue).toBe(8000);
+    expect(exposure.missingFunds).toEqual(['EIMI.SW']);
+    expect(exposure.stale).toEqual([{ ticker: 'SWDA.SW', asOfDate: '2024-09-30', ageDays: 182 }]);
+  });
+
+  it('drives the region exposure instead of the ISIN domicile', () => {
+    const state = {
+      positions: [{ ticker: 'SWDA.SW', currentValueCHF: 1000 }],
+      totalValue: 1000
+    } as unknown as PortfolioState;
+    expect(calculateRegionExposure(state, instruments).map(r => r.region)).toEqual(['EU']);
+    const regions = calculateRegionExposure(state, instruments, [breakdown()]);
+    expect(regions.map(r => [r.region, r.value])).toEqual([['NA', 750], ['AS', 250]]);
+  });
+});
@@ -0,0 +1,448 @@
+import { AssetClass, AssetType, EtfBreakdown, Instrument, LookThroughDimension, RegionKey, SectorKey } from '../types';
+import { diffDaysYmd, isYmd } from './dateUtils';
+import { getSectorLabel, toSectorKey } from './sectors';
+
+// Issuers publish holdings at least monthly: older files no longer describe the fund
+export const ETF_BREAKDOWN_STALE_DAYS = 90;
+
+export const LOOK_THROUGH_DIMENSION_LABELS: Record<LookThroughDimension, string> = {
+  country: 'Paese',
+  sector: 'Settore',
+  currency: 'Valuta sottostante'
+};
+
+// Value of funds without a breakdown (or rows the issuer left blank)
+export const LOOK_THROUGH_UNCOVERED = 'UNCOVERED';
+
+type CountryInfo = { code: string; label: string; region: RegionKey; aliases: string[] };
+
+const COUNTRIES: CountryInfo[] = [
+  { code: 'CH', label: 'Svizzera', region: 'CH', aliases: ['switzerland', 'svizzera', 'schweiz', 'suisse'] },
+  { code: 'US', label: 'Stati Uniti', region: 'NA', aliases: ['united states', 'united states of america', 'usa', 'stati uniti', 'u.s.'] },
+  { code: 'CA', label: 'Canada', region: 'NA', aliases: ['canada'] },
+  { code: 'GB', label: 'Regno Unito', region: 'EU', aliases: ['united kingdom', 'uk', 'great britain', 'regno unito'] },
+  { code: 'IE', label: 'Irlanda', region: 'EU', aliases: ['ireland', 'irlanda'] },
+  { code: 'DE', label: 'Germania', region: 'EU', aliases: ['germany', 'germania', 'deutschland'] },
+  { code: 'FR', label: 'Francia', region: 'EU', aliases: ['france', 'francia'] },
+  { code: 'IT', label: 'Italia', region: 'EU', aliases: ['italy', 'italia'] },
+  { code: 'ES', label: 'Spagna', region: 'EU', aliases: ['spain', 'spagna'] },
+  { code: 'PT', label: 'Portogallo', region: 'EU', aliases: ['portugal', 'portogallo'] },
+  { code: 'NL', label: 'Paesi Bassi', region: 'EU', aliases: ['netherlands', 'the netherlands', 'paesi bassi', 'olanda'] },
+  { code: 'BE', label: 'Belgio', region: 'EU', aliases: ['belgium', 'belgio'] },
+  { code: 'LU', label: 'Lussemburgo', region: 'EU', aliases: ['luxembourg', 'lussemburgo'] },
+  { code: 'AT', label: 'Austria', region: 'EU', aliases: ['austria'] },
+  { code: 'DK', label: 'Danimarca', region: 'EU', aliases: ['denmark', 'danimarca'] },
+  { code: 'SE', label: 'Svezia', region: 'EU', aliases: ['sweden', 'svezia'] },
+  { code: 'NO', label: 'Norvegia', region: 'EU', aliases: ['norway', 'norvegia'] },
+  { code: 'FI', label: 'Finlandia', region: 'EU', aliases: ['finland', 'finlandia'] },
+  { code: 'PL', label: 'Polonia', region: 'EU', aliases: ['poland', 'polonia'] },
+  { code: 'GR', label: 'Grecia', region: 'EU', aliases: ['greece', 'grecia'] },
+  { code: 'CZ', label: 'Repubblica Ceca', region: 'EU', aliases: ['czech republic', 'czechia', 'repubblica ceca'] },
+  { code: 'HU', label: 'Ungheria', region: 'EU', aliases: ['hungary', 'ungheria'] },
+  { code: 'TR', label: 'Turchia', region: 'EU', aliases: ['turkey', 'turkiye', 'turchia'] },
+  { code: 'JP', label: 'Giappone', region: 'AS', aliases: ['japan', 'giappone'] },
+  { code: 'CN', label: 'Cina', region: 'AS', aliases: ['china', 'cina'] },
+  { code: 'HK', label: 'Hong Kong', region: 'AS', aliases: ['hong kong'] },
+  { code: 'TW', label: 'Taiwan', region: 'AS', aliases: ['taiwan'] },
+  { code: 'KR', label: 'Corea del Sud', region: 'AS', aliases: ['korea', 'south korea', 'korea (south)', 'corea del sud'] },
+  { code: 'IN', label: 'India', region: 'AS', aliases: ['india'] },
+  { code: 'SG', label: 'Singapore', region: 'AS', aliases: ['singapore'] },
+  { code: 'ID', label: 'Indonesia', region: 'AS', aliases: ['indonesia'] },
+  { code: 'TH', label: 'Thailandia', region: 'AS', aliases: ['thailand', 'thailandia'] },
+  { code: 'MY', label: 'Malesia', region: 'AS', aliases: ['malaysia', 'malesia'] },
+  { code: 'PH', label: 'Filippine', region: 'AS', aliases: ['philippines', 'filippine'] },
+  { code: 'IL', label: 'Israele', region: 'AS', aliases: ['israel', 'israele'] },
+  { code: 'SA', label: 'Arabia Saudita', region: 'AS', aliases: ['saudi arabia', 'arabia saudita'] },
+  { code: 'AE', label: 'Emirati Arabi Uniti', region: 'AS', aliases: ['united arab emirates', 'uae', 'emirati arabi uniti'] },
+  { code: 'QA', label: 'Qatar', region: 'AS', aliases: ['qatar'] },
+  { code: 'AU', label: 'Australia', region: 'OC', aliases: ['australia'] },
+  { code: 'NZ', label: 'Nuova Zelanda', region: 'OC', aliases: ['new zealand', 'nuova zelanda'] },
+  { code: 'BR', label: 'Brasile', region: 'LATAM', aliases: ['brazil', 'brasile'] },
+  { code: 'MX', label: 'Messico', region: 'LATAM', aliases: ['mexico', 'messico'] },
+  { code: 'CL', label: 'Cile', region: 'LATAM', aliases: ['chile', 'cile'] },
+  { code: 'CO', label: 'Colombia', region: 'LATAM', aliases: ['colombia'] },
+  { code: 'PE', label: 'Perù', region: 'LATAM', aliases: ['peru', 'perù'] },
+  { code: 'AR', label: 'Argentina', region: 'LATAM', aliases: ['argentina'] },
+  { code: 'ZA', label: 'Sudafrica', region: 'AF', aliases: ['south africa', 'sudafrica'] },
+  { code: 'EG', label: 'Egitto', region: 'AF', aliases: ['egypt', 'egitto'] },
+  { code: 'NG', label: 'Nigeria', region: 'AF', aliases: ['nigeria'] }
+];
+
+const COUNTRY_BY_CODE = new Map(COUNTRIES.map(country => [country.code, country]));
+const COUNTRY_BY_ALIAS = new Map(COUNTRIES.flatMap(country => country.aliases.map(alias => [alias, country] as const)));
+
+export const normalizeCountryKey = (raw: string): string => {
+  const value = raw.trim();
+  if (!value) return LOOK_THROUGH_UNCOVERED;
+  const upper = value.toUpperCase();
+  if (COUNTRY_BY_CODE.has(upper)) return upper;
+  return COUNTRY_BY_ALIAS.get(value.toLowerCase())?.code || value;
+};
+
+export const getCountryRegion = (key: string): RegionKey => COUNTRY_BY_CODE.get(key)?.region || 'OTHER';
+
+export const getLookThroughLabel = (dimension: LookThroughDimension, key: string) => {
+  if (key === LOOK_THROUGH_UNCOVERED) return 'Non coperto';
+  if (dimension === 'country') return COUNTRY_BY_CODE.get(key)?.label || key;
+  if (dimension === 'sector') {
+    const sectorKey = toSectorKey(key);
+    return sectorKey ? getSectorLabel(sectorKey) : key;
+  }
+  return key;
+};
+
+// --- CSV parsing ---
+
+export type EtfBreakdownParseResult = {
+  format: 'holdings' | 'breakdown' | null;
+  asOfDate: string | null;
+  holdingsCount: number;
+  country: Record<string, number>;
+  sector: Record<string, number>;
+  currency: Record<string, number>;
+  warnings: string[];
+  errors: string[];
+};
+
+const WEIGHT_ALIASES = ['weight (%)', 'weight', 'weight %', '% weight', 'weighting', '% of net assets', '% of fund', 'peso', 'peso (%)', 'peso %', 'gewichtung', 'gewichtung (%)'];
+const COUNTRY_ALIASES = ['location', 'country', 'location of risk', 'country of risk', 'paese', 'nazione', 'land'];
+const SECTOR_ALIASES = ['sector', 'gics sector', 'settore', 'sektor'];
+const CURRENCY_ALIASES = ['market currency', 'currency', 'local currency', 'valuta', 'währung'];
+const DIMENSION_ALIASES = ['dimension', 'type', 'breakdown', 'tipo', 'dimensione'];
+const LABEL_ALIASES = ['label', 'name', 'nome', 'voce'];
+
+const DIMENSION_VALUES: Record<string, LookThroughDimension> = {
+  country: 'country', paese: 'country', location: 'country',
+  sector: 'sector', settore: 'sector',
+  currency: 'currency', valuta: 'currency'
+};
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (char === delimiter && !inQuotes) {
+      result.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  result.push(current);
+  return result.map(cell => cell.trim());
+};
+
+const detectDelimiter = (line: string) => {
+  const counts = [';', ',', '\t'].map(delimiter => ({ delimiter, count: line.split(delimiter).length - 1 }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+const parseWeight = (raw: string): number | null => {
+  const cleaned = raw.replace(/[\s'%]/g, '');
+  if (!cleaned || cleaned === '-') return null;
+  let normalized = cleaned;
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    normalized = lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    normalized = cleaned.replace(',', '.');
+  }
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+// Issuer preambles carry the date as "Sep 30, 2024", "30/09/2024", "30.09.2024" or ISO
+export const findAsOfDate = (lines: string[]): string | null => {
+  for (const line of lines) {
+    let match = line.match(/(\d{4})-(\d{2})-(\d{2})/);
+    if (match && isYmd(match[0])) return match[0];
+    match = line.match(/\b(\d{1,2})[./](\d{1,2})[./](\d{4})\b/);
+    if (match) {
+      const ymd = `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+      if (isYmd(ymd)) return ymd;
+    }
+    match = line.match(/\b([A-Za-z]{3})[a-z]*\.? (\d{1,2}), (\d{4})\b/);
+    if (match && MONTHS[match[1].toLowerCase()]) return `${match[3]}-${MONTHS[match[1].toLowerCase()]}-${match[2].padStart(2, '0')}`;
+    match = line.match(/\b(\d{1,2})[- ]([A-Za-z]{3})[a-z]*[- ](\d{4})\b/);
+    if (match && MONTHS[match[2].toLowerCase()]) return `${match[3]}-${MONTHS[match[2].toLowerCase()]}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+const findColumn = (header: string[], aliases: string[]) => {
+  for (const alias of aliases) {
+    const idx = header.indexOf(alias);
+    if (idx >= 0) return idx;
+  }
+  return -1;
+};
+
+// Weights are rescaled to 100% of the positive weights: cash, futures and rounding otherwise skew the mix
+const normalizeWeights = (weights: Map<string, number>): Record<string, number> => {
+  const total = Array.from(weights.values()).reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return {};
+  const result: Record<string, number> = {};
+  Array.from(weights.entries())
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([key, value]) => {
+      result[key] = Math.round((value / total) * 1e6) / 1e4;
+    });
+  return result;
+};
+
+const addWeight = (map: Map<string, number>, key: string, weight: number) => {
+  map.set(key, (map.get(key) || 0) + weight);
+};
+
+const normalizeDimensionKey = (dimension: LookThroughDimension, raw: string) => {
+  if (dimension === 'country') return normalizeCountryKey(raw);
+  const value = raw.trim();
+  if (!value || value === '-') return LOOK_THROUGH_UNCOVERED;
+  return dimension === 'currency' ? value.toUpperCase() : value;
+};
+
+// Accepts a holdings file (one row per security with weight and country / sector / currency columns)
+// or a ready breakdown (dimension, label, weight).
+export const parseEtfBreakdownCsv = (text: string): EtfBreakdownParseResult => {
+  const result: EtfBreakdownParseResult = {
+    format: null,
+    asOfDate: null,
+    holdingsCount: 0,
+    country: {},
+    sector: {},
+    currency: {},
+    warnings: [],
+    errors: []
+  };
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.slice(0, 40).findIndex(line => {
+    const cells = splitCsvLine(line, detectDelimiter(line)).map(cell => cell.toLowerCase());
+    return findColumn(cells, WEIGHT_ALIASES) >= 0;
+  });
+  if (headerIndex < 0) {
+    result.errors.push('Colonna peso non trovata (es. "Weight (%)" o "Peso")');
+    return result;
+  }
+
+  const delimiter = detectDelimiter(lines[headerIndex]);
+  const header = splitCsvLine(lines[headerIndex], delimiter).map(cell => cell.toLowerCase());
+  const weightIdx = findColumn(header, WEIGHT_ALIASES);
+  const dimensionIdx = findColumn(header, DIMENSION_ALIASES);
+  const labelIdx = findColumn(header, LABEL_ALIASES);
+  const columns: Record<LookThroughDimension, number> = {
+    country: findColumn(header, COUNTRY_ALIASES),
+    sector: findColumn(header, SECTOR_ALIASES),
+    currency: findColumn(header, CURRENCY_ALIASES)
+  };
+  result.asOfDate = findAsOfDate(lines.slice(0, headerIndex));
+
+  const weights: Record<LookThroughDimension, Map<string, number>> = {
+    country: new Map(),
+    sector: new Map(),
+    currency: new Map()
+  };
+  const dimensions = Object.keys(columns) as LookThroughDimension[];
+  let skipped = 0;
+
+  if (dimensionIdx >= 0 && labelIdx >= 0 && dimensions.every(dimension => columns[dimension] < 0)) {
+    result.format = 'breakdown';
+    lines.slice(headerIndex + 1).forEach(line => {
+      if (!line.trim()) return;
+      const cells = splitCsvLine(line, delimiter);
+      const dimension = DIMENSION_VALUES[(cells[dimensionIdx] || '').toLowerCase()];
+      const weight = parseWeight(cells[weightIdx] || '');
+      if (!dimension || weight === null) {
+        skipped += 1;
+        return;
+      }
+      if (weight > 0) addWeight(weights[dimension], normalizeDimensionKey(dimension, cells[labelIdx] || ''), weight);
+    });
+  } else {
+    if (dimensions.every(dimension => columns[dimension] < 0)) {
+      result.errors.push('Nessuna colonna paese, settore o valuta trovata');
+      return result;
+    }
+    result.format = 'holdings';
+    lines.slice(headerIndex + 1).forEach(line => {
+      if (!line.trim()) return;
+      const cells = splitCsvLine(line, delimiter);
+      const weight = parseWeight(cells[weightIdx] || '');
+      // Footer notes and disclaimers have no numeric weight
+      if (weight === null) {
+        skipped += 1;
+        return;
+      }
+      result.holdingsCount += 1;
+      if (weight <= 0) return;
+      dimensions.forEach(dimension => {
+        if (columns[dimension] < 0) return;
+        addWeight(weights[dimension], normalizeDimensionKey(dimension, cells[columns[dimension]] || ''), weight);
+      });
+    });
+  }
+
+  dimensions.forEach(dimension => {
+    result[dimension] = normalizeWeights(weights[dimension]);
+  });
+  if (dimensions.every(dimension => !Object.keys(result[dimension]).length)) {
+    result.errors.push('Nessuna riga con peso valido');
+  }
+  if (skipped > 0) result.warnings.push(`${skipped} righe ignorate (peso o dimensione non validi)`);
+  if (!result.asOfDate) result.warnings.push('Data di riferimento non trovata nel file: indicala manualmente');
+  const unknownCountries = Object.keys(result.country).filter(key => key !== LOOK_THROUGH_UNCOVERED && !COUNTRY_BY_CODE.has(key));
+  if (unknownCountries.length) {
+    result.warnings.push(`Paesi senza regione (conteggiati in "Altri"): ${unknownCountries.slice(0, 5).join(', ')}${unknownCountries.length > 5 ? '…' : ''}`);
+  }
+  return result;
+};
+
+// --- Exposure ---
+
+export const isBreakdownStale = (asOfDate: string, referenceDate: string, maxAgeDays = ETF_BREAKDOWN_STALE_DAYS) => (
+  diffDaysYmd(referenceDate, asOfDate) > maxAgeDays
+);
+
+const isFund = (instrument: Instrument) => (
+  instrument.type === AssetType.ETF
+  || instrument.assetClass === AssetClass.ETF_STOCK
+  || instrument.assetClass === AssetClass.ETF_BOND
+);
+
+// Direct holdings describe themselves: ISIN country, own sector, trading currency
+const directExposureKey = (instrument: Instrument, dimension: LookThroughDimension) => {
+  if (dimension === 'country') {
+    const prefix = (instrument.isin || '').slice(0, 2).toUpperCase();
+    return COUNTRY_BY_CODE.has(prefix) ? prefix : LOOK_THROUGH_UNCOVERED;
+  }
+  if (dimension === 'sector') return instrument.sector?.trim() || LOOK_THROUGH_UNCOVERED;
+  return instrument.currency ? String(instrument.currency).toUpperCase() : LOOK_THROUGH_UNCOVERED;
+};
+
+export type LookThroughRow = {
+  key: string;
+  label: string;
+  value: number;
+  pct: number;
+};
+
+export type StaleBreakdown = {
+  ticker: string;
+  asOfDate: string;
+  ageDays: number;
+};
+
+export type LookThroughExposure = {
+  dimension: LookThroughDimension;
+  rows: LookThroughRow[];
+  totalValue: number;
+  // Value attributed through an issuer breakdown
+  lookThroughValue: number;
+  // Funds held without a breakdown for this dimension
+  missingFunds: string[];
+  stale: StaleBreakdown[];
+};
+
+export const computeLookThroughExposure = ({
+  positions,
+  instruments,
+  breakdowns,
+  dimension,
+  referenceDate
+}: {
+  positions: Array<{ ticker: string; valueBase: number }>;
+  instruments: Instrument[];
+  breakdowns: EtfBreakdown[];
+  dimension: LookThroughDimension;
+  referenceDate: string;
+}): LookThroughExposure => {
+  const instrumentByTicker = new Map(instruments.map(instrument => [instrument.symbol || instrument.ticker, instrument]));
+  const breakdownByTicker = new Map(breakdowns.map(breakdown => [breakdown.ticker, breakdown]));
+  const totals = new Map<string, number>();
+  const missingFunds: string[] = [];
+  const stale: StaleBreakdown[] = [];
+  let totalValue = 0;
+  let lookThroughValue = 0;
+
+  positions.forEach(position => {
+    if (!(position.valueBase > 0)) return;
+    totalValue += position.valueBase;
+    const instrument = instrumentByTicker.get(position.ticker);
+    const breakdown = breakdownByTicker.get(position.ticker);
+    const weights = breakdown?.[dimension] || {};
+    const weightSum = Object.values(weights).reduce((sum, value) => sum + value, 0);
+
+    if (breakdown && weightSum > 0) {
+      lookThroughValue += position.valueBase;
+      Object.entries(weights).forEach(([key, weight]) => {
+        addWeight(totals, key, position.valueBase * (weight / weightSum));
+      });
+      if (referenceDate && isBreakdownStale(breakdown.asOfDate, referenceDate)) {
+        stale.push({ ticker: position.ticker, asOfDate: breakdown.asOfDate, ageDays: diffDaysYmd(referenceDate, breakdown.asOfDate) });
+      }
+      return;
+    }
+
+    if (!instrument || isFund(instrument)) {
+      if (instrument) missingFunds.push(position.ticker);
+      addWeight(totals, LOOK_THROUGH_UNCOVERED, position.valueBase);
+      return;
+    }
+    addWeight(totals, directExposureKey(instrument, dimension), position.valueBase);
+  });
+
+  const rows = Array.from(totals.entries())
+    .map(([key, value]) => ({
+      key,
+      label: getLookThroughLabel(dimension, key),
+      value,
+      pct: totalValue > 0 ? (value / totalValue) * 100 : 0
+    }))
+    .sort((a, b) => {
+      if (a.key === LOOK_THROUGH_UNCOVERED) return 1;
+      if (b.key === LOOK_THROUGH_UNCOVERED) return -1;
+      return b.value - a.value;
+    });
+
+  return { dimension, rows, totalValue, lookThroughValue, missingFunds, stale };
+};
+
+// Region split implied by the country breakdown, or null when the fund has none
+export const getBreakdownRegionAllocation = (breakdown?: EtfBreakdown): Partial<Record<RegionKey, number>> | null => {
+  const entries = Object.entries(breakdown?.country || {}).filter(([, weight]) => weight > 0);
+  if (!entries.length) return null;
+  const regions: Partial<Record<RegionKey, number>> = {};
+  entries.forEach(([key, weight]) => {
+    const region = key === LOOK_THROUGH_UNCOVERED ? 'UNASSIGNED' : getCountryRegion(key);
+    regions[region] = (regions[region] || 0) + weight;
+  });
+  return regions;
+};
+
+// Issuer sector labels folded into the sector keys; unknown labels count as 'OTHER'
+export const getBreakdownSectorAllocation = (breakdown?: EtfBreakdown): Partial<Record<SectorKey, number>> | null => {
+  const entries = Object.entries(breakdown?.sector || {}).filter(([, weight]) => weight > 0);
+  if (!entries.length) return null;
+  const sectors: Partial<Record<SectorKey, number>> = {};
+  entries.forEach(([key, weight]) => {
+    const sector = key === LOOK_THROUGH_UNCOVERED ? 'UNASSIGNED' : (toSectorKey(key) || 'OTHER');
+    sectors[sector] = (sectors[sector] || 0) + weight;
+  });
+  return sectors;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { computeAlternativeTer, evaluateTerSwitch, projectFeeDrag } from './feeDrag';
+
+const input = {
+  startValue: 100000,
+  years: 30,
+  grossReturnPct: 5,
+  annualContribution: 0,
+  currentTerPct: 0.5,
+  alternativeTerPct: 0.1,
+  tradeFeePct: 0,
+  switchCost: 0
+};
+
+describe('fee drag projection', () => {
+  it('compounds TER against the gross growth', () => {
+    const projection = projectFeeDrag(input);
+    const last = projection.points[30];
+    expect(projection.points).toHaveLength(31);
+    expect(last.noCost).toBeCloseTo(100000 * 1.05 ** 30, 6);
+    expect(last.current).toBeCloseTo(100000 * (1.05 * 0.995) ** 30, 6);
+    expect(last.alternative).toBeCloseTo(100000 * (1.05 * 0.999) ** 30, 6);
+    expect(last.difference).toBeCloseTo(last.alternative - last.current, 8);
+    expect(projection.breakEvenYear).toBe(0);
+  });
+
+  it('finds the year a switch cost is recovered and charges fees on contributions', () => {
+    const projection = projectFeeDrag({ ...input, switchCost: 1000 });
+    // Saving ~0.4% of ~100k a year: about three years to recover 1000
+    expect(projection.breakEvenYear).toBe(3);
+    expect(projection.points[1].difference).toBeLessThan(0);
+
+    const withFees = projectFeeDrag({ ...input, startValue: 0, years: 1, grossReturnPct: 0, currentTerPct: 0, annualContribution: 1000, tradeFeePct: 1 });
+    expect(withFees.points[1].current).toBeCloseTo(990, 8);
+    expect(withFees.points[1].noCost).toBeCloseTo(1000, 8);
+  });
+
+  it('weights replacements on the holdings with a known TER', () => {
+    const ter = computeAlternativeTer([
+      { ticker: 'AAA', valueBase: 3000, terPct: 0.4 },
+      { ticker: 'BBB', valueBase: 1000, terPct: 0.2 },
+      { ticker: 'CCC', valueBase: 5000 }
+    ], { AAA: 0.1 });
+    expect(ter.currentTerPct).toBeCloseTo(0.35, 10);
+    expect(ter.alternativeTerPct).toBeCloseTo(0.125, 10);
+    expect(ter.switchedValueBase).toBe(3000);
+    expect(ter.coveredValueBase).toBe(4000);
+  });
+
+  it('includes fees and tax on gains in the switch evaluation', () => {
+    const base = {
+      valueBase: 10000,
+      currentTerPct: 0.5,
+      alternativeTerPct: 0.2,
+      tradeFeePct: 0.1,
+      realizedGainBase: 2000,
+      taxRatePct: 0,
+      grossReturnPct: 5,
+      horizonYears: 10
+    };
+    const untaxed = evaluateTerSwitch(base);
+    expect(untaxed.switchCost).toBeCloseTo(20, 8);
+    expect(untaxed.annualSavingBase).toBeCloseTo(30, 8);
+    expect(untaxed.breakEvenYear).toBe(1);
+
+    const taxed = evaluateTerSwitch({ ...base, taxRatePct: 25 });
+    expect(taxed.switchCost).toBeCloseTo(520, 8);
+    expect(taxed.paysOff).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+export type FeeDragInput = {
+  startValue: number;
+  years: number;
+  grossReturnPct: number;
+  annualContribution: number;
+  currentTerPct: number;
+  alternativeTerPct: number;
+  // Paid on every contribution, in both allocations
+  tradeFeePct: number;
+  // One-off cost of moving to the alternative (fees and taxes), taken from it at year 0
+  switchCost: number;
+};
+
+export type FeeDragPoint = {
+  year: number;
+  current: number;
+  alternative: number;
+  noCost: number;
+  difference: number;
+};
+
+export type FeeDragProjection = {
+  points: FeeDragPoint[];
+  breakEvenYear: number | null;
+  terPaidCurrent: number;
+  terPaidAlternative: number;
+};
+
+export type FeeDragPosition = {
+  ticker: string;
+  valueBase: number;
+  terPct?: number;
+};
+
+export type TerSwitchEvaluation = {
+  switchCost: number;
+  annualSavingBase: number;
+  breakEvenYear: number | null;
+  paysOff: boolean;
+};
+
+export const FEE_DRAG_HORIZONS = [10, 20, 30];
+
+// Contributions go in at the start of each year; TER is charged on the year-end value.
+export const projectFeeDrag = (input: FeeDragInput): FeeDragProjection => {
+  const years = Math.max(1, Math.round(input.years));
+  const growth = 1 + input.grossReturnPct / 100;
+  const terCurrent = Math.max(0, input.currentTerPct) / 100;
+  const terAlternative = Math.max(0, input.alternativeTerPct) / 100;
+  const netContribution = Math.max(0, input.annualContribution) * (1 - Math.max(0, input.tradeFeePct) / 100);
+
+  let current = Math.max(0, input.startValue);
+  let alternative = Math.max(0, current - Math.max(0, input.switchCost));
+  let noCost = current;
+  let terPaidCurrent = 0;
+  let terPaidAlternative = 0;
+  let breakEvenYear: number | null = alternative >= current ? 0 : null;
+  const points: FeeDragPoint[] = [{ year: 0, current, alternative, noCost, difference: alternative - current }];
+
+  for (let year = 1; year <= years; year += 1) {
+    const currentGross = (current + netContribution) * growth;
+    const alternativeGross = (alternative + netContribution) * growth;
+    terPaidCurrent += currentGross * terCurrent;
+    terPaidAlternative += alternativeGross * terAlternative;
+    current = currentGross * (1 - terCurrent);
+    alternative = alternativeGross * (1 - terAlternative);
+    noCost = (noCost + Math.max(0, input.annualContribution)) * growth;
+    if (breakEvenYear === null && alternative >= current) breakEvenYear = year;
+    points.push({ year, current, alternative, noCost, difference: alternative - current });
+  }
+
+  return { points, breakEvenYear, terPaidCurrent, terPaidAlternative };
+};
+
+// Weighted TER before and after replacing some holdings; positions without TER are left out of both
+export const computeAlternativeTer = (
+  positions: FeeDragPosition[],
+  replacements: Record<string, number | undefined>
+) => {
+  let covered = 0;
+  let currentCost = 0;
+  let alternativeCost = 0;
+  let switchedValueBase = 0;
+  positions.forEach(position => {
+    if (!(position.valueBase > 0) || typeof position.terPct !== 'number' || !Number.isFinite(position.terPct)) return;
+    const replacement = replacements[position.ticker];
+    const hasReplacement = typeof replacement === 'number' && Number.isFinite(replacement) && replacement >= 0;
+    covered += position.valueBase;
+    currentCost += position.valueBase * position.terPct;
+    alternativeCost += position.valueBase * (hasReplacement ? replacement : position.terPct);
+    if (hasReplacement) switchedValueBase += position.valueBase;
+  });
+  return {
+    currentTerPct: covered > 0 ? currentCost / covered : 0,
+    alternativeTerPct: covered > 0 ? alternativeCost / covered : 0,
+    coveredValueBase: covered,
+    switchedValueBase
+  };
+};
+
+// Selling and re-buying pays the trade fee twice; tax applies to the realized gain only
+export const evaluateTerSwitch = ({
+  valueBase,
+  currentTerPct,
+  alternativeTerPct,
+  tradeFeePct,
+  realizedGainBase,
+  taxRatePct,
+  grossReturnPct,
+  horizonYears
+}: {
+  valueBase: number;
+  currentTerPct: number;
+  alternativeTerPct: number;
+  tradeFeePct: number;
+  realizedGainBase: number;
+  taxRatePct: number;
+  grossReturnPct: number;
+  horizonYears: number;
+}): TerSwitchEvaluation => {
+  const switchCost = valueBase * (2 * Math.max(0, tradeFeePct) / 100)
+    + Math.max(0, realizedGainBase) * (Math.max(0, taxRatePct) / 100);
+  const projection = projectFeeDrag({
+    startValue: valueBase,
+    years: horizonYears,
+    grossReturnPct,
+    annualContribution: 0,
+    currentTerPct,
+    alternativeTerPct,
+    tradeFeePct,
+    switchCost
+  });
+  return {
+    switchCost,
+    annualSavingBase: valueBase * (currentTerPct - alternativeTerPct) / 100,
+    breakEvenYear: projection.breakEvenYear,
+    paysOff: projection.breakEvenYear !== null
+  };
+};
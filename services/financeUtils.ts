@@ -1,8 +1,14 @@
-import { Transaction, TransactionType, Instrument, PricePoint, PortfolioState, PortfolioPosition, PerformancePoint, AssetType, Currency, AssetClass, RegionKey } from '../types';
+import { Transaction, TransactionType, Instrument, PricePoint, PortfolioState, PortfolioPosition, PerformancePoint, AssetType, Currency, AssetClass, RegionKey, EtfBreakdown, SectorKey } from '../types';
 import { format, startOfMonth, endOfMonth, eachMonthOfInterval, isValid, getYear, eachDayOfInterval } from 'date-fns';
 import { fillMissingPrices, PriceFillMeta } from './priceBackfill';
 import { diffDaysYmd, isYmd, parseYmdLocal } from './dateUtils';
 import { convertAmountFromSeries, FxRateRow } from './fxService';
+import { applyTransactionToCash, CashBalance, CashLedger, hasCashTracking, listCashBalances } from './cashLedger';
+import { applyCorporateActionToQuantities, buildSplitAdjuster, isCorporateAction, sortTransactionsForReplay } from './corporateActions';
+import { applyTransferToQuantities, isTransfer } from './transfers';
+import { DEFAULT_RISK_FREE_RATE } from './riskMetrics';
+import { getBreakdownRegionAllocation, getBreakdownSectorAllocation } from './etfLookThrough';
+import { getSectorLabel, toSectorKey } from './sectors';
 
 // Helper sicuro per gestire date che potrebbero essere stringhe o oggetti Date
 const toDateSafe = (dateInput: string | Date | number): Date => {
@@ -89,7 +95,8 @@ export const buildBenchmarkComparisonSeries = ({
   fxRates,
   instruments,
   benchmarkTicker,
-  baseCurrency
+  baseCurrency,
+  fxPivots
 }: {
   chartHistory: { date: string }[];
   prices: PricePoint[];
@@ -97,6 +104,7 @@ export const buildBenchmarkComparisonSeries = ({
   instruments: Instrument[];
   benchmarkTicker: string;
   baseCurrency: Currency;
+  fxPivots?: Currency[];
 }): BenchmarkSeriesResult => {
   const byDate = new Map<string, BenchmarkPoint>();
   if (!benchmarkTicker || !chartHistory.length) return { byDate };
@@ -147,7 +155,7 @@ export const buildBenchmarkComparisonSeries = ({
     let priceBase = filled.close;
     let fxDate: string | undefined;
     if (needsFx) {
-      const converted = convertAmountFromSeries(filled.close, benchmarkCurrency, baseCurrency, dateStr, fxSeries);
+      const converted = convertAmountFromSeries(filled.close, benchmarkCurrency, baseCurrency, dateStr, fxSeries, { pivots: fxPivots });
       if (!converted) {
         missingFx = true;
         return;
@@ -277,11 +285,13 @@ export const getValuationDateForHoldings = (
 // Build a lookup of transactions by ticker (sorted desc by date)
 const buildTxPriceMap = (transactions: Transaction[]) => {
   const map = new Map<string, { dateStr: string, price: number }[]>();
+  const splitAdjust = buildSplitAdjuster(transactions);
   transactions.forEach(t => {
-    if (!t.instrumentTicker) return;
+    if (!t.instrumentTicker || isCorporateAction(t.type) || isTransfer(t.type)) return;
     const dateStr = toDateString(t.date);
     const arr = map.get(t.instrumentTicker) || [];
-    arr.push({ dateStr, price: t.price });
+    // Express trade prices in the same split-adjusted terms as the price series
+    arr.push({ dateStr, price: t.price / splitAdjust(t.instrumentTicker, dateStr) });
     map.set(t.instrumentTicker, arr);
   });
   map.forEach(arr => arr.sort((a, b) => b.dateStr.localeCompare(a.dateStr)));
@@ -371,13 +381,15 @@ export const calculatePortfolioState = (
 
   // 2. Calculate Positions (Quantity)
   const holdingsMap = new Map<string, number>();
-  transactions.forEach(t => {
+  sortTransactionsForReplay(transactions).forEach(t => {
     if (!t.instrumentTicker) return;
     const current = holdingsMap.get(t.instrumentTicker) || 0;
     const qty = t.quantity || 0;
 
     if (t.type === TransactionType.Buy) holdingsMap.set(t.instrumentTicker, current + qty);
     else if (t.type === TransactionType.Sell) holdingsMap.set(t.instrumentTicker, current - qty);
+    else if (isTransfer(t.type)) applyTransferToQuantities(holdingsMap, t);
+    else applyCorporateActionToQuantities(holdingsMap, t);
   });
 
   // 3. Calculate Values
@@ -441,7 +453,20 @@ export const calculatePortfolioState = (
 
 export type Granularity = 'monthly' | 'daily';
 
+// Pivots are the preferred cross currencies, as in getFxPivots(settings)
+type BaseCurrencyFx = { fxRates: FxRateRow[]; baseCurrency: Currency; pivots?: Currency[] };
+
 type Cashflow = { date: string; amount: number };
+// Quantity is split-adjusted, so quantity × price stays comparable across a split.
+export type NavPositionValue = {
+  ticker: string;
+  currency: Currency;
+  quantity: number;
+  price: number;
+  fxRate: number;
+  valueBaseCcy: number;
+};
+
 export type NavDetailPoint = {
   date: string;
   navBaseCcy: number;
@@ -449,6 +474,8 @@ export type NavDetailPoint = {
   cashBalance: number;
   externalFlow: number;
   internalFlow: number;
+  cashBalances: CashBalance[];
+  positions: NavPositionValue[];
   fxUsed: Record<string, number>;
   missingPriceTickers: string[];
   backfilledPriceTickers: string[];
@@ -501,13 +528,48 @@ export const getPortfolioDateBounds = (
   };
 };
 
+// A cross-portfolio transfer moves value over the portfolio boundary: the incoming leg counts as a deposit
+// and the outgoing one as a withdrawal, at the market value of the shares on the transfer date.
+const isCrossPortfolioTransfer = (t: Transaction) => isTransfer(t.type) && Boolean(t.instrumentTicker && t.counterpartyPortfolioId);
+
+type TransferFlowValuer = (t: Transaction) => { amount: number; currency: Currency };
+
+// Without a rate the flow is left out, as the NAV series does
+const transferFlowToBase = (flow: { amount: number; currency: Currency }, dateStr: string, fx?: BaseCurrencyFx): number | null => {
+  if (!fx || flow.currency === fx.baseCurrency) return flow.amount;
+  const converted = convertAmountFromSeries(flow.amount, flow.currency, fx.baseCurrency, dateStr, fx.fxRates, { pivots: fx.pivots });
+  return converted ? converted.value : null;
+};
+
+const buildTransferFlowValuer = (
+  transactions: Transaction[],
+  instruments: Instrument[] = [],
+  prices: PricePoint[] = []
+): TransferFlowValuer => {
+  const splitAdjust = buildSplitAdjuster(transactions);
+  const canonicalByTicker = new Map(instruments.map(inst => [getInstrumentKey(inst), getCanonicalTicker(inst)]));
+  return t => {
+    const ticker = t.instrumentTicker as string;
+    const dateStr = toDateString(t.date);
+    const qty = t.quantity || 0;
+    const point = getLatestPricePoint(canonicalByTicker.get(ticker) || ticker, dateStr, prices);
+    // Without a quote the price recorded on the transfer is used
+    const value = point ? qty * splitAdjust(ticker, dateStr) * point.close : qty * (t.price || 0);
+    return {
+      amount: t.type === TransactionType.TransferIn ? value : -value,
+      currency: point?.currency || t.currency
+    };
+  };
+};
+
 export const buildNavSeriesDetailed = (
   transactions: Transaction[],
   instruments: Instrument[],
   prices: PricePoint[],
   granularity: Granularity = 'daily',
   fromDate?: string,
-  endDate?: string
+  endDate?: string,
+  fx?: BaseCurrencyFx
 ): NavDetailPoint[] => {
   if (!transactions.length) return [];
 
@@ -540,65 +602,82 @@ export const buildNavSeriesDetailed = (
   ).filter(Boolean);
   const { filledByTicker } = fillMissingPrices(prices, dateIndex, { tickers: priceTickers });
 
-  const trackCash = transactions.some(t => t.type === TransactionType.Deposit || t.type === TransactionType.Withdrawal);
+  const trackCash = hasCashTracking(transactions);
+  const replay = sortTransactionsForReplay(transactions);
+  const splitAdjust = buildSplitAdjuster(transactions);
   const runningQty = new Map<string, number>();
-  let cashRunning = 0;
+  // Cash is held per account and currency, each balance valued through FX like a position
+  const cashLedger: CashLedger = new Map();
 
   const applyTransactionToRunning = (t: Transaction) => {
     const qty = t.quantity || 0;
-    const price = t.price || 0;
-    const fees = t.fees || 0;
 
     if (t.instrumentTicker) {
       const current = runningQty.get(t.instrumentTicker) || 0;
       if (t.type === TransactionType.Buy) runningQty.set(t.instrumentTicker, current + qty);
       else if (t.type === TransactionType.Sell) runningQty.set(t.instrumentTicker, current - qty);
+      else if (isTransfer(t.type)) applyTransferToQuantities(runningQty, t);
+      else applyCorporateActionToQuantities(runningQty, t);
     }
 
-    if (trackCash) {
-      if (t.type === TransactionType.Buy) cashRunning -= (qty * price) + fees;
-      if (t.type === TransactionType.Sell) cashRunning += (qty * price) - fees;
-      if (t.type === TransactionType.Deposit) cashRunning += (t.quantity || 0);
-      if (t.type === TransactionType.Withdrawal) cashRunning -= (t.quantity || 0);
-      if (t.type === TransactionType.Dividend) cashRunning += (t.quantity || 0);
-      if (t.type === TransactionType.Fee) cashRunning -= fees;
-    }
+    if (trackCash) applyTransactionToCash(cashLedger, t);
   };
 
   const rangeStartStr = format(startDate, 'yyyy-MM-dd');
-  transactions.forEach(t => {
+  replay.forEach(t => {
     const tDateStr = toDateString(t.date);
     if (tDateStr < rangeStartStr) applyTransactionToRunning(t);
   });
 
   const hasExternal = transactions.some(t => t.type === TransactionType.Deposit || t.type === TransactionType.Withdrawal);
+  const transferFlow = buildTransferFlowValuer(transactions, uniqueInstruments, prices);
 
   return dateIndex.map(dateStr => {
     let externalFlow = 0;
     let internalFlow = 0;
+    const fxUsed: Record<string, number> = {};
+    const missingFxSet = new Set<string>();
+    const fxRateFor = (currency: Currency): number | null => {
+      if (!fx || currency === fx.baseCurrency) return 1;
+      if (fxUsed[currency] !== undefined) return fxUsed[currency];
+      if (missingFxSet.has(`${currency}/${fx.baseCurrency}`)) return null;
+      const converted = convertAmountFromSeries(1, currency, fx.baseCurrency, dateStr, fx.fxRates, { pivots: fx.pivots });
+      if (!converted) {
+        missingFxSet.add(`${currency}/${fx.baseCurrency}`);
+        return null;
+      }
+      fxUsed[currency] = converted.lookup.rate;
+      return converted.lookup.rate;
+    };
 
-    transactions.forEach(t => {
+    replay.forEach(t => {
       const tDateStr = toDateString(t.date);
       if (tDateStr !== dateStr) return;
+      // Without a rate the flow is left out and the pair is reported in missingFxPairs
+      const flowFx = fxRateFor(t.currency);
       const qty = t.quantity || 0;
       const price = t.price || 0;
       const fees = t.fees || 0;
 
-      if (hasExternal) {
-        if (t.type === TransactionType.Deposit) externalFlow += qty;
-        if (t.type === TransactionType.Withdrawal) externalFlow -= qty;
-        if (t.type === TransactionType.Buy) internalFlow -= (qty * price) + fees;
-        if (t.type === TransactionType.Sell) internalFlow += (qty * price) - fees;
-      } else {
-        if (!t.instrumentTicker) return;
-        if (t.type === TransactionType.Buy) externalFlow += (qty * price) + fees;
-        if (t.type === TransactionType.Sell) externalFlow -= (qty * price) - fees;
+      if (isCrossPortfolioTransfer(t)) {
+        const flow = transferFlow(t);
+        const transferFx = fxRateFor(flow.currency);
+        if (transferFx !== null) externalFlow += flow.amount * transferFx;
+      } else if (flowFx !== null && hasExternal) {
+        if (t.type === TransactionType.Deposit) externalFlow += qty * flowFx;
+        if (t.type === TransactionType.Withdrawal) externalFlow -= qty * flowFx;
+        if (t.type === TransactionType.Buy) internalFlow -= ((qty * price) + fees) * flowFx;
+        if (t.type === TransactionType.Sell) internalFlow += ((qty * price) - fees) * flowFx;
+      } else if (flowFx !== null && t.instrumentTicker) {
+        if (t.type === TransactionType.Buy) externalFlow += ((qty * price) + fees) * flowFx;
+        if (t.type === TransactionType.Sell) externalFlow -= ((qty * price) - fees) * flowFx;
       }
 
       applyTransactionToRunning(t);
     });
 
     let holdingsValue = 0;
+    const positions: NavPositionValue[] = [];
     const missingPriceTickers: string[] = [];
     const backfilledPriceSet = new Set<string>();
 
@@ -626,31 +705,50 @@ export const buildNavSeriesDetailed = (
         return;
       }
 
+      const currency = (filled?.currency || instr.currency || fx?.baseCurrency) as Currency;
+      const fxRate = fxRateFor(currency);
+      if (fxRate === null) return;
+
       if (isBackfilled) {
         backfilledPriceSet.add(priceTicker);
       }
 
-      holdingsValue += qty * price;
+      const quantity = qty * splitAdjust(instrumentKey, dateStr);
+      const valueBaseCcy = quantity * price * fxRate;
+      holdingsValue += valueBaseCcy;
+      positions.push({ ticker: instrumentKey, currency, quantity, price, fxRate, valueBaseCcy });
     });
 
-    const navBaseCcy = holdingsValue + (trackCash ? cashRunning : 0);
+    const cashBalances = trackCash ? listCashBalances(cashLedger) : [];
+    const cashBalance = cashBalances.reduce((sum, balance) => {
+      const fxRate = fxRateFor(balance.currency);
+      return fxRate === null ? sum : sum + balance.amount * fxRate;
+    }, 0);
+    const navBaseCcy = holdingsValue + cashBalance;
 
     return {
       date: dateStr,
       navBaseCcy,
       holdingsValue,
-      cashBalance: trackCash ? cashRunning : 0,
+      cashBalance,
       externalFlow,
       internalFlow,
-      fxUsed: {},
+      cashBalances,
+      positions,
+      fxUsed,
       missingPriceTickers,
       backfilledPriceTickers: Array.from(backfilledPriceSet),
-      missingFxPairs: []
+      missingFxPairs: Array.from(missingFxSet)
     };
   });
 };
 
-const buildExternalFlows = (transactions: Transaction[], granularity: Granularity): Cashflow[] => {
+const buildExternalFlows = (
+  transactions: Transaction[],
+  granularity: Granularity,
+  transferFlow: TransferFlowValuer,
+  fx?: BaseCurrencyFx
+): Cashflow[] => {
   const flows: Cashflow[] = [];
   const hasExternal = transactions.some(t => t.type === TransactionType.Deposit || t.type === TransactionType.Withdrawal);
   transactions.forEach(t => {
@@ -659,6 +757,12 @@ const buildExternalFlows = (transactions: Transaction[], granularity: Granularit
       ? format(endOfMonth(baseDate), 'yyyy-MM-dd')
       : format(baseDate, 'yyyy-MM-dd');
 
+    if (isCrossPortfolioTransfer(t)) {
+      const amount = transferFlowToBase(transferFlow(t), toDateString(t.date), fx);
+      if (amount !== null) flows.push({ date: dateStr, amount });
+      return;
+    }
+
     if (hasExternal) {
       if (t.type !== TransactionType.Deposit && t.type !== TransactionType.Withdrawal) return;
       const amount = t.type === TransactionType.Deposit ? (t.quantity || 0) : -(t.quantity || 0);
@@ -680,7 +784,7 @@ const buildExternalFlows = (transactions: Transaction[], granularity: Granularit
   return sumCashflowsByDate(flows);
 };
 
-const buildMwrrCashflows = (transactions: Transaction[]): Cashflow[] => {
+const buildMwrrCashflows = (transactions: Transaction[], transferFlow: TransferFlowValuer, fx?: BaseCurrencyFx): Cashflow[] => {
   const hasExternal = transactions.some(t => t.type === TransactionType.Deposit || t.type === TransactionType.Withdrawal);
   const cashflows: Cashflow[] = [];
 
@@ -694,6 +798,10 @@ const buildMwrrCashflows = (transactions: Transaction[]): Cashflow[] => {
     if (t.type === TransactionType.Withdrawal) cashflows.push({ date: dateStr, amount: qty });
     if (t.type === TransactionType.Dividend) cashflows.push({ date: dateStr, amount: qty });
     if (t.type === TransactionType.Fee) cashflows.push({ date: dateStr, amount: -(fees || qty) });
+    if (isCrossPortfolioTransfer(t)) {
+      const amount = transferFlowToBase(transferFlow(t), dateStr, fx);
+      if (amount !== null) cashflows.push({ date: dateStr, amount: -amount });
+    }
 
     if (!hasExternal && t.instrumentTicker) {
       if (t.type === TransactionType.Buy) cashflows.push({ date: dateStr, amount: -((qty * price) + fees) });
@@ -704,15 +812,18 @@ const buildMwrrCashflows = (transactions: Transaction[]): Cashflow[] => {
   return sumCashflowsByDate(cashflows);
 };
 
-export const computeMwrrSeries = (
-  history: PerformancePoint[],
-  transactions: Transaction[]
-): { date: string; mwrrPct: number }[] => {
-  if (history.length === 0) return [];
+// Quotes and FX used to value cross-portfolio transfers; without quotes the transfer price is used
+export type MwrrMarketData = { instruments: Instrument[]; prices: PricePoint[]; fx?: BaseCurrencyFx };
 
+// Flows of the window covered by `history`: the value held before the start enters as an initial outflow
+const buildMwrrWindowFlows = (history: PerformancePoint[], transactions: Transaction[], market?: MwrrMarketData) => {
   const startDate = history[0].date;
   const endDate = history[history.length - 1].date;
-  const cashflowsAll = buildMwrrCashflows(transactions);
+  const cashflowsAll = buildMwrrCashflows(
+    transactions,
+    buildTransferFlowValuer(transactions, market?.instruments, market?.prices),
+    market?.fx
+  );
   const hasBeforeStart = cashflowsAll.some(cf => cf.date < startDate);
   const cashflowsInRange = cashflowsAll.filter(cf => cf.date >= startDate && cf.date <= endDate);
 
@@ -721,11 +832,34 @@ export const computeMwrrSeries = (
     .filter(cf => cf.date === startDate)
     .reduce((sum, cf) => sum + cf.amount, 0);
   const initialAmount = startValue - startNetFlow;
-  const initialFlow = hasBeforeStart && initialAmount > 0
+  const initialFlow: Cashflow | null = hasBeforeStart && initialAmount > 0
     ? { date: startDate, amount: -initialAmount }
     : null;
 
   const flowsSorted = [...cashflowsInRange].sort((a, b) => a.date.localeCompare(b.date));
+  return { startDate, initialFlow, flowsSorted };
+};
+
+// Annualized MWRR of the whole window, or null when XIRR does not converge
+export const computeMwrrForRange = (
+  history: PerformancePoint[],
+  transactions: Transaction[],
+  market?: MwrrMarketData
+): number | null => {
+  if (history.length < 2) return null;
+  const { initialFlow, flowsSorted } = buildMwrrWindowFlows(history, transactions, market);
+  const last = history[history.length - 1];
+  return computeXIRR([...(initialFlow ? [initialFlow] : []), ...flowsSorted, { date: last.date, amount: last.value }]);
+};
+
+export const computeMwrrSeries = (
+  history: PerformancePoint[],
+  transactions: Transaction[],
+  market?: MwrrMarketData
+): { date: string; mwrrPct: number }[] => {
+  if (history.length === 0) return [];
+
+  const { startDate, initialFlow, flowsSorted } = buildMwrrWindowFlows(history, transactions, market);
   const activeFlows: Cashflow[] = initialFlow ? [initialFlow] : [];
   let flowIdx = 0;
 
@@ -748,7 +882,8 @@ export const calculateHistoricalPerformance = (
   instruments: Instrument[],
   prices: PricePoint[],
   monthsBack: number = 60, // Increased default history
-  granularity: Granularity = 'monthly'
+  granularity: Granularity = 'monthly',
+  fx?: BaseCurrencyFx
 ): {
   history: PerformancePoint[],
   assetHistory: Record<string, { date: string, pct: number }[]>,
@@ -771,6 +906,7 @@ export const calculateHistoricalPerformance = (
 
   Object.values(AssetType).forEach(t => assetHistory[t] = []);
   Object.values(Currency).forEach(c => currencyHistory[c] = []);
+  uniqueInstruments.forEach(inst => { if (inst.currency) currencyHistory[inst.currency] = []; });
 
   if (transactions.length === 0) {
     return { history, assetHistory, currencyHistory, priceFillMeta };
@@ -790,8 +926,20 @@ export const calculateHistoricalPerformance = (
   }
   if (end < start) end = start;
 
-  const externalFlows = buildExternalFlows(transactions, granularity);
-  const trackCash = transactions.some(t => t.type === TransactionType.Deposit || t.type === TransactionType.Withdrawal);
+  const externalFlows = buildExternalFlows(transactions, granularity, buildTransferFlowValuer(transactions, uniqueInstruments, prices), fx);
+  const trackCash = hasCashTracking(transactions);
+  // Holdings and cash are valued in the base currency like the NAV series; amounts without a rate are left out
+  const toBase = (amount: number, currency: Currency | undefined, dateStr: string): number | null => {
+    if (!fx || !currency || currency === fx.baseCurrency) return amount;
+    const converted = convertAmountFromSeries(amount, currency, fx.baseCurrency, dateStr, fx.fxRates, { pivots: fx.pivots });
+    return converted ? converted.value : null;
+  };
+  const valueCash = (ledger: CashLedger, dateStr: string) => listCashBalances(ledger).reduce((sum, balance) => {
+    const value = toBase(balance.amount, balance.currency, dateStr);
+    return value === null ? sum : sum + value;
+  }, 0);
+  const replay = sortTransactionsForReplay(transactions);
+  const splitAdjust = buildSplitAdjuster(transactions);
 
   if (granularity === 'monthly') {
     const months = eachMonthOfInterval({ start, end });
@@ -807,14 +955,14 @@ export const calculateHistoricalPerformance = (
       void date;
       const dateStr = dateIndex[idx];
 
-      const txUntilNow = transactions.filter(t => {
+      const txUntilNow = replay.filter(t => {
         const d = toDateSafe(t.date);
         return isValid(d) && format(d, 'yyyy-MM-dd') <= dateStr;
       });
 
       const holdingsMap = new Map<string, number>();
       let investedAtDate = 0;
-      let cashAtDate = 0;
+      const cashLedger: CashLedger = new Map();
 
       txUntilNow.forEach(t => {
         const qty = t.quantity || 0;
@@ -825,6 +973,8 @@ export const calculateHistoricalPerformance = (
           const current = holdingsMap.get(t.instrumentTicker) || 0;
           if (t.type === TransactionType.Buy) holdingsMap.set(t.instrumentTicker, current + qty);
           else if (t.type === TransactionType.Sell) holdingsMap.set(t.instrumentTicker, current - qty);
+          else if (isTransfer(t.type)) applyTransferToQuantities(holdingsMap, t);
+          else applyCorporateActionToQuantities(holdingsMap, t);
         }
 
         if (t.type === TransactionType.Buy) investedAtDate += (qty * price) + fees;
@@ -832,14 +982,7 @@ export const calculateHistoricalPerformance = (
         if (t.type === TransactionType.Deposit) investedAtDate += (t.quantity || 0);
         if (t.type === TransactionType.Withdrawal) investedAtDate -= (t.quantity || 0);
 
-        if (trackCash) {
-          if (t.type === TransactionType.Buy) cashAtDate -= (qty * price) + fees;
-          if (t.type === TransactionType.Sell) cashAtDate += (qty * price) - fees;
-          if (t.type === TransactionType.Deposit) cashAtDate += (t.quantity || 0);
-          if (t.type === TransactionType.Withdrawal) cashAtDate -= (t.quantity || 0);
-          if (t.type === TransactionType.Dividend) cashAtDate += (t.quantity || 0);
-          if (t.type === TransactionType.Fee) cashAtDate -= (fees || 0);
-        }
+        if (trackCash) applyTransactionToCash(cashLedger, t);
       });
 
       let totalValueAtDate = 0;
@@ -862,10 +1005,11 @@ export const calculateHistoricalPerformance = (
           }
         }
         if (price === undefined || price <= 0) return;
-        const val = qty * price;
+        const instr = instrumentByKey.get(ticker);
+        const val = toBase(qty * splitAdjust(ticker, dateStr) * price, filled?.currency || instr?.currency, dateStr);
+        if (val === null) return;
         totalValueAtDate += val;
 
-        const instr = instrumentByKey.get(ticker);
         if (instr) {
           assetValues[instr.type] = (assetValues[instr.type] || 0) + val;
           currencyValues[instr.currency] = (currencyValues[instr.currency] || 0) + val;
@@ -875,7 +1019,7 @@ export const calculateHistoricalPerformance = (
         }
       });
 
-      const navValue = totalValueAtDate + (trackCash ? cashAtDate : 0);
+      const navValue = totalValueAtDate + (trackCash ? valueCash(cashLedger, dateStr) : 0);
       const cumulativeReturnPct = investedAtDate > 0 ? ((navValue / investedAtDate) - 1) * 100 : 0;
 
       let periodReturn = 0;
@@ -926,7 +1070,7 @@ export const calculateHistoricalPerformance = (
 
   const runningQty = new Map<string, number>();
   let investedRunning = 0;
-  let cashRunning = 0;
+  const cashLedger: CashLedger = new Map();
   const startDateStr = format(start, 'yyyy-MM-dd');
 
   const applyTransactionToRunning = (t: Transaction) => {
@@ -938,40 +1082,26 @@ export const calculateHistoricalPerformance = (
       const current = runningQty.get(t.instrumentTicker) || 0;
       if (t.type === TransactionType.Buy) runningQty.set(t.instrumentTicker, current + qty);
       else if (t.type === TransactionType.Sell) runningQty.set(t.instrumentTicker, current - qty);
+      else if (isTransfer(t.type)) applyTransferToQuantities(runningQty, t);
+      else applyCorporateActionToQuantities(runningQty, t);
     }
 
-    if (t.type === TransactionType.Buy) {
-      investedRunning += (qty * price) + fees;
-      if (trackCash) cashRunning -= (qty * price) + fees;
-    }
-    if (t.type === TransactionType.Sell) {
-      investedRunning -= ((qty * price) - fees);
-      if (trackCash) cashRunning += (qty * price) - fees;
-    }
-    if (t.type === TransactionType.Deposit) {
-      investedRunning += (t.quantity || 0);
-      if (trackCash) cashRunning += (t.quantity || 0);
-    }
-    if (t.type === TransactionType.Withdrawal) {
-      investedRunning -= (t.quantity || 0);
-      if (trackCash) cashRunning -= (t.quantity || 0);
-    }
-    if (t.type === TransactionType.Dividend) {
-      if (trackCash) cashRunning += (t.quantity || 0);
-    }
-    if (t.type === TransactionType.Fee) {
-      if (trackCash) cashRunning -= fees;
-    }
+    if (t.type === TransactionType.Buy) investedRunning += (qty * price) + fees;
+    if (t.type === TransactionType.Sell) investedRunning -= ((qty * price) - fees);
+    if (t.type === TransactionType.Deposit) investedRunning += (t.quantity || 0);
+    if (t.type === TransactionType.Withdrawal) investedRunning -= (t.quantity || 0);
+
+    if (trackCash) applyTransactionToCash(cashLedger, t);
   };
 
-  transactions.forEach(t => {
+  replay.forEach(t => {
     const tDateStr = toDateString(t.date);
     if (tDateStr < startDateStr) applyTransactionToRunning(t);
   });
 
   dateIndex.forEach((dateStr, idx) => {
     // apply transactions for the day (all tickers)
-    transactions.forEach(t => {
+    replay.forEach(t => {
       const tDateStr = toDateString(t.date);
       if (tDateStr !== dateStr) return;
       applyTransactionToRunning(t);
@@ -1000,7 +1130,8 @@ export const calculateHistoricalPerformance = (
         }
       }
       if (price === undefined || price <= 0) return;
-      const val = qty * price;
+      const val = toBase(qty * splitAdjust(instrumentKey, dateStr) * price, filled?.currency || instr.currency, dateStr);
+      if (val === null) return;
       totalValueAtDate += val;
       assetValues[instr.type] = (assetValues[instr.type] || 0) + val;
       currencyValues[instr.currency] = (currencyValues[instr.currency] || 0) + val;
@@ -1009,7 +1140,7 @@ export const calculateHistoricalPerformance = (
       }
     });
 
-    const nav = totalValueAtDate + (trackCash ? cashRunning : 0);
+    const nav = totalValueAtDate + (trackCash ? valueCash(cashLedger, dateStr) : 0);
 
     let periodReturn = 0;
     if (idx > 0 && history[idx - 1].value > 0) {
@@ -1056,7 +1187,11 @@ export interface PortfolioAnalytics {
   sharpeRatio: number;
 }
 
-export const calculateAnalytics = (history: PerformancePoint[], granularity: Granularity = 'monthly'): PortfolioAnalytics => {
+export const calculateAnalytics = (
+  history: PerformancePoint[],
+  granularity: Granularity = 'monthly',
+  riskFreeRate = DEFAULT_RISK_FREE_RATE
+): PortfolioAnalytics => {
   if (history.length < 2) {
     return {
       annualReturns: [],
@@ -1146,8 +1281,7 @@ export const calculateAnalytics = (history: PerformancePoint[], granularity: Gra
       ? Math.pow(endIndex / startIndex, 365.25 / days) - 1
       : 0;
 
-    const rf = 0.02;
-    sharpeRatio = stdDevAnnualized > 0 ? ((mean * 252) - rf) / stdDevAnnualized : 0;
+    sharpeRatio = stdDevAnnualized > 0 ? ((mean * 252) - riskFreeRate) / stdDevAnnualized : 0;
   } else {
     const monthsCount = history.filter(h => h.value > 0).length;
     const totalTWRRGrowth = startIndex > 0 ? (endIndex / startIndex) : 1;
@@ -1162,8 +1296,7 @@ export const calculateAnalytics = (history: PerformancePoint[], granularity: Gra
     const stdDevMonthly = Math.sqrt(variance);
     stdDevAnnualized = stdDevMonthly * Math.sqrt(12);
 
-    const rf = 0.02;
-    sharpeRatio = stdDevAnnualized > 0 ? (annualizedReturn - rf) / stdDevAnnualized : 0;
+    sharpeRatio = stdDevAnnualized > 0 ? (annualizedReturn - riskFreeRate) / stdDevAnnualized : 0;
   }
 
   return {
@@ -1239,15 +1372,19 @@ export const calculateRebalancing = (
   });
 };
 
+export const applyTransactionToHoldings = (holdings: Map<string, number>, t: Transaction) => {
+  if (!t.instrumentTicker) return;
+  const current = holdings.get(t.instrumentTicker) || 0;
+  const qty = t.quantity || 0;
+  if (t.type === TransactionType.Buy) holdings.set(t.instrumentTicker, current + qty);
+  else if (t.type === TransactionType.Sell) holdings.set(t.instrumentTicker, current - qty);
+  else if (isTransfer(t.type)) applyTransferToQuantities(holdings, t);
+  else applyCorporateActionToQuantities(holdings, t);
+};
+
 export const calculateHoldings = (transactions: Transaction[]) => {
   const holdings = new Map<string, number>();
-  transactions.forEach(t => {
-    if (!t.instrumentTicker) return;
-    const current = holdings.get(t.instrumentTicker) || 0;
-    const qty = t.quantity || 0;
-    if (t.type === TransactionType.Buy) holdings.set(t.instrumentTicker, current + qty);
-    else if (t.type === TransactionType.Sell) holdings.set(t.instrumentTicker, current - qty);
-  });
+  sortTransactionsForReplay(transactions).forEach(t => applyTransactionToHoldings(holdings, t));
   return holdings;
 };
 
@@ -1265,12 +1402,15 @@ const regionFallbackFromISIN = (isin?: string): RegionKey | null => {
   return null;
 };
 
+// An imported ETF breakdown (look-through by country) wins over the hand-entered split and the ISIN guess
 export const calculateRegionExposure = (
   state: PortfolioState,
-  instruments: Instrument[]
+  instruments: Instrument[],
+  breakdowns: EtfBreakdown[] = []
 ): { region: RegionKey; label: string; pct: number; value: number }[] => {
   if (!state) return [];
   const instByTicker = new Map(instruments.map(i => [getInstrumentKey(i), i]));
+  const breakdownByTicker = new Map(breakdowns.map(b => [b.ticker, b]));
   const totals = new Map<RegionKey, number>();
   let unassignedValue = 0;
 
@@ -1279,7 +1419,7 @@ export const calculateRegionExposure = (
     const value = p.currentValueCHF;
     if (!inst || value <= 0) return;
 
-    const alloc = inst.regionAllocation;
+    const alloc = getBreakdownRegionAllocation(breakdownByTicker.get(p.ticker)) || inst.regionAllocation;
     if (alloc && Object.keys(alloc).length > 0) {
       let sum = 0;
       (Object.entries(alloc) as [RegionKey, number][]).forEach(([rk, perc]) => {
@@ -1320,6 +1460,48 @@ export const calculateRegionExposure = (
   return entries;
 };
 
+// Same precedence as regions: imported ETF breakdown, then the per-instrument split, then the free-text sector
+export const calculateSectorExposure = (
+  state: PortfolioState,
+  instruments: Instrument[],
+  breakdowns: EtfBreakdown[] = []
+): { sector: SectorKey; label: string; pct: number; value: number }[] => {
+  if (!state) return [];
+  const instByTicker = new Map(instruments.map(i => [getInstrumentKey(i), i]));
+  const breakdownByTicker = new Map(breakdowns.map(b => [b.ticker, b]));
+  const totals = new Map<SectorKey, number>();
+  const add = (key: SectorKey, value: number) => totals.set(key, (totals.get(key) || 0) + value);
+
+  state.positions.forEach(p => {
+    const inst = instByTicker.get(p.ticker);
+    const value = p.currentValueCHF;
+    if (!inst || value <= 0) return;
+
+    const alloc = getBreakdownSectorAllocation(breakdownByTicker.get(p.ticker)) || inst.sectorAllocation;
+    const entries = (Object.entries(alloc || {}) as [SectorKey, number][]).filter(([, perc]) => Number.isFinite(perc) && perc > 0);
+    const sum = entries.reduce((s, [, perc]) => s + perc, 0);
+    if (sum > 0) {
+      // Splits below 100% leave the rest undefined rather than stretching the known part
+      entries.forEach(([key, perc]) => add(key, value * (perc / Math.max(sum, 100))));
+      if (sum < 100) add('UNASSIGNED', value * (1 - sum / 100));
+      return;
+    }
+
+    add(toSectorKey(inst.sector) || 'UNASSIGNED', value);
+  });
+
+  const totalValue = state.totalValue;
+  return Array.from(totals.entries())
+    .filter(([, value]) => value > 0.005)
+    .map(([sector, value]) => ({
+      sector,
+      label: getSectorLabel(sector),
+      value,
+      pct: totalValue > 0 ? (value / totalValue) * 100 : 0
+    }))
+    .sort((a, b) => b.value - a.value);
+};
+
 export const calculateAllocationByAssetClass = (
   state: PortfolioState,
   instruments: Instrument[]
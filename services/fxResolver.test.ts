@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint } from '../types';
+import { createFxResolver, getFxLookupPairs, getFxPivots } from './fxResolver';
+import { analyzeRebalanceQuality } from './dataQuality';
+import { convertAmountFromSeries, FxRateRow } from './fxService';
+
+const rates: FxRateRow[] = [
+  { baseCurrency: Currency.EUR, quoteCurrency: Currency.USD, date: '2024-01-02', rate: 1.1 },
+  { baseCurrency: Currency.EUR, quoteCurrency: Currency.USD, date: '2024-01-05', rate: 1.2 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-03', rate: 0.9 },
+  { baseCurrency: 'JPY', quoteCurrency: Currency.EUR, date: '2024-01-04', rate: 0.0064 },
+  { baseCurrency: 'JPY', quoteCurrency: Currency.CHF, date: '2024-01-04', rate: 0.006 }
+];
+
+describe('fxResolver', () => {
+  it('uses direct and inverse pairs before triangulating', () => {
+    const resolver = createFxResolver(rates);
+    expect(resolver.resolve(Currency.EUR, Currency.USD, '2024-01-04')).toMatchObject({ rate: 1.1, date: '2024-01-02' });
+    const inverse = resolver.resolve(Currency.CHF, Currency.USD, '2024-01-04');
+    expect(inverse?.inverse).toBe(true);
+    expect(inverse?.rate).toBeCloseTo(1 / 0.9, 10);
+    expect(inverse?.triangulated).toBeUndefined();
+  });
+
+  it('derives a missing pair through the pivot and reports both legs', () => {
+    const lookup = createFxResolver(rates).resolve(Currency.EUR, Currency.CHF, '2024-01-05');
+    expect(lookup).toMatchObject({ triangulated: true, pivot: Currency.USD, date: '2024-01-03' });
+    expect(lookup?.rate).toBeCloseTo(1.2 * 0.9, 10);
+    expect(lookup?.legs).toEqual([
+      { base: Currency.EUR, quote: Currency.USD, rate: 1.2, date: '2024-01-05', source: undefined, inverse: undefined },
+      { base: Currency.USD, quote: Currency.CHF, rate: 0.9, date: '2024-01-03', source: undefined, inverse: undefined }
+    ]);
+    expect(createFxResolver(rates).resolve(Currency.EUR, Currency.CHF, '2024-01-02')).toBeNull();
+  });
+
+  it('prefers the configured pivots over other common currencies', () => {
+    const viaUsd = createFxResolver(rates).resolve(Currency.EUR, Currency.CHF, '2024-01-05');
+    expect(viaUsd?.pivot).toBe(Currency.USD);
+    const viaJpy = createFxResolver(rates, { pivots: ['JPY'] }).resolve(Currency.EUR, Currency.CHF, '2024-01-05');
+    expect(viaJpy?.pivot).toBe('JPY');
+    expect(viaJpy?.rate).toBeCloseTo(0.006 / 0.0064, 10);
+
+    const converted = convertAmountFromSeries(100, Currency.EUR, Currency.CHF, '2024-01-05', rates, { pivots: ['JPY'] });
+    expect(converted?.lookup?.pivot).toBe('JPY');
+  });
+
+  it('lists every ordered pair needed to load the legs', () => {
+    expect(getFxPivots({ baseCurrency: Currency.CHF })).toEqual([Currency.USD, Currency.CHF]);
+    expect(getFxPivots({ baseCurrency: Currency.CHF, fxPivotCurrency: Currency.EUR })).toEqual([Currency.EUR, Currency.CHF]);
+    expect(getFxLookupPairs([Currency.EUR], [Currency.USD, Currency.CHF]).sort()).toEqual([
+      'CHF/EUR', 'CHF/USD', 'EUR/CHF', 'EUR/USD', 'USD/CHF', 'USD/EUR'
+    ]);
+  });
+
+  it('surfaces triangulated rates as a non-blocking quality issue', () => {
+    const instruments: Instrument[] = [{ ticker: 'SAP', symbol: 'SAP.XETRA', name: 'SAP', type: AssetType.Stock, currency: Currency.EUR }];
+    const prices: PricePoint[] = [{ ticker: 'SAP.XETRA', date: '2024-01-05', close: 150, currency: Currency.EUR }];
+    const summary = analyzeRebalanceQuality(new Map([['SAP.XETRA', 10]]), instruments, prices, rates, '2024-01-05', Currency.CHF);
+    expect(summary.issues).toEqual([
+      expect.objectContaining({ type: 'fxTriangulated', blocking: false, fxBase: Currency.EUR, fxQuote: Currency.CHF, fxPivot: Currency.USD })
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { AppSettings, Currency } from '../types';
+import type { FxRateLookup, FxRateRow } from './fxService';
+
+export const DEFAULT_FX_PIVOT: Currency = Currency.USD;
+
+export type FxResolverOptions = {
+  // Preferred cross currencies, tried in order before any other common neighbour.
+  pivots?: Currency[];
+};
+
+export type FxResolver = {
+  resolve: (from: Currency, to: Currency, date: string) => FxRateLookup | null;
+};
+
+type FxIndex = Map<string, Map<string, FxRateRow[]>>;
+
+// Indexed once per array instance: callers pass snapshots (live query results) that are not mutated.
+const indexCache = new WeakMap<FxRateRow[], FxIndex>();
+
+const buildIndex = (fxRates: FxRateRow[]): FxIndex => {
+  const cached = indexCache.get(fxRates);
+  if (cached) return cached;
+  const index: FxIndex = new Map();
+  fxRates.forEach(row => {
+    if (!row || !(row.rate > 0) || !Number.isFinite(row.rate) || !row.date) return;
+    const byQuote = index.get(row.baseCurrency) || new Map<string, FxRateRow[]>();
+    const list = byQuote.get(row.quoteCurrency) || [];
+    list.push(row);
+    byQuote.set(row.quoteCurrency, list);
+    index.set(row.baseCurrency, byQuote);
+  });
+  index.forEach(byQuote => byQuote.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date))));
+  indexCache.set(fxRates, index);
+  return index;
+};
+
+const latestOnOrBefore = (rows: FxRateRow[] | undefined, date: string): FxRateRow | null => {
+  if (!rows?.length) return null;
+  let lo = 0;
+  let hi = rows.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (rows[mid].date <= date) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 ? rows[found] : null;
+};
+
+export const getFxPivots = (settings?: Pick<AppSettings, 'baseCurrency' | 'fxPivotCurrency'> | null): Currency[] => (
+  Array.from(new Set([settings?.fxPivotCurrency || DEFAULT_FX_PIVOT, settings?.baseCurrency || Currency.CHF]))
+);
+
+// Ordered pairs among the given currencies, so that every leg of a cross rate can be loaded.
+export const getFxLookupPairs = (currencies: Currency[], pivots: Currency[] = [DEFAULT_FX_PIVOT]): string[] => {
+  const all = Array.from(new Set([...currencies, ...pivots].filter(Boolean)));
+  const pairs: string[] = [];
+  all.forEach(base => all.forEach(quote => {
+    if (base !== quote) pairs.push(`${base}/${quote}`);
+  }));
+  return pairs;
+};
+
+// The currency graph has an edge for every stored pair (both directions); a missing pair is derived
+// through one pivot using the latest rate of each leg on or before the requested date.
+export const createFxResolver = (fxRates: FxRateRow[], options: FxResolverOptions = {}): FxResolver => {
+  const index = buildIndex(fxRates);
+  const pivots = options.pivots?.length ? options.pivots : [DEFAULT_FX_PIVOT];
+
+  const edge = (from: Currency, to: Currency, date: string): FxRateLookup | null => {
+    const direct = latestOnOrBefore(index.get(from)?.get(to), date);
+    if (direct) return { rate: direct.rate, date: direct.date, source: direct.source };
+    const inverse = latestOnOrBefore(index.get(to)?.get(from), date);
+    if (inverse) return { rate: 1 / inverse.rate, date: inverse.date, source: inverse.source, inverse: true };
+    return null;
+  };
+
+  const neighbours = (currency: Currency) => {
+    const set = new Set<Currency>(index.get(currency)?.keys() || []);
+    index.forEach((byQuote, base) => {
+      if (byQuote.has(currency)) set.add(base);
+    });
+    return set;
+  };
+
+  const cross = (from: Currency, to: Currency, pivot: Currency, date: string): FxRateLookup | null => {
+    if (pivot === from || pivot === to) return null;
+    const first = edge(from, pivot, date);
+    const second = first ? edge(pivot, to, date) : null;
+    if (!first || !second) return null;
+    return {
+      rate: first.rate * second.rate,
+      date: first.date < second.date ? first.date : second.date,
+      triangulated: true,
+      pivot,
+      legs: [
+        { base: from, quote: pivot, rate: first.rate, date: first.date, source: first.source, inverse: first.inverse },
+        { base: pivot, quote: to, rate: second.rate, date: second.date, source: second.source, inverse: second.inverse }
+      ]
+    };
+  };
+
+  const resolve = (from: Currency, to: Currency, date: string): FxRateLookup | null => {
+    if (from === to) return { rate: 1, date };
+    const direct = edge(from, to, date);
+    if (direct) return direct;
+    for (const pivot of pivots) {
+      const lookup = cross(from, to, pivot, date);
+      if (lookup) return lookup;
+    }
+    const toNeighbours = neighbours(to);
+    let best: FxRateLookup | null = null;
+    Array.from(neighbours(from))
+      .filter(pivot => toNeighbours.has(pivot) && !pivots.includes(pivot))
+      .sort()
+      .forEach(pivot => {
+        const lookup = cross(from, to, pivot, date);
+        if (lookup && (!best || lookup.date > best.date)) best = lookup;
+      });
+    return best;
+  };
+
+  return { resolve };
+};
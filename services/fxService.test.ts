@@ -1,6 +1,6 @@
 import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
-import { Currency } from '../types';
-import { backfillFxRatesForPortfolio, dedupeFxRows, fetchEodhdFxRange } from './fxService';
+import { AssetType, Currency, Instrument, TransactionType } from '../types';
+import { backfillFxRatesForPortfolio, buildFxSymbol, collectFxPairs, dedupeFxRows, fetchEodhdFxRange } from './fxService';
 import { fetchJsonWithDiagnostics } from './diagnostics';
 import { checkProxyHealth } from './apiHealthService';
 import { db } from '../db';
@@ -222,3 +222,23 @@ describe('backfillFxRatesForPortfolio', () => {
     expect(fetchMock.mock.calls.length).toBe(3);
   });
 });
+
+describe('collectFxPairs', () => {
+  it('discovers pairs from listings, instruments and cash movements', () => {
+    const instruments: Instrument[] = [
+      { ticker: '7203', name: 'Toyota', type: AssetType.Stock, currency: 'JPY' },
+      { ticker: 'VOLV-B', name: 'Volvo', type: AssetType.Stock, currency: 'SEK' },
+      { ticker: 'NESN', name: 'Nestle', type: AssetType.Stock, currency: Currency.CHF }
+    ];
+    const pairs = collectFxPairs(instruments, [
+      { date: new Date('2026-01-02T12:00:00'), type: TransactionType.Deposit, quantity: 100, price: 1, fees: 0, currency: 'usdt', account: 'Exchange' },
+      { date: new Date('2026-01-03T12:00:00'), type: TransactionType.FxConversion, quantity: 100, price: 0.9, fees: 0, currency: Currency.CHF, toCurrency: Currency.EUR, account: 'IBKR' }
+    ], Currency.CHF);
+    expect(pairs).toEqual(['JPY/CHF', 'SEK/CHF', 'USDT/CHF', 'EUR/CHF']);
+  });
+
+  it('quotes crypto units on the crypto exchange', () => {
+    expect(buildFxSymbol('JPY', Currency.CHF)).toBe('JPYCHF.FOREX');
+    expect(buildFxSymbol('USDT', Currency.USD)).toBe('USDT-USD.CC');
+  });
+});
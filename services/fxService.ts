@@ -1,11 +1,13 @@
 import { db } from '../db';
-import { Currency, Instrument } from '../types';
+import { Currency, Instrument, Transaction } from '../types';
 import Dexie from 'dexie';
 import { checkProxyHealth } from './apiHealthService';
 import { fetchJsonWithDiagnostics, FetchJsonDiagnostics, toNum } from './diagnostics';
 import { addDaysYmd, diffDaysYmd, subDaysYmd } from './dateUtils';
 import { FX_STALE_DAYS } from './constants';
 import { upsertFxRowsByNaturalKey } from './dataWriteService';
+import { isCryptoCurrency, normalizeCurrencyCode } from './currencyUtils';
+import { createFxResolver, FxResolverOptions } from './fxResolver';
 
 export const getFxRate = async (base: Currency, quote: Currency, date: string): Promise<number | null> => {
   if (base === quote) return 1;
@@ -16,11 +18,24 @@ export const getFxRate = async (base: Currency, quote: Currency, date: string):
   return rows?.rate ?? null;
 };
 
+export type FxRateLeg = {
+  base: Currency;
+  quote: Currency;
+  rate: number;
+  date: string;
+  source?: string;
+  inverse?: boolean;
+};
+
 export type FxRateLookup = {
   rate: number;
   date: string;
   source?: string;
   inverse?: boolean;
+  // Cross rate derived through `pivot`; `date` is the older of the two legs.
+  triangulated?: boolean;
+  pivot?: Currency;
+  legs?: FxRateLeg[];
 };
 
 export type FxRateRow = {
@@ -78,36 +93,9 @@ export const resolveFxRateFromSeries = (
   fxRates: FxRateRow[],
   base: Currency,
   quote: Currency,
-  date: string
-): FxRateLookup | null => {
-  if (base === quote) return { rate: 1, date };
-  let directRate: number | null = null;
-  let directDate = '';
-  let directSource: string | undefined;
-  let inverseRate: number | null = null;
-  let inverseDate = '';
-  let inverseSource: string | undefined;
-  fxRates.forEach(row => {
-    if (row.date > date) return;
-    if (row.baseCurrency === base && row.quoteCurrency === quote) {
-      if (!directDate || row.date > directDate) {
-        directRate = row.rate;
-        directDate = row.date;
-        directSource = row.source;
-      }
-    }
-    if (row.baseCurrency === quote && row.quoteCurrency === base) {
-      if (!inverseDate || row.date > inverseDate) {
-        inverseRate = row.rate;
-        inverseDate = row.date;
-        inverseSource = row.source;
-      }
-    }
-  });
-  if (directRate !== null) return { rate: directRate, date: directDate, source: directSource };
-  if (inverseRate !== null) return { rate: 1 / inverseRate, date: inverseDate, source: inverseSource, inverse: true };
-  return null;
-};
+  date: string,
+  options?: FxResolverOptions
+): FxRateLookup | null => createFxResolver(fxRates, options).resolve(base, quote, date);
 
 export const convertAmount = async (
   amount: number,
@@ -127,13 +115,14 @@ export const convertAmountFromSeries = (
   from: Currency,
   to: Currency,
   date: string,
-  fxRates: FxRateRow[]
+  fxRates: FxRateRow[],
+  options?: FxResolverOptions
 ): { value: number; lookup: FxRateLookup } | null => {
   if (!Number.isFinite(amount)) return null;
   if (from === to) {
     return { value: amount, lookup: { rate: 1, date } };
   }
-  const lookup = resolveFxRateFromSeries(fxRates, from, to, date);
+  const lookup = resolveFxRateFromSeries(fxRates, from, to, date, options);
   if (!lookup) return null;
   return { value: amount * lookup.rate, lookup };
 };
@@ -213,7 +202,10 @@ const bumpDailyBudget = (dateStr: string, delta = 1): number => {
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-const buildFxSymbol = (base: Currency, quote: Currency) => `${base}${quote}.FOREX`;
+// Pairs involving a crypto unit (e.g. USDT) are quoted on EODHD's crypto exchange.
+export const buildFxSymbol = (base: Currency, quote: Currency) => (
+  isCryptoCurrency(base) || isCryptoCurrency(quote) ? `${base}-${quote}.CC` : `${base}${quote}.FOREX`
+);
 
 export const mapFxHistoryRows = (
   base: Currency,
@@ -280,6 +272,29 @@ export const dedupeFxRows = (rows: FxRateRow[]) => {
   return Array.from(map.values());
 };
 
+// Every currency the portfolio touches (listings, instruments, cash movements) needs a pair to the base.
+export const collectFxPairs = (
+  instruments: Instrument[],
+  transactions: Transaction[],
+  baseCurrency: Currency
+): string[] => {
+  const pairs = new Set<string>();
+  const add = (currency?: Currency) => {
+    const code = normalizeCurrencyCode(currency);
+    if (!code || code === baseCurrency) return;
+    pairs.add(`${code}/${baseCurrency}`);
+  };
+  instruments.forEach(inst => {
+    add(inst.preferredListing?.currency || inst.currency);
+    add(inst.currency);
+  });
+  transactions.forEach(tx => {
+    add(tx.currency);
+    add(tx.toCurrency);
+  });
+  return Array.from(pairs);
+};
+
 export const getFxPairsForPortfolio = async (
   portfolioId: string,
   baseCurrencyOverride?: Currency
@@ -287,13 +302,8 @@ export const getFxPairsForPortfolio = async (
   const settings = await db.settings.where('portfolioId').equals(portfolioId).first();
   const baseCurrency = baseCurrencyOverride || settings?.baseCurrency || Currency.CHF;
   const instruments = await db.instruments.where('portfolioId').equals(portfolioId).toArray();
-  const pairs = new Set<string>();
-  instruments.forEach((inst: Instrument) => {
-    const currency = inst.preferredListing?.currency || inst.currency;
-    if (!currency || currency === baseCurrency) return;
-    pairs.add(`${currency}/${baseCurrency}`);
-  });
-  return Array.from(pairs);
+  const transactions = await db.transactions.where('portfolioId').equals(portfolioId).toArray();
+  return collectFxPairs(instruments, transactions, baseCurrency);
 };
 
 export const backfillFxRatesForPortfolio = async (
@@ -27,6 +27,35 @@ describe('importExportService validateAndNormalize', () => {
     expect(report.tables.transactions.discarded).toBe(2);
   });
 
+  it('keeps corporate actions and rejects spin-offs without a parent ticker', () => {
+    const payload = {
+      transactions: [
+        { ...baseTx, type: 'Split', quantity: 4, price: undefined },
+        { ...baseTx, type: 'SpinOff', instrumentTicker: 'BBB', quantity: 5, price: 0, relatedTicker: 'aaa', costAllocation: 1.5 },
+        { ...baseTx, type: 'TickerChange', instrumentTicker: 'CCC', quantity: 0, price: 0 }
+      ]
+    };
+    const { normalized, report } = validateAndNormalize(payload as any);
+    expect(normalized.transactions.map(tx => tx.type)).toEqual(['Split', 'SpinOff']);
+    expect(normalized.transactions[0].price).toBe(0);
+    expect(normalized.transactions[1]).toMatchObject({ relatedTicker: 'AAA', costAllocation: 1 });
+    expect(report.tables.transactions.discarded).toBe(1);
+  });
+
+  it('rejects dividends whose net amount does not match gross minus withheld tax', () => {
+    const dividend = { ...baseTx, type: 'Dividend', price: 0, grossAmount: 100, withholdingTax: 15 };
+    const payload = {
+      transactions: [
+        { ...dividend, quantity: 85 },
+        { ...dividend, quantity: 85.01 },
+        { ...dividend, quantity: 100 }
+      ]
+    };
+    const { normalized, report } = validateAndNormalize(payload as any);
+    expect(normalized.transactions.map(tx => tx.quantity)).toEqual([85, 85.01]);
+    expect(report.tables.transactions.reasons).toContainEqual({ code: 'invalid_dividend_tax', count: 1, examples: ['AAA'] });
+  });
+
   it('normalizes price point close and date', () => {
     const payload = {
       prices: [
@@ -38,6 +67,21 @@ describe('importExportService validateAndNormalize', () => {
     expect(normalized.prices[0].date).toBe('2026-02-10');
   });
 
+  it('accepts any ISO-4217 currency and rejects unknown codes', () => {
+    const payload = {
+      transactions: [
+        { ...baseTx, currency: 'jpy' },
+        { ...baseTx, currency: 'SEK' },
+        { ...baseTx, currency: 'XYZ' }
+      ],
+      fxRates: [{ baseCurrency: 'USDT', quoteCurrency: 'CHF', date: '2026-02-10', rate: 0.88 }]
+    };
+    const { normalized, report } = validateAndNormalize(payload as any);
+    expect(normalized.transactions.map(tx => tx.currency)).toEqual(['JPY', 'SEK']);
+    expect(report.tables.transactions.discarded).toBe(1);
+    expect(normalized.fxRates[0]).toMatchObject({ baseCurrency: 'USDT', quoteCurrency: 'CHF' });
+  });
+
   it('reports mixed valid/invalid rows', () => {
     const payload = {
       prices: [
@@ -18,10 +18,21 @@ import {
   PriceProviderType,
   PriceTickerConfig,
   RebalancePlan,
+  SavingsPlan,
+  SavingsPlanFrequency,
+  SectorKey,
+  CustomBenchmark,
+  EtfBreakdown,
   Transaction,
   TransactionType
 } from '../types';
+import { clampCostAllocation, isCorporateAction } from './corporateActions';
+import { findUnpairedTransfers, isTransfer } from './transfers';
+import { SAVINGS_PLAN_FREQUENCY_LABELS } from './savingsPlans';
+import { BENCHMARK_REBALANCE_LABELS } from './blendedBenchmark';
+import { isSectorKey } from './sectors';
 import { isYmd, parseYmdLocal } from './dateUtils';
+import { normalizeCurrencyCode } from './currencyUtils';
 import { toNum } from './diagnostics';
 import { upsertFxRowsByNaturalKey, upsertPriceRowsByNaturalKey, type NaturalKeyWriteSummary } from './dataWriteService';
 import { pickDefaultListing } from './listingService';
@@ -40,7 +51,10 @@ export type ImportTableName =
   | 'rebalancePlans'
   | 'backtestImports'
   | 'backtestImportPrices'
-  | 'backtestScenarios';
+  | 'backtestScenarios'
+  | 'savingsPlans'
+  | 'customBenchmarks'
+  | 'etfBreakdowns';
 
 export type ImportIssueReason = {
   code: string;
@@ -83,6 +97,9 @@ export type NormalizedPayload = {
   backtestImports: BacktestImport[];
   backtestImportPrices: BacktestImportPrice[];
   backtestScenarios: BacktestScenarioRecord[];
+  savingsPlans: SavingsPlan[];
+  customBenchmarks: CustomBenchmark[];
+  etfBreakdowns: EtfBreakdown[];
 };
 
 export type BackupPayload = NormalizedPayload;
@@ -111,10 +128,15 @@ const TABLES: ImportTableName[] = [
   'rebalancePlans',
   'backtestImports',
   'backtestImportPrices',
-  'backtestScenarios'
+  'backtestScenarios',
+  'savingsPlans',
+  'customBenchmarks',
+  'etfBreakdowns'
 ];
 
 const DEFAULT_PREFERRED_EXCHANGES = ['SW', 'US', 'LSE', 'XETRA', 'MI', 'PA'];
+// Net, gross and withheld tax are each rounded to the cent by the broker
+const DIVIDEND_NET_TOLERANCE = 0.02;
 
 const createEmptyReport = (): ImportReport => {
   const tables = {} as Record<ImportTableName, TableImportReport>;
@@ -155,12 +177,6 @@ const asString = (value: unknown) => typeof value === 'string' ? value : value =
 
 const normalizeTicker = (value: unknown) => asString(value).trim().toUpperCase();
 
-const normalizeCurrency = (value: unknown): Currency | null => {
-  const raw = asString(value).trim().toUpperCase();
-  if ((Object.values(Currency) as string[]).includes(raw)) return raw as Currency;
-  return null;
-};
-
 const normalizeAssetType = (value: unknown): AssetType | null => {
   const raw = asString(value).trim();
   if ((Object.values(AssetType) as string[]).includes(raw)) return raw as AssetType;
@@ -188,7 +204,7 @@ const normalizeInstrumentListing = (value: unknown): InstrumentListing | null =>
   const row = value as Record<string, unknown>;
   const symbol = normalizeTicker(row.symbol);
   const exchangeCode = normalizeTicker(row.exchangeCode);
-  const currency = normalizeCurrency(row.currency);
+  const currency = normalizeCurrencyCode(row.currency);
   if (!symbol || !exchangeCode || !currency) return null;
   const name = asString(row.name).trim();
   const type = asString(row.type).trim();
@@ -256,6 +272,17 @@ const normalizePriceTickerConfigRecord = (
   return next;
 };
 
+const normalizeRiskFreeRates = (value: unknown): Record<string, number> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const next: Record<string, number> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([rawCurrency, rawRate]) => {
+    const currency = normalizeCurrencyCode(rawCurrency);
+    const rate = typeof rawRate === 'number' ? rawRate : parseFloat(asString(rawRate));
+    if (currency && Number.isFinite(rate)) next[currency] = rate;
+  });
+  return Object.keys(next).length ? next : undefined;
+};
+
 const normalizeYmd = (value: unknown): string | null => {
   const raw = asString(value).trim();
   if (!raw) return null;
@@ -283,6 +310,17 @@ const normalizeNumber = (value: unknown): number | null => {
   return num;
 };
 
+// Unknown sector keys from older or hand-edited backups are dropped
+const normalizeSectorAllocation = (value: unknown): Partial<Record<SectorKey, number>> | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const result: Partial<Record<SectorKey, number>> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, pct]) => {
+    const num = normalizeNumber(pct);
+    if (isSectorKey(key) && num !== null && num > 0) result[key] = num;
+  });
+  return Object.keys(result).length ? result : undefined;
+};
+
 export const detectFormat = (payload: unknown): DetectFormatResult => {
   const warnings: string[] = [];
   if (!payload || typeof payload !== 'object') {
@@ -315,7 +353,10 @@ export const buildBackupPayload = async (): Promise<BackupPayload> => {
     rebalancePlans: await db.rebalancePlans.toArray(),
     backtestImports: await db.backtestImports.toArray(),
     backtestImportPrices: await db.backtestImportPrices.toArray(),
-    backtestScenarios: await db.backtestScenarios.toArray()
+    backtestScenarios: await db.backtestScenarios.toArray(),
+    savingsPlans: await db.savingsPlans.toArray(),
+    customBenchmarks: await db.customBenchmarks.toArray(),
+    etfBreakdowns: await db.etfBreakdowns.toArray()
   };
 };
 
@@ -341,7 +382,10 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
         rebalancePlans: [],
         backtestImports: [],
         backtestImportPrices: [],
-        backtestScenarios: []
+        backtestScenarios: [],
+        savingsPlans: [],
+        customBenchmarks: [],
+        etfBreakdowns: []
       },
       report,
       warnings,
@@ -367,6 +411,9 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
   const rawBacktestImports = Array.isArray(payload.backtestImports) ? payload.backtestImports : [];
   const rawBacktestImportPrices = Array.isArray(payload.backtestImportPrices) ? payload.backtestImportPrices : [];
   const rawBacktestScenarios = Array.isArray(payload.backtestScenarios) ? payload.backtestScenarios : [];
+  const rawSavingsPlans = Array.isArray(payload.savingsPlans) ? payload.savingsPlans : [];
+  const rawCustomBenchmarks = Array.isArray(payload.customBenchmarks) ? payload.customBenchmarks : [];
+  const rawEtfBreakdowns = Array.isArray(payload.etfBreakdowns) ? payload.etfBreakdowns : [];
 
   const rawInstrumentIdToTicker = new Map<string, string>();
   rawInstruments.forEach((inst: any) => {
@@ -391,8 +438,8 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
 
   const normalizedSettings: AppSettings[] = [];
   rawSettings.forEach((row: any) => {
-    const baseCurrency = normalizeCurrency(row?.baseCurrency) || Currency.CHF;
-    if (!normalizeCurrency(row?.baseCurrency)) {
+    const baseCurrency = normalizeCurrencyCode(row?.baseCurrency) || Currency.CHF;
+    if (!normalizeCurrencyCode(row?.baseCurrency)) {
       addReason(report, 'settings', 'invalid_currency', asString(row?.baseCurrency));
     }
     const scope = row?.priceBackfillScope === 'all' || row?.priceBackfillScope === 'current'
@@ -406,6 +453,8 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
     normalizedSettings.push({
       ...row,
       baseCurrency,
+      fxPivotCurrency: normalizeCurrencyCode(row?.fxPivotCurrency) || undefined,
+      riskFreeRates: normalizeRiskFreeRates(row?.riskFreeRates),
       eodhdApiKey: asString(row?.eodhdApiKey),
       googleSheetUrl: asString(row?.googleSheetUrl),
       appsScriptUrl: asString(row?.appsScriptUrl),
@@ -423,7 +472,7 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
     const ticker = normalizeTicker(row?.ticker || row?.symbol);
     const name = asString(row?.name).trim();
     const type = normalizeAssetType(row?.type);
-    const currency = normalizeCurrency(row?.currency);
+    const currency = normalizeCurrencyCode(row?.currency);
     if (!ticker || !name || !type || !currency) {
       addReason(report, 'instruments', 'missing_required', ticker || name || 'row');
       return;
@@ -455,7 +504,8 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
       currency,
       isin,
       preferredListing,
-      listings: listings.length ? listings : undefined
+      listings: listings.length ? listings : undefined,
+      sectorAllocation: normalizeSectorAllocation(row?.sectorAllocation)
     });
   });
   finalizeTable(report, 'instruments', rawInstruments.length, normalizedInstruments.length);
@@ -470,7 +520,7 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
   rawTransactions.forEach((row: any) => {
     const type = normalizeTransactionType(row?.type);
     const date = normalizeDateObj(row?.date);
-    const currency = normalizeCurrency(row?.currency);
+    const currency = normalizeCurrencyCode(row?.currency);
     let instrumentTicker = normalizeTicker(row?.instrumentTicker);
     const instrumentId = row?.instrumentId !== undefined && row?.instrumentId !== null
       ? String(row.instrumentId)
@@ -479,7 +529,7 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
       const mapped = rawInstrumentIdToTicker.get(String(instrumentId));
       if (mapped) instrumentTicker = mapped;
     }
-    if (!instrumentTicker && type && ![TransactionType.Deposit, TransactionType.Withdrawal, TransactionType.Fee].includes(type)) {
+    if (!instrumentTicker && type && ![TransactionType.Deposit, TransactionType.Withdrawal, TransactionType.Fee, TransactionType.FxConversion].includes(type)) {
       addReason(report, 'transactions', 'missing_instrument', row?.instrumentTicker || row?.instrumentId || 'row');
       return;
     }
@@ -487,9 +537,9 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
       addReason(report, 'transactions', 'missing_required', instrumentTicker || row?.date || 'row');
       return;
     }
-    const quantity = normalizeNumber(row?.quantity);
+    const quantity = normalizeNumber(row?.quantity ?? (type === TransactionType.TickerChange ? 0 : null));
     let price = normalizeNumber(row?.price);
-    if (price === null && [TransactionType.Deposit, TransactionType.Withdrawal, TransactionType.Fee].includes(type)) {
+    if (price === null && ([TransactionType.Deposit, TransactionType.Withdrawal, TransactionType.Fee].includes(type) || isCorporateAction(type) || isTransfer(type))) {
       price = 0;
     }
     const fees = normalizeNumber(row?.fees ?? 0) ?? 0;
@@ -497,6 +547,50 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
       addReason(report, 'transactions', 'invalid_number', instrumentTicker || 'row');
       return;
     }
+    if ([TransactionType.Split, TransactionType.ReverseSplit, TransactionType.SpinOff].includes(type) && quantity <= 0) {
+      addReason(report, 'transactions', 'invalid_corporate_action', instrumentTicker || 'row');
+      return;
+    }
+    const relatedTicker = normalizeTicker(row?.relatedTicker) || undefined;
+    if ([TransactionType.SpinOff, TransactionType.TickerChange].includes(type) && (!relatedTicker || relatedTicker === instrumentTicker)) {
+      addReason(report, 'transactions', 'invalid_corporate_action', instrumentTicker || 'row');
+      return;
+    }
+    const toCurrency = type === TransactionType.FxConversion ? normalizeCurrencyCode(row?.toCurrency) : null;
+    if (type === TransactionType.FxConversion && (!toCurrency || toCurrency === currency || !(price > 0))) {
+      addReason(report, 'transactions', 'invalid_fx_conversion', row?.date || 'row');
+      return;
+    }
+    if (isTransfer(type) && quantity <= 0) {
+      addReason(report, 'transactions', 'invalid_transfer', instrumentTicker || 'row');
+      return;
+    }
+    const costAllocation = type === TransactionType.SpinOff
+      ? clampCostAllocation(normalizeNumber(row?.costAllocation) ?? 0)
+      : undefined;
+    const isDividend = type === TransactionType.Dividend;
+    const grossAmount = isDividend ? normalizeNumber(row?.grossAmount) : null;
+    const withholdingTax = isDividend ? normalizeNumber(row?.withholdingTax) : null;
+    const reclaimableTax = isDividend ? normalizeNumber(row?.reclaimableTax) : null;
+    if (isDividend && (
+      (grossAmount !== null && grossAmount < 0)
+      || (withholdingTax !== null && (withholdingTax < 0 || (grossAmount !== null && withholdingTax > grossAmount)))
+      || (reclaimableTax !== null && (reclaimableTax < 0 || reclaimableTax > (withholdingTax ?? 0)))
+      || (grossAmount !== null && withholdingTax !== null && Math.abs(quantity - (grossAmount - withholdingTax)) > DIVIDEND_NET_TOLERANCE)
+    )) {
+      addReason(report, 'transactions', 'invalid_dividend_tax', instrumentTicker || 'row');
+      return;
+    }
+    const transferLots = type === TransactionType.TransferIn && Array.isArray(row?.transferLots)
+      ? row.transferLots
+        .map((lot: any) => ({
+          lotId: asString(lot?.lotId),
+          openDate: normalizeYmd(lot?.openDate),
+          quantity: normalizeNumber(lot?.quantity),
+          costBasis: normalizeNumber(lot?.costBasis)
+        }))
+        .filter((lot: any) => lot.lotId && lot.openDate && lot.quantity !== null && lot.quantity > 0 && lot.costBasis !== null && lot.costBasis >= 0)
+      : [];
     normalizedTransactions.push({
       ...row,
       instrumentId: instrumentId || row?.instrumentId,
@@ -507,17 +601,31 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
       price,
       fees,
       currency,
-      account: asString(row?.account)
+      account: asString(row?.account),
+      relatedTicker: isCorporateAction(type) ? relatedTicker : undefined,
+      costAllocation,
+      toCurrency: toCurrency || undefined,
+      transferId: isTransfer(type) ? asString(row?.transferId) || undefined : undefined,
+      counterpartyAccount: isTransfer(type) ? asString(row?.counterpartyAccount) || undefined : undefined,
+      counterpartyPortfolioId: isTransfer(type) ? asString(row?.counterpartyPortfolioId) || undefined : undefined,
+      transferLots: transferLots.length ? transferLots : undefined,
+      grossAmount: grossAmount ?? undefined,
+      withholdingTax: withholdingTax ?? undefined,
+      reclaimableTax: reclaimableTax ?? undefined
     });
   });
   finalizeTable(report, 'transactions', rawTransactions.length, normalizedTransactions.length);
+  const unpairedTransfers = findUnpairedTransfers(normalizedTransactions);
+  if (unpairedTransfers.length) {
+    warnings.push(`${unpairedTransfers.length} trasferimenti senza la controparte: le quote vengono comunque movimentate sul conto indicato.`);
+  }
 
   const normalizedPrices: PricePoint[] = [];
   rawPrices.forEach((row: any) => {
     const ticker = normalizeTicker(row?.ticker);
     const date = normalizeYmd(row?.date);
     const close = normalizeNumber(row?.close);
-    const currency = normalizeCurrency(row?.currency);
+    const currency = normalizeCurrencyCode(row?.currency);
     if (!ticker || !date || close === null || close < 0 || !currency) {
       addReason(report, 'prices', 'invalid_row', ticker || row?.date || 'row');
       return;
@@ -550,8 +658,8 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
 
   const normalizedFx: FxRate[] = [];
   rawFx.forEach((row: any) => {
-    const baseCurrency = normalizeCurrency(row?.baseCurrency);
-    const quoteCurrency = normalizeCurrency(row?.quoteCurrency);
+    const baseCurrency = normalizeCurrencyCode(row?.baseCurrency);
+    const quoteCurrency = normalizeCurrencyCode(row?.quoteCurrency);
     const date = normalizeYmd(row?.date);
     const rate = normalizeNumber(row?.rate ?? row?.close);
     if (!baseCurrency || !quoteCurrency || !date || rate === null || rate <= 0) {
@@ -570,7 +678,7 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
 
   const normalizedInflationRates: InflationPoint[] = [];
   rawInflationRates.forEach((row: any) => {
-    const currency = normalizeCurrency(row?.currency);
+    const currency = normalizeCurrencyCode(row?.currency);
     const date = normalizeYmd(row?.date);
     const index = normalizeNumber(row?.index);
     if (!currency || !date || index === null || index <= 0) {
@@ -588,7 +696,7 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
 
   const normalizedInflationAnnualRates: InflationAnnualPoint[] = [];
   rawInflationAnnualRates.forEach((row: any) => {
-    const currency = normalizeCurrency(row?.currency);
+    const currency = normalizeCurrencyCode(row?.currency);
     const year = normalizeNumber(row?.year);
     const ratePct = normalizeNumber(row?.ratePct);
     if (!currency || year === null || ratePct === null) {
@@ -678,12 +786,91 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
   });
   finalizeTable(report, 'backtestScenarios', rawBacktestScenarios.length, normalizedBacktestScenarios.length);
 
+  const normalizedSavingsPlans: SavingsPlan[] = [];
+  rawSavingsPlans.forEach((row: any) => {
+    const instrumentTicker = normalizeTicker(row?.instrumentTicker);
+    const amount = normalizeNumber(row?.amount);
+    const currency = normalizeCurrencyCode(row?.currency);
+    const startDate = normalizeYmd(row?.startDate);
+    const frequency = Object.keys(SAVINGS_PLAN_FREQUENCY_LABELS).includes(row?.frequency) ? row.frequency as SavingsPlanFrequency : null;
+    if (!instrumentTicker || amount === null || amount <= 0 || !currency || !startDate || !frequency) {
+      addReason(report, 'savingsPlans', 'invalid_row', instrumentTicker || row?.startDate || 'row');
+      return;
+    }
+    normalizedSavingsPlans.push({
+      ...row,
+      instrumentTicker,
+      amount,
+      currency,
+      frequency,
+      startDate,
+      endDate: normalizeYmd(row?.endDate) || undefined,
+      account: asString(row?.account),
+      skippedDates: Array.isArray(row?.skippedDates) ? row.skippedDates.filter((date: unknown) => isYmd(String(date))) : []
+    });
+  });
+  finalizeTable(report, 'savingsPlans', rawSavingsPlans.length, normalizedSavingsPlans.length);
+
+  const normalizedCustomBenchmarks: CustomBenchmark[] = [];
+  rawCustomBenchmarks.forEach((row: any) => {
+    const name = asString(row?.name).trim();
+    const rebalance = Object.keys(BENCHMARK_REBALANCE_LABELS).includes(row?.rebalance) ? row.rebalance as CustomBenchmark['rebalance'] : null;
+    const components = (Array.isArray(row?.components) ? row.components : [])
+      .map((c: any) => ({
+        ...c,
+        source: c?.source === 'CSV_IMPORT' ? 'CSV_IMPORT' : 'APP_DB',
+        ticker: normalizeTicker(c?.ticker),
+        weightPct: normalizeNumber(c?.weightPct)
+      }))
+      .filter((c: any) => c.ticker && c.weightPct !== null && c.weightPct > 0);
+    if (!name || !rebalance || !components.length) {
+      addReason(report, 'customBenchmarks', 'invalid_row', name || 'row');
+      return;
+    }
+    normalizedCustomBenchmarks.push({
+      ...row,
+      name,
+      rebalance,
+      components
+    });
+  });
+  finalizeTable(report, 'customBenchmarks', rawCustomBenchmarks.length, normalizedCustomBenchmarks.length);
+
+  const normalizeWeights = (value: unknown): Record<string, number> => {
+    const result: Record<string, number> = {};
+    if (!value || typeof value !== 'object') return result;
+    Object.entries(value as Record<string, unknown>).forEach(([key, weight]) => {
+      const num = normalizeNumber(weight);
+      if (key && num !== null && num > 0) result[key] = num;
+    });
+    return result;
+  };
+  const normalizedEtfBreakdowns: EtfBreakdown[] = [];
+  rawEtfBreakdowns.forEach((row: any) => {
+    const ticker = normalizeTicker(row?.ticker);
+    const asOfDate = asString(row?.asOfDate);
+    if (!ticker || !isYmd(asOfDate)) {
+      addReason(report, 'etfBreakdowns', 'invalid_row', ticker || 'row');
+      return;
+    }
+    normalizedEtfBreakdowns.push({
+      ...row,
+      ticker,
+      asOfDate,
+      importedAt: asString(row?.importedAt) || new Date().toISOString(),
+      country: normalizeWeights(row?.country),
+      sector: normalizeWeights(row?.sector),
+      currency: normalizeWeights(row?.currency)
+    });
+  });
+  finalizeTable(report, 'etfBreakdowns', rawEtfBreakdowns.length, normalizedEtfBreakdowns.length);
+
   const normalizedListings: NormalizedPayload['instrumentListings'] = [];
   rawListings.forEach((row: any) => {
     const symbol = normalizeTicker(row?.symbol);
     const exchangeCode = normalizeTicker(row?.exchangeCode);
     const isin = normalizeIsin(row?.isin);
-    const currency = normalizeCurrency(row?.currency);
+    const currency = normalizeCurrencyCode(row?.currency);
     if (!symbol || !exchangeCode || !currency || !isin) {
       addReason(report, 'instrumentListings', 'invalid_row', isin || symbol || exchangeCode || 'row');
       return;
@@ -715,7 +902,10 @@ export const validateAndNormalize = (payload: any): { normalized: NormalizedPayl
       rebalancePlans: normalizedRebalancePlans,
       backtestImports: normalizedBacktestImports,
       backtestImportPrices: normalizedBacktestImportPrices,
-      backtestScenarios: normalizedBacktestScenarios
+      backtestScenarios: normalizedBacktestScenarios,
+      savingsPlans: normalizedSavingsPlans,
+      customBenchmarks: normalizedCustomBenchmarks,
+      etfBreakdowns: normalizedEtfBreakdowns
     },
     report,
     warnings,
@@ -1031,6 +1221,9 @@ export const importToDb = async (
   const backtestImports = applyDefaultPortfolioId(normalized.backtestImports.slice(), fallbackPortfolioId);
   const backtestImportPrices = normalized.backtestImportPrices.slice();
   const backtestScenarios = applyDefaultPortfolioId(normalized.backtestScenarios.slice(), fallbackPortfolioId);
+  const savingsPlans = applyDefaultPortfolioId(normalized.savingsPlans.slice(), fallbackPortfolioId);
+  const customBenchmarks = applyDefaultPortfolioId(normalized.customBenchmarks.slice(), fallbackPortfolioId);
+  const etfBreakdowns = applyDefaultPortfolioId(normalized.etfBreakdowns.slice(), fallbackPortfolioId);
 
   if (!baseReport) {
     finalizeTable(report, 'portfolios', portfolios.length, portfolios.length);
@@ -1047,6 +1240,9 @@ export const importToDb = async (
     finalizeTable(report, 'backtestImports', backtestImports.length, backtestImports.length);
     finalizeTable(report, 'backtestImportPrices', backtestImportPrices.length, backtestImportPrices.length);
     finalizeTable(report, 'backtestScenarios', backtestScenarios.length, backtestScenarios.length);
+    finalizeTable(report, 'savingsPlans', savingsPlans.length, savingsPlans.length);
+    finalizeTable(report, 'customBenchmarks', customBenchmarks.length, customBenchmarks.length);
+    finalizeTable(report, 'etfBreakdowns', etfBreakdowns.length, etfBreakdowns.length);
   }
 
   try {
@@ -1204,6 +1400,39 @@ export const importToDb = async (
     errors.push(`Backtest scenarios: ${report.tables.backtestScenarios.error}`);
   }
 
+  try {
+    await db.transaction('rw', db.savingsPlans, async () => {
+      if (savingsPlans.length) await db.savingsPlans.bulkPut(savingsPlans);
+    });
+    applyPreparedRowStats(report, 'savingsPlans', savingsPlans);
+  } catch (e: any) {
+    report.tables.savingsPlans.error = e?.message || String(e);
+    report.tables.savingsPlans.imported = 0;
+    errors.push(`Savings plans: ${report.tables.savingsPlans.error}`);
+  }
+
+  try {
+    await db.transaction('rw', db.customBenchmarks, async () => {
+      if (customBenchmarks.length) await db.customBenchmarks.bulkPut(customBenchmarks);
+    });
+    applyPreparedRowStats(report, 'customBenchmarks', customBenchmarks);
+  } catch (e: any) {
+    report.tables.customBenchmarks.error = e?.message || String(e);
+    report.tables.customBenchmarks.imported = 0;
+    errors.push(`Custom benchmarks: ${report.tables.customBenchmarks.error}`);
+  }
+
+  try {
+    await db.transaction('rw', db.etfBreakdowns, async () => {
+      if (etfBreakdowns.length) await db.etfBreakdowns.bulkPut(etfBreakdowns);
+    });
+    applyPreparedRowStats(report, 'etfBreakdowns', etfBreakdowns);
+  } catch (e: any) {
+    report.tables.etfBreakdowns.error = e?.message || String(e);
+    report.tables.etfBreakdowns.imported = 0;
+    errors.push(`ETF breakdowns: ${report.tables.etfBreakdowns.error}`);
+  }
+
   console.info('[IMPORT]', {
     portfolios: report.tables.portfolios,
     settings: report.tables.settings,
@@ -1218,6 +1447,9 @@ export const importToDb = async (
     backtestImports: report.tables.backtestImports,
     backtestImportPrices: report.tables.backtestImportPrices,
     backtestScenarios: report.tables.backtestScenarios,
+    savingsPlans: report.tables.savingsPlans,
+    customBenchmarks: report.tables.customBenchmarks,
+    etfBreakdowns: report.tables.etfBreakdowns,
     warnings,
     errors
   });
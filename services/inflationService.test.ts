@@ -7,6 +7,7 @@ import {
   computeRealNavBalanceMetrics,
   dedupeInflationCsvRows,
   deflateHistoryByInflation,
+  estimateLongRunInflation,
   mergeInflationRowsWithExisting,
   normalizeAnnualInflationPoints,
   getInflationCoverage,
@@ -284,4 +285,21 @@ describe('inflationService', () => {
     expect(second.updatedCount).toBe(2);
     expect(second.rows.map(row => row.id)).toEqual([1, 2]);
   });
+
+  it('estimates long-run inflation from CPI, then from annual rates', () => {
+    const cpi: InflationPoint[] = [
+      { currency: Currency.CHF, date: '2013-12-31', index: 90 },
+      { currency: Currency.CHF, date: '2014-12-31', index: 100 },
+      { currency: Currency.CHF, date: '2024-12-31', index: 121.899 }
+    ];
+    const monthly = estimateLongRunInflation({ monthlyPoints: cpi, annualPoints, currency: Currency.CHF });
+    expect(monthly.source).toBe('monthly');
+    expect(monthly.ratePct).toBeCloseTo(2, 2);
+
+    const annual = estimateLongRunInflation({ monthlyPoints: [], annualPoints, currency: Currency.CHF });
+    expect(annual.source).toBe('annual');
+    expect(annual.ratePct).toBeCloseTo((Math.sqrt(1.025 * 1.01) - 1) * 100, 8);
+
+    expect(estimateLongRunInflation({ monthlyPoints: [], annualPoints: [], currency: Currency.EUR }).ratePct).toBeNull();
+  });
 });
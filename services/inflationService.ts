@@ -1,5 +1,6 @@
 import { Currency, InflationAnnualPoint, InflationPoint, PerformancePoint } from '../types';
 import { diffDaysYmd, isYmd } from './dateUtils';
+import { isCurrencyCode } from './currencyUtils';
 
 export type InflationIndexSeries = Map<string, number>;
 
@@ -111,13 +112,13 @@ export const computeRealNavBalanceMetrics = ({
 
 const validPoint = (point: InflationPoint): boolean => {
   return isYmd(point.date)
-    && Object.values(Currency).includes(point.currency)
+    && isCurrencyCode(point.currency)
     && Number.isFinite(point.index)
     && point.index > 0;
 };
 
 const validAnnualPoint = (point: InflationAnnualPoint): boolean => {
-  return Object.values(Currency).includes(point.currency)
+  return isCurrencyCode(point.currency)
     && Number.isInteger(point.year)
     && point.year >= 1900
     && point.year <= 2200
@@ -574,3 +575,45 @@ export const getAnnualInflationCoverage = (
     lastYear: rows[rows.length - 1]?.year
   };
 };
+
+export type LongRunInflationEstimate = {
+  ratePct: number | null;
+  source: InflationMode;
+  label: string;
+};
+
+// Forward-looking assumption: CPI CAGR over the last `years` (monthly data), else the geometric mean of annual rates
+export const estimateLongRunInflation = ({
+  monthlyPoints,
+  annualPoints,
+  currency,
+  years = 10
+}: {
+  monthlyPoints: InflationPoint[];
+  annualPoints: InflationAnnualPoint[];
+  currency: Currency;
+  years?: number;
+}): LongRunInflationEstimate => {
+  const monthly = normalizeInflationPoints(monthlyPoints).filter(point => point.currency === currency);
+  const last = monthly[monthly.length - 1];
+  if (last) {
+    const cutoff = `${Number(last.date.slice(0, 4)) - years}${last.date.slice(4)}`;
+    const first = monthly.find(point => point.date >= cutoff) || monthly[0];
+    const days = diffDaysYmd(last.date, first.date);
+    if (days >= 365 && first.index > 0) {
+      const ratePct = (Math.pow(last.index / first.index, 365.25 / days) - 1) * 100;
+      return { ratePct, source: 'monthly', label: `CPI ${currency} ${first.date.slice(0, 4)}-${last.date.slice(0, 4)}` };
+    }
+  }
+
+  const annual = normalizeAnnualInflationPoints(annualPoints)
+    .filter(point => point.currency === currency)
+    .slice(-years);
+  if (annual.length) {
+    const growth = annual.reduce((acc, point) => acc * (1 + point.ratePct / 100), 1);
+    const ratePct = (Math.pow(growth, 1 / annual.length) - 1) * 100;
+    return { ratePct, source: 'annual', label: `Inflazione annuale ${currency} ${annual[0].year}-${annual[annual.length - 1].year}` };
+  }
+
+  return { ratePct: null, source: 'none', label: `Dati inflazione ${currency} non disponibili` };
+};
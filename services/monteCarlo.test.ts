@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { estimateAssumptionsFromBacktest, runMonteCarlo } from './monteCarlo';
+import { BacktestResult } from './backtestTypes';
+
+const base = {
+  startValue: 100000,
+  years: 10,
+  monthlyContribution: 0,
+  monthlyWithdrawal: 0,
+  indexFlowsToInflation: false,
+  expectedReturnPct: 5,
+  volatilityPct: 0,
+  inflationPct: 0,
+  model: 'normal' as const,
+  paths: 200,
+  seed: 42
+};
+
+describe('monte carlo projection', () => {
+  it('compounds at the expected CAGR when volatility is zero', () => {
+    const result = runMonteCarlo(base);
+    const last = result.nominal[10];
+    expect(result.nominal).toHaveLength(11);
+    expect(last.p10).toBeCloseTo(100000 * 1.05 ** 10, 4);
+    expect(last.p90).toBeCloseTo(last.p10, 8);
+  });
+
+  it('keeps the median near the CAGR and spreads the bands with volatility', () => {
+    const result = runMonteCarlo({ ...base, volatilityPct: 15, paths: 4000 });
+    const last = result.nominal[10];
+    expect(last.p50 / (100000 * 1.05 ** 10)).toBeGreaterThan(0.93);
+    expect(last.p50 / (100000 * 1.05 ** 10)).toBeLessThan(1.07);
+    expect(last.p10).toBeLessThan(last.p25);
+    expect(last.p75).toBeLessThan(last.p90);
+  });
+
+  it('is reproducible with a seed', () => {
+    const a = runMonteCarlo({ ...base, volatilityPct: 12 });
+    const b = runMonteCarlo({ ...base, volatilityPct: 12 });
+    expect(a.nominal[10].p50).toBe(b.nominal[10].p50);
+  });
+
+  it('indexes flows and deflates real values with the inflation assumption', () => {
+    const result = runMonteCarlo({
+      ...base,
+      startValue: 0,
+      years: 1,
+      expectedReturnPct: 0,
+      monthlyContribution: 1000,
+      indexFlowsToInflation: true,
+      inflationPct: 12
+    });
+    const inflationMonthly = 1.12 ** (1 / 12);
+    let expected = 0;
+    for (let m = 1; m <= 12; m += 1) expected += 1000 * inflationMonthly ** m;
+    expect(result.totalContributions).toBeCloseTo(expected, 6);
+    expect(result.nominal[1].p50).toBeCloseTo(expected, 6);
+    expect(result.real[1].p50).toBeCloseTo(expected / 1.12, 6);
+  });
+
+  it('reports depletion and the probability of reaching the target', () => {
+    const result = runMonteCarlo({
+      ...base,
+      expectedReturnPct: 0,
+      monthlyWithdrawal: 1000,
+      targetValue: 1
+    });
+    expect(result.nominal[10].p50).toBe(0);
+    expect(result.probabilityOfDepletion).toBe(100);
+    expect(result.probabilityOfTarget).toBe(0);
+
+    const reached = runMonteCarlo({ ...base, targetValue: 150000 });
+    expect(reached.probabilityOfTarget).toBe(100);
+    expect(reached.probabilityOfDepletion).toBe(0);
+  });
+
+  it('bootstraps historical monthly returns and falls back when history is short', () => {
+    const boot = runMonteCarlo({ ...base, model: 'bootstrap', historicalMonthlyReturns: Array(24).fill(0.01) });
+    expect(boot.model).toBe('bootstrap');
+    expect(boot.nominal[10].p50).toBeCloseTo(100000 * 1.01 ** 120, 4);
+
+    const fallback = runMonteCarlo({ ...base, model: 'bootstrap', historicalMonthlyReturns: [0.01, 0.02] });
+    expect(fallback.model).toBe('normal');
+    expect(fallback.warnings).toHaveLength(1);
+  });
+
+  it('reads assumptions from a backtest result', () => {
+    const result = {
+      navSeries: [
+        { date: '2024-01-31', nav: 100, twrrIndex: 1 },
+        { date: '2024-02-29', nav: 110, twrrIndex: 1.1 },
+        { date: '2024-03-31', nav: 99, twrrIndex: 0.99 }
+      ],
+      annualReturns: [],
+      summary: { initialCapital: 100, totalContributions: 100, finalValue: 99, totalReturnPct: -1, cagr: 4, volatility: 12 },
+      warnings: []
+    } as BacktestResult;
+    const assumptions = estimateAssumptionsFromBacktest(result);
+    expect(assumptions?.expectedReturnPct).toBe(4);
+    expect(assumptions?.monthlyReturns[0]).toBeCloseTo(0.1, 10);
+    expect(assumptions?.monthlyReturns[1]).toBeCloseTo(-0.1, 10);
+  });
+});
@@ -0,0 +1,246 @@
+import { PerformancePoint } from '../types';
+import { BacktestResult } from './backtestTypes';
+import { calculateAnalytics } from './financeUtils';
+import { toIndexSeries } from './riskMetrics';
+
+export type MonteCarloReturnModel = 'normal' | 'bootstrap';
+
+export type ReturnAssumptions = {
+  expectedReturnPct: number;
+  volatilityPct: number;
+  monthlyReturns: number[];
+  // Month-end date of each monthly return
+  returnDates: string[];
+  startDate?: string;
+  endDate?: string;
+};
+
+export type MonteCarloParams = {
+  startValue: number;
+  years: number;
+  monthlyContribution: number;
+  monthlyWithdrawal: number;
+  // Flows are in today's money and grow with inflation
+  indexFlowsToInflation: boolean;
+  expectedReturnPct: number;
+  volatilityPct: number;
+  inflationPct: number;
+  model: MonteCarloReturnModel;
+  historicalMonthlyReturns?: number[];
+  paths: number;
+  targetValue?: number;
+  targetReal?: boolean;
+  seed?: number;
+};
+
+export type MonteCarloBand = {
+  year: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+};
+
+export type MonteCarloResult = {
+  paths: number;
+  model: MonteCarloReturnModel;
+  nominal: MonteCarloBand[];
+  real: MonteCarloBand[];
+  probabilityOfTarget: number | null;
+  probabilityOfDepletion: number;
+  totalContributions: number;
+  totalWithdrawals: number;
+  warnings: string[];
+};
+
+export const MONTE_CARLO_MAX_PATHS = 20000;
+export const MONTE_CARLO_MAX_YEARS = 60;
+
+const monthlyReturnsFromIndex = (points: { date: string; index: number }[]) => {
+  const monthlyReturns: number[] = [];
+  const returnDates: string[] = [];
+  for (let i = 1; i < points.length; i += 1) {
+    if (points[i - 1].index > 0 && points[i].index > 0) {
+      monthlyReturns.push(points[i].index / points[i - 1].index - 1);
+      returnDates.push(points[i].date);
+    }
+  }
+  return { monthlyReturns, returnDates };
+};
+
+// Monthly history as produced by calculateHistoricalPerformance
+export const estimateAssumptionsFromHistory = (history: PerformancePoint[]): ReturnAssumptions | null => {
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date)).filter(point => point.value > 0);
+  if (sorted.length < 3) return null;
+  const analytics = calculateAnalytics(sorted, 'monthly');
+  return {
+    expectedReturnPct: analytics.annualizedReturn,
+    volatilityPct: analytics.stdDev,
+    ...monthlyReturnsFromIndex(toIndexSeries(sorted)),
+    startDate: sorted[0].date,
+    endDate: sorted[sorted.length - 1].date
+  };
+};
+
+export const estimateAssumptionsFromBacktest = (result: BacktestResult): ReturnAssumptions | null => {
+  const nav = result.navSeries.filter(point => (point.twrrIndex ?? 0) > 0);
+  if (nav.length < 3 || result.summary.cagr === undefined || result.summary.volatility === undefined) return null;
+  return {
+    expectedReturnPct: result.summary.cagr,
+    volatilityPct: result.summary.volatility,
+    ...monthlyReturnsFromIndex(nav.map(point => ({ date: point.date, index: point.twrrIndex as number }))),
+    startDate: nav[0].date,
+    endDate: nav[nav.length - 1].date
+  };
+};
+
+// mulberry32: small, fast and reproducible with a fixed seed
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createGaussian = (random: () => number) => {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+};
+
+export type ReturnSampler = {
+  model: MonteCarloReturnModel;
+  warnings: string[];
+  draw: () => number;
+};
+
+// The expected return is a CAGR (as calculateAnalytics reports it), so in the normal model the median
+// path compounds at that rate: monthly log-returns ~ N(ln(1 + r) / 12, sigma^2 / 12).
+export const createReturnSampler = (params: Pick<
+  MonteCarloParams,
+  'model' | 'expectedReturnPct' | 'volatilityPct' | 'historicalMonthlyReturns' | 'seed'
+>): ReturnSampler => {
+  const warnings: string[] = [];
+  const history = (params.historicalMonthlyReturns || []).filter(Number.isFinite);
+  let model = params.model;
+  if (model === 'bootstrap' && history.length < 12) {
+    warnings.push('Storico insufficiente per il bootstrap (minimo 12 mesi): uso il modello normale.');
+    model = 'normal';
+  }
+  const random = createRandom(params.seed ?? Date.now());
+  const gaussian = createGaussian(random);
+  const logMean = Math.log(1 + params.expectedReturnPct / 100) / 12;
+  const logStd = (params.volatilityPct / 100) / Math.sqrt(12);
+  const draw = model === 'bootstrap'
+    ? () => history[Math.floor(random() * history.length)]
+    : () => Math.exp(logMean + logStd * gaussian()) - 1;
+  return { model, warnings, draw };
+};
+
+export const percentile = (sorted: Float64Array, p: number) => {
+  if (!sorted.length) return 0;
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export const toPercentileBand = (year: number, values: Float64Array): MonteCarloBand => {
+  const sorted = Float64Array.from(values).sort();
+  return {
+    year,
+    p10: percentile(sorted, 0.1),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9)
+  };
+};
+
+// Returns and flows are applied monthly, flows at month end. A path that reaches zero stays depleted.
+export const runMonteCarlo = (params: MonteCarloParams): MonteCarloResult => {
+  const paths = Math.max(1, Math.min(MONTE_CARLO_MAX_PATHS, Math.round(params.paths)));
+  const years = Math.max(1, Math.min(MONTE_CARLO_MAX_YEARS, Math.round(params.years)));
+  const months = years * 12;
+  const inflationMonthly = Math.pow(1 + params.inflationPct / 100, 1 / 12) - 1;
+
+  const { model, warnings, draw: drawReturn } = createReturnSampler(params);
+
+  // Nominal flows are the same on every path
+  const contributions = new Float64Array(months);
+  const withdrawals = new Float64Array(months);
+  let totalContributions = 0;
+  let totalWithdrawals = 0;
+  for (let m = 0; m < months; m += 1) {
+    const indexation = params.indexFlowsToInflation ? Math.pow(1 + inflationMonthly, m + 1) : 1;
+    contributions[m] = Math.max(0, params.monthlyContribution) * indexation;
+    withdrawals[m] = Math.max(0, params.monthlyWithdrawal) * indexation;
+    totalContributions += contributions[m];
+    totalWithdrawals += withdrawals[m];
+  }
+
+  // Path values at each year end (index 0 = today)
+  const checkpoints = Array.from({ length: years + 1 }, () => new Float64Array(paths));
+  let depleted = 0;
+  for (let path = 0; path < paths; path += 1) {
+    let value = Math.max(0, params.startValue);
+    let hitZero = false;
+    checkpoints[0][path] = value;
+    for (let m = 0; m < months; m += 1) {
+      if (!hitZero) {
+        value = value * (1 + drawReturn()) + contributions[m] - withdrawals[m];
+        if (value <= 0) {
+          value = 0;
+          hitZero = true;
+        }
+      }
+      if ((m + 1) % 12 === 0) checkpoints[(m + 1) / 12][path] = value;
+    }
+    if (hitZero) depleted += 1;
+  }
+
+  const nominal = checkpoints.map((values, year) => toPercentileBand(year, values));
+  const real = checkpoints.map((values, year) => {
+    const deflator = Math.pow(1 + inflationMonthly, year * 12);
+    return toPercentileBand(year, values.map(value => value / deflator));
+  });
+
+  let probabilityOfTarget: number | null = null;
+  if (params.targetValue && params.targetValue > 0) {
+    const finals = checkpoints[years];
+    const deflator = params.targetReal ? Math.pow(1 + inflationMonthly, months) : 1;
+    let hits = 0;
+    finals.forEach(value => {
+      if (value / deflator >= (params.targetValue as number)) hits += 1;
+    });
+    probabilityOfTarget = (hits / paths) * 100;
+  }
+
+  return {
+    paths,
+    model,
+    nominal,
+    real,
+    probabilityOfTarget,
+    probabilityOfDepletion: (depleted / paths) * 100,
+    totalContributions,
+    totalWithdrawals,
+    warnings
+  };
+};
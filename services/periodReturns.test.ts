@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { PerformancePoint, Transaction, TransactionType } from '../types';
+import { buildMonthlyReturnGrid, computeTrailingReturns } from './periodReturns';
+
+const point = (date: string, value: number, index = value / 1000): PerformancePoint => ({
+  date,
+  value,
+  invested: 1000,
+  monthlyReturnPct: 0,
+  cumulativeReturnPct: (index - 1) * 100,
+  cumulativeTWRRIndex: index
+});
+
+// Month-ends from Dec 2021 to Dec 2024, +1% per month
+const monthlyHistory = (): PerformancePoint[] => {
+  const points: PerformancePoint[] = [];
+  let index = 1;
+  for (let i = 0; i <= 36; i += 1) {
+    const year = 2021 + Math.floor((i + 11) / 12);
+    const month = ((i + 11) % 12) + 1;
+    const lastDay = new Date(year, month, 0).getDate();
+    if (i > 0) index *= 1.01;
+    points.push(point(`${year}-${String(month).padStart(2, '0')}-${lastDay}`, 1000 * index, index));
+  }
+  return points;
+};
+
+describe('period returns', () => {
+  it('builds the month by year grid with compounded annual totals', () => {
+    const grid = buildMonthlyReturnGrid([
+      { date: '2023-11-15', index: 100 },
+      { date: '2023-11-30', index: 102 },
+      { date: '2023-12-29', index: 99.96 },
+      { date: '2024-01-31', index: 104.958 }
+    ]);
+    expect(grid.map(row => row.year)).toEqual([2024, 2023]);
+    expect(grid[1].months[10]).toBeCloseTo(2, 8);
+    expect(grid[1].months[11]).toBeCloseTo(-2, 8);
+    expect(grid[1].totalPct).toBeCloseTo(-0.04, 8);
+    expect(grid[0].months[0]).toBeCloseTo(5, 8);
+    expect(grid[0].months[1]).toBeNull();
+    expect(grid[0].totalPct).toBeCloseTo(5, 8);
+  });
+
+  it('returns cumulative short windows and annualized long ones', () => {
+    const rows = computeTrailingReturns({ history: monthlyHistory(), transactions: [] });
+    const byKey = new Map(rows.map(row => [row.key, row]));
+    expect(byKey.get('1M')?.twrrPct).toBeCloseTo(1, 8);
+    expect(byKey.get('3M')?.twrrPct).toBeCloseTo((1.01 ** 3 - 1) * 100, 8);
+    expect(byKey.get('YTD')?.startDate).toBe('2023-12-31');
+    expect(byKey.get('1Y')?.twrrPct).toBeCloseTo((1.01 ** 12 - 1) * 100, 8);
+    expect(byKey.get('3Y')?.annualized).toBe(true);
+    expect(byKey.get('3Y')?.twrrPct).toBeCloseTo((1.01 ** 12 - 1) * 100, 1);
+    expect(byKey.get('5Y')?.twrrPct).toBeNull();
+    expect(byKey.get('ITD')?.annualized).toBe(true);
+    expect(byKey.get('1Y')?.realPct).toBeNull();
+  });
+
+  it('computes MWRR from the value at the window start and the flows inside it', () => {
+    const history = [point('2024-01-31', 1000), point('2024-02-29', 2100), point('2024-03-31', 2200)];
+    const transactions = [
+      { id: 1, date: new Date('2023-12-01T12:00:00'), type: TransactionType.Deposit, quantity: 1000, price: 1, fees: 0 },
+      { id: 2, date: new Date('2024-02-15T12:00:00'), type: TransactionType.Deposit, quantity: 1000, price: 1, fees: 0 }
+    ] as Transaction[];
+    const rows = computeTrailingReturns({ history, transactions, realHistory: history });
+    const oneMonth = rows.find(row => row.key === '1M')!;
+    expect(oneMonth.startDate).toBe('2024-02-29');
+    // No flows in March: MWRR equals the simple return 2200 / 2100
+    expect(oneMonth.mwrrPct).toBeCloseTo((2200 / 2100 - 1) * 100, 4);
+    expect(oneMonth.realPct).toBeCloseTo(oneMonth.twrrPct as number, 8);
+  });
+});
@@ -0,0 +1,133 @@
+import { format, subMonths } from 'date-fns';
+import { PerformancePoint, Transaction } from '../types';
+import { diffDaysYmd, parseYmdLocal } from './dateUtils';
+import { computeMwrrForRange, MwrrMarketData } from './financeUtils';
+import { IndexPoint, toIndexSeries } from './riskMetrics';
+
+export type MonthlyReturnYear = {
+  year: number;
+  // Jan..Dec, null where the month has no data
+  months: (number | null)[];
+  totalPct: number | null;
+};
+
+export type TrailingPeriodKey = '1M' | '3M' | '6M' | 'YTD' | '1Y' | '3Y' | '5Y' | 'ITD';
+
+export type TrailingReturn = {
+  key: TrailingPeriodKey;
+  label: string;
+  startDate?: string;
+  annualized: boolean;
+  twrrPct: number | null;
+  mwrrPct: number | null;
+  realPct: number | null;
+};
+
+const TRAILING_PERIODS: { key: TrailingPeriodKey; label: string; months?: number; annualized?: boolean }[] = [
+  { key: '1M', label: '1M', months: 1 },
+  { key: '3M', label: '3M', months: 3 },
+  { key: '6M', label: '6M', months: 6 },
+  { key: 'YTD', label: 'YTD' },
+  { key: '1Y', label: '1A', months: 12 },
+  { key: '3Y', label: '3A ann.', months: 36, annualized: true },
+  { key: '5Y', label: '5A ann.', months: 60, annualized: true },
+  { key: 'ITD', label: "Dall'inizio" }
+];
+
+// A history starting a few days after the period start (weekend, first quote) still covers the period
+const START_TOLERANCE_DAYS = 7;
+
+// Month-end to month-end; the first month runs from the first point, so it can be partial
+export const buildMonthlyReturnGrid = (series: IndexPoint[]): MonthlyReturnYear[] => {
+  const sorted = series.filter(p => p.index > 0).sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return [];
+  const monthEnds = new Map<string, number>();
+  sorted.forEach(point => monthEnds.set(point.date.slice(0, 7), point.index));
+
+  const byYear = new Map<number, MonthlyReturnYear>();
+  let prev = sorted[0].index;
+  let yearBase = prev;
+  let currentYear = Number(sorted[0].date.slice(0, 4));
+  Array.from(monthEnds.entries()).forEach(([month, index]) => {
+    const year = Number(month.slice(0, 4));
+    if (year !== currentYear) {
+      yearBase = prev;
+      currentYear = year;
+    }
+    const row = byYear.get(year) || { year, months: Array(12).fill(null), totalPct: null };
+    row.months[Number(month.slice(5, 7)) - 1] = (index / prev - 1) * 100;
+    row.totalPct = (index / yearBase - 1) * 100;
+    byYear.set(year, row);
+    prev = index;
+  });
+  return Array.from(byYear.values()).sort((a, b) => b.year - a.year);
+};
+
+const periodStart = (period: (typeof TRAILING_PERIODS)[number], endDate: string, firstDate: string) => {
+  if (period.months) return format(subMonths(parseYmdLocal(endDate), period.months), 'yyyy-MM-dd');
+  if (period.key === 'YTD') return `${Number(endDate.slice(0, 4)) - 1}-12-31`;
+  return firstDate;
+};
+
+// Index of the last point on or before `date`
+const findBaseIndex = (dates: string[], date: string) => {
+  let found = -1;
+  for (let i = 0; i < dates.length && dates[i] <= date; i += 1) found = i;
+  if (found < 0 && dates.length && diffDaysYmd(dates[0], date) <= START_TOLERANCE_DAYS) return 0;
+  return found;
+};
+
+const annualizeGrowth = (growth: number, days: number) => Math.pow(growth, 365.25 / Math.max(1, days)) - 1;
+
+// Windows of 1Y or less are cumulative; 3Y, 5Y and since inception over more than a year are annualized.
+// MWRR restarts at each window start with the value held then as the initial flow.
+export const computeTrailingReturns = (params: {
+  history: PerformancePoint[];
+  transactions: Transaction[];
+  realHistory?: PerformancePoint[];
+  market?: MwrrMarketData;
+}): TrailingReturn[] => {
+  const { history, transactions, realHistory = [], market } = params;
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return [];
+  const dates = sorted.map(p => p.date);
+  const endDate = dates[dates.length - 1];
+  const twrr = toIndexSeries(sorted);
+  const real = toIndexSeries([...realHistory].sort((a, b) => a.date.localeCompare(b.date)));
+  const realDates = real.map(p => p.date);
+
+  return TRAILING_PERIODS.map(period => {
+    const targetStart = periodStart(period, endDate, dates[0]);
+    const baseIdx = findBaseIndex(dates, targetStart);
+    const empty: TrailingReturn = { key: period.key, label: period.label, annualized: false, twrrPct: null, mwrrPct: null, realPct: null };
+    if (baseIdx < 0 || baseIdx >= dates.length - 1) return empty;
+    const startDate = dates[baseIdx];
+    const days = diffDaysYmd(endDate, startDate);
+    const annualized = Boolean(period.annualized) || (period.key === 'ITD' && days > 366);
+
+    const toPct = (growth: number) => (annualized ? annualizeGrowth(growth, days) : growth - 1) * 100;
+    const growthOf = (series: IndexPoint[], from: number) => {
+      const base = series[from]?.index;
+      const last = series[series.length - 1]?.index;
+      return base > 0 && last > 0 ? last / base : null;
+    };
+
+    const twrrGrowth = growthOf(twrr, baseIdx);
+    const realBaseIdx = realDates.length ? findBaseIndex(realDates, startDate) : -1;
+    const realGrowth = realBaseIdx >= 0 && realDates[realDates.length - 1] === endDate ? growthOf(real, realBaseIdx) : null;
+    const mwrrRate = computeMwrrForRange(sorted.slice(baseIdx), transactions, market);
+    const mwrrPct = mwrrRate === null || !Number.isFinite(mwrrRate)
+      ? null
+      : (annualized ? mwrrRate : Math.pow(1 + mwrrRate, days / 365.25) - 1) * 100;
+
+    return {
+      key: period.key,
+      label: period.label,
+      startDate,
+      annualized,
+      twrrPct: twrrGrowth !== null ? toPct(twrrGrowth) : null,
+      mwrrPct,
+      realPct: realGrowth !== null ? toPct(realGrowth) : null
+    };
+  });
+};
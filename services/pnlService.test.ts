@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import type { FxRateRow } from './fxService';
+import { buildPnlCsv } from './csvExport';
+import { computePnlReport, PORTFOLIO_PNL_KEY } from './pnlService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date(2024, 0, 2),
+  instrumentTicker: 'UUU',
+  type: TransactionType.Buy,
+  quantity: 1,
+  price: 100,
+  fees: 0,
+  currency: Currency.USD,
+  account: 'TEST',
+  ...overrides
+});
+
+const instruments: Instrument[] = [
+  { ticker: 'UUU', name: 'US Fund', type: AssetType.ETF, currency: Currency.USD }
+];
+
+const prices: PricePoint[] = [
+  { ticker: 'UUU', date: '2024-01-02', close: 100, currency: Currency.USD },
+  { ticker: 'UUU', date: '2024-12-31', close: 120, currency: Currency.USD },
+  { ticker: 'UUU', date: '2025-12-31', close: 110, currency: Currency.USD }
+];
+
+const fxRates: FxRateRow[] = [
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-01', rate: 0.9 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-12-31', rate: 0.95 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2025-06-01', rate: 0.85 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2025-12-31', rate: 0.8 }
+];
+
+const transactions: Transaction[] = [
+  makeTx({ quantity: 10, price: 100 }),
+  makeTx({ date: new Date(2025, 2, 1), type: TransactionType.Dividend, quantity: 10, price: 0 }),
+  makeTx({ date: new Date(2025, 5, 1), type: TransactionType.Sell, quantity: 5, price: 130 }),
+  makeTx({ date: new Date(2025, 11, 31), type: TransactionType.Fee, instrumentTicker: undefined, quantity: 0, price: 0, fees: 20, currency: Currency.CHF })
+];
+
+const buildReport = () => computePnlReport({
+  transactions,
+  instruments,
+  prices,
+  fxRates,
+  baseCurrency: Currency.CHF,
+  valuationDate: '2025-12-31',
+  method: 'FIFO'
+});
+
+describe('computePnlReport', () => {
+  it('splits realized and unrealized P&L into price and FX effects', () => {
+    const report = buildReport();
+    const row = report.instruments.find(r => r.ticker === 'UUU');
+    expect(row?.realizedLocal).toBeCloseTo(150, 6);
+    expect(row?.realizedBase).toBeCloseTo(102.5, 6);
+    expect(row?.unrealizedLocal).toBeCloseTo(50, 6);
+    expect(row?.unrealizedBase).toBeCloseTo(-10, 6);
+    expect(row?.priceEffectBase).toBeCloseTo(135 + 45, 6);
+    expect(row?.fxEffectBase).toBeCloseTo(-32.5 - 55, 6);
+    expect(row?.dividendsBase).toBeCloseTo(9.5, 6);
+    expect(row?.quantity).toBe(5);
+
+    const portfolioRow = report.instruments.find(r => r.ticker === PORTFOLIO_PNL_KEY);
+    expect(portfolioRow?.feesBase).toBeCloseTo(20, 6);
+    expect(report.totals.totalBase).toBeCloseTo(102.5 - 10 + 9.5 - 20, 6);
+    expect(report.missingFx).toEqual([]);
+  });
+
+  it('attributes unrealized changes and realized gains to the right year', () => {
+    const report = buildReport();
+    const y2024 = report.years.find(r => r.year === 2024 && r.ticker === 'UUU');
+    expect(y2024?.unrealizedBase).toBeCloseTo(240, 6);
+    expect(y2024?.priceEffectBase).toBeCloseTo(180, 6);
+    expect(y2024?.fxEffectBase).toBeCloseTo(60, 6);
+    expect(y2024?.realizedBase).toBe(0);
+
+    const y2025 = report.years.find(r => r.year === 2025 && r.ticker === 'UUU');
+    expect(y2025?.unrealizedBase).toBeCloseTo(-250, 6);
+    expect(y2025?.realizedBase).toBeCloseTo(102.5, 6);
+
+    const totalsSum = report.yearTotals.reduce((sum, r) => sum + r.totalBase, 0);
+    expect(totalsSum).toBeCloseTo(report.totals.totalBase, 6);
+  });
+
+  it('reports missing FX pairs instead of guessing a rate', () => {
+    const report = computePnlReport({
+      transactions,
+      instruments,
+      prices,
+      fxRates: [],
+      baseCurrency: Currency.CHF,
+      valuationDate: '2025-12-31',
+      method: 'FIFO'
+    });
+    expect(report.missingFx).toEqual(['USD/CHF']);
+    expect(report.instruments.find(r => r.ticker === 'UUU')?.realizedBase).toBe(0);
+  });
+
+  it('exports yearly, instrument and total rows to CSV', () => {
+    const csv = buildPnlCsv(buildReport());
+    const lines = csv.split('\n');
+    expect(lines[0]).toContain('Scope,Year,Ticker,Name,Currency,RealizedLocal,RealizedBase');
+    expect(lines.filter(l => l.startsWith('YEAR,'))).toHaveLength(3);
+    expect(lines[lines.length - 1]).toContain('TOTAL,2025-12-31');
+    expect(lines[lines.length - 1]).toContain(',82,CHF');
+  });
+});
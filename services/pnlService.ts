@@ -0,0 +1,346 @@
+import { format } from 'date-fns';
+import { CostBasisMethod, Currency, Instrument, PricePoint, Transaction, TransactionType, WithholdingRule } from '../types';
+import { buildSplitAdjuster } from './corporateActions';
+import { getDividendBreakdown, getWithholdingCountry, resolveWithholdingRule } from './dividendTax';
+import { convertAmountFromSeries, FxRateRow } from './fxService';
+import { getCanonicalTicker, getLatestPricePoint } from './financeUtils';
+import { computeTaxLotLedger, TaxLot } from './taxLots';
+
+export type PnlBreakdown = {
+  realizedLocal: number;
+  realizedBase: number;
+  unrealizedLocal: number;
+  unrealizedBase: number;
+  dividendsLocal: number;
+  dividendsBase: number;
+  withholdingLostBase: number; // already out of the net dividends, shown for reference
+  feesLocal: number;
+  feesBase: number;
+  priceEffectBase: number;
+  fxEffectBase: number;
+  totalBase: number;
+};
+
+export type InstrumentPnlRow = PnlBreakdown & {
+  ticker: string;
+  name: string;
+  currency?: Currency;
+  quantity: number;
+  costBasisLocal: number;
+  marketValueLocal: number;
+};
+
+export type YearlyPnlRow = PnlBreakdown & {
+  year: number;
+  ticker: string;
+  name: string;
+  currency?: Currency;
+};
+
+export type PnlReport = {
+  baseCurrency: Currency;
+  valuationDate: string;
+  instruments: InstrumentPnlRow[];
+  years: YearlyPnlRow[];
+  yearTotals: Array<PnlBreakdown & { year: number }>;
+  totals: PnlBreakdown;
+  missingFx: string[];
+  missingPrices: string[];
+};
+
+// Portfolio-level costs (e.g. custody fees without an instrument) are grouped under this key.
+export const PORTFOLIO_PNL_KEY = '';
+
+const emptyBreakdown = (): PnlBreakdown => ({
+  realizedLocal: 0,
+  realizedBase: 0,
+  unrealizedLocal: 0,
+  unrealizedBase: 0,
+  dividendsLocal: 0,
+  dividendsBase: 0,
+  withholdingLostBase: 0,
+  feesLocal: 0,
+  feesBase: 0,
+  priceEffectBase: 0,
+  fxEffectBase: 0,
+  totalBase: 0
+});
+
+const BREAKDOWN_KEYS = Object.keys(emptyBreakdown()) as Array<keyof PnlBreakdown>;
+
+const addInto = (target: PnlBreakdown, source: Partial<PnlBreakdown>, sign = 1) => {
+  BREAKDOWN_KEYS.forEach(key => {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value)) target[key] += sign * value;
+  });
+};
+
+const finalizeTotal = <T extends PnlBreakdown>(row: T): T => {
+  row.totalBase = row.realizedBase + row.unrealizedBase + row.dividendsBase - row.feesBase;
+  return row;
+};
+
+type UnrealizedSnapshot = Map<string, {
+  quantity: number;
+  costLocal: number;
+  valueLocal: number;
+  unrealizedLocal: number;
+  unrealizedBase: number;
+  priceEffectBase: number;
+  fxEffectBase: number;
+  currency?: Currency;
+}>;
+
+export const computePnlReport = (params: {
+  transactions: Transaction[];
+  instruments: Instrument[];
+  prices: PricePoint[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  valuationDate: string;
+  method?: CostBasisMethod;
+  withholdingRules?: Record<string, WithholdingRule>;
+}): PnlReport => {
+  const { transactions, instruments, prices, fxRates, baseCurrency, valuationDate, method, withholdingRules } = params;
+  const missingFx = new Set<string>();
+  const missingPrices = new Set<string>();
+  const instrumentByTicker = new Map(instruments.map(inst => [inst.ticker, inst]));
+  const splitAdjust = buildSplitAdjuster(transactions);
+
+  const fxToBase = (currency: Currency | undefined, date: string): number | null => {
+    const from = currency || baseCurrency;
+    if (from === baseCurrency) return 1;
+    const converted = convertAmountFromSeries(1, from, baseCurrency, date, fxRates);
+    if (!converted) {
+      missingFx.add(`${from}/${baseCurrency}`);
+      return null;
+    }
+    return converted.lookup.rate;
+  };
+
+  const toBase = (amount: number, currency: Currency | undefined, date: string) => {
+    const rate = fxToBase(currency, date);
+    return rate === null ? 0 : amount * rate;
+  };
+
+  const snapshotAt = (date: string): UnrealizedSnapshot => {
+    const upTo = transactions.filter(t => format(t.date, 'yyyy-MM-dd') <= date);
+    const ledger = computeTaxLotLedger(upTo, { method, asOfDate: date });
+    const lotsByTicker = new Map<string, TaxLot[]>();
+    ledger.openLots.forEach(lot => {
+      const list = lotsByTicker.get(lot.ticker) || [];
+      list.push(lot);
+      lotsByTicker.set(lot.ticker, list);
+    });
+    const snapshot: UnrealizedSnapshot = new Map();
+    lotsByTicker.forEach((lots, ticker) => {
+      const inst = instrumentByTicker.get(ticker);
+      const priceTicker = inst ? getCanonicalTicker(inst) || ticker : ticker;
+      const pricePoint = getLatestPricePoint(priceTicker, date, prices);
+      if (!pricePoint || !(pricePoint.close > 0)) {
+        missingPrices.add(ticker);
+        return;
+      }
+      const priceCurrency = (pricePoint.currency || inst?.currency || lots[0].currency || baseCurrency) as Currency;
+      const fxNow = fxToBase(priceCurrency, date);
+      const adjustedClose = pricePoint.close * splitAdjust(ticker, date);
+      const entry = {
+        quantity: 0,
+        costLocal: 0,
+        valueLocal: 0,
+        unrealizedLocal: 0,
+        unrealizedBase: 0,
+        priceEffectBase: 0,
+        fxEffectBase: 0,
+        currency: priceCurrency
+      };
+      lots.forEach(lot => {
+        const valueLocal = lot.quantity * adjustedClose;
+        const fxOpen = fxToBase(lot.currency || priceCurrency, lot.openDate);
+        entry.quantity += lot.quantity;
+        entry.costLocal += lot.costBasis;
+        entry.valueLocal += valueLocal;
+        entry.unrealizedLocal += valueLocal - lot.costBasis;
+        if (fxNow === null || fxOpen === null) return;
+        const priceEffect = (valueLocal - lot.costBasis) * fxOpen;
+        const fxEffect = valueLocal * (fxNow - fxOpen);
+        entry.priceEffectBase += priceEffect;
+        entry.fxEffectBase += fxEffect;
+        entry.unrealizedBase += priceEffect + fxEffect;
+      });
+      snapshot.set(ticker, entry);
+    });
+    return snapshot;
+  };
+
+  const byTicker = new Map<string, InstrumentPnlRow>();
+  const byYear = new Map<string, YearlyPnlRow>();
+
+  const getInstrumentRow = (ticker: string, currency?: Currency) => {
+    let row = byTicker.get(ticker);
+    if (!row) {
+      const inst = instrumentByTicker.get(ticker);
+      row = {
+        ...emptyBreakdown(),
+        ticker,
+        name: ticker === PORTFOLIO_PNL_KEY ? 'Portafoglio' : (inst?.name || ticker),
+        currency: inst?.currency || currency,
+        quantity: 0,
+        costBasisLocal: 0,
+        marketValueLocal: 0
+      };
+      byTicker.set(ticker, row);
+    }
+    return row;
+  };
+
+  const getYearRow = (year: number, ticker: string, currency?: Currency) => {
+    const key = `${year}|${ticker}`;
+    let row = byYear.get(key);
+    if (!row) {
+      const inst = instrumentByTicker.get(ticker);
+      row = {
+        ...emptyBreakdown(),
+        year,
+        ticker,
+        name: ticker === PORTFOLIO_PNL_KEY ? 'Portafoglio' : (inst?.name || ticker),
+        currency: inst?.currency || currency
+      };
+      byYear.set(key, row);
+    }
+    return row;
+  };
+
+  const record = (ticker: string, date: string, currency: Currency | undefined, values: Partial<PnlBreakdown>) => {
+    addInto(getInstrumentRow(ticker, currency), values);
+    addInto(getYearRow(Number(date.slice(0, 4)), ticker, currency), values);
+  };
+
+  const inRange = transactions.filter(t => format(t.date, 'yyyy-MM-dd') <= valuationDate);
+  const ledger = computeTaxLotLedger(inRange, { method, asOfDate: valuationDate });
+
+  ledger.realized.forEach(sale => {
+    const fxSell = fxToBase(sale.currency, sale.date);
+    let priceEffect = 0;
+    let fxEffect = 0;
+    sale.lots.forEach(slice => {
+      const proceedsSlice = sale.quantity > 0 ? sale.proceeds * (slice.quantity / sale.quantity) : 0;
+      const fxOpen = fxToBase(sale.currency, slice.openDate);
+      if (fxSell === null || fxOpen === null) return;
+      priceEffect += (proceedsSlice - slice.costBasis) * fxOpen;
+      fxEffect += proceedsSlice * (fxSell - fxOpen);
+    });
+    record(sale.ticker, sale.date, sale.currency, {
+      realizedLocal: sale.realizedGain,
+      realizedBase: priceEffect + fxEffect,
+      priceEffectBase: priceEffect,
+      fxEffectBase: fxEffect
+    });
+  });
+
+  inRange.forEach(tx => {
+    const date = format(tx.date, 'yyyy-MM-dd');
+    if (tx.type === TransactionType.Dividend && tx.instrumentTicker) {
+      const rule = resolveWithholdingRule(getWithholdingCountry(instrumentByTicker.get(tx.instrumentTicker)), withholdingRules);
+      const { net, lost } = getDividendBreakdown(tx, rule);
+      record(tx.instrumentTicker, date, tx.currency, {
+        dividendsLocal: net,
+        dividendsBase: toBase(net, tx.currency, date),
+        withholdingLostBase: toBase(lost, tx.currency, date)
+      });
+    }
+    if (tx.type === TransactionType.Fee || (tx.type === TransactionType.TransferOut && tx.fees)) {
+      const amount = tx.type === TransactionType.Fee ? Number(tx.fees || tx.quantity || 0) : Number(tx.fees);
+      record(tx.instrumentTicker || PORTFOLIO_PNL_KEY, date, tx.currency, {
+        feesLocal: amount,
+        feesBase: toBase(amount, tx.currency, date)
+      });
+    }
+  });
+
+  const current = snapshotAt(valuationDate);
+  current.forEach((entry, ticker) => {
+    const row = getInstrumentRow(ticker, entry.currency);
+    row.quantity = entry.quantity;
+    row.costBasisLocal = entry.costLocal;
+    row.marketValueLocal = entry.valueLocal;
+    addInto(row, {
+      unrealizedLocal: entry.unrealizedLocal,
+      unrealizedBase: entry.unrealizedBase,
+      priceEffectBase: entry.priceEffectBase,
+      fxEffectBase: entry.fxEffectBase
+    });
+  });
+
+  const firstYear = inRange.reduce((min, tx) => Math.min(min, tx.date.getFullYear()), Infinity);
+  const lastYear = Number(valuationDate.slice(0, 4));
+  if (Number.isFinite(firstYear)) {
+    let previous: UnrealizedSnapshot = new Map();
+    for (let year = firstYear; year <= lastYear; year++) {
+      const yearEnd = year === lastYear ? valuationDate : `${year}-12-31`;
+      const snapshot = year === lastYear ? current : snapshotAt(yearEnd);
+      const tickers = new Set([...snapshot.keys(), ...previous.keys()]);
+      tickers.forEach(ticker => {
+        const now = snapshot.get(ticker);
+        const before = previous.get(ticker);
+        const delta = {
+          unrealizedLocal: (now?.unrealizedLocal || 0) - (before?.unrealizedLocal || 0),
+          unrealizedBase: (now?.unrealizedBase || 0) - (before?.unrealizedBase || 0),
+          priceEffectBase: (now?.priceEffectBase || 0) - (before?.priceEffectBase || 0),
+          fxEffectBase: (now?.fxEffectBase || 0) - (before?.fxEffectBase || 0)
+        };
+        if (Object.values(delta).every(value => Math.abs(value) < 1e-9)) return;
+        addInto(getYearRow(year, ticker, now?.currency || before?.currency), delta);
+      });
+      previous = snapshot;
+    }
+  }
+
+  const instrumentsRows = Array.from(byTicker.values())
+    .map(row => finalizeTotal(row))
+    .sort((a, b) => b.totalBase - a.totalBase);
+  const yearRows = Array.from(byYear.values())
+    .map(row => finalizeTotal(row))
+    .sort((a, b) => a.year - b.year || a.ticker.localeCompare(b.ticker));
+
+  const yearTotalsMap = new Map<number, PnlBreakdown & { year: number }>();
+  yearRows.forEach(row => {
+    const entry = yearTotalsMap.get(row.year) || { ...emptyBreakdown(), year: row.year };
+    addInto(entry, {
+      realizedBase: row.realizedBase,
+      unrealizedBase: row.unrealizedBase,
+      dividendsBase: row.dividendsBase,
+      withholdingLostBase: row.withholdingLostBase,
+      feesBase: row.feesBase,
+      priceEffectBase: row.priceEffectBase,
+      fxEffectBase: row.fxEffectBase
+    });
+    yearTotalsMap.set(row.year, entry);
+  });
+  const yearTotals = Array.from(yearTotalsMap.values())
+    .map(row => finalizeTotal(row))
+    .sort((a, b) => a.year - b.year);
+
+  const totals = emptyBreakdown();
+  instrumentsRows.forEach(row => addInto(totals, {
+    realizedBase: row.realizedBase,
+    unrealizedBase: row.unrealizedBase,
+    dividendsBase: row.dividendsBase,
+    withholdingLostBase: row.withholdingLostBase,
+    feesBase: row.feesBase,
+    priceEffectBase: row.priceEffectBase,
+    fxEffectBase: row.fxEffectBase
+  }));
+  finalizeTotal(totals);
+
+  return {
+    baseCurrency,
+    valuationDate,
+    instruments: instrumentsRows,
+    years: yearRows,
+    yearTotals,
+    totals,
+    missingFx: Array.from(missingFx.values()).sort(),
+    missingPrices: Array.from(missingPrices.values()).sort()
+  };
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { AssetType, Currency, Instrument, PortfolioPosition, Transaction, TransactionType } from '../types';
-import { computePortfolioCostMetrics } from './portfolioCostService';
+import { computePortfolioCostMetrics, estimateTradeFeeRatePct } from './portfolioCostService';
 import { FxRateRow } from './fxService';
 
 const makePosition = (ticker: string, value: number): PortfolioPosition => ({
@@ -99,4 +99,13 @@ describe('portfolioCostService', () => {
     expect(result.transactionFeesRangeBase).toBeCloseTo(9);
     expect(result.missingFxCount).toBe(1);
   });
+
+  it('estimates the typical trade fee rate from buys and sells', () => {
+    expect(estimateTradeFeeRatePct([
+      tx({ fees: 1 }),
+      tx({ type: TransactionType.Sell, quantity: 2, price: 50, fees: 0.5 }),
+      tx({ type: TransactionType.Dividend, fees: 10 })
+    ])).toBeCloseTo(0.75, 10);
+    expect(estimateTradeFeeRatePct([])).toBeNull();
+  });
 });
@@ -145,3 +145,17 @@ export const computePortfolioCostMetrics = ({
     missingTerTickers: Array.from(missingTer).sort()
   };
 };
+
+// Typical trading cost: average fee / traded amount over buys and sells. Ratios are per trade, so currencies don't mix.
+export const estimateTradeFeeRatePct = (transactions: Transaction[]): number | null => {
+  const ratios = transactions
+    .filter(tx => tx.type === TransactionType.Buy || tx.type === TransactionType.Sell)
+    .map(tx => {
+      const gross = Math.abs(Number(tx.quantity) * Number(tx.price));
+      const fee = Number(tx.fees || 0);
+      return gross > 0 && Number.isFinite(fee) && fee >= 0 ? (fee / gross) * 100 : null;
+    })
+    .filter((ratio): ratio is number => ratio !== null);
+  if (!ratios.length) return null;
+  return ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { buildContributionWaterfall, computePositionContributions } from './positionContribution';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2024-01-02T12:00:00'),
+  instrumentTicker: 'AAA',
+  type: TransactionType.Buy,
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  currency: Currency.CHF,
+  account: 'Main',
+  ...overrides
+});
+
+const instruments: Instrument[] = [
+  { id: 1, ticker: 'AAA', name: 'Alpha', type: AssetType.Stock, currency: Currency.CHF },
+  { id: 2, ticker: 'BBB', name: 'Beta', type: AssetType.Stock, currency: Currency.CHF }
+];
+
+const price = (ticker: string, date: string, close: number): PricePoint => ({ ticker, date, close, currency: Currency.CHF });
+
+const prices: PricePoint[] = [
+  price('AAA', '2024-01-02', 100),
+  price('AAA', '2024-01-10', 110),
+  price('AAA', '2024-01-20', 121),
+  price('BBB', '2024-01-02', 100),
+  price('BBB', '2024-01-10', 90),
+  price('BBB', '2024-01-20', 90)
+];
+
+const transactions: Transaction[] = [
+  makeTx({}),
+  makeTx({ instrumentTicker: 'BBB' }),
+  makeTx({ instrumentTicker: 'BBB', type: TransactionType.Sell, date: new Date('2024-01-10T12:00:00'), price: 90 })
+];
+
+describe('position contribution', () => {
+  it('sums weight x return over sub-periods cut at each trade', () => {
+    const result = computePositionContributions({
+      transactions,
+      instruments,
+      prices,
+      fxRates: [],
+      baseCurrency: Currency.CHF,
+      startDate: '2024-01-02',
+      endDate: '2024-01-20'
+    })!;
+    expect(result.subPeriods).toBe(2);
+    expect(result.positions.map(p => p.ticker)).toEqual(['AAA', 'BBB']);
+
+    const [alpha, beta] = result.positions;
+    expect(alpha.contributionPct).toBeCloseTo(15, 8);
+    expect(alpha.returnPct).toBeCloseTo(21, 8);
+    expect(alpha.avgWeightPct).toBeCloseTo((14 / 18) * 100, 8);
+    expect(alpha).toMatchObject({ startValue: 1000, endValue: 1210 });
+    expect(alpha.pnl).toBeCloseTo(210, 8);
+    expect(beta.contributionPct).toBeCloseTo(-5, 8);
+    expect(beta.endValue).toBe(0);
+
+    expect(result.totalContributionPct).toBeCloseTo(10, 8);
+    expect(result.twrPct).toBeCloseTo(10, 8);
+
+    const steps = buildContributionWaterfall(result, 1);
+    expect(steps.map(step => [step.label, step.kind])).toEqual([['AAA', 'up'], ['Altri', 'down'], ['Totale', 'total']]);
+    expect(steps[1].start).toBeCloseTo(15, 8);
+    expect(steps[1].end).toBeCloseTo(10, 8);
+  });
+
+  it('returns null for an empty range', () => {
+    expect(computePositionContributions({
+      transactions,
+      instruments,
+      prices,
+      fxRates: [],
+      baseCurrency: Currency.CHF,
+      startDate: '2024-01-20',
+      endDate: '2024-01-20'
+    })).toBeNull();
+  });
+});
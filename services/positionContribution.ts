@@ -0,0 +1,238 @@
+import { format } from 'date-fns';
+import { Currency, Instrument, PricePoint, Transaction } from '../types';
+import { buildSplitAdjuster, sortTransactionsForReplay } from './corporateActions';
+import { diffDaysYmd } from './dateUtils';
+import { applyTransactionToHoldings, getCanonicalTicker } from './financeUtils';
+import type { FxRateRow } from './fxService';
+import { computeCurrentValuedPositions } from './positionValuation';
+
+export type PositionContribution = {
+  ticker: string;
+  name: string;
+  currency: Currency;
+  contributionPct: number;
+  // Day-weighted over the sub-periods of the range (0 while not held)
+  avgWeightPct: number;
+  // Linked over the sub-periods in which the position was held
+  returnPct: number;
+  pnl: number;
+  startValue: number;
+  endValue: number;
+};
+
+export type ContributionSummary = {
+  baseCurrency: Currency;
+  startDate: string;
+  endDate: string;
+  subPeriods: number;
+  positions: PositionContribution[];
+  // Sum of the contributions and the linked (time-weighted) return of the same sub-periods
+  totalContributionPct: number;
+  twrPct: number;
+};
+
+export type ContributionArgs = {
+  transactions: Transaction[];
+  instruments: Instrument[];
+  prices: PricePoint[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  fxPivots?: Currency[];
+  startDate: string;
+  endDate: string;
+};
+
+type Accumulator = {
+  ticker: string;
+  name: string;
+  currency: Currency;
+  contribution: number;
+  weightDays: number;
+  growth: number;
+  pnl: number;
+  startValue?: number;
+  endValue: number;
+};
+
+const toYmd = (date: Date | string) => (typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd'));
+
+// Latest close on or before each boundary, one row per listing: keeps the valuation in
+// computeCurrentValuedPositions linear in the number of holdings.
+const buildPriceSnapshot = (prices: PricePoint[], tickers: Set<string>) => {
+  const byTicker = new Map<string, PricePoint[]>();
+  prices.forEach(p => {
+    if (!tickers.has(p.ticker)) return;
+    const list = byTicker.get(p.ticker) || [];
+    list.push(p);
+    byTicker.set(p.ticker, list);
+  });
+  byTicker.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return (date: string): PricePoint[] => {
+    const snapshot: PricePoint[] = [];
+    byTicker.forEach(list => {
+      let lo = 0;
+      let hi = list.length - 1;
+      let found = -1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (list[mid].date <= date) {
+          found = mid;
+          lo = mid + 1;
+        } else {
+          hi = mid - 1;
+        }
+      }
+      if (found >= 0) snapshot.push(list[found]);
+    });
+    return snapshot;
+  };
+};
+
+// Sub-periods are cut at every transaction date, so holdings are constant inside each one and
+// the weighted returns add up to the sub-period return. Contributions are summed across sub-periods.
+export const computePositionContributions = (args: ContributionArgs): ContributionSummary | null => {
+  const { transactions, instruments, prices, fxRates, baseCurrency, fxPivots, startDate, endDate } = args;
+  if (!transactions.length || !startDate || !endDate || endDate <= startDate) return null;
+
+  const replay = sortTransactionsForReplay(transactions);
+  const boundaries = Array.from(new Set([
+    startDate,
+    ...replay.map(t => toYmd(t.date)).filter(date => date > startDate && date < endDate),
+    endDate
+  ])).sort();
+
+  const splitAdjust = buildSplitAdjuster(transactions);
+  const snapshotAt = buildPriceSnapshot(prices, new Set(instruments.map(inst => getCanonicalTicker(inst) || inst.ticker)));
+  const instrumentByTicker = new Map(instruments.map(inst => [inst.ticker, inst]));
+
+  const valueAt = (holdings: Map<string, number>, date: string) => {
+    const result = computeCurrentValuedPositions({
+      holdings,
+      instruments,
+      prices: snapshotAt(date),
+      fxRates,
+      valuationDate: date,
+      baseCurrency,
+      fxPivots
+    });
+    return new Map(result.positions.map(p => [p.ticker, p.currentValueCHF]));
+  };
+
+  const accumulators = new Map<string, Accumulator>();
+  // Replayed once, in order, as the boundaries advance
+  const rawHoldings = new Map<string, number>();
+  let txIndex = 0;
+  let growth = 1;
+  let totalContribution = 0;
+  let subPeriods = 0;
+  const totalDays = Math.max(1, diffDaysYmd(endDate, startDate));
+
+  for (let k = 0; k < boundaries.length - 1; k += 1) {
+    const from = boundaries[k];
+    const to = boundaries[k + 1];
+    while (txIndex < replay.length && toYmd(replay[txIndex].date) <= from) {
+      applyTransactionToHoldings(rawHoldings, replay[txIndex]);
+      txIndex += 1;
+    }
+    const holdings = new Map<string, number>();
+    rawHoldings.forEach((qty, ticker) => {
+      if (qty > 0.000001) holdings.set(ticker, qty * splitAdjust(ticker, from));
+    });
+    if (!holdings.size) continue;
+
+    const startValues = valueAt(holdings, from);
+    const endValues = valueAt(holdings, to);
+    const total = Array.from(startValues.values()).reduce((sum, v) => sum + (v > 0 ? v : 0), 0);
+    if (total <= 0) continue;
+
+    const days = Math.max(0, diffDaysYmd(to, from));
+    let periodReturn = 0;
+    startValues.forEach((start, ticker) => {
+      if (!(start > 0)) return;
+      const end = endValues.get(ticker) || 0;
+      const weight = start / total;
+      const ret = end / start - 1;
+      periodReturn += weight * ret;
+
+      const inst = instrumentByTicker.get(ticker);
+      let acc = accumulators.get(ticker);
+      if (!acc) {
+        acc = {
+          ticker,
+          name: inst?.name || ticker,
+          currency: (inst?.currency || baseCurrency) as Currency,
+          contribution: 0,
+          weightDays: 0,
+          growth: 1,
+          pnl: 0,
+          endValue: 0
+        };
+        accumulators.set(ticker, acc);
+      }
+      if (acc.startValue === undefined) acc.startValue = k === 0 ? start : 0;
+      acc.contribution += weight * ret;
+      acc.weightDays += weight * days;
+      acc.growth *= 1 + ret;
+      acc.pnl += end - start;
+      acc.endValue = to === endDate ? end : 0;
+    });
+
+    growth *= 1 + periodReturn;
+    totalContribution += periodReturn;
+    subPeriods += 1;
+  }
+
+  if (!subPeriods) return null;
+
+  const positions = Array.from(accumulators.values())
+    .map(acc => ({
+      ticker: acc.ticker,
+      name: acc.name,
+      currency: acc.currency,
+      contributionPct: acc.contribution * 100,
+      avgWeightPct: (acc.weightDays / totalDays) * 100,
+      returnPct: (acc.growth - 1) * 100,
+      pnl: acc.pnl,
+      startValue: acc.startValue || 0,
+      endValue: acc.endValue
+    }))
+    .sort((a, b) => b.contributionPct - a.contributionPct);
+
+  return {
+    baseCurrency,
+    startDate,
+    endDate,
+    subPeriods,
+    positions,
+    totalContributionPct: totalContribution * 100,
+    twrPct: (growth - 1) * 100
+  };
+};
+
+export type WaterfallStep = {
+  label: string;
+  start: number;
+  end: number;
+  value: number;
+  kind: 'up' | 'down' | 'total';
+};
+
+// The largest contributors from best to worst, the tail folded into "Altri", then the compounding gap and the linked total.
+export const buildContributionWaterfall = (summary: ContributionSummary, maxItems = 10): WaterfallStep[] => {
+  const ranked = summary.positions.slice().sort((a, b) => Math.abs(b.contributionPct) - Math.abs(a.contributionPct));
+  const items = ranked.slice(0, maxItems).map(p => ({ label: p.ticker, value: p.contributionPct }));
+  const rest = ranked.slice(maxItems).reduce((sum, p) => sum + p.contributionPct, 0);
+  items.sort((a, b) => b.value - a.value);
+  if (ranked.length > maxItems) items.push({ label: 'Altri', value: rest });
+  const compounding = summary.twrPct - summary.totalContributionPct;
+  if (Math.abs(compounding) >= 0.005) items.push({ label: 'Composizione', value: compounding });
+
+  let running = 0;
+  const steps: WaterfallStep[] = items.map(item => {
+    const start = running;
+    running += item.value;
+    return { label: item.label, start, end: running, value: item.value, kind: item.value < 0 ? 'down' : 'up' };
+  });
+  steps.push({ label: 'Totale', start: 0, end: summary.twrPct, value: summary.twrPct, kind: 'total' });
+  return steps;
+};
@@ -1,4 +1,6 @@
 import { Currency, Transaction, TransactionType } from '../types';
+import { clampCostAllocation, getSplitFactor, isCorporateAction, sortTransactionsForReplay } from './corporateActions';
+import { getTransferredCost } from './transfers';
 
 export type PositionCostBasis = {
   ticker: string;
@@ -8,17 +10,58 @@ export type PositionCostBasis = {
   currency?: Currency;
 };
 
+type RunningCost = Map<string, { quantity: number; totalCost: number; currency?: Currency }>;
+
+const applyCorporateAction = (running: RunningCost, tx: Transaction) => {
+  const ticker = tx.instrumentTicker as string;
+  const factor = getSplitFactor(tx);
+  if (factor !== null) {
+    const entry = running.get(ticker);
+    if (entry) entry.quantity *= factor;
+    return;
+  }
+  if (!tx.relatedTicker || tx.relatedTicker === ticker) return;
+  const source = running.get(tx.relatedTicker);
+  const target = running.get(ticker) || { quantity: 0, totalCost: 0, currency: tx.currency };
+  if (tx.type === TransactionType.TickerChange) {
+    if (!source) return;
+    target.quantity += source.quantity;
+    target.totalCost += source.totalCost;
+    if (!target.currency) target.currency = source.currency;
+    running.delete(tx.relatedTicker);
+    running.set(ticker, target);
+    return;
+  }
+  if (tx.type === TransactionType.SpinOff) {
+    const qty = Number(tx.quantity || 0);
+    if (!Number.isFinite(qty) || qty <= 0) return;
+    const movedCost = source ? source.totalCost * clampCostAllocation(tx.costAllocation) : 0;
+    if (source) source.totalCost -= movedCost;
+    target.quantity += qty;
+    target.totalCost += movedCost;
+    running.set(ticker, target);
+  }
+};
+
 export const computePositionCostBasis = (transactions: Transaction[]): Map<string, PositionCostBasis> => {
-  const sorted = transactions
-    .filter(t => Boolean(t.instrumentTicker))
-    .slice()
-    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const sorted = sortTransactionsForReplay(transactions.filter(t => Boolean(t.instrumentTicker)));
 
-  const running = new Map<string, { quantity: number; totalCost: number; currency?: Currency }>();
+  const running: RunningCost = new Map();
+  // Cost leaving with a transfer, picked up by its incoming leg in the same portfolio
+  const inTransit = new Map<string, number>();
 
   sorted.forEach(tx => {
     if (!tx.instrumentTicker) return;
-    if (tx.type !== TransactionType.Buy && tx.type !== TransactionType.Sell) return;
+    if (isCorporateAction(tx.type)) {
+      applyCorporateAction(running, tx);
+      return;
+    }
+    if (
+      tx.type !== TransactionType.Buy
+      && tx.type !== TransactionType.Sell
+      && tx.type !== TransactionType.TransferIn
+      && tx.type !== TransactionType.TransferOut
+    ) return;
     const ticker = tx.instrumentTicker;
     const entry = running.get(ticker) || { quantity: 0, totalCost: 0, currency: tx.currency };
     if (!entry.currency && tx.currency) entry.currency = tx.currency;
@@ -31,7 +74,12 @@ export const computePositionCostBasis = (transactions: Transaction[]): Map<strin
     if (tx.type === TransactionType.Buy) {
       entry.totalCost += qty * price + (Number.isFinite(fees) ? fees : 0);
       entry.quantity += qty;
-    } else if (tx.type === TransactionType.Sell) {
+    } else if (tx.type === TransactionType.TransferIn) {
+      const pending = tx.transferId ? inTransit.get(tx.transferId) : undefined;
+      if (tx.transferId) inTransit.delete(tx.transferId);
+      entry.totalCost += pending ?? getTransferredCost(tx) ?? qty * price;
+      entry.quantity += qty;
+    } else {
       if (entry.quantity <= 0) {
         entry.quantity = 0;
         entry.totalCost = 0;
@@ -40,6 +88,7 @@ export const computePositionCostBasis = (transactions: Transaction[]): Map<strin
         const qtySold = Math.min(qty, entry.quantity);
         entry.totalCost -= avgCost * qtySold;
         entry.quantity -= qtySold;
+        if (tx.type === TransactionType.TransferOut && tx.transferId) inTransit.set(tx.transferId, avgCost * qtySold);
         if (entry.quantity <= 1e-8) {
           entry.quantity = 0;
           entry.totalCost = 0;
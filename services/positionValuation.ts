@@ -33,6 +33,7 @@ export const computeCurrentValuedPositions = (params: {
   fxRates: FxRateRow[];
   valuationDate: string;
   baseCurrency?: Currency;
+  fxPivots?: Currency[];
 }): ValuedPositionsResult => {
   const {
     holdings,
@@ -40,7 +41,8 @@ export const computeCurrentValuedPositions = (params: {
     prices,
     fxRates,
     valuationDate,
-    baseCurrency = Currency.CHF
+    baseCurrency = Currency.CHF,
+    fxPivots
   } = params;
 
   const uniqueInstruments = Array.from(
@@ -71,7 +73,7 @@ export const computeCurrentValuedPositions = (params: {
       valueCHF = valueLocal;
       unitPriceCHF = price;
     } else {
-      const converted = convertAmountFromSeries(valueLocal, priceCurrency, baseCurrency, valuationDate, fxRates);
+      const converted = convertAmountFromSeries(valueLocal, priceCurrency, baseCurrency, valuationDate, fxRates, { pivots: fxPivots });
       if (converted) {
         fxRateToChf = converted.lookup.rate;
         fxDate = converted.lookup.date;
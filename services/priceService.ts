@@ -2,7 +2,7 @@
 import { AppSettings, AssetType, Currency, Instrument, PricePoint, PriceProviderType, PriceTickerConfig, TransactionType } from '../types';
 import { format, subDays, addDays } from 'date-fns';
 import Dexie from 'dexie';
-import { isValidEodhdSymbol, resolveEodhdSymbol } from './symbolUtils';
+import { asCurrency, isValidEodhdSymbol, resolveEodhdSymbol } from './symbolUtils';
 import { fetchJsonWithDiagnostics, FetchJsonDiagnostics, toNum } from './diagnostics';
 import { applyAssetsMapToSettings, buildAssetsMapIndex, fetchAssetsMap, getPriceFromAssetsMap, AppsScriptAssetRow } from './appsScriptService';
 import { addDaysYmd, diffDaysYmd, parseYmdLocal, subDaysYmd } from './dateUtils';
@@ -803,7 +803,7 @@ class GoogleSheetsPriceProvider implements PriceProvider {
       return {
         ticker: String(cols[tickerIdx] || '').trim(),
         close: Number(cols[closeIdx]),
-        currency: (currencyIdx >= 0 ? cols[currencyIdx] : undefined) as Currency | undefined,
+        currency: currencyIdx >= 0 ? asCurrency(cols[currencyIdx]) : undefined,
         date: dateIdx >= 0 ? cols[dateIdx] : undefined
       } as SheetRow;
     }).filter(r => r.ticker && Number.isFinite(r.close));
@@ -1136,7 +1136,7 @@ export const syncPrices = async (
               ticker: priceTicker,
               date: mapped.date || today,
               close: mapped.close,
-              currency: priceCurrency || mapped.currency
+              currency: (priceCurrency || mapped.currency) as Currency
             });
           } else {
             const row = appsScriptIndex.get(priceTicker);
@@ -1261,6 +1261,8 @@ export const getTickersForBackfill = async (
     const cur = qtyMap.get(key) || 0;
     if (t.type === TransactionType.Buy) qtyMap.set(key, cur + (t.quantity || 0));
     if (t.type === TransactionType.Sell) qtyMap.set(key, cur - (t.quantity || 0));
+    if (t.type === TransactionType.TransferIn) qtyMap.set(key, cur + (t.quantity || 0));
+    if (t.type === TransactionType.TransferOut) qtyMap.set(key, cur - (t.quantity || 0));
   });
   const current = Array.from(qtyMap.entries())
     .filter(([, qty]) => qty > 1e-8)
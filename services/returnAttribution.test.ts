@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { computeReturnAttribution } from './returnAttribution';
+import type { FxRateRow } from './fxService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2024-01-02T12:00:00'),
+  instrumentTicker: 'KO',
+  type: TransactionType.Buy,
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  currency: Currency.USD,
+  account: 'IBKR',
+  ...overrides
+});
+
+const instruments: Instrument[] = [
+  { id: 1, ticker: 'KO', name: 'Coca-Cola', type: AssetType.Stock, currency: Currency.USD },
+  { id: 2, ticker: 'NESN', name: 'Nestle', type: AssetType.Stock, currency: Currency.CHF }
+];
+
+const prices: PricePoint[] = [
+  { ticker: 'KO', date: '2024-01-02', close: 100, currency: Currency.USD },
+  { ticker: 'KO', date: '2024-01-03', close: 110, currency: Currency.USD },
+  { ticker: 'NESN', date: '2024-01-02', close: 100, currency: Currency.CHF },
+  { ticker: 'NESN', date: '2024-01-03', close: 105, currency: Currency.CHF }
+];
+
+const fxRates: FxRateRow[] = [
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-02', rate: 0.9 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-03', rate: 0.81 }
+];
+
+const run = (transactions: Transaction[]) => computeReturnAttribution({
+  transactions,
+  instruments,
+  prices,
+  fxRates,
+  baseCurrency: Currency.CHF,
+  endDate: '2024-01-03'
+});
+
+describe('return attribution', () => {
+  it('splits a foreign position into local, FX and cross terms', () => {
+    const result = run([makeTx({})]);
+    const ko = result?.positions[0];
+    expect(ko).toMatchObject({ ticker: 'KO', kind: 'position', currency: Currency.USD, startValue: 900 });
+    expect(ko?.localReturnPct).toBeCloseTo(10, 8);
+    expect(ko?.fxReturnPct).toBeCloseTo(-10, 8);
+    expect(ko?.crossReturnPct).toBeCloseTo(-1, 8);
+    expect(ko?.totalReturnPct).toBeCloseTo(-1, 8);
+    expect(ko?.localPnl).toBeCloseTo(90, 8);
+    expect(ko?.fxPnl).toBeCloseTo(-90, 8);
+    expect(ko?.crossPnl).toBeCloseTo(-9, 8);
+    expect(ko?.endValue).toBeCloseTo(891, 8);
+  });
+
+  it('weights the portfolio decomposition by start-of-period value', () => {
+    const result = run([
+      makeTx({}),
+      makeTx({ instrumentTicker: 'NESN', currency: Currency.CHF })
+    ]);
+    expect(result?.startDate).toBe('2024-01-02');
+    const nesn = result?.positions.find(p => p.ticker === 'NESN');
+    expect(nesn?.fxReturnPct).toBe(0);
+    expect(nesn?.localPnl).toBeCloseTo(50, 8);
+
+    const portfolio = result!.portfolio;
+    expect(portfolio.localReturnPct).toBeCloseTo((140 / 1900) * 100, 8);
+    expect(portfolio.fxReturnPct).toBeCloseTo((-90 / 1900) * 100, 8);
+    expect(portfolio.totalReturnPct).toBeCloseTo((41 / 1900) * 100, 8);
+    expect(portfolio.totalPnl).toBeCloseTo(41, 8);
+    expect(result?.series[result.series.length - 1].totalPct).toBeCloseTo(portfolio.totalReturnPct, 8);
+  });
+});
@@ -0,0 +1,208 @@
+import { Currency, Instrument, PricePoint, Transaction } from '../types';
+import { buildNavSeriesDetailed, Granularity, NavDetailPoint } from './financeUtils';
+import type { FxRateRow } from './fxService';
+
+export type AttributionComponents = {
+  localReturnPct: number;
+  fxReturnPct: number;
+  crossReturnPct: number;
+  totalReturnPct: number;
+  localPnl: number;
+  fxPnl: number;
+  crossPnl: number;
+  totalPnl: number;
+};
+
+export type PositionAttribution = AttributionComponents & {
+  // Instrument ticker, or the currency code for a cash balance
+  ticker: string;
+  kind: 'position' | 'cash';
+  currency: Currency;
+  startValue: number;
+  endValue: number;
+};
+
+export type AttributionPoint = {
+  date: string;
+  localPct: number;
+  fxPct: number;
+  crossPct: number;
+  totalPct: number;
+};
+
+export type ReturnAttribution = {
+  baseCurrency: Currency;
+  startDate: string;
+  endDate: string;
+  portfolio: AttributionComponents;
+  positions: PositionAttribution[];
+  series: AttributionPoint[];
+  missingFxPairs: string[];
+};
+
+export type ReturnAttributionArgs = {
+  transactions: Transaction[];
+  instruments: Instrument[];
+  prices: PricePoint[];
+  fxRates: FxRateRow[];
+  baseCurrency: Currency;
+  fxPivots?: Currency[];
+  startDate?: string;
+  endDate?: string;
+  granularity?: Granularity;
+};
+
+type Accumulator = {
+  ticker: string;
+  kind: 'position' | 'cash';
+  currency: Currency;
+  localGrowth: number;
+  fxGrowth: number;
+  totalGrowth: number;
+  localPnl: number;
+  fxPnl: number;
+  crossPnl: number;
+  startValue: number;
+  endValue: number;
+};
+
+const toComponents = (localGrowth: number, fxGrowth: number, totalGrowth: number, pnl: { local: number; fx: number; cross: number }): AttributionComponents => {
+  const localReturnPct = (localGrowth - 1) * 100;
+  const fxReturnPct = (fxGrowth - 1) * 100;
+  const totalReturnPct = (totalGrowth - 1) * 100;
+  return {
+    localReturnPct,
+    fxReturnPct,
+    crossReturnPct: totalReturnPct - localReturnPct - fxReturnPct,
+    totalReturnPct,
+    localPnl: pnl.local,
+    fxPnl: pnl.fx,
+    crossPnl: pnl.cross,
+    totalPnl: pnl.local + pnl.fx + pnl.cross
+  };
+};
+
+const cashByCurrency = (point: NavDetailPoint) => {
+  const map = new Map<Currency, number>();
+  point.cashBalances.forEach(balance => {
+    map.set(balance.currency, (map.get(balance.currency) || 0) + balance.amount);
+  });
+  return map;
+};
+
+// Each period is attributed on the holdings at its start: (1 + r) = (1 + local) × (1 + fx), so the
+// cross term is local × fx. Periods are linked geometrically; trades only change the next period's weights.
+export const computeReturnAttribution = (args: ReturnAttributionArgs): ReturnAttribution | null => {
+  const { transactions, instruments, prices, fxRates, baseCurrency, fxPivots, startDate, endDate, granularity = 'daily' } = args;
+  const nav = buildNavSeriesDetailed(transactions, instruments, prices, granularity, startDate, endDate, {
+    fxRates,
+    baseCurrency,
+    pivots: fxPivots
+  });
+  if (nav.length < 2) return null;
+
+  const accumulators = new Map<string, Accumulator>();
+  const accumulatorFor = (key: string, ticker: string, kind: Accumulator['kind'], currency: Currency, startValue: number) => {
+    let acc = accumulators.get(key);
+    if (!acc) {
+      acc = { ticker, kind, currency, localGrowth: 1, fxGrowth: 1, totalGrowth: 1, localPnl: 0, fxPnl: 0, crossPnl: 0, startValue, endValue: 0 };
+      accumulators.set(key, acc);
+    }
+    return acc;
+  };
+
+  let portfolioLocal = 1;
+  let portfolioFx = 1;
+  let portfolioTotal = 1;
+  const portfolioPnl = { local: 0, fx: 0, cross: 0 };
+  const missingFx = new Set<string>();
+  const series: AttributionPoint[] = [{ date: nav[0].date, localPct: 0, fxPct: 0, crossPct: 0, totalPct: 0 }];
+
+  for (let i = 1; i < nav.length; i += 1) {
+    const prev = nav[i - 1];
+    const curr = nav[i];
+    curr.missingFxPairs.forEach(pair => missingFx.add(pair));
+    const currByTicker = new Map(curr.positions.map(p => [p.ticker, p]));
+    let periodLocal = 0;
+    let periodFx = 0;
+    let periodCross = 0;
+
+    const apply = (acc: Accumulator, startValue: number, local: number, fx: number) => {
+      const cross = local * fx;
+      acc.localGrowth *= 1 + local;
+      acc.fxGrowth *= 1 + fx;
+      acc.totalGrowth *= (1 + local) * (1 + fx);
+      acc.localPnl += startValue * local;
+      acc.fxPnl += startValue * fx;
+      acc.crossPnl += startValue * cross;
+      periodLocal += startValue * local;
+      periodFx += startValue * fx;
+      periodCross += startValue * cross;
+    };
+
+    prev.positions.forEach(position => {
+      const next = currByTicker.get(position.ticker);
+      if (!next || next.currency !== position.currency || !(position.price > 0) || !(position.fxRate > 0)) return;
+      const acc = accumulatorFor(position.ticker, position.ticker, 'position', position.currency, position.valueBaseCcy);
+      apply(acc, position.valueBaseCcy, next.price / position.price - 1, next.fxRate / position.fxRate - 1);
+    });
+
+    const prevCash = cashByCurrency(prev);
+    prevCash.forEach((amount, currency) => {
+      if (currency === baseCurrency || Math.abs(amount) < 0.000001) return;
+      const prevRate = prev.fxUsed[currency];
+      const currRate = curr.fxUsed[currency];
+      if (!(prevRate > 0) || !(currRate > 0)) return;
+      const startValue = amount * prevRate;
+      apply(accumulatorFor(`cash:${currency}`, currency, 'cash', currency, startValue), startValue, 0, currRate / prevRate - 1);
+    });
+
+    if (prev.navBaseCcy > 0) {
+      const local = periodLocal / prev.navBaseCcy;
+      const fx = periodFx / prev.navBaseCcy;
+      const cross = periodCross / prev.navBaseCcy;
+      portfolioLocal *= 1 + local;
+      portfolioFx *= 1 + fx;
+      portfolioTotal *= 1 + local + fx + cross;
+    }
+    portfolioPnl.local += periodLocal;
+    portfolioPnl.fx += periodFx;
+    portfolioPnl.cross += periodCross;
+
+    const localPct = (portfolioLocal - 1) * 100;
+    const fxPct = (portfolioFx - 1) * 100;
+    const totalPct = (portfolioTotal - 1) * 100;
+    series.push({ date: curr.date, localPct, fxPct, crossPct: totalPct - localPct - fxPct, totalPct });
+  }
+
+  const last = nav[nav.length - 1];
+  const lastCash = cashByCurrency(last);
+  accumulators.forEach(acc => {
+    if (acc.kind === 'cash') {
+      acc.endValue = (lastCash.get(acc.currency) || 0) * (last.fxUsed[acc.currency] || 0);
+    } else {
+      acc.endValue = last.positions.find(p => p.ticker === acc.ticker)?.valueBaseCcy || 0;
+    }
+  });
+
+  const positions = Array.from(accumulators.values())
+    .map(acc => ({
+      ticker: acc.ticker,
+      kind: acc.kind,
+      currency: acc.currency,
+      startValue: acc.startValue,
+      endValue: acc.endValue,
+      ...toComponents(acc.localGrowth, acc.fxGrowth, acc.totalGrowth, { local: acc.localPnl, fx: acc.fxPnl, cross: acc.crossPnl })
+    }))
+    .sort((a, b) => Math.abs(b.totalPnl) - Math.abs(a.totalPnl));
+
+  return {
+    baseCurrency,
+    startDate: nav[0].date,
+    endDate: last.date,
+    portfolio: toComponents(portfolioLocal, portfolioFx, portfolioTotal, portfolioPnl),
+    positions,
+    series,
+    missingFxPairs: Array.from(missingFx).sort()
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Currency } from '../types';
+import { computeRiskMetrics, DEFAULT_RISK_FREE_RATE, getRiskFreeRate, IndexPoint, normalQuantile } from './riskMetrics';
+
+const fromReturns = (returns: number[]): IndexPoint[] => {
+  const series: IndexPoint[] = [{ date: '2024-01-31', index: 100 }];
+  returns.forEach((r, i) => {
+    const month = String(((i + 1) % 12) + 1).padStart(2, '0');
+    const year = 2024 + Math.floor((i + 1) / 12);
+    series.push({ date: `${year}-${month}-28`, index: series[series.length - 1].index * (1 + r) });
+  });
+  return series;
+};
+
+describe('risk metrics', () => {
+  const returns = [0.02, -0.01, 0.03, -0.04, 0.01, 0.02, -0.02, 0.05, 0.01, -0.03];
+
+  it('computes downside, tail and shape measures from the period returns', () => {
+    const metrics = computeRiskMetrics({ series: fromReturns(returns), granularity: 'monthly', riskFreeRate: 0 })!;
+    expect(metrics.periods).toBe(10);
+
+    const growth = returns.reduce((acc, r) => acc * (1 + r), 1);
+    const annualized = Math.pow(growth, 12 / 10) - 1;
+    expect(metrics.annualizedReturnPct).toBeCloseTo(annualized * 100, 8);
+
+    const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(0, r) ** 2, 0) / returns.length) * Math.sqrt(12);
+    expect(metrics.downsideDeviationPct).toBeCloseTo(downside * 100, 8);
+    expect(metrics.sortino).toBeCloseTo(annualized / downside, 8);
+
+    // 1.02 * 0.99 * 1.03 peak, then -4% trough
+    expect(metrics.maxDrawdownPct).toBeCloseTo(-4, 8);
+    expect(metrics.calmar).toBeCloseTo(annualized / 0.04, 8);
+
+    // 5% of 10 observations rounds down to the single worst one
+    expect(metrics.varHistoricalPct).toBeCloseTo(4, 8);
+    expect(metrics.cvarHistoricalPct).toBeCloseTo(4, 8);
+    expect(metrics.cvarParametricPct).toBeGreaterThan(metrics.varParametricPct);
+    expect(metrics.benchmark).toBeUndefined();
+  });
+
+  it('measures beta and tracking error on the dates shared with the benchmark', () => {
+    const benchmarkReturns = returns.map(r => r / 2);
+    const series = fromReturns(returns);
+    const benchmark = fromReturns(benchmarkReturns).filter((_, i) => i !== 3);
+    const metrics = computeRiskMetrics({ series, granularity: 'monthly', benchmark })!;
+    const bench = metrics.benchmark!;
+    expect(bench.periods).toBe(9);
+    expect(bench.correlation).toBeCloseTo(1, 3);
+    expect(bench.beta).toBeGreaterThan(1.9);
+    expect(bench.trackingErrorPct).toBeGreaterThan(0);
+    expect(Math.sign(bench.informationRatio!)).toBe(Math.sign(bench.activeReturnPct));
+  });
+
+  it('uses the configured rate of the currency and the default otherwise', () => {
+    const settings = { riskFreeRates: { [Currency.CHF]: 0.005 } };
+    expect(getRiskFreeRate(settings, Currency.CHF)).toBe(0.005);
+    expect(getRiskFreeRate(settings, Currency.USD)).toBe(DEFAULT_RISK_FREE_RATE);
+    expect(getRiskFreeRate(undefined, Currency.CHF)).toBe(DEFAULT_RISK_FREE_RATE);
+  });
+
+  it('inverts the normal distribution', () => {
+    expect(normalQuantile(0.05)).toBeCloseTo(-1.6448536, 6);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 8);
+    expect(normalQuantile(0.99)).toBeCloseTo(2.3263479, 6);
+  });
+});
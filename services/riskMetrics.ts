@@ -0,0 +1,203 @@
+import { AppSettings, Currency, PerformancePoint } from '../types';
+import type { Granularity } from './financeUtils';
+
+// Annual rate used for currencies without a configured risk-free rate
+export const DEFAULT_RISK_FREE_RATE = 0.02;
+export const DEFAULT_VAR_CONFIDENCE = 0.95;
+
+export type IndexPoint = {
+  date: string;
+  index: number;
+};
+
+export type RiskMetrics = {
+  periods: number;
+  periodsPerYear: number;
+  confidence: number;
+  riskFreeRatePct: number;
+  annualizedReturnPct: number;
+  volatilityPct: number;
+  downsideDeviationPct: number;
+  sharpe: number;
+  sortino?: number;
+  calmar?: number;
+  maxDrawdownPct: number;
+  // Losses over one period (a day or a month) as positive percentages
+  varHistoricalPct: number;
+  cvarHistoricalPct: number;
+  varParametricPct: number;
+  cvarParametricPct: number;
+  skewness: number;
+  excessKurtosis: number;
+  benchmark?: BenchmarkRiskMetrics;
+};
+
+export type BenchmarkRiskMetrics = {
+  periods: number;
+  beta?: number;
+  correlation?: number;
+  trackingErrorPct: number;
+  activeReturnPct: number;
+  informationRatio?: number;
+};
+
+export type RiskMetricsArgs = {
+  series: IndexPoint[];
+  granularity: Granularity;
+  riskFreeRate?: number;
+  confidence?: number;
+  benchmark?: IndexPoint[];
+};
+
+export const getPeriodsPerYear = (granularity: Granularity) => (granularity === 'daily' ? 252 : 12);
+
+export const getRiskFreeRate = (settings: Pick<AppSettings, 'riskFreeRates'> | undefined, currency: Currency) => {
+  const rate = settings?.riskFreeRates?.[currency];
+  return typeof rate === 'number' && Number.isFinite(rate) ? rate : DEFAULT_RISK_FREE_RATE;
+};
+
+// Same index as calculateAnalytics: the TWRR index where available, the NAV otherwise.
+export const toIndexSeries = (history: PerformancePoint[]): IndexPoint[] => history.map(point => ({
+  date: point.date,
+  index: point.cumulativeTWRRIndex && point.cumulativeTWRRIndex > 0 ? point.cumulativeTWRRIndex : (point.value > 0 ? point.value : 0)
+}));
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+const stdDev = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length || 1));
+};
+
+const annualize = (returns: number[], periodsPerYear: number) => {
+  if (!returns.length) return 0;
+  const growth = returns.reduce((acc, r) => acc * (1 + r), 1);
+  return growth > 0 ? Math.pow(growth, periodsPerYear / returns.length) - 1 : -1;
+};
+
+// Acklam's rational approximation of the standard normal quantile (relative error < 1.2e-9).
+export const normalQuantile = (p: number) => {
+  if (!(p > 0 && p < 1)) return p <= 0 ? -Infinity : Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const normalDensity = (x: number) => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+export const buildPeriodReturns = (series: IndexPoint[]) => {
+  const returns: { date: string; value: number }[] = [];
+  for (let i = 1; i < series.length; i += 1) {
+    const prev = series[i - 1].index;
+    const curr = series[i].index;
+    if (prev > 0 && curr > 0) returns.push({ date: series[i].date, value: curr / prev - 1 });
+  }
+  return returns;
+};
+
+const computeMaxDrawdown = (series: IndexPoint[]) => {
+  let peak = 0;
+  let maxDrawdown = 0;
+  series.forEach(point => {
+    if (!(point.index > 0)) return;
+    if (point.index > peak) peak = point.index;
+    const depth = point.index / peak - 1;
+    if (depth < maxDrawdown) maxDrawdown = depth;
+  });
+  return maxDrawdown;
+};
+
+// Portfolio and benchmark returns over the same intervals: both indices must be known at both ends.
+const alignBenchmarkReturns = (series: IndexPoint[], benchmark: IndexPoint[]) => {
+  const benchmarkByDate = new Map(benchmark.filter(p => p.index > 0).map(p => [p.date, p.index]));
+  const pairs: { portfolio: number; benchmark: number }[] = [];
+  let prev: { portfolio: number; benchmark: number } | null = null;
+  series.forEach(point => {
+    const benchmarkIndex = benchmarkByDate.get(point.date);
+    if (!(point.index > 0) || benchmarkIndex === undefined) return;
+    if (prev) pairs.push({ portfolio: point.index / prev.portfolio - 1, benchmark: benchmarkIndex / prev.benchmark - 1 });
+    prev = { portfolio: point.index, benchmark: benchmarkIndex };
+  });
+  return pairs;
+};
+
+const computeBenchmarkMetrics = (series: IndexPoint[], benchmark: IndexPoint[], periodsPerYear: number): BenchmarkRiskMetrics | undefined => {
+  const pairs = alignBenchmarkReturns(series, benchmark);
+  if (pairs.length < 2) return undefined;
+  const rp = pairs.map(p => p.portfolio);
+  const rb = pairs.map(p => p.benchmark);
+  const meanP = mean(rp);
+  const meanB = mean(rb);
+  const covariance = mean(pairs.map(p => (p.portfolio - meanP) * (p.benchmark - meanB)));
+  const varianceB = mean(rb.map(r => (r - meanB) ** 2));
+  const sdP = stdDev(rp);
+  const sdB = Math.sqrt(varianceB);
+  const trackingError = stdDev(pairs.map(p => p.portfolio - p.benchmark)) * Math.sqrt(periodsPerYear);
+  const activeReturn = annualize(rp, periodsPerYear) - annualize(rb, periodsPerYear);
+  return {
+    periods: pairs.length,
+    beta: varianceB > 0 ? covariance / varianceB : undefined,
+    correlation: sdP > 0 && sdB > 0 ? covariance / (sdP * sdB) : undefined,
+    trackingErrorPct: trackingError * 100,
+    activeReturnPct: activeReturn * 100,
+    informationRatio: trackingError > 0 ? activeReturn / trackingError : undefined
+  };
+};
+
+// Ratios use annualized geometric returns; VaR/CVaR are expressed on the series' own period.
+export const computeRiskMetrics = (args: RiskMetricsArgs): RiskMetrics | null => {
+  const { series, granularity, riskFreeRate = DEFAULT_RISK_FREE_RATE, confidence = DEFAULT_VAR_CONFIDENCE, benchmark } = args;
+  const returns = buildPeriodReturns(series).map(r => r.value);
+  if (returns.length < 2) return null;
+
+  const periodsPerYear = getPeriodsPerYear(granularity);
+  const riskFreePeriod = Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1;
+  const avg = mean(returns);
+  const sd = stdDev(returns);
+  const volatility = sd * Math.sqrt(periodsPerYear);
+  const downsideDeviation = Math.sqrt(mean(returns.map(r => Math.min(0, r - riskFreePeriod) ** 2))) * Math.sqrt(periodsPerYear);
+  const annualizedReturn = annualize(returns, periodsPerYear);
+  const maxDrawdown = computeMaxDrawdown(series);
+
+  const sorted = returns.slice().sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor((1 - confidence) * sorted.length));
+  const tail = sorted.slice(0, tailCount);
+  const z = normalQuantile(1 - confidence);
+
+  const m3 = mean(returns.map(r => (r - avg) ** 3));
+  const m4 = mean(returns.map(r => (r - avg) ** 4));
+
+  return {
+    periods: returns.length,
+    periodsPerYear,
+    confidence,
+    riskFreeRatePct: riskFreeRate * 100,
+    annualizedReturnPct: annualizedReturn * 100,
+    volatilityPct: volatility * 100,
+    downsideDeviationPct: downsideDeviation * 100,
+    sharpe: volatility > 0 ? (annualizedReturn - riskFreeRate) / volatility : 0,
+    sortino: downsideDeviation > 0 ? (annualizedReturn - riskFreeRate) / downsideDeviation : undefined,
+    calmar: maxDrawdown < 0 ? annualizedReturn / Math.abs(maxDrawdown) : undefined,
+    maxDrawdownPct: maxDrawdown * 100,
+    varHistoricalPct: -tail[tail.length - 1] * 100,
+    cvarHistoricalPct: -mean(tail) * 100,
+    varParametricPct: -(avg + z * sd) * 100,
+    cvarParametricPct: -(avg - sd * normalDensity(z) / (1 - confidence)) * 100,
+    skewness: sd > 0 ? m3 / sd ** 3 : 0,
+    excessKurtosis: sd > 0 ? m4 / sd ** 4 - 3 : 0,
+    benchmark: benchmark?.length ? computeBenchmarkMetrics(series, benchmark, periodsPerYear) : undefined
+  };
+};
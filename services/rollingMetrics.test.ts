@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildRollingRows, computeRollingMetrics } from './rollingMetrics';
+import { IndexPoint } from './riskMetrics';
+
+// Month-ends from Jan 2020, alternating +2% / -1% each month
+const buildSeries = (months: number): IndexPoint[] => {
+  const series: IndexPoint[] = [];
+  let index = 100;
+  for (let i = 0; i < months; i += 1) {
+    const year = 2020 + Math.floor(i / 12);
+    const month = String((i % 12) + 1).padStart(2, '0');
+    if (i > 0) index *= i % 2 ? 1.02 : 0.99;
+    series.push({ date: `${year}-${month}-28`, index });
+  }
+  return series;
+};
+
+describe('rolling metrics', () => {
+  it('starts once a full window is available and annualizes over it', () => {
+    const series = buildSeries(25);
+    const points = computeRollingMetrics({ series, windowYears: 1, granularity: 'monthly', riskFreeRate: 0 });
+    expect(points).toHaveLength(13);
+    expect(points[0]).toMatchObject({ date: '2021-01-28', startDate: '2020-01-28' });
+
+    const growth = series[12].index / series[0].index;
+    expect(points[0].returnPct).toBeCloseTo((growth - 1) * 100, 8);
+    // 6 months at +2% and 6 at -1%: mean 0.5%, standard deviation 1.5%
+    expect(points[0].volatilityPct).toBeCloseTo(1.5 * Math.sqrt(12), 8);
+    expect(points[0].sharpe).toBeCloseTo((growth - 1) / (0.015 * Math.sqrt(12)), 8);
+  });
+
+  it('merges the windows by date and leaves out the ones without enough history', () => {
+    const rows = buildRollingRows(buildSeries(40), 'monthly');
+    expect(rows[0].date).toBe('2021-01-28');
+    expect(rows[0].return1Y).toBeDefined();
+    expect(rows[0].return3Y).toBeUndefined();
+    const last = rows[rows.length - 1];
+    expect(last.return3Y).toBeDefined();
+    expect(last.return5Y).toBeUndefined();
+    expect(computeRollingMetrics({ series: buildSeries(6), windowYears: 1, granularity: 'monthly' })).toEqual([]);
+  });
+});
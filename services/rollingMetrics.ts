@@ -0,0 +1,87 @@
+import { addYears, format } from 'date-fns';
+import { parseYmdLocal } from './dateUtils';
+import type { Granularity } from './financeUtils';
+import { DEFAULT_RISK_FREE_RATE, getPeriodsPerYear, IndexPoint } from './riskMetrics';
+
+export const ROLLING_WINDOWS = [1, 3, 5] as const;
+export type RollingWindowYears = typeof ROLLING_WINDOWS[number];
+
+export type RollingPoint = {
+  date: string;
+  // Start of the trailing window actually used (last point on or before date - window)
+  startDate: string;
+  returnPct: number;
+  volatilityPct: number;
+  sharpe?: number;
+};
+
+export type RollingMetricsArgs = {
+  series: IndexPoint[];
+  windowYears: number;
+  granularity: Granularity;
+  riskFreeRate?: number;
+};
+
+export type RollingRow = {
+  date: string;
+} & Partial<Record<`return${RollingWindowYears}Y` | `volatility${RollingWindowYears}Y` | `sharpe${RollingWindowYears}Y`, number>>;
+
+// One point per date with a full window behind it. Returns and squared returns are kept as prefix sums,
+// so each window costs O(1) and long daily histories stay cheap.
+export const computeRollingMetrics = (args: RollingMetricsArgs): RollingPoint[] => {
+  const { series, windowYears, granularity, riskFreeRate = DEFAULT_RISK_FREE_RATE } = args;
+  const points = series.filter(p => p.index > 0).sort((a, b) => a.date.localeCompare(b.date));
+  if (points.length < 3 || windowYears <= 0) return [];
+
+  const periodsPerYear = getPeriodsPerYear(granularity);
+  const sum = [0];
+  const sumSq = [0];
+  for (let i = 1; i < points.length; i += 1) {
+    const r = points[i].index / points[i - 1].index - 1;
+    sum.push(sum[i - 1] + r);
+    sumSq.push(sumSq[i - 1] + r * r);
+  }
+
+  const result: RollingPoint[] = [];
+  let start = 0;
+  for (let end = 1; end < points.length; end += 1) {
+    const windowStart = format(addYears(parseYmdLocal(points[end].date), -windowYears), 'yyyy-MM-dd');
+    if (points[0].date > windowStart) continue;
+    while (start + 1 < end && points[start + 1].date <= windowStart) start += 1;
+
+    const count = end - start;
+    if (count < 2) continue;
+    const mean = (sum[end] - sum[start]) / count;
+    const variance = Math.max(0, (sumSq[end] - sumSq[start]) / count - mean * mean);
+    const volatility = Math.sqrt(variance) * Math.sqrt(periodsPerYear);
+    const annualized = Math.pow(points[end].index / points[start].index, 1 / windowYears) - 1;
+    result.push({
+      date: points[end].date,
+      startDate: points[start].date,
+      returnPct: annualized * 100,
+      volatilityPct: volatility * 100,
+      sharpe: volatility > 0 ? (annualized - riskFreeRate) / volatility : undefined
+    });
+  }
+  return result;
+};
+
+// Rolling series of every window merged by date, for charts plotting the windows side by side.
+export const buildRollingRows = (
+  series: IndexPoint[],
+  granularity: Granularity,
+  riskFreeRate = DEFAULT_RISK_FREE_RATE,
+  windows: readonly RollingWindowYears[] = ROLLING_WINDOWS
+): RollingRow[] => {
+  const byDate = new Map<string, RollingRow>();
+  windows.forEach(windowYears => {
+    computeRollingMetrics({ series, windowYears, granularity, riskFreeRate }).forEach(point => {
+      const row = byDate.get(point.date) || { date: point.date };
+      row[`return${windowYears}Y`] = point.returnPct;
+      row[`volatility${windowYears}Y`] = point.volatilityPct;
+      if (point.sharpe !== undefined) row[`sharpe${windowYears}Y`] = point.sharpe;
+      byDate.set(point.date, row);
+    });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { SavingsPlan, Transaction } from '../types';
+import { getMarketCloseForDate } from './priceService';
+import { applyDraftPrice, SavingsPlanDraft } from './savingsPlans';
+
+const nowIso = () => new Date().toISOString();
+
+export type SavingsPlanInput = Omit<SavingsPlan, 'id' | 'portfolioId' | 'createdAt' | 'updatedAt' | 'skippedDates'>;
+
+const validatePlan = (plan: SavingsPlanInput) => {
+  if (!plan.instrumentTicker) throw new Error('Seleziona lo strumento del piano');
+  if (!Number.isFinite(plan.amount) || plan.amount <= 0) throw new Error('Importo del piano non valido');
+  if (plan.endDate && plan.endDate < plan.startDate) throw new Error('La data di fine precede la data di inizio');
+};
+
+export const saveSavingsPlan = async (params: {
+  id?: number | null;
+  plan: SavingsPlanInput;
+  portfolioId: string;
+}): Promise<number> => {
+  const { id, plan, portfolioId } = params;
+  validatePlan(plan);
+  const fields = {
+    ...plan,
+    account: plan.account.trim(),
+    endDate: plan.endDate || undefined,
+    portfolioId,
+    updatedAt: nowIso()
+  };
+  if (id) {
+    await db.savingsPlans.update(id, fields);
+    return id;
+  }
+  const newId = await db.savingsPlans.add({ ...fields, createdAt: nowIso(), skippedDates: [] });
+  return Number(newId);
+};
+
+export const deleteSavingsPlan = async (id: number): Promise<void> => {
+  await db.savingsPlans.delete(id);
+};
+
+export const skipSavingsPlanExecution = async (plan: SavingsPlan, scheduledDate: string): Promise<void> => {
+  if (!plan.id) return;
+  const skippedDates = Array.from(new Set([...(plan.skippedDates || []), scheduledDate])).sort();
+  await db.savingsPlans.update(plan.id, { skippedDates, updatedAt: nowIso() });
+};
+
+export const confirmSavingsPlanExecution = async (draft: SavingsPlanDraft): Promise<number> => {
+  const tx: Transaction = draft.transaction;
+  if (!Number.isFinite(tx.quantity) || tx.quantity <= 0 || !Number.isFinite(tx.price) || tx.price <= 0) {
+    throw new Error(`Quantità e prezzo richiesti per l'esecuzione del ${draft.scheduledDate}`);
+  }
+  return db.transaction('rw', db.transactions, async () => {
+    const existing = await db.transactions
+      .where('portfolioId')
+      .equals(tx.portfolioId || '')
+      .filter(row => row.savingsPlanId === tx.savingsPlanId && row.savingsPlanDate === tx.savingsPlanDate)
+      .first();
+    if (existing?.id) return existing.id;
+    return Number(await db.transactions.add(tx));
+  });
+};
+
+// Fills the draft with the market close of its date; drafts in a different currency are left unpriced.
+export const priceSavingsPlanDraft = async (plan: SavingsPlan, draft: SavingsPlanDraft): Promise<SavingsPlanDraft> => {
+  const close = await getMarketCloseForDate(plan.portfolioId, plan.instrumentTicker, draft.scheduledDate);
+  if (!close || !Number.isFinite(close.close) || close.close <= 0) return draft;
+  if (close.currency && close.currency !== plan.currency) return draft;
+  return applyDraftPrice(plan, draft, close.close);
+};
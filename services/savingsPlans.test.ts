@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Currency, SavingsPlan, Transaction, TransactionType } from '../types';
+import { applyDraftPrice, compareSavingsPlan, getDueSavingsPlanDrafts, getSavingsPlanSchedule } from './savingsPlans';
+import { validateAndNormalize } from './importExportService';
+
+const makePlan = (overrides: Partial<SavingsPlan> = {}): SavingsPlan => ({
+  id: 7,
+  portfolioId: 'main',
+  instrumentTicker: 'VWRL',
+  amount: 500,
+  currency: Currency.CHF,
+  frequency: 'monthly',
+  account: 'IBKR',
+  startDate: '2024-01-31',
+  fees: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const execution = (savingsPlanDate: string, quantity: number, price: number): Transaction => ({
+  id: 100,
+  date: new Date(`${savingsPlanDate}T12:00:00`),
+  instrumentTicker: 'VWRL',
+  type: TransactionType.Buy,
+  quantity,
+  price,
+  fees: 1,
+  currency: Currency.CHF,
+  account: 'IBKR',
+  portfolioId: 'main',
+  savingsPlanId: 7,
+  savingsPlanDate
+});
+
+describe('savings plans', () => {
+  it('schedules executions on the start day, clamped to month end and moved off weekends', () => {
+    expect(getSavingsPlanSchedule(makePlan(), '2024-06-15')).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-04-01', // 31 March 2024 is a Sunday
+      '2024-04-30',
+      '2024-05-31'
+    ]);
+    expect(getSavingsPlanSchedule(makePlan({ frequency: 'quarterly', startDate: '2024-01-15', endDate: '2024-09-30' }), '2025-01-01'))
+      .toEqual(['2024-01-15', '2024-04-15', '2024-07-15']);
+    expect(getSavingsPlanSchedule(makePlan({ startDate: '2024-07-01' }), '2024-06-30')).toEqual([]);
+  });
+
+  it('drafts only the executions not yet recorded or skipped', () => {
+    const plan = makePlan({ skippedDates: ['2024-02-29'] });
+    const drafts = getDueSavingsPlanDrafts(plan, [execution('2024-01-31', 4.5, 110)], '2024-05-01');
+    expect(drafts.map(draft => draft.scheduledDate)).toEqual(['2024-04-01', '2024-04-30']);
+    expect(drafts[0].transaction).toMatchObject({
+      type: TransactionType.Buy,
+      quantity: 0,
+      price: 0,
+      fees: 1,
+      account: 'IBKR',
+      savingsPlanId: 7,
+      savingsPlanDate: '2024-04-01'
+    });
+
+    const priced = applyDraftPrice(plan, drafts[0], 120);
+    expect(priced.transaction.price).toBe(120);
+    expect(priced.transaction.quantity).toBeCloseTo(499 / 120, 6);
+    expect(priced.priceSource).toBe('market');
+  });
+
+  it('compares planned and actual contributions', () => {
+    const plan = makePlan({ skippedDates: ['2024-02-29'] });
+    const comparison = compareSavingsPlan(plan, [execution('2024-01-31', 4.5, 110)], '2024-04-15');
+    expect(comparison.rows.map(row => row.status)).toEqual(['confirmed', 'skipped', 'due']);
+    expect(comparison.plannedTotal).toBe(1500);
+    expect(comparison.actualTotal).toBeCloseTo(4.5 * 110 + 1, 6);
+    expect(comparison.dueCount).toBe(1);
+  });
+
+  it('round-trips plans through the backup format', () => {
+    const payload = JSON.parse(JSON.stringify({ savingsPlans: [makePlan({ skippedDates: ['2024-02-29'] }), { amount: 10 }] }));
+    const { normalized, report } = validateAndNormalize(payload);
+    expect(normalized.savingsPlans).toHaveLength(1);
+    expect(normalized.savingsPlans[0]).toMatchObject({ instrumentTicker: 'VWRL', frequency: 'monthly', skippedDates: ['2024-02-29'] });
+    expect(report.tables.savingsPlans.discarded).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { addMonths, format, getDaysInMonth, isWeekend, addDays } from 'date-fns';
+import { SavingsPlan, SavingsPlanFrequency, Transaction, TransactionType } from '../types';
+import { isYmd, parseYmdLocal } from './dateUtils';
+
+export const SAVINGS_PLAN_FREQUENCY_LABELS: Record<SavingsPlanFrequency, string> = {
+  monthly: 'Mensile',
+  quarterly: 'Trimestrale',
+  semiannual: 'Semestrale',
+  annual: 'Annuale'
+};
+
+const FREQUENCY_MONTHS: Record<SavingsPlanFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannual: 6,
+  annual: 12
+};
+
+export type SavingsPlanDraft = {
+  planId: number;
+  scheduledDate: string;
+  transaction: Transaction;
+  priceSource?: 'market' | 'manual';
+};
+
+export type SavingsPlanExecutionStatus = 'confirmed' | 'skipped' | 'due';
+
+export type SavingsPlanComparisonRow = {
+  scheduledDate: string;
+  plannedAmount: number;
+  actualAmount: number;
+  status: SavingsPlanExecutionStatus;
+  transactionId?: number;
+};
+
+export type SavingsPlanComparison = {
+  planId: number;
+  rows: SavingsPlanComparisonRow[];
+  plannedTotal: number;
+  actualTotal: number;
+  confirmedCount: number;
+  skippedCount: number;
+  dueCount: number;
+};
+
+const toYmd = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const roundQuantity = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Executions fall on the start day of month (clamped to short months) and move to Monday on weekends.
+export const getSavingsPlanSchedule = (plan: SavingsPlan, untilDate: string): string[] => {
+  if (!isYmd(plan.startDate) || !isYmd(untilDate)) return [];
+  const start = parseYmdLocal(plan.startDate);
+  const lastDate = plan.endDate && isYmd(plan.endDate) && plan.endDate < untilDate ? plan.endDate : untilDate;
+  const step = FREQUENCY_MONTHS[plan.frequency] || 1;
+  const anchorDay = start.getDate();
+  const dates: string[] = [];
+  for (let i = 0; ; i += 1) {
+    const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1, 12), i * step);
+    let execution = new Date(month.getFullYear(), month.getMonth(), Math.min(anchorDay, getDaysInMonth(month)), 12);
+    while (isWeekend(execution)) execution = addDays(execution, 1);
+    const ymd = toYmd(execution);
+    if (ymd > lastDate) break;
+    dates.push(ymd);
+  }
+  return dates;
+};
+
+export const getSavingsPlanExecutions = (plan: SavingsPlan, transactions: Transaction[]): Transaction[] => {
+  if (plan.id === undefined) return [];
+  return transactions.filter(tx => tx.savingsPlanId === plan.id);
+};
+
+export const getExecutionAmount = (tx: Transaction) =>
+  (Number(tx.quantity) || 0) * (Number(tx.price) || 0) + (Number(tx.fees) || 0);
+
+// Draft Buy for one scheduled execution: without a price the quantity stays 0 until the user fills it in.
+export const buildSavingsPlanDraft = (plan: SavingsPlan, scheduledDate: string, price?: number): SavingsPlanDraft => {
+  const fees = Math.max(Number(plan.fees) || 0, 0);
+  const validPrice = Number.isFinite(price) && Number(price) > 0 ? Number(price) : 0;
+  const quantity = validPrice > 0 ? roundQuantity(Math.max(plan.amount - fees, 0) / validPrice) : 0;
+  return {
+    planId: plan.id as number,
+    scheduledDate,
+    priceSource: validPrice > 0 ? 'market' : undefined,
+    transaction: {
+      date: parseYmdLocal(scheduledDate),
+      instrumentTicker: plan.instrumentTicker,
+      type: TransactionType.Buy,
+      quantity,
+      price: validPrice,
+      fees,
+      currency: plan.currency,
+      account: plan.account,
+      portfolioId: plan.portfolioId,
+      savingsPlanId: plan.id,
+      savingsPlanDate: scheduledDate
+    }
+  };
+};
+
+export const getDueSavingsPlanDrafts = (plan: SavingsPlan, transactions: Transaction[], asOfDate: string): SavingsPlanDraft[] => {
+  if (plan.id === undefined) return [];
+  const recorded = new Set(getSavingsPlanExecutions(plan, transactions).map(tx => tx.savingsPlanDate));
+  const skipped = new Set(plan.skippedDates || []);
+  return getSavingsPlanSchedule(plan, asOfDate)
+    .filter(date => !recorded.has(date) && !skipped.has(date))
+    .map(date => buildSavingsPlanDraft(plan, date));
+};
+
+export const applyDraftPrice = (plan: SavingsPlan, draft: SavingsPlanDraft, price: number): SavingsPlanDraft => {
+  const priced = buildSavingsPlanDraft(plan, draft.scheduledDate, price);
+  return { ...priced, transaction: { ...priced.transaction, date: draft.transaction.date } };
+};
+
+export const compareSavingsPlan = (plan: SavingsPlan, transactions: Transaction[], asOfDate: string): SavingsPlanComparison => {
+  const executions = getSavingsPlanExecutions(plan, transactions);
+  const byDate = new Map(executions.map(tx => [tx.savingsPlanDate, tx]));
+  const skipped = new Set(plan.skippedDates || []);
+  const rows: SavingsPlanComparisonRow[] = getSavingsPlanSchedule(plan, asOfDate).map(date => {
+    const tx = byDate.get(date);
+    if (tx) {
+      return { scheduledDate: date, plannedAmount: plan.amount, actualAmount: getExecutionAmount(tx), status: 'confirmed', transactionId: tx.id };
+    }
+    return { scheduledDate: date, plannedAmount: plan.amount, actualAmount: 0, status: skipped.has(date) ? 'skipped' : 'due' };
+  });
+  return {
+    planId: plan.id as number,
+    rows,
+    plannedTotal: rows.reduce((sum, row) => sum + row.plannedAmount, 0),
+    actualTotal: rows.reduce((sum, row) => sum + row.actualAmount, 0),
+    confirmedCount: rows.filter(row => row.status === 'confirmed').length,
+    skippedCount: rows.filter(row => row.status === 'skipped').length,
+    dueCount: rows.filter(row => row.status === 'due').length
+  };
+};
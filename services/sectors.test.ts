@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { AssetClass, AssetType, Currency, EtfBreakdown, Instrument, PortfolioState } from '../types';
+import { calculateSectorExposure } from './financeUtils';
+import { validateAndNormalize } from './importExportService';
+import { toSectorKey } from './sectors';
+
+const instruments: Instrument[] = [
+  {
+    ticker: 'SWDA.SW',
+    name: 'World',
+    type: AssetType.ETF,
+    assetClass: AssetClass.ETF_STOCK,
+    currency: Currency.CHF,
+    sectorAllocation: { TECHNOLOGY: 25, FINANCIALS: 15, HEALTH_CARE: 10 }
+  },
+  { ticker: 'ROG.SW', name: 'Roche', type: AssetType.Stock, currency: Currency.CHF, sector: 'Health Care' },
+  { ticker: 'GOLD.SW', name: 'Gold', type: AssetType.Commodity, currency: Currency.CHF }
+];
+
+const state = {
+  positions: [
+    { ticker: 'SWDA.SW', currentValueCHF: 8000 },
+    { ticker: 'ROG.SW', currentValueCHF: 1000 },
+    { ticker: 'GOLD.SW', currentValueCHF: 1000 }
+  ],
+  totalValue: 10000
+} as unknown as PortfolioState;
+
+describe('sector exposure', () => {
+  it('maps issuer and Italian sector names to sector keys', () => {
+    expect(toSectorKey('Information Technology')).toBe('TECHNOLOGY');
+    expect(toSectorKey('  sanità ')).toBe('HEALTH_CARE');
+    expect(toSectorKey('REAL_ESTATE')).toBe('REAL_ESTATE');
+    expect(toSectorKey('Crypto')).toBeNull();
+  });
+
+  it('splits instruments by their sector allocation and leaves the remainder undefined', () => {
+    const byKey = Object.fromEntries(calculateSectorExposure(state, instruments).map(row => [row.sector, row.value]));
+    expect(byKey).toEqual({
+      TECHNOLOGY: 2000,
+      FINANCIALS: 1200,
+      HEALTH_CARE: 800 + 1000,
+      UNASSIGNED: 4000 + 1000
+    });
+  });
+
+  it('prefers an imported ETF breakdown over the manual split', () => {
+    const breakdown: EtfBreakdown = {
+      ticker: 'SWDA.SW',
+      asOfDate: '2024-09-30',
+      importedAt: '2024-10-01T00:00:00.000Z',
+      country: {},
+      sector: { 'Information Technology': 50, Energy: 30, Crypto: 20 },
+      currency: {}
+    };
+    const rows = calculateSectorExposure(state, instruments, [breakdown]);
+    const byKey = Object.fromEntries(rows.map(row => [row.sector, row.pct]));
+    expect(byKey.TECHNOLOGY).toBeCloseTo(40, 6);
+    expect(byKey.ENERGY).toBeCloseTo(24, 6);
+    expect(byKey.OTHER).toBeCloseTo(16, 6);
+    expect(byKey.FINANCIALS).toBeUndefined();
+  });
+
+  it('keeps only known sector keys in the backup format', () => {
+    const { normalized } = validateAndNormalize({
+      instruments: [
+        { ticker: 'SWDA.SW', name: 'World', type: 'ETF', currency: 'CHF', sectorAllocation: { TECHNOLOGY: '24.5', CRYPTO: 10, ENERGY: 0 } },
+        { ticker: 'ROG.SW', name: 'Roche', type: 'Stock', currency: 'CHF' }
+      ]
+    });
+    expect(normalized.instruments[0].sectorAllocation).toEqual({ TECHNOLOGY: 24.5 });
+    expect(normalized.instruments[1].sectorAllocation).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { SectorKey } from '../types';
+
+// GICS-like order used by editors and charts
+export const SECTOR_KEYS: SectorKey[] = [
+  'TECHNOLOGY',
+  'FINANCIALS',
+  'HEALTH_CARE',
+  'CONSUMER_DISCRETIONARY',
+  'CONSUMER_STAPLES',
+  'COMMUNICATION',
+  'INDUSTRIALS',
+  'MATERIALS',
+  'ENERGY',
+  'UTILITIES',
+  'REAL_ESTATE',
+  'OTHER'
+];
+
+const SECTOR_LABELS: Record<SectorKey, string> = {
+  TECHNOLOGY: 'Tecnologia',
+  FINANCIALS: 'Finanziari',
+  HEALTH_CARE: 'Sanità',
+  CONSUMER_DISCRETIONARY: 'Beni voluttuari',
+  CONSUMER_STAPLES: 'Beni di prima necessità',
+  COMMUNICATION: 'Comunicazioni',
+  INDUSTRIALS: 'Industriali',
+  MATERIALS: 'Materiali',
+  ENERGY: 'Energia',
+  UTILITIES: 'Servizi di pubblica utilità',
+  REAL_ESTATE: 'Immobiliare',
+  OTHER: 'Altro',
+  UNASSIGNED: 'Non definito'
+};
+
+export const getSectorLabel = (key: SectorKey) => SECTOR_LABELS[key] || key;
+
+// Issuer (GICS, Morningstar) and Italian names for each sector
+const SECTOR_ALIASES: Record<Exclude<SectorKey, 'UNASSIGNED'>, string[]> = {
+  TECHNOLOGY: ['information technology', 'technology', 'tech', 'it', 'tecnologia', 'informatica'],
+  FINANCIALS: ['financials', 'financial', 'financial services', 'finance', 'finanziari', 'finanza', 'banks'],
+  HEALTH_CARE: ['health care', 'healthcare', 'sanità', 'sanita', 'salute'],
+  CONSUMER_DISCRETIONARY: ['consumer discretionary', 'consumer cyclical', 'beni voluttuari', 'consumi discrezionali'],
+  CONSUMER_STAPLES: ['consumer staples', 'consumer defensive', 'beni di prima necessità', 'consumi di base'],
+  COMMUNICATION: ['communication', 'communication services', 'telecommunications', 'telecommunication services', 'telecom', 'comunicazioni', 'telecomunicazioni'],
+  INDUSTRIALS: ['industrials', 'industrial', 'industriali', 'industria'],
+  MATERIALS: ['materials', 'basic materials', 'materiali', 'materie prime'],
+  ENERGY: ['energy', 'energia'],
+  UTILITIES: ['utilities', 'utility', 'servizi di pubblica utilità'],
+  REAL_ESTATE: ['real estate', 'reit', 'immobiliare'],
+  OTHER: ['other', 'altro', 'cash', 'cash and/or derivatives', 'liquidità']
+};
+
+const SECTOR_BY_ALIAS = new Map(
+  (Object.entries(SECTOR_ALIASES) as [SectorKey, string[]][])
+    .flatMap(([key, aliases]) => aliases.map(alias => [alias, key] as const))
+);
+
+export const isSectorKey = (value?: string): value is SectorKey => (
+  !!value && (value === 'UNASSIGNED' || SECTOR_KEYS.includes(value as SectorKey))
+);
+
+export const toSectorKey = (raw?: string): SectorKey | null => {
+  const value = (raw || '').trim();
+  if (!value) return null;
+  if (isSectorKey(value)) return value;
+  return SECTOR_BY_ALIAS.get(value.toLowerCase()) || null;
+};
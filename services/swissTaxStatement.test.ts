@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { buildSwissTaxStatement, getLastTradingDay, getStatementYears } from './swissTaxStatement';
+import { buildSwissTaxStatementCsv } from './csvExport';
+import type { FxRateRow } from './fxService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2023-01-10T12:00:00'),
+  instrumentTicker: 'KO',
+  type: TransactionType.Buy,
+  quantity: 100,
+  price: 50,
+  fees: 0,
+  currency: Currency.USD,
+  account: 'IBKR',
+  ...overrides
+});
+
+const instruments: Instrument[] = [
+  { id: 1, ticker: 'KO', symbol: 'KO.US', name: 'Coca-Cola', type: AssetType.Stock, currency: Currency.USD, isin: 'US1912161007' },
+  { id: 2, ticker: 'NESN', symbol: 'NESN.SW', name: 'Nestle', type: AssetType.Stock, currency: Currency.CHF, isin: 'CH0038863350' },
+  { id: 3, ticker: 'SAP', symbol: 'SAP.XETRA', name: 'SAP', type: AssetType.Stock, currency: Currency.EUR, isin: 'DE0007164600' }
+];
+
+const prices: PricePoint[] = [
+  { ticker: 'KO.US', date: '2023-12-29', close: 58.9, currency: Currency.USD },
+  { ticker: 'KO.US', date: '2024-01-02', close: 59.5, currency: Currency.USD },
+  { ticker: 'NESN.SW', date: '2023-12-01', close: 100, currency: Currency.CHF }
+];
+
+const fxRates: FxRateRow[] = [
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2023-04-03', rate: 0.9 },
+  { baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2023-12-29', rate: 0.84 }
+];
+
+const dividend = (date: string, quantity: number, overrides: Partial<Transaction> = {}) =>
+  makeTx({ date: new Date(`${date}T12:00:00`), type: TransactionType.Dividend, quantity, price: 0, ...overrides });
+
+const history = (): Transaction[] => [
+  makeTx({}),
+  makeTx({ date: new Date('2023-02-01T12:00:00'), instrumentTicker: 'NESN', currency: Currency.CHF, quantity: 10, price: 95 }),
+  makeTx({ date: new Date('2023-03-01T12:00:00'), instrumentTicker: 'NESN', currency: Currency.CHF, type: TransactionType.Sell, quantity: 10, price: 105 }),
+  dividend('2023-04-03', 38.25, { grossAmount: 45, withholdingTax: 6.75 }),
+  dividend('2023-02-20', 19.5, { instrumentTicker: 'NESN', currency: Currency.CHF, grossAmount: 30, withholdingTax: 10.5 }),
+  dividend('2024-04-01', 40),
+  makeTx({ date: new Date('2024-02-01T12:00:00'), instrumentTicker: 'SAP', currency: Currency.EUR, quantity: 5, price: 140 })
+];
+
+describe('swiss tax statement', () => {
+  it('uses the last weekday of the year as valuation date', () => {
+    expect(getLastTradingDay(2023)).toBe('2023-12-29');
+    expect(getLastTradingDay(2024)).toBe('2024-12-31');
+  });
+
+  it('values year-end holdings in CHF and lists the income of the year', () => {
+    const statement = buildSwissTaxStatement({ year: 2023, transactions: history(), instruments, prices, fxRates });
+    expect(statement.valuationDate).toBe('2023-12-29');
+    expect(statement.rows.map(row => row.ticker)).toEqual(['KO', 'NESN']);
+
+    const ko = statement.rows[0];
+    expect(ko).toMatchObject({ quantity: 100, close: 58.9, closeDate: '2023-12-29', fxRate: 0.84, country: 'US', payments: 1 });
+    expect(ko.taxValueChf).toBeCloseTo(100 * 58.9 * 0.84, 6);
+    expect(ko.grossIncomeChf).toBeCloseTo(45 * 0.9, 6);
+    expect(ko.foreignWithheldChf).toBeCloseTo(6.75 * 0.9, 6);
+
+    const nesn = statement.rows[1];
+    expect(nesn.quantity).toBe(0);
+    expect(nesn.taxValueChf).toBeUndefined();
+    expect(nesn.swissWithholdingChf).toBeCloseTo(10.5, 6);
+    expect(statement.totals.swissWithholdingChf).toBeCloseTo(10.5, 6);
+    expect(statement.totals.grossIncomeChf).toBeCloseTo(45 * 0.9 + 30, 6);
+    expect(statement.issues).toEqual([]);
+  });
+
+  it('flags missing prices and FX with the data quality issue model', () => {
+    const statement = buildSwissTaxStatement({ year: 2024, transactions: history(), instruments, prices, fxRates });
+    const issues = statement.issues.map(issue => [issue.ticker, issue.type, issue.blocking]);
+    expect(issues).toContainEqual(['KO', 'priceStale', false]);
+    expect(issues).toContainEqual(['KO', 'fxStale', false]);
+    expect(issues).toContainEqual(['SAP', 'priceMissing', true]);
+
+    const fetched = buildSwissTaxStatement({
+      year: 2024,
+      transactions: history(),
+      instruments,
+      prices,
+      fxRates,
+      closes: new Map([['SAP', { close: 180, date: '2024-12-30', currency: Currency.EUR }]])
+    });
+    const sap = fetched.rows.find(row => row.ticker === 'SAP');
+    expect(sap?.valueLocal).toBe(900);
+    expect(fetched.issues).toContainEqual(expect.objectContaining({ ticker: 'SAP', type: 'fxMissing', blocking: true, fxBase: Currency.EUR }));
+  });
+
+  it('exports one CSV row per holding plus totals', () => {
+    const csv = buildSwissTaxStatementCsv(buildSwissTaxStatement({ year: 2023, transactions: history(), instruments, prices, fxRates }));
+    const lines = csv.split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toContain('KO,Coca-Cola,US1912161007,US,100,USD,2023-12-29,58.9,0.84');
+    expect(lines[3]).toContain('TOTAL');
+  });
+
+  it('lists statement years from the last closed year back to the first transaction', () => {
+    const txs = [2017, 2015, 2019, 2015].map(year => makeTx({ date: new Date(year, 5, 10) }));
+    const lastClosed = new Date().getFullYear() - 1;
+    expect(getStatementYears(txs)).toEqual(Array.from({ length: lastClosed - 2015 + 1 }, (_, i) => lastClosed - i));
+    expect(getStatementYears([])).toEqual([]);
+  });
+});
@@ -0,0 +1,241 @@
+import { format, isWeekend, subDays } from 'date-fns';
+import { Currency, Instrument, PricePoint, Transaction, TransactionType, WithholdingRule } from '../types';
+import { buildSplitAdjuster } from './corporateActions';
+import { getDividendBreakdown, getWithholdingCountry, resolveWithholdingRule } from './dividendTax';
+import { calculateHoldings, getCanonicalTicker, getLatestPricePoint } from './financeUtils';
+import { convertAmountFromSeries, FxRateRow } from './fxService';
+import type { RebalanceQualityIssue } from './dataQuality';
+import { diffDaysYmd } from './dateUtils';
+import { FX_STALE_DAYS, PRICE_STALE_DAYS } from './constants';
+
+export const TAX_CURRENCY = Currency.CHF;
+
+export type YearEndClose = {
+  close: number;
+  date: string;
+  currency?: Currency;
+};
+
+export type SwissTaxRow = {
+  ticker: string;
+  name: string;
+  isin?: string;
+  country?: string;
+  quantity: number;
+  currency: Currency;
+  closeDate?: string;
+  close?: number;
+  fxRate?: number;
+  fxDate?: string;
+  valueLocal?: number;
+  taxValueChf?: number;
+  grossIncomeChf: number;
+  withheldChf: number;
+  // Swiss withholding tax refundable through the return (Verrechnungssteuer)
+  swissWithholdingChf: number;
+  foreignWithheldChf: number;
+  reclaimableChf: number;
+  payments: number;
+};
+
+export type SwissTaxStatement = {
+  year: number;
+  valuationDate: string;
+  rows: SwissTaxRow[];
+  totals: {
+    taxValueChf: number;
+    grossIncomeChf: number;
+    withheldChf: number;
+    swissWithholdingChf: number;
+    foreignWithheldChf: number;
+    reclaimableChf: number;
+  };
+  issues: RebalanceQualityIssue[];
+};
+
+// Last weekday of the year; exchange holidays are covered by the latest close on or before it.
+export const getLastTradingDay = (year: number): string => {
+  let day = new Date(year, 11, 31, 12);
+  while (isWeekend(day)) day = subDays(day, 1);
+  return format(day, 'yyyy-MM-dd');
+};
+
+export const buildSwissTaxStatement = (params: {
+  year: number;
+  transactions: Transaction[];
+  instruments: Instrument[];
+  prices: PricePoint[];
+  fxRates: FxRateRow[];
+  closes?: Map<string, YearEndClose>;
+  rules?: Record<string, WithholdingRule>;
+}): SwissTaxStatement => {
+  const { year, transactions, instruments, prices, fxRates, closes, rules } = params;
+  const yearEnd = `${year}-12-31`;
+  const valuationDate = getLastTradingDay(year);
+  const instrumentByTicker = new Map(instruments.map(inst => [inst.ticker, inst]));
+  const splitAdjust = buildSplitAdjuster(transactions);
+  const issues: RebalanceQualityIssue[] = [];
+  const rows = new Map<string, SwissTaxRow>();
+
+  const ensureRow = (ticker: string, currency: Currency) => {
+    const existing = rows.get(ticker);
+    if (existing) return existing;
+    const inst = instrumentByTicker.get(ticker);
+    const row: SwissTaxRow = {
+      ticker,
+      name: inst?.name || ticker,
+      isin: inst?.isin,
+      country: getWithholdingCountry(inst),
+      quantity: 0,
+      currency: inst?.currency || currency,
+      grossIncomeChf: 0,
+      withheldChf: 0,
+      swissWithholdingChf: 0,
+      foreignWithheldChf: 0,
+      reclaimableChf: 0,
+      payments: 0
+    };
+    rows.set(ticker, row);
+    return row;
+  };
+
+  const yearEndTransactions = transactions.filter(tx => format(tx.date, 'yyyy-MM-dd') <= yearEnd);
+  calculateHoldings(yearEndTransactions).forEach((quantity, ticker) => {
+    if (quantity <= 1e-8) return;
+    const inst = instrumentByTicker.get(ticker);
+    const row = ensureRow(ticker, inst?.currency || TAX_CURRENCY);
+    row.quantity = quantity;
+
+    const priceTicker = inst ? getCanonicalTicker(inst) || ticker : ticker;
+    const fetched = closes?.get(ticker);
+    const point = fetched || getLatestPricePoint(priceTicker, yearEnd, prices);
+    if (!point || !(point.close > 0)) {
+      issues.push({
+        ticker,
+        type: 'priceMissing',
+        message: `Prezzo di chiusura mancante al ${valuationDate}`,
+        blocking: true,
+        valuationDate,
+        priceTicker
+      });
+      return;
+    }
+    const priceCurrency = (point.currency || row.currency) as Currency;
+    if (inst?.currency && priceCurrency !== inst.currency) {
+      issues.push({
+        ticker,
+        type: 'currencyMismatch',
+        message: `Currency mismatch: prezzo ${priceCurrency} vs strumento ${inst.currency}`,
+        blocking: false,
+        valuationDate,
+        priceTicker,
+        priceCurrency,
+        instrumentCurrency: inst.currency
+      });
+    }
+    const priceAge = diffDaysYmd(valuationDate, point.date);
+    if (priceAge > PRICE_STALE_DAYS) {
+      issues.push({
+        ticker,
+        type: 'priceStale',
+        message: `Prezzo stale (${priceAge} giorni)`,
+        blocking: false,
+        valuationDate,
+        priceTicker,
+        priceDate: point.date,
+        priceCurrency
+      });
+    }
+    row.currency = priceCurrency;
+    row.closeDate = point.date;
+    row.close = point.close * splitAdjust(ticker, point.date);
+    row.valueLocal = row.close * quantity;
+
+    const fx = convertAmountFromSeries(row.valueLocal, priceCurrency, TAX_CURRENCY, valuationDate, fxRates);
+    if (!fx) {
+      issues.push({
+        ticker,
+        type: 'fxMissing',
+        message: `FX mancante ${priceCurrency}->${TAX_CURRENCY} al ${valuationDate}`,
+        blocking: true,
+        valuationDate,
+        priceTicker,
+        fxBase: priceCurrency,
+        fxQuote: TAX_CURRENCY
+      });
+      return;
+    }
+    const fxAge = priceCurrency === TAX_CURRENCY ? 0 : diffDaysYmd(valuationDate, fx.lookup.date);
+    if (fxAge > FX_STALE_DAYS) {
+      issues.push({
+        ticker,
+        type: 'fxStale',
+        message: `FX stale (${fxAge} giorni)`,
+        blocking: false,
+        valuationDate,
+        priceTicker,
+        fxBase: priceCurrency,
+        fxQuote: TAX_CURRENCY,
+        fxDate: fx.lookup.date
+      });
+    }
+    row.fxRate = fx.lookup.rate;
+    row.fxDate = priceCurrency === TAX_CURRENCY ? valuationDate : fx.lookup.date;
+    row.taxValueChf = fx.value;
+  });
+
+  // Income is converted at the rate of the payment date.
+  transactions.forEach(tx => {
+    if (tx.type !== TransactionType.Dividend || !tx.instrumentTicker) return;
+    if (tx.date.getFullYear() !== year) return;
+    const date = format(tx.date, 'yyyy-MM-dd');
+    const row = ensureRow(tx.instrumentTicker, tx.currency);
+    const breakdown = getDividendBreakdown(tx, resolveWithholdingRule(row.country, rules));
+    const fx = convertAmountFromSeries(1, tx.currency, TAX_CURRENCY, date, fxRates);
+    if (!fx) {
+      issues.push({
+        ticker: tx.instrumentTicker,
+        type: 'fxMissing',
+        message: `FX mancante ${tx.currency}->${TAX_CURRENCY} al ${date} (dividendo)`,
+        blocking: true,
+        valuationDate: date,
+        fxBase: tx.currency,
+        fxQuote: TAX_CURRENCY
+      });
+      return;
+    }
+    const rate = fx.lookup.rate;
+    row.payments += 1;
+    row.grossIncomeChf += breakdown.gross * rate;
+    row.withheldChf += breakdown.withheld * rate;
+    row.reclaimableChf += breakdown.reclaimable * rate;
+    if (row.country === 'CH') row.swissWithholdingChf += breakdown.withheld * rate;
+    else row.foreignWithheldChf += breakdown.withheld * rate;
+  });
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) => a.ticker.localeCompare(b.ticker));
+  const sum = (pick: (row: SwissTaxRow) => number | undefined) => sortedRows.reduce((acc, row) => acc + (pick(row) || 0), 0);
+  return {
+    year,
+    valuationDate,
+    rows: sortedRows,
+    totals: {
+      taxValueChf: sum(row => row.taxValueChf),
+      grossIncomeChf: sum(row => row.grossIncomeChf),
+      withheldChf: sum(row => row.withheldChf),
+      swissWithholdingChf: sum(row => row.swissWithholdingChf),
+      foreignWithheldChf: sum(row => row.foreignWithheldChf),
+      reclaimableChf: sum(row => row.reclaimableChf)
+    },
+    issues
+  };
+};
+
+export const getStatementYears = (transactions: Transaction[]): number[] => {
+  if (!transactions.length) return [];
+  const first = transactions.reduce((min, tx) => Math.min(min, tx.date.getFullYear()), Infinity);
+  const last = Math.max(new Date().getFullYear() - 1, first);
+  const years: number[] = [];
+  for (let year = last; year >= first; year -= 1) years.push(year);
+  return years;
+};
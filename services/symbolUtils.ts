@@ -1,4 +1,5 @@
 import { AssetType, Currency } from '../types';
+import { normalizeCurrencyCode } from './currencyUtils';
 
 export const ISIN_REGEX = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
 export const EODHD_SYMBOL_REGEX = /^[A-Z0-9-]+\.[A-Z0-9]+$/;
@@ -32,13 +33,7 @@ export const isValidEodhdSymbol = (value: string, assetType?: AssetType): boolea
   return EODHD_SYMBOL_REGEX.test(resolved);
 };
 
-export const asCurrency = (value: unknown): Currency | undefined => {
-  const str = typeof value === 'string' ? value.toUpperCase() : '';
-  if (str === 'CHF' || str === 'EUR' || str === 'USD' || str === 'GBP') {
-    return str as Currency;
-  }
-  return undefined;
-};
+export const asCurrency = (value: unknown): Currency | undefined => normalizeCurrencyCode(value) || undefined;
 
 export const asString = (value: unknown) => {
   if (typeof value === 'string') return value;
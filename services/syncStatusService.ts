@@ -88,6 +88,7 @@ export const computeSyncStatus = (params: {
   fxRates?: FxRateRow[];
   valuationDate?: string;
   today?: string;
+  fxPivots?: Currency[];
 }): SyncStatus => {
   const {
     baseCurrency,
@@ -98,7 +99,8 @@ export const computeSyncStatus = (params: {
     prices = [],
     fxRates = [],
     valuationDate,
-    today = new Date().toISOString().slice(0, 10)
+    today = new Date().toISOString().slice(0, 10),
+    fxPivots
   } = params;
 
   const holdingsTickers = getHoldingsTickers(holdings);
@@ -119,14 +121,24 @@ export const computeSyncStatus = (params: {
   let qualityIssues: RebalanceQualityIssue[] = [];
   const effectiveValuationDate = valuationDate || latestPricesAt || today;
   if (holdingsTickers.length > 0 && instruments.length > 0) {
-    const quality = analyzeRebalanceQuality(holdings, instruments, prices, fxRates, effectiveValuationDate, baseCurrency);
+    const quality = analyzeRebalanceQuality(
+      holdings,
+      instruments,
+      prices,
+      fxRates,
+      effectiveValuationDate,
+      baseCurrency,
+      undefined,
+      fxPivots
+    );
     qualityIssues = quality.issues || [];
   }
   const missingPrices = qualityIssues.filter(i => i.type === 'priceMissing').length;
   const missingFx = qualityIssues.filter(i => i.type === 'fxMissing').length;
   const currencyMismatch = qualityIssues.filter(i => i.type === 'currencyMismatch').length;
   const stale = qualityIssues.filter(i => i.type === 'priceStale' || i.type === 'fxStale').length;
-  const qualityOk = qualityIssues.length === 0;
+  // Triangulated FX is informational: the value is still computed.
+  const qualityOk = qualityIssues.every(i => i.type === 'fxTriangulated');
 
   return {
     latestPricesAt,
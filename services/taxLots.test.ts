@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Currency, Transaction, TransactionType } from '../types';
+import { computePositionCostBasis } from './positionCostBasis';
+import { computeTaxLotLedger, previewLotSale, summarizeOpenLots } from './taxLots';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date(2026, 0, 1),
+  instrumentTicker: 'AAA',
+  type: TransactionType.Buy,
+  quantity: 1,
+  price: 100,
+  fees: 0,
+  currency: Currency.USD,
+  account: 'TEST',
+  ...overrides
+});
+
+const history = (): Transaction[] => [
+  makeTx({ id: 1, date: new Date(2024, 0, 10), quantity: 10, price: 100, fees: 10 }),
+  makeTx({ id: 2, date: new Date(2025, 2, 1), quantity: 10, price: 150 }),
+  makeTx({ id: 3, date: new Date(2025, 5, 1), type: TransactionType.Sell, quantity: 15, price: 160, fees: 5 })
+];
+
+describe('computeTaxLotLedger', () => {
+  it('closes the oldest lots first with FIFO', () => {
+    const ledger = computeTaxLotLedger(history(), { method: 'FIFO', asOfDate: '2026-01-01' });
+    expect(ledger.realized).toHaveLength(1);
+    const sale = ledger.realized[0];
+    expect(sale.lots.map(l => [l.lotId, l.quantity])).toEqual([['1', 10], ['2', 5]]);
+    expect(sale.costBasis).toBeCloseTo(1010 + 750, 6);
+    expect(sale.proceeds).toBeCloseTo(15 * 160 - 5, 6);
+    expect(sale.realizedGain).toBeCloseTo(2395 - 1760, 6);
+    expect(sale.lots[0].holdingDays).toBeGreaterThan(365);
+
+    expect(ledger.openLots).toHaveLength(1);
+    expect(ledger.openLots[0]).toMatchObject({ lotId: '2', quantity: 5, openDate: '2025-03-01' });
+    expect(ledger.openLots[0].holdingDays).toBe(306);
+  });
+
+  it('closes the newest lots first with LIFO', () => {
+    const ledger = computeTaxLotLedger(history(), { method: 'LIFO', asOfDate: '2026-01-01' });
+    const sale = ledger.realized[0];
+    expect(sale.lots.map(l => [l.lotId, l.quantity])).toEqual([['2', 10], ['1', 5]]);
+    expect(sale.costBasis).toBeCloseTo(1500 + 505, 6);
+    expect(ledger.openLots[0]).toMatchObject({ lotId: '1', quantity: 5 });
+    expect(ledger.openLots[0].costBasis).toBeCloseTo(505, 6);
+  });
+
+  it('matches the running average cost basis with AVERAGE', () => {
+    const txs = history();
+    const ledger = computeTaxLotLedger(txs, { method: 'AVERAGE' });
+    const avg = computePositionCostBasis(txs).get('AAA');
+    const summary = summarizeOpenLots(ledger).get('AAA');
+    expect(summary?.quantity).toBeCloseTo(avg?.quantity || 0, 8);
+    expect(summary?.totalCost).toBeCloseTo(avg?.totalCost || 0, 8);
+    expect(ledger.realized[0].costBasis).toBeCloseTo(15 * (2510 / 20), 6);
+  });
+
+  it('uses the selected lots with SPECIFIC and falls back to FIFO for the remainder', () => {
+    const txs = history();
+    txs[2] = { ...txs[2], lotSelections: [{ lotId: '2', quantity: 8 }] };
+    const ledger = computeTaxLotLedger(txs, { method: 'SPECIFIC' });
+    expect(ledger.realized[0].lots.map(l => [l.lotId, l.quantity])).toEqual([['2', 8], ['1', 7]]);
+    const open = ledger.openLots.map(l => [l.lotId, l.quantity]);
+    expect(open).toEqual([['1', 3], ['2', 2]]);
+  });
+
+  it('warns on sells exceeding the open quantity', () => {
+    const ledger = computeTaxLotLedger([
+      makeTx({ id: 1, quantity: 2 }),
+      makeTx({ id: 2, date: new Date(2026, 1, 1), type: TransactionType.Sell, quantity: 3, price: 120 })
+    ], { method: 'FIFO' });
+    expect(ledger.warnings).toHaveLength(1);
+    expect(ledger.realized[0].quantity).toBe(2);
+    expect(ledger.realized[0].proceeds).toBeCloseTo(240, 6);
+    expect(ledger.openLots).toHaveLength(0);
+  });
+
+  it('closes only the lots held in the account of the sale', () => {
+    const ledger = computeTaxLotLedger([
+      makeTx({ id: 1, date: new Date(2024, 0, 10), account: 'Degiro', quantity: 10, price: 100 }),
+      makeTx({ id: 2, date: new Date(2025, 2, 1), account: 'IBKR', quantity: 10, price: 150 }),
+      makeTx({ id: 3, date: new Date(2025, 5, 1), account: 'IBKR', type: TransactionType.Sell, quantity: 4, price: 160 })
+    ], { method: 'FIFO', asOfDate: '2026-01-01' });
+    expect(ledger.realized[0].lots.map(l => [l.lotId, l.quantity])).toEqual([['2', 4]]);
+    expect(ledger.openLots.map(l => [l.lotId, l.account, l.quantity])).toEqual([['1', 'Degiro', 10], ['2', 'IBKR', 6]]);
+
+    const preview = previewLotSale(ledger, { ticker: 'AAA', quantity: 12, price: 200, account: 'IBKR' });
+    expect(preview?.quantity).toBe(6);
+  });
+
+  it('flags picked lots held in another account with SPECIFIC', () => {
+    const txs = [
+      makeTx({ id: 1, date: new Date(2024, 0, 10), account: 'Degiro', quantity: 10, price: 100 }),
+      makeTx({ id: 2, date: new Date(2025, 2, 1), account: 'IBKR', quantity: 10, price: 150 }),
+      makeTx({ id: 3, date: new Date(2025, 3, 1), account: 'IBKR', quantity: 10, price: 170 }),
+      makeTx({
+        id: 4,
+        date: new Date(2025, 5, 1),
+        account: 'IBKR',
+        type: TransactionType.Sell,
+        quantity: 4,
+        price: 160,
+        lotSelections: [{ lotId: '1', quantity: 2 }, { lotId: '3', quantity: 2 }]
+      })
+    ];
+    const ledger = computeTaxLotLedger(txs, { method: 'SPECIFIC', asOfDate: '2026-01-01' });
+    expect(ledger.realized[0].lots.map(l => [l.lotId, l.quantity])).toEqual([['3', 2], ['2', 2]]);
+    expect(ledger.warnings).toHaveLength(1);
+    expect(ledger.warnings[0]).toContain('lotti 1 non disponibili nel conto IBKR');
+    expect(ledger.openLots.find(l => l.lotId === '1')?.quantity).toBe(10);
+
+    const open = computeTaxLotLedger(txs.slice(0, 3), { method: 'SPECIFIC', asOfDate: '2026-01-01' });
+    expect(() => previewLotSale(open, {
+      ticker: 'AAA',
+      quantity: 2,
+      price: 160,
+      account: 'IBKR',
+      selections: [{ lotId: '1', quantity: 2 }]
+    })).toThrow('non disponibili');
+  });
+});
+
+describe('previewLotSale', () => {
+  it('estimates the realized gain of a hypothetical sale without mutating the ledger', () => {
+    const ledger = computeTaxLotLedger(history().slice(0, 2), { method: 'FIFO' });
+    const preview = previewLotSale(ledger, { ticker: 'AAA', quantity: 12, price: 200, date: '2026-01-01' });
+    expect(preview?.costBasis).toBeCloseTo(1010 + 300, 6);
+    expect(preview?.realizedGain).toBeCloseTo(2400 - 1310, 6);
+    expect(ledger.openLots.map(l => l.quantity)).toEqual([10, 10]);
+  });
+});
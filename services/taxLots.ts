@@ -0,0 +1,380 @@
+import { format } from 'date-fns';
+import { CostBasisMethod, Currency, LotSelection, Transaction, TransactionType } from '../types';
+import { clampCostAllocation, getSplitFactor, isCorporateAction, sortTransactionsForReplay } from './corporateActions';
+import { diffDaysYmd } from './dateUtils';
+import type { PositionCostBasis } from './positionCostBasis';
+
+export type TaxLot = {
+  lotId: string;
+  ticker: string;
+  openDate: string;
+  originalQuantity: number;
+  quantity: number;
+  unitCost: number;
+  costBasis: number;
+  currency?: Currency;
+  account?: string;
+  holdingDays: number;
+};
+
+export type ClosedLotSlice = {
+  lotId: string;
+  openDate: string;
+  quantity: number;
+  costBasis: number;
+  holdingDays: number;
+};
+
+export type RealizedLotGain = {
+  transactionId?: number;
+  ticker: string;
+  date: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+  currency?: Currency;
+  lots: ClosedLotSlice[];
+};
+
+export type TaxLotLedger = {
+  method: CostBasisMethod;
+  openLots: TaxLot[];
+  realized: RealizedLotGain[];
+  warnings: string[];
+};
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  FIFO: 'FIFO (primo entrato, primo uscito)',
+  LIFO: 'LIFO (ultimo entrato, primo uscito)',
+  AVERAGE: 'Costo medio',
+  SPECIFIC: 'Lotto specifico'
+};
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'AVERAGE';
+
+const QTY_EPSILON = 1e-8;
+
+const toYmd = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const getLotId = (tx: Transaction, fallbackIndex: number) =>
+  tx.id !== undefined && tx.id !== null ? String(tx.id) : `${tx.instrumentTicker}-${toYmd(tx.date)}-${fallbackIndex}`;
+
+const orderLots = (lots: TaxLot[], method: CostBasisMethod) => {
+  return method === 'LIFO' ? lots.slice().reverse() : lots;
+};
+
+const consumeLots = (
+  lots: TaxLot[],
+  quantity: number,
+  method: CostBasisMethod,
+  sellDate: string,
+  selections?: LotSelection[],
+  account?: string
+): { slices: ClosedLotSlice[]; unmatched: number; rejected: LotSelection[] } => {
+  const slices: ClosedLotSlice[] = [];
+  // Picks of lots that are closed or held in another account
+  const rejected: LotSelection[] = [];
+  let remaining = quantity;
+  // A sale only closes lots held in its own account; lots without an account match any sale
+  const candidates = account ? lots.filter(lot => !lot.account || lot.account === account) : lots;
+
+  const take = (lot: TaxLot, qty: number) => {
+    const used = Math.min(qty, lot.quantity);
+    if (used <= QTY_EPSILON) return 0;
+    const cost = lot.unitCost * used;
+    slices.push({
+      lotId: lot.lotId,
+      openDate: lot.openDate,
+      quantity: used,
+      costBasis: cost,
+      holdingDays: diffDaysYmd(sellDate, lot.openDate)
+    });
+    lot.quantity -= used;
+    lot.costBasis = lot.unitCost * lot.quantity;
+    return used;
+  };
+
+  if (method === 'SPECIFIC' && selections?.length) {
+    selections.forEach(selection => {
+      if (remaining <= QTY_EPSILON) return;
+      const lot = candidates.find(l => l.lotId === selection.lotId);
+      if (!lot) {
+        rejected.push(selection);
+        return;
+      }
+      remaining -= take(lot, Math.min(selection.quantity, remaining));
+    });
+  }
+
+  if (method === 'AVERAGE') {
+    const totalQty = candidates.reduce((sum, lot) => sum + lot.quantity, 0);
+    const totalCost = candidates.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const avgCost = totalQty > 0 ? totalCost / totalQty : 0;
+    candidates.forEach(lot => {
+      lot.unitCost = avgCost;
+      lot.costBasis = avgCost * lot.quantity;
+    });
+  }
+
+  // SPECIFIC without (enough) selections falls back to FIFO for the remainder.
+  orderLots(candidates, method).forEach(lot => {
+    if (remaining <= QTY_EPSILON) return;
+    remaining -= take(lot, remaining);
+  });
+
+  return { slices, unmatched: Math.max(remaining, 0), rejected };
+};
+
+const describeRejectedLots = (ticker: string, date: string, account: string | undefined, rejected: LotSelection[]) => (
+  `${ticker} ${date}: lotti ${rejected.map(sel => sel.lotId).join(', ')} non disponibili${account ? ` nel conto ${account}` : ''}, usato FIFO.`
+);
+
+// Splits rescale the lots, ticker changes move them and spin-offs carve out part of their cost;
+// the original open date is kept so holding periods survive the corporate action.
+const applyCorporateActionToLots = (lotsByTicker: Map<string, TaxLot[]>, tx: Transaction) => {
+  const ticker = tx.instrumentTicker as string;
+  const factor = getSplitFactor(tx);
+  if (factor !== null) {
+    (lotsByTicker.get(ticker) || []).forEach(lot => {
+      lot.quantity *= factor;
+      lot.originalQuantity *= factor;
+      lot.unitCost /= factor;
+    });
+    return;
+  }
+  if (!tx.relatedTicker || tx.relatedTicker === ticker) return;
+  const sourceLots = lotsByTicker.get(tx.relatedTicker) || [];
+  if (tx.type === TransactionType.TickerChange) {
+    if (!sourceLots.length) return;
+    const merged = [...(lotsByTicker.get(ticker) || []), ...sourceLots.map(lot => ({ ...lot, ticker }))]
+      .sort((a, b) => a.openDate.localeCompare(b.openDate));
+    lotsByTicker.delete(tx.relatedTicker);
+    lotsByTicker.set(ticker, merged);
+    return;
+  }
+  if (tx.type !== TransactionType.SpinOff) return;
+  const qty = Number(tx.quantity || 0);
+  if (!Number.isFinite(qty) || qty <= 0) return;
+  const allocation = clampCostAllocation(tx.costAllocation);
+  const parentQty = sourceLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const childLots = lotsByTicker.get(ticker) || [];
+  if (parentQty <= QTY_EPSILON) {
+    const date = toYmd(tx.date);
+    childLots.push({
+      lotId: getLotId(tx, 0),
+      ticker,
+      openDate: date,
+      originalQuantity: qty,
+      quantity: qty,
+      unitCost: 0,
+      costBasis: 0,
+      currency: tx.currency,
+      holdingDays: 0
+    });
+  } else {
+    sourceLots.forEach(lot => {
+      const movedCost = lot.costBasis * allocation;
+      const childQty = qty * (lot.quantity / parentQty);
+      lot.costBasis -= movedCost;
+      lot.unitCost = lot.costBasis / lot.quantity;
+      childLots.push({
+        lotId: `${lot.lotId}:${ticker}`,
+        ticker,
+        openDate: lot.openDate,
+        originalQuantity: childQty,
+        quantity: childQty,
+        unitCost: movedCost / childQty,
+        costBasis: movedCost,
+        currency: tx.currency,
+        account: lot.account,
+        holdingDays: 0
+      });
+    });
+  }
+  lotsByTicker.set(ticker, childLots.sort((a, b) => a.openDate.localeCompare(b.openDate)));
+};
+
+export const computeTaxLotLedger = (
+  transactions: Transaction[],
+  options: { method?: CostBasisMethod; asOfDate?: string } = {}
+): TaxLotLedger => {
+  const method = options.method || DEFAULT_COST_BASIS_METHOD;
+  const asOfDate = options.asOfDate || toYmd(new Date());
+  const sorted = sortTransactionsForReplay(transactions
+    .filter(t => Boolean(t.instrumentTicker))
+    .filter(t => t.type === TransactionType.Buy
+      || t.type === TransactionType.Sell
+      || t.type === TransactionType.TransferOut
+      || t.type === TransactionType.TransferIn
+      || isCorporateAction(t.type)));
+
+  const lotsByTicker = new Map<string, TaxLot[]>();
+  const realized: RealizedLotGain[] = [];
+  const warnings: string[] = [];
+  // Lots taken out by a transfer leg, handed to the incoming leg of the same transfer
+  const inTransit = new Map<string, ClosedLotSlice[]>();
+
+  sorted.forEach((tx, index) => {
+    if (isCorporateAction(tx.type)) {
+      applyCorporateActionToLots(lotsByTicker, tx);
+      return;
+    }
+    const ticker = tx.instrumentTicker as string;
+    const qty = Number(tx.quantity || 0);
+    if (!Number.isFinite(qty) || qty <= 0) return;
+    const price = Number(tx.price || 0);
+    const fees = Number.isFinite(Number(tx.fees)) ? Number(tx.fees || 0) : 0;
+    const date = toYmd(tx.date);
+    const lots = lotsByTicker.get(ticker) || [];
+
+    if (tx.type === TransactionType.Buy) {
+      const costBasis = qty * price + fees;
+      lots.push({
+        lotId: getLotId(tx, index),
+        ticker,
+        openDate: date,
+        originalQuantity: qty,
+        quantity: qty,
+        unitCost: costBasis / qty,
+        costBasis,
+        currency: tx.currency,
+        account: tx.account,
+        holdingDays: 0
+      });
+      lotsByTicker.set(ticker, lots);
+      return;
+    }
+
+    if (tx.type === TransactionType.TransferIn) {
+      const moved = (tx.transferId && inTransit.get(tx.transferId)) || tx.transferLots || [];
+      if (tx.transferId) inTransit.delete(tx.transferId);
+      const movedQty = moved.reduce((sum, lot) => sum + lot.quantity, 0);
+      moved.forEach(lot => {
+        if (lot.quantity <= QTY_EPSILON) return;
+        // Part of a lot left behind keeps the original id; the moved part is labelled with its new account
+        const lotId = lots.some(open => open.lotId === lot.lotId) ? `${lot.lotId}:${tx.account}` : lot.lotId;
+        lots.push({
+          lotId,
+          ticker,
+          openDate: lot.openDate,
+          originalQuantity: lot.quantity,
+          quantity: lot.quantity,
+          unitCost: lot.costBasis / lot.quantity,
+          costBasis: lot.costBasis,
+          currency: tx.currency,
+          account: tx.account,
+          holdingDays: 0
+        });
+      });
+      // Without lot details the remainder is booked at the transfer price, like a purchase
+      const rest = qty - movedQty;
+      if (rest > QTY_EPSILON) {
+        lots.push({
+          lotId: getLotId(tx, index),
+          ticker,
+          openDate: date,
+          originalQuantity: rest,
+          quantity: rest,
+          unitCost: price,
+          costBasis: rest * price,
+          currency: tx.currency,
+          account: tx.account,
+          holdingDays: 0
+        });
+      }
+      lotsByTicker.set(ticker, lots.sort((a, b) => a.openDate.localeCompare(b.openDate)));
+      return;
+    }
+
+    if (tx.type === TransactionType.TransferOut) {
+      // Recorded lots are replayed as a specific pick, except under average cost where every lot costs the same
+      const pickMethod: CostBasisMethod = method !== 'AVERAGE' && tx.lotSelections?.length ? 'SPECIFIC' : method;
+      const { slices, unmatched, rejected } = consumeLots(lots, qty, pickMethod, date, tx.lotSelections, tx.account);
+      if (rejected.length) warnings.push(describeRejectedLots(ticker, date, tx.account, rejected));
+      if (unmatched > QTY_EPSILON) {
+        warnings.push(`${ticker} ${date}: trasferimento di ${qty} oltre le quote in carico (${unmatched.toFixed(4)} senza lotto).`);
+      }
+      lotsByTicker.set(ticker, lots.filter(lot => lot.quantity > QTY_EPSILON));
+      if (tx.transferId) inTransit.set(tx.transferId, slices);
+      return;
+    }
+
+    const { slices, unmatched, rejected } = consumeLots(lots, qty, method, date, tx.lotSelections, tx.account);
+    if (rejected.length) warnings.push(describeRejectedLots(ticker, date, tx.account, rejected));
+    if (unmatched > QTY_EPSILON) {
+      warnings.push(`${ticker} ${date}: vendita di ${qty} oltre le quote in carico (${unmatched.toFixed(4)} senza lotto).`);
+    }
+    const matchedQty = qty - unmatched;
+    lotsByTicker.set(ticker, lots.filter(lot => lot.quantity > QTY_EPSILON));
+    if (matchedQty <= QTY_EPSILON) return;
+
+    const proceeds = (qty * price - fees) * (matchedQty / qty);
+    const costBasis = slices.reduce((sum, slice) => sum + slice.costBasis, 0);
+    realized.push({
+      transactionId: tx.id,
+      ticker,
+      date,
+      quantity: matchedQty,
+      proceeds,
+      costBasis,
+      realizedGain: proceeds - costBasis,
+      currency: tx.currency,
+      lots: slices
+    });
+  });
+
+  const openLots: TaxLot[] = [];
+  lotsByTicker.forEach(lots => {
+    lots.forEach(lot => {
+      openLots.push({ ...lot, holdingDays: diffDaysYmd(asOfDate, lot.openDate) });
+    });
+  });
+
+  return { method, openLots, realized, warnings };
+};
+
+export const getOpenLotsForTicker = (ledger: TaxLotLedger, ticker: string): TaxLot[] =>
+  ledger.openLots.filter(lot => lot.ticker === ticker);
+
+export const summarizeOpenLots = (ledger: TaxLotLedger): Map<string, PositionCostBasis> => {
+  const result = new Map<string, PositionCostBasis>();
+  ledger.openLots.forEach(lot => {
+    const entry = result.get(lot.ticker) || { ticker: lot.ticker, quantity: 0, totalCost: 0, currency: lot.currency };
+    entry.quantity += lot.quantity;
+    entry.totalCost += lot.costBasis;
+    if (!entry.currency && lot.currency) entry.currency = lot.currency;
+    result.set(lot.ticker, entry);
+  });
+  result.forEach(entry => {
+    const avgCost = entry.totalCost / entry.quantity;
+    entry.avgCost = Number.isFinite(avgCost) ? avgCost : undefined;
+  });
+  return result;
+};
+
+// Throws when picked lots are not open in the account of the sale
+export const previewLotSale = (
+  ledger: TaxLotLedger,
+  params: { ticker: string; quantity: number; price: number; date?: string; selections?: LotSelection[]; account?: string }
+): RealizedLotGain | null => {
+  const lots = getOpenLotsForTicker(ledger, params.ticker).map(lot => ({ ...lot }));
+  if (!lots.length || params.quantity <= 0) return null;
+  const date = params.date || toYmd(new Date());
+  const { slices, unmatched, rejected } = consumeLots(lots, params.quantity, ledger.method, date, params.selections, params.account);
+  if (rejected.length) throw new Error(describeRejectedLots(params.ticker, date, params.account, rejected));
+  const matchedQty = params.quantity - unmatched;
+  if (matchedQty <= QTY_EPSILON) return null;
+  const proceeds = matchedQty * params.price;
+  const costBasis = slices.reduce((sum, slice) => sum + slice.costBasis, 0);
+  return {
+    ticker: params.ticker,
+    date,
+    quantity: matchedQty,
+    proceeds,
+    costBasis,
+    realizedGain: proceeds - costBasis,
+    currency: lots[0].currency,
+    lots: slices
+  };
+};
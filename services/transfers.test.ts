@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { AssetType, Currency, Instrument, PricePoint, Transaction, TransactionType } from '../types';
+import { buildNavSeriesDetailed, calculateHistoricalPerformance, calculateHoldings, computeMwrrForRange, computeXIRR } from './financeUtils';
+import { computePositionCostBasis } from './positionCostBasis';
+import { computeTaxLotLedger } from './taxLots';
+import { buildTransferPair, findUnpairedTransfers } from './transfers';
+import { validateAndNormalize } from './importExportService';
+
+const makeTx = (overrides: Partial<Transaction>): Transaction => ({
+  date: new Date('2024-01-10T12:00:00'),
+  instrumentTicker: 'VWRL',
+  type: TransactionType.Buy,
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  currency: Currency.CHF,
+  account: 'Degiro',
+  portfolioId: 'main',
+  ...overrides
+});
+
+const instrument: Instrument = { id: 1, ticker: 'VWRL', symbol: 'VWRL', name: 'Vanguard All-World', type: AssetType.ETF, currency: Currency.CHF };
+
+const prices: PricePoint[] = [
+  { ticker: 'VWRL', date: '2024-01-10', close: 100, currency: Currency.CHF },
+  { ticker: 'VWRL', date: '2024-03-01', close: 120, currency: Currency.CHF },
+  { ticker: 'VWRL', date: '2024-05-02', close: 130, currency: Currency.CHF }
+];
+
+const purchases = (): Transaction[] => [
+  makeTx({ id: 1, type: TransactionType.Deposit, instrumentTicker: undefined, quantity: 5000, price: 0 }),
+  makeTx({ id: 2, quantity: 10, price: 100, fees: 10 }),
+  makeTx({ id: 3, date: new Date('2024-03-01T12:00:00'), quantity: 10, price: 120 })
+];
+
+const transferDate = new Date('2024-05-02T12:00:00');
+
+const withTransfer = (toPortfolioId = 'main') => {
+  const history = purchases();
+  const ledger = computeTaxLotLedger(history, { method: 'FIFO', asOfDate: '2024-05-02' });
+  const pair = buildTransferPair(ledger, {
+    ticker: 'VWRL',
+    quantity: 15,
+    date: transferDate,
+    currency: Currency.CHF,
+    fromAccount: 'Degiro',
+    toAccount: 'IBKR',
+    fromPortfolioId: 'main',
+    toPortfolioId,
+    price: 130
+  });
+  return { history, pair };
+};
+
+describe('in-kind transfers', () => {
+  it('moves the original lots to the destination account', () => {
+    const { pair } = withTransfer();
+    expect(pair.outgoing).toMatchObject({ type: TransactionType.TransferOut, account: 'Degiro', counterpartyAccount: 'IBKR' });
+    expect(pair.incoming).toMatchObject({ type: TransactionType.TransferIn, account: 'IBKR', counterpartyAccount: 'Degiro' });
+    expect(pair.incoming.transferId).toBe(pair.outgoing.transferId);
+    expect(pair.incoming.counterpartyPortfolioId).toBeUndefined();
+    expect(pair.incoming.transferLots).toEqual([
+      { lotId: '2', openDate: '2024-01-10', quantity: 10, costBasis: 1010 },
+      { lotId: '3', openDate: '2024-03-01', quantity: 5, costBasis: 600 }
+    ]);
+    expect(() => buildTransferPair(computeTaxLotLedger(purchases()), {
+      ticker: 'VWRL',
+      quantity: 50,
+      date: transferDate,
+      currency: Currency.CHF,
+      fromAccount: 'Degiro',
+      toAccount: 'IBKR',
+      fromPortfolioId: 'main',
+      toPortfolioId: 'main'
+    })).toThrow();
+  });
+
+  it('keeps quantity, cost basis and holding periods across an account transfer', () => {
+    const { history, pair } = withTransfer();
+    const txs = [...history, { ...pair.outgoing, id: 4 }, { ...pair.incoming, id: 5 }];
+    expect(calculateHoldings(txs).get('VWRL')).toBeCloseTo(20, 8);
+    expect(computePositionCostBasis(txs).get('VWRL')?.totalCost).toBeCloseTo(1010 + 1200, 6);
+
+    const sale = makeTx({ id: 6, date: new Date('2024-06-03T12:00:00'), type: TransactionType.Sell, account: 'IBKR', quantity: 10, price: 140 });
+    const ledger = computeTaxLotLedger([...txs, sale], { method: 'FIFO', asOfDate: '2024-06-30' });
+    expect(ledger.realized[0].lots).toEqual([
+      expect.objectContaining({ lotId: '2', openDate: '2024-01-10', quantity: 10, costBasis: 1010 })
+    ]);
+    expect(ledger.openLots.map(lot => [lot.lotId, lot.account, lot.quantity])).toEqual([['3', 'Degiro', 5], ['3:IBKR', 'IBKR', 5]]);
+    expect(ledger.warnings).toEqual([]);
+  });
+
+  it('does not create external or internal flows in the NAV series', () => {
+    const { history, pair } = withTransfer();
+    const txs = [...history, { ...pair.outgoing, id: 4 }, { ...pair.incoming, id: 5 }];
+    const nav = buildNavSeriesDetailed(txs, [instrument], prices, 'daily', undefined, '2024-05-02');
+    const day = nav.find(point => point.date === '2024-05-02');
+    expect(day?.externalFlow).toBe(0);
+    expect(day?.internalFlow).toBe(0);
+    expect(day?.holdingsValue).toBeCloseTo(20 * 130, 6);
+    expect(day?.cashBalance).toBeCloseTo(5000 - 1010 - 1200, 6);
+  });
+
+  it('books a cross-portfolio transfer as a flow at market value in both portfolios', () => {
+    const { history, pair } = withTransfer('pension');
+    const quotes = [...prices, { ticker: 'VWRL', date: '2024-05-03', close: 143, currency: Currency.CHF }];
+    const source = [...history, { ...pair.outgoing, price: 0, id: 4 }];
+    const target = [
+      makeTx({ id: 10, portfolioId: 'pension', type: TransactionType.Deposit, instrumentTicker: undefined, quantity: 1300, price: 0 }),
+      makeTx({ id: 11, portfolioId: 'pension', quantity: 10, price: 100 }),
+      { ...pair.incoming, id: 12 }
+    ];
+    const dayReturn = (txs: Transaction[]) => calculateHistoricalPerformance(txs, [instrument], quotes, 12, 'daily')
+      .history.find(point => point.date === '2024-05-02')?.monthlyReturnPct;
+
+    // 20 shares gain 10 each before 15 leave at 130; the cash left behind is 5000 - 1010 - 1200
+    expect(dayReturn(source)).toBeCloseTo((20 * 10 / (20 * 120 + 2790)) * 100, 6);
+    // 10 shares gain 10 each before 15 arrive at 130
+    expect(dayReturn(target)).toBeCloseTo((10 * 10 / (10 * 120 + 300)) * 100, 6);
+
+    const nav = buildNavSeriesDetailed(target, [instrument], quotes, 'daily', undefined, '2024-05-03');
+    expect(nav.find(point => point.date === '2024-05-02')?.externalFlow).toBeCloseTo(15 * 130, 6);
+    const targetHistory = calculateHistoricalPerformance(target, [instrument], quotes, 12, 'daily').history;
+    const mwrr = computeMwrrForRange(targetHistory, target, { instruments: [instrument], prices: quotes });
+    const expected = computeXIRR([
+      { date: '2024-01-10', amount: -1300 },
+      { date: '2024-05-02', amount: -15 * 130 },
+      { date: '2024-05-03', amount: 25 * 143 + 300 }
+    ]);
+    expect(mwrr).toBeCloseTo(expected as number, 6);
+  });
+
+  it('converts a cross-portfolio transfer in a foreign currency to the base currency', () => {
+    const vti: Instrument = { id: 2, ticker: 'VTI', symbol: 'VTI', name: 'Vanguard Total', type: AssetType.ETF, currency: Currency.USD };
+    const quotes: PricePoint[] = [
+      { ticker: 'VTI', date: '2024-05-02', close: 100, currency: Currency.USD },
+      { ticker: 'VTI', date: '2024-05-03', close: 110, currency: Currency.USD }
+    ];
+    const fx = {
+      fxRates: [{ baseCurrency: Currency.USD, quoteCurrency: Currency.CHF, date: '2024-01-02', rate: 0.9 }],
+      baseCurrency: Currency.CHF
+    };
+    const target = [
+      makeTx({ id: 1, date: new Date('2024-05-01T12:00:00'), portfolioId: 'pension', type: TransactionType.Deposit, instrumentTicker: undefined, quantity: 1000, price: 0 }),
+      makeTx({
+        id: 2,
+        date: transferDate,
+        portfolioId: 'pension',
+        instrumentTicker: 'VTI',
+        type: TransactionType.TransferIn,
+        quantity: 10,
+        price: 100,
+        currency: Currency.USD,
+        counterpartyPortfolioId: 'main'
+      })
+    ];
+    const history = calculateHistoricalPerformance(target, [vti], quotes, 12, 'daily', fx).history;
+    const dayReturn = (date: string) => history.find(point => point.date === date)?.monthlyReturnPct;
+
+    expect(dayReturn('2024-05-02')).toBeCloseTo(0, 6);
+    expect(dayReturn('2024-05-03')).toBeCloseTo((10 * 10 * 0.9 / (900 + 1000)) * 100, 6);
+
+    const mwrr = computeMwrrForRange(history, target, { instruments: [vti], prices: quotes, fx });
+    const expected = computeXIRR([
+      { date: '2024-05-01', amount: -1000 },
+      { date: '2024-05-02', amount: -900 },
+      { date: '2024-05-03', amount: 10 * 110 * 0.9 + 1000 }
+    ]);
+    expect(mwrr).toBeCloseTo(expected as number, 6);
+  });
+
+  it('carries lots into another portfolio and flags unpaired legs', () => {
+    const { pair } = withTransfer('pension');
+    expect(pair.outgoing.counterpartyPortfolioId).toBe('pension');
+    expect(pair.incoming).toMatchObject({ portfolioId: 'pension', counterpartyPortfolioId: 'main' });
+
+    const target = [{ ...pair.incoming, id: 10 }];
+    const ledger = computeTaxLotLedger(target, { method: 'FIFO', asOfDate: '2024-05-02' });
+    expect(ledger.openLots.map(lot => [lot.lotId, lot.openDate, lot.costBasis])).toEqual([
+      ['2', '2024-01-10', 1010],
+      ['3', '2024-03-01', 600]
+    ]);
+    expect(computePositionCostBasis(target).get('VWRL')?.totalCost).toBeCloseTo(1610, 6);
+    expect(findUnpairedTransfers(target)).toHaveLength(1);
+    expect(findUnpairedTransfers([pair.outgoing, pair.incoming])).toEqual([]);
+  });
+
+  it('round-trips transfer legs through the backup format', () => {
+    const { pair } = withTransfer();
+    const payload = JSON.parse(JSON.stringify({ transactions: [pair.outgoing, pair.incoming] }));
+    const { normalized, warnings } = validateAndNormalize(payload);
+    expect(normalized.transactions).toHaveLength(2);
+    expect(normalized.transactions[1]).toMatchObject({
+      type: TransactionType.TransferIn,
+      transferId: pair.outgoing.transferId,
+      counterpartyAccount: 'Degiro',
+      transferLots: pair.incoming.transferLots
+    });
+    expect(warnings.some(w => w.includes('trasferimenti'))).toBe(false);
+
+    const lone = validateAndNormalize(JSON.parse(JSON.stringify({ transactions: [pair.incoming] })));
+    expect(lone.warnings.some(w => w.includes('trasferimenti senza la controparte'))).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { Currency, LotSelection, Transaction, TransactionType, TransferredLot } from '../types';
+import { createUuid } from './idUtils';
+import { DEFAULT_CASH_ACCOUNT } from './cashLedger';
+import { previewLotSale, TaxLotLedger } from './taxLots';
+
+export const TRANSFER_TYPES: TransactionType[] = [TransactionType.TransferOut, TransactionType.TransferIn];
+
+export const isTransfer = (type: TransactionType) => TRANSFER_TYPES.includes(type);
+
+export type TransferRequest = {
+  ticker: string;
+  quantity: number;
+  date: Date;
+  currency: Currency;
+  fromAccount: string;
+  toAccount: string;
+  fromPortfolioId: string;
+  toPortfolioId: string;
+  price?: number;
+  fees?: number;
+  selections?: LotSelection[];
+  note?: string;
+};
+
+export type TransferPair = {
+  outgoing: Transaction;
+  incoming: Transaction;
+};
+
+// A transfer only moves shares: quantities change, cash (apart from the transfer fee) does not.
+// Flows only arise across portfolios, where each leg is valued at market as a deposit or withdrawal.
+export const applyTransferToQuantities = (quantities: Map<string, number>, tx: Transaction) => {
+  const ticker = tx.instrumentTicker;
+  if (!ticker || !isTransfer(tx.type)) return;
+  const qty = Number(tx.quantity || 0);
+  if (!Number.isFinite(qty) || qty <= 0) return;
+  const current = quantities.get(ticker) || 0;
+  quantities.set(ticker, tx.type === TransactionType.TransferIn ? current + qty : current - qty);
+};
+
+export const getTransferredCost = (tx: Transaction): number | null => {
+  if (!tx.transferLots?.length) return null;
+  return tx.transferLots.reduce((sum, lot) => sum + (Number(lot.costBasis) || 0), 0);
+};
+
+// The outgoing leg records the lots it closes so a replay picks the same ones under any method;
+// the incoming leg carries them with their original open date and cost.
+export const buildTransferPair = (ledger: TaxLotLedger, request: TransferRequest): TransferPair => {
+  const fromAccount = request.fromAccount.trim() || DEFAULT_CASH_ACCOUNT;
+  const toAccount = request.toAccount.trim() || DEFAULT_CASH_ACCOUNT;
+  const crossPortfolio = request.fromPortfolioId !== request.toPortfolioId;
+  if (!crossPortfolio && fromAccount === toAccount) {
+    throw new Error('Conto e portafoglio di destinazione coincidono con quelli di origine');
+  }
+  if (!Number.isFinite(request.quantity) || request.quantity <= 0) {
+    throw new Error('Quantità da trasferire non valida');
+  }
+  const preview = previewLotSale(ledger, {
+    ticker: request.ticker,
+    quantity: request.quantity,
+    price: 0,
+    selections: request.selections,
+    account: fromAccount
+  });
+  if (!preview || preview.quantity < request.quantity - 1e-8) {
+    throw new Error(`Quote in carico insufficienti per trasferire ${request.quantity} ${request.ticker}`);
+  }
+
+  const transferId = createUuid();
+  const transferLots: TransferredLot[] = preview.lots.map(slice => ({
+    lotId: slice.lotId,
+    openDate: slice.openDate,
+    quantity: slice.quantity,
+    costBasis: slice.costBasis
+  }));
+  const shared = {
+    date: request.date,
+    instrumentTicker: request.ticker,
+    quantity: request.quantity,
+    price: Number(request.price) || 0,
+    currency: request.currency,
+    note: request.note,
+    transferId
+  };
+
+  return {
+    outgoing: {
+      ...shared,
+      type: TransactionType.TransferOut,
+      fees: Number(request.fees) || 0,
+      account: fromAccount,
+      portfolioId: request.fromPortfolioId,
+      counterpartyAccount: toAccount,
+      counterpartyPortfolioId: crossPortfolio ? request.toPortfolioId : undefined,
+      lotSelections: transferLots.map(lot => ({ lotId: lot.lotId, quantity: lot.quantity }))
+    },
+    incoming: {
+      ...shared,
+      type: TransactionType.TransferIn,
+      fees: 0,
+      account: toAccount,
+      portfolioId: request.toPortfolioId,
+      counterpartyAccount: fromAccount,
+      counterpartyPortfolioId: crossPortfolio ? request.fromPortfolioId : undefined,
+      transferLots
+    }
+  };
+};
+
+// Legs whose counterpart is missing from the given rows (e.g. a partial export or a deleted leg).
+export const findUnpairedTransfers = (transactions: Transaction[]): Transaction[] => {
+  const legs = new Map<string, Set<TransactionType>>();
+  transactions.forEach(tx => {
+    if (!isTransfer(tx.type) || !tx.transferId) return;
+    const types = legs.get(tx.transferId) || new Set<TransactionType>();
+    types.add(tx.type);
+    legs.set(tx.transferId, types);
+  });
+  return transactions.filter(tx => isTransfer(tx.type) && (!tx.transferId || (legs.get(tx.transferId)?.size || 0) < 2));
+};
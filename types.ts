@@ -20,20 +20,45 @@ export enum AssetClass {
 
 export type RegionKey = 'CH' | 'NA' | 'EU' | 'AS' | 'OC' | 'LATAM' | 'AF' | 'UNASSIGNED' | 'OTHER';
 
-export enum Currency {
-  CHF = 'CHF',
-  EUR = 'EUR',
-  USD = 'USD',
-  GBP = 'GBP'
-}
+export type SectorKey =
+  | 'TECHNOLOGY'
+  | 'FINANCIALS'
+  | 'HEALTH_CARE'
+  | 'CONSUMER_DISCRETIONARY'
+  | 'CONSUMER_STAPLES'
+  | 'COMMUNICATION'
+  | 'INDUSTRIALS'
+  | 'MATERIALS'
+  | 'ENERGY'
+  | 'UTILITIES'
+  | 'REAL_ESTATE'
+  | 'OTHER'
+  | 'UNASSIGNED';
+
+// Any ISO-4217 code (plus crypto quote units such as USDT); validated by services/currencyUtils.
+// The constants are the built-in defaults used across the app.
+export const Currency = {
+  CHF: 'CHF',
+  EUR: 'EUR',
+  USD: 'USD',
+  GBP: 'GBP'
+} as const;
+export type Currency = (typeof Currency)[keyof typeof Currency] | (string & {});
 
 export enum TransactionType {
   Buy = 'Buy',
   Sell = 'Sell',
-  Dividend = 'Dividend',
+  Dividend = 'Dividend', // quantity = net amount credited; grossAmount / withholdingTax when known
   Deposit = 'Deposit', // Cash in
   Withdrawal = 'Withdrawal', // Cash out
-  Fee = 'Fee'
+  Fee = 'Fee',
+  Split = 'Split', // quantity = new shares per old share (4 for a 4:1 split)
+  ReverseSplit = 'ReverseSplit', // quantity = old shares per new share (10 for a 1:10 consolidation)
+  SpinOff = 'SpinOff', // instrumentTicker = new instrument, quantity = shares received
+  TickerChange = 'TickerChange', // instrumentTicker = new ticker, relatedTicker = previous ticker
+  FxConversion = 'FxConversion', // quantity = amount sold in currency, price = rate into toCurrency
+  TransferOut = 'TransferOut', // in-kind transfer leg leaving account / portfolio, paired by transferId
+  TransferIn = 'TransferIn' // in-kind transfer leg arriving with the original lots (transferLots)
 }
 
 export interface Instrument {
@@ -52,8 +77,10 @@ export interface Instrument {
   listings?: InstrumentListing[];
   assetClass?: AssetClass;
   regionAllocation?: Partial<Record<RegionKey, number>>;
+  sectorAllocation?: Partial<Record<SectorKey, number>>; // percentages, like regionAllocation
   tradePrecisionDecimals?: number;
   terPct?: number; // percentage, e.g. 0.20 = 0.20%
+  switchTerPct?: number; // TER of a cheaper alternative to switch to, same unit as terPct
 }
 
 export interface InstrumentListing {
@@ -74,6 +101,20 @@ export interface PriceTickerConfig {
   sheetSymbol?: string;
 }
 
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE' | 'SPECIFIC';
+
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+export interface TransferredLot {
+  lotId: string;
+  openDate: string; // YYYY-MM-DD of the original purchase
+  quantity: number;
+  costBasis: number;
+}
+
 export interface Transaction {
   id?: number;
   portfolioId?: string;
@@ -87,6 +128,37 @@ export interface Transaction {
   currency: Currency;
   account: string; // e.g., 'IBKR', 'Degiro'
   note?: string;
+  lotSelections?: LotSelection[]; // Sell only: lots closed when the portfolio uses SPECIFIC
+  relatedTicker?: string; // SpinOff: parent instrument; TickerChange: previous ticker
+  costAllocation?: number; // SpinOff only: share (0-1) of the parent cost basis moved to the new instrument
+  toCurrency?: Currency; // FxConversion only: cash currency credited with quantity * price
+  transferId?: string; // TransferOut / TransferIn: shared by the two legs of a transfer
+  counterpartyAccount?: string; // TransferOut: destination account; TransferIn: source account
+  counterpartyPortfolioId?: string; // Set when the other leg belongs to a different portfolio
+  transferLots?: TransferredLot[]; // TransferIn only: lots moved with their original open date and cost
+  grossAmount?: number; // Dividend only: amount before withholding tax
+  withholdingTax?: number; // Dividend only: tax withheld at source (gross - net)
+  reclaimableTax?: number; // Dividend only: part of the withholding that can be reclaimed or credited
+  savingsPlanId?: number; // Execution of a savings plan (PAC)
+  savingsPlanDate?: string; // YYYY-MM-DD of the scheduled execution it confirms
+}
+
+export type SavingsPlanFrequency = 'monthly' | 'quarterly' | 'semiannual' | 'annual';
+
+export interface SavingsPlan {
+  id?: number;
+  portfolioId: string;
+  instrumentTicker: string;
+  amount: number; // Invested per execution, fees included, in currency
+  currency: Currency;
+  frequency: SavingsPlanFrequency;
+  account: string;
+  startDate: string; // YYYY-MM-DD, also sets the day of month of each execution
+  endDate?: string;
+  fees?: number; // Expected fee per execution
+  skippedDates?: string[]; // Scheduled executions the user chose not to record
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface PricePoint {
@@ -150,6 +222,16 @@ export interface AppSettings {
   priceBackfillScope?: 'current' | 'all';
   preferredExchangesOrder?: string[]; // es. ['SW','US','LSE','XETRA','MI','PA']
   priceTickerConfig?: Record<string, PriceTickerConfig>;
+  costBasisMethod?: CostBasisMethod;
+  withholdingRules?: Record<string, WithholdingRule>; // ISO country code -> overrides of the default rates
+  fxPivotCurrency?: Currency; // cross currency for FX pairs without a stored rate (default USD)
+  attributionBenchmarks?: Record<string, number>; // instrument ticker -> backtestImports id replacing its own prices in the target benchmark
+  riskFreeRates?: Record<string, number>; // currency -> annual risk-free rate (0-1) for Sharpe/Sortino
+}
+
+export interface WithholdingRule {
+  rate: number; // 0-1, withheld on the gross dividend
+  reclaimableRate: number; // 0-1 of the gross dividend, recoverable through reclaim or tax credit
 }
 
 // --- NEW ANALYTICS TYPES ---
@@ -261,6 +343,43 @@ export interface BacktestScenarioAssetRecord {
   importId?: number;
 }
 
+export type BenchmarkRebalanceRule = 'none' | 'monthly' | 'quarterly' | 'annual';
+
+export interface CustomBenchmarkComponent {
+  source: 'APP_DB' | 'CSV_IMPORT';
+  ticker: string; // price ticker for APP_DB, import ticker for CSV_IMPORT
+  name?: string;
+  importId?: number;
+  currency?: string;
+  weightPct: number;
+}
+
+export interface CustomBenchmark {
+  id?: number;
+  portfolioId?: string;
+  name: string;
+  components: CustomBenchmarkComponent[];
+  rebalance: BenchmarkRebalanceRule;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type LookThroughDimension = 'country' | 'sector' | 'currency';
+
+// Underlying breakdown of a fund from the issuer's holdings file; weights in % of the fund
+export interface EtfBreakdown {
+  id?: number;
+  portfolioId?: string;
+  ticker: string; // instrument symbol (or ticker when no symbol)
+  asOfDate: string; // YYYY-MM-DD of the issuer data
+  importedAt: string;
+  fileName?: string;
+  holdingsCount?: number;
+  country: Record<string, number>; // ISO 3166 alpha-2 when recognized, issuer label otherwise
+  sector: Record<string, number>;
+  currency: Record<string, number>;
+}
+
 export interface BacktestScenarioRecord {
   id?: number;
   portfolioId?: string;